@@ -0,0 +1,28 @@
+-- Creditra Backend — columns required by the PostgreSQL repository implementations
+-- (src/repositories/postgres). See docs/data-model.md.
+--
+-- Rollback:
+--   ALTER TABLE credit_lines DROP COLUMN available_credit, DROP COLUMN interest_rate_bps;
+--   ALTER TABLE credit_lines ALTER COLUMN currency DROP DEFAULT;
+--   ALTER TABLE risk_evaluations DROP COLUMN expires_at;
+--   ALTER TABLE transactions DROP COLUMN status, DROP COLUMN blockchain_tx_hash, DROP COLUMN processed_at;
+
+-- Credit lines: remaining drawable amount and pricing
+ALTER TABLE credit_lines ADD COLUMN available_credit NUMERIC(28,8);
+UPDATE credit_lines SET available_credit = credit_limit;
+ALTER TABLE credit_lines ALTER COLUMN available_credit SET NOT NULL;
+
+ALTER TABLE credit_lines ADD COLUMN interest_rate_bps INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE credit_lines ALTER COLUMN currency SET DEFAULT 'USDC';
+
+-- Risk evaluations: cache expiry (existing rows are treated as already expired)
+ALTER TABLE risk_evaluations ADD COLUMN expires_at TIMESTAMPTZ NOT NULL DEFAULT now();
+
+CREATE INDEX risk_evaluations_expires_at_idx ON risk_evaluations (expires_at);
+
+-- Transactions: settlement lifecycle
+ALTER TABLE transactions ADD COLUMN status TEXT NOT NULL DEFAULT 'pending';
+ALTER TABLE transactions ADD COLUMN blockchain_tx_hash TEXT;
+ALTER TABLE transactions ADD COLUMN processed_at TIMESTAMPTZ;
+
+CREATE INDEX transactions_status_idx ON transactions (status);
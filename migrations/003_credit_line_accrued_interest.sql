@@ -0,0 +1,7 @@
+-- Creditra Backend — interest accrued on a credit line and not yet repaid.
+-- Repayments settle accrued interest before principal.
+--
+-- Rollback:
+--   ALTER TABLE credit_lines DROP COLUMN accrued_interest;
+
+ALTER TABLE credit_lines ADD COLUMN accrued_interest NUMERIC(28,8) NOT NULL DEFAULT 0;
@@ -0,0 +1,16 @@
+-- Creditra Backend — resume points for chain event ingestion.
+-- One row per ingestion stream (e.g. the Horizon listener for a set of
+-- contracts) holding the RPC paging cursor and the last processed ledger, so
+-- a restarted listener resumes where it left off.
+--
+-- Rollback:
+--   DROP TABLE ingestion_cursors;
+
+CREATE TABLE ingestion_cursors (
+  name        TEXT PRIMARY KEY,
+  cursor      TEXT NOT NULL,
+  last_ledger BIGINT NOT NULL,
+  updated_at  TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE ingestion_cursors IS 'Last processed position per chain event ingestion stream';
@@ -0,0 +1,9 @@
+-- Creditra Backend — store ingested contract events against their contract.
+-- Contract events (see src/services/EventIngestionService.ts) use the Soroban
+-- contract ID as aggregate_id, which is not a UUID, so the column becomes
+-- TEXT. Existing UUIDs are kept in their text form.
+--
+-- Rollback (only once no contract events are stored):
+--   ALTER TABLE events ALTER COLUMN aggregate_id TYPE UUID USING aggregate_id::uuid;
+
+ALTER TABLE events ALTER COLUMN aggregate_id TYPE TEXT;
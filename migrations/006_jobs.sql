@@ -0,0 +1,27 @@
+-- Creditra Backend — durable job queue (src/services/pgJobQueue.ts).
+-- Workers claim due jobs with SELECT ... FOR UPDATE SKIP LOCKED, so several
+-- processes can share one queue. A claimed job is locked until locked_until;
+-- if its worker dies, the job becomes claimable again once that passes.
+--
+-- Rollback:
+--   DROP TABLE jobs;
+
+CREATE TABLE jobs (
+  id           TEXT PRIMARY KEY,
+  type         TEXT NOT NULL,
+  payload      JSONB,
+  status       TEXT NOT NULL DEFAULT 'pending',
+  attempts     INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  run_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by    TEXT,
+  locked_until TIMESTAMPTZ,
+  last_error   TEXT,
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX jobs_status_run_at_idx ON jobs (status, run_at);
+CREATE INDEX jobs_type_status_idx ON jobs (type, status);
+
+COMMENT ON TABLE jobs IS 'Background jobs; status is pending, running, completed or failed';
@@ -0,0 +1,8 @@
+-- Creditra Backend — per-job retry policy for PgJobQueue.
+-- Holds { initialDelayMs, multiplier, maxDelayMs, jitter }; jobs enqueued
+-- before this migration fall back to the queue's default policy.
+--
+-- Rollback:
+--   ALTER TABLE jobs DROP COLUMN retry_policy;
+
+ALTER TABLE jobs ADD COLUMN retry_policy JSONB;
@@ -0,0 +1,12 @@
+-- Creditra Backend — per-key serialization for PgJobQueue.
+-- Jobs sharing a serialization_key run one at a time, in enqueue order (seq).
+--
+-- Rollback:
+--   DROP INDEX jobs_serialization_key_seq_idx;
+--   ALTER TABLE jobs DROP COLUMN serialization_key, DROP COLUMN seq;
+
+ALTER TABLE jobs ADD COLUMN serialization_key TEXT;
+ALTER TABLE jobs ADD COLUMN seq BIGSERIAL;
+
+CREATE INDEX jobs_serialization_key_seq_idx ON jobs (serialization_key, seq)
+  WHERE serialization_key IS NOT NULL;
@@ -0,0 +1,18 @@
+-- Creditra Backend — job queue administration.
+-- attempt_history records every attempt of a job for operators; cancelled
+-- jobs stay in the table until retried. job_type_pauses holds the job types
+-- that no worker may claim.
+--
+-- Rollback:
+--   DROP TABLE job_type_pauses;
+--   ALTER TABLE jobs DROP COLUMN started_at, DROP COLUMN attempt_history;
+
+ALTER TABLE jobs ADD COLUMN started_at TIMESTAMPTZ;
+ALTER TABLE jobs ADD COLUMN attempt_history JSONB NOT NULL DEFAULT '[]';
+
+COMMENT ON TABLE jobs IS 'Background jobs; status is pending, running, completed, failed or cancelled';
+
+CREATE TABLE job_type_pauses (
+  type      TEXT PRIMARY KEY,
+  paused_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
@@ -0,0 +1,27 @@
+-- Creditra Backend — recurring job schedules for PgJobQueue.
+-- Each occurrence inserts a job with id '<schedule id>:<occurrence>' in the
+-- same statement that advances next_run_at, so exactly one worker fires it.
+--
+-- Rollback:
+--   DROP TABLE job_schedules;
+--   ALTER TABLE jobs DROP COLUMN scheduled_for;
+
+ALTER TABLE jobs ADD COLUMN scheduled_for TIMESTAMPTZ;
+
+CREATE TABLE job_schedules (
+  id               TEXT PRIMARY KEY,
+  type             TEXT NOT NULL,
+  payload          JSONB,
+  cron             TEXT,
+  interval_ms      BIGINT,
+  misfire          TEXT NOT NULL,
+  misfire_grace_ms BIGINT NOT NULL,
+  job_options      JSONB NOT NULL DEFAULT '{}',
+  next_run_at      TIMESTAMPTZ NOT NULL,
+  last_run_at      TIMESTAMPTZ,
+  created_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at       TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT job_schedules_timing_check CHECK ((cron IS NULL) <> (interval_ms IS NULL))
+);
+
+CREATE INDEX job_schedules_next_run_at_idx ON job_schedules (next_run_at);
@@ -0,0 +1,17 @@
+-- Creditra Backend — unique-key deduplication for PgJobQueue.
+-- At most one job per unique_key may wait for its first attempt; once a job
+-- has started, a new one with the same key can be enqueued.
+--
+-- Rollback:
+--   DROP INDEX jobs_unique_key_completed_idx;
+--   DROP INDEX jobs_unique_key_waiting_idx;
+--   ALTER TABLE jobs DROP COLUMN unique_key;
+
+ALTER TABLE jobs ADD COLUMN unique_key TEXT;
+
+CREATE UNIQUE INDEX jobs_unique_key_waiting_idx ON jobs (unique_key)
+  WHERE status = 'pending' AND started_at IS NULL;
+
+-- "Completed recently" lookups for uniqueTtlMs.
+CREATE INDEX jobs_unique_key_completed_idx ON jobs (unique_key, updated_at)
+  WHERE status = 'completed' AND unique_key IS NOT NULL;
@@ -0,0 +1,38 @@
+-- Creditra Backend — versioned risk model configurations.
+-- Each published version holds the factor weights, score-to-limit curve,
+-- pricing and score bands used to turn a risk score into terms. Versions are
+-- never edited; every risk evaluation records the version that produced it.
+-- Version 1 is the built-in default model (DEFAULT_RISK_MODEL_CONFIG), which
+-- existing evaluations were computed with.
+--
+-- Rollback:
+--   ALTER TABLE risk_evaluations DROP COLUMN model_version;
+--   DROP TABLE risk_models;
+
+CREATE TABLE risk_models (
+  version      INTEGER PRIMARY KEY CHECK (version > 0),
+  config       JSONB NOT NULL,
+  description  TEXT,
+  published_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+COMMENT ON TABLE risk_models IS 'Published risk model versions; the highest version is current';
+
+INSERT INTO risk_models (version, config, description) VALUES (
+  1,
+  '{
+    "weights": { "wallet_age": 0.2, "payment_volume": 0.25, "balance_stability": 0.2, "repayment_history": 0.35 },
+    "limitCurve": [{ "score": 0, "creditLimit": "1000" }, { "score": 100, "creditLimit": "0" }],
+    "baseRateBps": 500,
+    "riskPremiumBps": 500,
+    "bands": { "medium": 40, "high": 70 }
+  }',
+  'Built-in default model'
+);
+
+ALTER TABLE risk_evaluations
+  ADD COLUMN model_version INTEGER NOT NULL DEFAULT 1 REFERENCES risk_models (version) ON DELETE RESTRICT;
+ALTER TABLE risk_evaluations ALTER COLUMN model_version DROP DEFAULT;
+
+-- Evaluations made under a given version.
+CREATE INDEX risk_evaluations_model_version_idx ON risk_evaluations (model_version);
@@ -0,0 +1,24 @@
+-- Creditra Backend — asynchronous risk evaluation requests.
+-- POST /api/risk/evaluate with "async": true stores a request here and runs
+-- the evaluation as a `risk_request` job; GET /api/risk/requests/:id reads
+-- its status. `result` holds the evaluation result once completed and
+-- `error` the last failure once failed.
+--
+-- Rollback:
+--   DROP TABLE risk_requests;
+
+CREATE TABLE risk_requests (
+  id             UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  wallet_address TEXT NOT NULL,
+  force_refresh  BOOLEAN NOT NULL DEFAULT false,
+  status         TEXT NOT NULL DEFAULT 'queued'
+                 CHECK (status IN ('queued', 'running', 'completed', 'failed')),
+  callback_url   TEXT,
+  result         JSONB,
+  error          TEXT,
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at     TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at   TIMESTAMPTZ
+);
+
+COMMENT ON TABLE risk_requests IS 'Asynchronous risk evaluation requests and their outcome';
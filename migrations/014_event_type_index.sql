@@ -0,0 +1,8 @@
+-- Creditra Backend — list events by type.
+-- GET /api/risk/alerts pages through `risk.score_drift` events newest first;
+-- without this index that is a scan of every event.
+--
+-- Rollback:
+--   DROP INDEX events_event_type_created_at_idx;
+
+CREATE INDEX events_event_type_created_at_idx ON events (event_type, created_at);
@@ -0,0 +1,8 @@
+-- Creditra Backend — retention of completed jobs for PgJobQueue.
+-- Workers delete completed jobs once they are older than the configured
+-- retention; this index keeps that sweep from scanning the whole table.
+--
+-- Rollback:
+--   DROP INDEX jobs_completed_updated_at_idx;
+
+CREATE INDEX jobs_completed_updated_at_idx ON jobs (updated_at) WHERE status = 'completed';
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "vitest";
+import {
+  addDecimal,
+  compareDecimal,
+  decimalFromNumber,
+  isDecimal,
+  minDecimal,
+  normalizeDecimal,
+  roundDecimal,
+  scaleDecimal,
+  subtractDecimal,
+} from "../utils/decimal.js";
+
+describe("isDecimal()", () => {
+  it("accepts integers and up to 8 decimal places", () => {
+    expect(isDecimal("100")).toBe(true);
+    expect(isDecimal("-0.5")).toBe(true);
+    expect(isDecimal("0.12345678")).toBe(true);
+  });
+
+  it("rejects malformed values and excess precision", () => {
+    expect(isDecimal("")).toBe(false);
+    expect(isDecimal("1e3")).toBe(false);
+    expect(isDecimal("1.")).toBe(false);
+    expect(isDecimal("0.123456789")).toBe(false);
+  });
+});
+
+describe("arithmetic", () => {
+  it("adds without floating-point drift", () => {
+    expect(addDecimal("0.1", "0.2")).toBe("0.3");
+    expect(addDecimal("999999999999.99999999", "0.00000001")).toBe("1000000000000");
+  });
+
+  it("subtracts into negative values", () => {
+    expect(subtractDecimal("100.5", "0.25")).toBe("100.25");
+    expect(subtractDecimal("1", "1.5")).toBe("-0.5");
+    expect(subtractDecimal("1.10", "1.1")).toBe("0");
+  });
+
+  it("compares and picks the minimum", () => {
+    expect(compareDecimal("1.00000001", "1")).toBe(1);
+    expect(compareDecimal("1.0", "1")).toBe(0);
+    expect(compareDecimal("-2", "1")).toBe(-1);
+    expect(minDecimal("10", "9.99")).toBe("9.99");
+  });
+
+  it("throws on invalid input", () => {
+    expect(() => addDecimal("abc", "1")).toThrow('Invalid decimal amount: "abc"');
+  });
+});
+
+describe("normalizeDecimal()", () => {
+  it("strips insignificant zeros and negative zero", () => {
+    expect(normalizeDecimal("0100.50000000")).toBe("100.5");
+    expect(normalizeDecimal("1000")).toBe("1000");
+    expect(normalizeDecimal("-0.0")).toBe("0");
+  });
+});
+
+describe("scaleDecimal()", () => {
+  it("scales by a ratio with a single rounding step", () => {
+    expect(scaleDecimal("2000", "500", "1000")).toBe("1000");
+    expect(scaleDecimal("1000", "73", "100")).toBe("730");
+    expect(scaleDecimal("100", "1", "3")).toBe("33.33333333");
+  });
+
+  it("rounds half to even at the eighth place", () => {
+    expect(scaleDecimal("0.00000001", "0.5")).toBe("0");
+    expect(scaleDecimal("0.00000003", "0.5")).toBe("0.00000002");
+    expect(scaleDecimal("-0.00000003", "0.5")).toBe("-0.00000002");
+  });
+
+  it("rejects a zero denominator", () => {
+    expect(() => scaleDecimal("1", "1", "0")).toThrow("Division by zero");
+  });
+});
+
+describe("roundDecimal()", () => {
+  it("rounds half to even", () => {
+    expect(roundDecimal("2.5", 0)).toBe("2");
+    expect(roundDecimal("3.5", 0)).toBe("4");
+    expect(roundDecimal("-2.5", 0)).toBe("-2");
+    expect(roundDecimal("1.005", 2)).toBe("1");
+    expect(roundDecimal("1.0051", 2)).toBe("1.01");
+  });
+
+  it("accepts input beyond eight places and leaves short input untouched", () => {
+    expect(roundDecimal("0.123456785")).toBe("0.12345678");
+    expect(roundDecimal("0.123456795")).toBe("0.1234568");
+    expect(roundDecimal("12.30", 4)).toBe("12.3");
+  });
+
+  it("rejects out-of-range places", () => {
+    expect(() => roundDecimal("1", 9)).toThrow("Decimal places must be an integer between 0 and 8, got 9");
+  });
+});
+
+describe("decimalFromNumber()", () => {
+  it("converts floats without exposing binary noise", () => {
+    expect(decimalFromNumber(72.99999999999999)).toBe("73");
+    expect(decimalFromNumber(0.1 + 0.2)).toBe("0.3");
+    expect(decimalFromNumber(-1.5)).toBe("-1.5");
+  });
+
+  it("rejects non-finite numbers", () => {
+    expect(() => decimalFromNumber(Number.NaN)).toThrow('Invalid decimal amount: "NaN"');
+  });
+});
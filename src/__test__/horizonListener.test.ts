@@ -1,70 +1,204 @@
-
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from "vitest";
+import { createServer, type Server } from "http";
+import type { AddressInfo } from "net";
 import {
   start,
   stop,
+  idle,
   isRunning,
   getConfig,
   onEvent,
   clearEventHandlers,
   pollOnce,
   resolveConfig,
+  cursorName,
+  backoffDelay,
+  HorizonRpcError,
   type HorizonEvent,
   type HorizonListenerConfig,
 } from "../services/horizonListener.js";
+import { InMemoryCursorRepository } from "../repositories/memory/InMemoryCursorRepository.js";
 
 // ---------------------------------------------------------------------------
-// Helpers
+// Local Soroban RPC stub
 // ---------------------------------------------------------------------------
 
-/** Capture console output without cluttering test output. */
-function silenceConsole() {
-  jest.spyOn(console, "log").mockImplementation(() => {});
-  jest.spyOn(console, "warn").mockImplementation(() => {});
-  jest.spyOn(console, "error").mockImplementation(() => {});
+interface StubEvent {
+  id: string;
+  ledger: number;
+  ledgerClosedAt: string;
+  contractId: string;
+  txHash: string;
+  topicJson: unknown[];
+  valueJson: unknown;
 }
 
-function restoreConsole() {
-  (console.log as jest.Mock).mockRestore?.();
-  (console.warn as jest.Mock).mockRestore?.();
-  (console.error as jest.Mock).mockRestore?.();
+interface RpcRequest {
+  method: string;
+  params?: {
+    startLedger?: number;
+    filters?: { contractIds: string[] }[];
+    pagination?: { limit?: number; cursor?: string };
+  };
 }
 
-/** Save and restore env vars. */
-function withEnv(vars: Record<string, string>, fn: () => void) {
-  const original: Record<string, string | undefined> = {};
-  for (const [k, v] of Object.entries(vars)) {
-    original[k] = process.env[k];
-    process.env[k] = v;
-  }
-  try {
-    fn();
-  } finally {
-    for (const [k] of Object.entries(vars)) {
-      if (original[k] === undefined) {
-        delete process.env[k];
-      } else {
-        process.env[k] = original[k];
+/** Serves `getLatestLedger` and `getEvents` from `events`, recording every request. */
+class SorobanRpcStub {
+  events: StubEvent[] = [];
+  latestLedger = 5000;
+  requests: RpcRequest[] = [];
+  /** Respond with HTTP 503 to this many upcoming requests. */
+  failuresRemaining = 0;
+  /** Respond with this JSON-RPC error to every request while set. */
+  rpcError: { code: number; message: string } | null = null;
+
+  private server: Server = createServer((req, res) => {
+    let body = "";
+    req.on("data", (chunk) => { body += chunk; });
+    req.on("end", () => {
+      const request = JSON.parse(body) as RpcRequest & { id: number };
+      this.requests.push(request);
+      res.setHeader("Content-Type", "application/json");
+
+      if (this.failuresRemaining > 0) {
+        this.failuresRemaining -= 1;
+        res.statusCode = 503;
+        res.end(JSON.stringify({ message: "unavailable" }));
+        return;
+      }
+      if (this.rpcError) {
+        res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, error: this.rpcError }));
+        return;
       }
+      res.end(JSON.stringify({ jsonrpc: "2.0", id: request.id, result: this.handle(request) }));
+    });
+  });
+
+  url = "";
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, "127.0.0.1", resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async close(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  reset(): void {
+    this.events = [];
+    this.latestLedger = 5000;
+    this.requests = [];
+    this.failuresRemaining = 0;
+    this.rpcError = null;
+  }
+
+  addEvent(ledger: number, contractId: string, topic: string, value: unknown = {}): StubEvent {
+    const event: StubEvent = {
+      id: `${String(ledger).padStart(19, "0")}-${String(this.events.length).padStart(10, "0")}`,
+      ledger,
+      ledgerClosedAt: new Date(Date.UTC(2024, 0, 1) + ledger * 5000).toISOString(),
+      contractId,
+      txHash: `tx-${this.events.length}`,
+      topicJson: [{ symbol: topic }, { address: "GBORROWER" }],
+      valueJson: value,
+    };
+    this.events.push(event);
+    return event;
+  }
+
+  private handle(request: RpcRequest): unknown {
+    if (request.method === "getLatestLedger") {
+      return { id: "latest", protocolVersion: 21, sequence: this.latestLedger };
     }
+
+    const params = request.params ?? {};
+    const contractIds = params.filters?.[0]?.contractIds ?? [];
+    const limit = params.pagination?.limit ?? 100;
+    const cursor = params.pagination?.cursor;
+    const matching = this.events
+      .filter((event) => contractIds.includes(event.contractId))
+      .filter((event) => (cursor ? event.id > cursor : event.ledger >= (params.startLedger ?? 0)));
+    const page = matching.slice(0, limit);
+
+    return {
+      events: page,
+      latestLedger: this.latestLedger,
+      cursor: page.length > 0 ? page[page.length - 1]!.id : cursor,
+    };
   }
 }
 
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+const stub = new SorobanRpcStub();
+
+function config(overrides: Partial<HorizonListenerConfig> = {}): HorizonListenerConfig {
+  return {
+    horizonUrl: stub.url,
+    contractIds: ["CONTRACT_A"],
+    pollIntervalMs: 20,
+    startLedger: "1",
+    pageSize: 100,
+    maxBackoffMs: 200,
+    ...overrides,
+  };
+}
+
+const ENV_KEYS = [
+  "HORIZON_URL",
+  "CONTRACT_IDS",
+  "POLL_INTERVAL_MS",
+  "HORIZON_START_LEDGER",
+  "HORIZON_PAGE_SIZE",
+  "HORIZON_MAX_BACKOFF_MS",
+];
+
+/** Point resolveConfig() (used by start()) at the stub. */
+function useStubEnv(vars: Record<string, string> = {}): void {
+  process.env["HORIZON_URL"] = stub.url;
+  process.env["CONTRACT_IDS"] = "CONTRACT_A";
+  process.env["POLL_INTERVAL_MS"] = "20";
+  process.env["HORIZON_START_LEDGER"] = "1";
+  process.env["HORIZON_MAX_BACKOFF_MS"] = "200";
+  Object.assign(process.env, vars);
+}
+
 // ---------------------------------------------------------------------------
 // Setup / teardown
 // ---------------------------------------------------------------------------
 
+const savedEnv: Record<string, string | undefined> = {};
+
+beforeAll(async () => {
+  await stub.listen();
+  for (const key of ENV_KEYS) savedEnv[key] = process.env[key];
+});
+
+afterAll(async () => {
+  await stub.close();
+});
+
 beforeEach(() => {
-  silenceConsole();
-  // Ensure clean state before every test.
+  vi.spyOn(console, "log").mockImplementation(() => {});
+  vi.spyOn(console, "warn").mockImplementation(() => {});
+  vi.spyOn(console, "error").mockImplementation(() => {});
   if (isRunning()) stop();
   clearEventHandlers();
+  stub.reset();
+  for (const key of ENV_KEYS) delete process.env[key];
 });
 
 afterEach(() => {
   if (isRunning()) stop();
   clearEventHandlers();
-  restoreConsole();
-  jest.useRealTimers();
+  vi.restoreAllMocks();
+  for (const key of ENV_KEYS) {
+    if (savedEnv[key] === undefined) delete process.env[key];
+    else process.env[key] = savedEnv[key];
+  }
 });
 
 // ---------------------------------------------------------------------------
@@ -73,362 +207,321 @@ afterEach(() => {
 
 describe("resolveConfig()", () => {
   it("returns sensible defaults when no env vars are set", () => {
-    delete process.env["HORIZON_URL"];
-    delete process.env["CONTRACT_IDS"];
-    delete process.env["POLL_INTERVAL_MS"];
-    delete process.env["HORIZON_START_LEDGER"];
-
-    const config = resolveConfig();
-
-    expect(config.horizonUrl).toBe("https://horizon-testnet.stellar.org");
-    expect(config.contractIds).toEqual([]);
-    expect(config.pollIntervalMs).toBe(5000);
-    expect(config.startLedger).toBe("latest");
-  });
-
-  it("reads HORIZON_URL from env", () => {
-    withEnv({ HORIZON_URL: "https://custom-horizon.example.com" }, () => {
-      expect(resolveConfig().horizonUrl).toBe(
-        "https://custom-horizon.example.com",
-      );
-    });
-  });
-
-  it("parses a single CONTRACT_ID", () => {
-    withEnv({ CONTRACT_IDS: "CONTRACT_A" }, () => {
-      expect(resolveConfig().contractIds).toEqual(["CONTRACT_A"]);
-    });
-  });
-
-  it("parses multiple CONTRACT_IDS separated by commas", () => {
-    withEnv({ CONTRACT_IDS: "CONTRACT_A,CONTRACT_B,CONTRACT_C" }, () => {
-      expect(resolveConfig().contractIds).toEqual([
-        "CONTRACT_A",
-        "CONTRACT_B",
-        "CONTRACT_C",
-      ]);
-    });
-  });
-
-  it("trims whitespace from CONTRACT_IDS entries", () => {
-    withEnv({ CONTRACT_IDS: " CONTRACT_A , CONTRACT_B " }, () => {
-      expect(resolveConfig().contractIds).toEqual([
-        "CONTRACT_A",
-        "CONTRACT_B",
-      ]);
+    expect(resolveConfig()).toEqual({
+      horizonUrl: "https://soroban-testnet.stellar.org",
+      contractIds: [],
+      pollIntervalMs: 5000,
+      startLedger: "latest",
+      pageSize: 100,
+      maxBackoffMs: 60000,
     });
   });
 
-  it("returns empty contractIds for an empty CONTRACT_IDS string", () => {
-    withEnv({ CONTRACT_IDS: "" }, () => {
-      expect(resolveConfig().contractIds).toEqual([]);
-    });
-  });
-
-  it("parses POLL_INTERVAL_MS from env", () => {
-    withEnv({ POLL_INTERVAL_MS: "2000" }, () => {
-      expect(resolveConfig().pollIntervalMs).toBe(2000);
-    });
-  });
-
-  it("reads HORIZON_START_LEDGER from env", () => {
-    withEnv({ HORIZON_START_LEDGER: "500" }, () => {
-      expect(resolveConfig().startLedger).toBe("500");
+  it("reads every setting from env", () => {
+    process.env["HORIZON_URL"] = "https://rpc.example.com";
+    process.env["CONTRACT_IDS"] = " CONTRACT_A , CONTRACT_B ,";
+    process.env["POLL_INTERVAL_MS"] = "2000";
+    process.env["HORIZON_START_LEDGER"] = "500";
+    process.env["HORIZON_PAGE_SIZE"] = "25";
+    process.env["HORIZON_MAX_BACKOFF_MS"] = "30000";
+
+    expect(resolveConfig()).toEqual({
+      horizonUrl: "https://rpc.example.com",
+      contractIds: ["CONTRACT_A", "CONTRACT_B"],
+      pollIntervalMs: 2000,
+      startLedger: "500",
+      pageSize: 25,
+      maxBackoffMs: 30000,
     });
   });
 });
 
-// ---------------------------------------------------------------------------
-// isRunning() / getConfig()
-// ---------------------------------------------------------------------------
-
-describe("isRunning() / getConfig()", () => {
-  it("returns false and null config before start", () => {
-    expect(isRunning()).toBe(false);
-    expect(getConfig()).toBeNull();
+describe("cursorName()", () => {
+  it("is keyed by the sorted contract set", () => {
+    expect(cursorName(config({ contractIds: ["CB", "CA"] }))).toBe("horizon_listener:CA,CB");
   });
+});
 
-  it("returns true and a config object after start", async () => {
-    jest.useFakeTimers();
-    await start();
-    expect(isRunning()).toBe(true);
-    expect(getConfig()).not.toBeNull();
-    expect(getConfig()?.horizonUrl).toBeDefined();
-  });
+describe("backoffDelay()", () => {
+  it("doubles the poll interval per consecutive failure up to the cap", () => {
+    const cfg = config({ pollIntervalMs: 1000, maxBackoffMs: 10000 });
 
-  it("returns false and null config after stop", async () => {
-    jest.useFakeTimers();
-    await start();
-    stop();
-    expect(isRunning()).toBe(false);
-    expect(getConfig()).toBeNull();
+    expect(backoffDelay(cfg, 0)).toBe(1000);
+    expect(backoffDelay(cfg, 1)).toBe(2000);
+    expect(backoffDelay(cfg, 3)).toBe(8000);
+    expect(backoffDelay(cfg, 10)).toBe(10000);
   });
 });
 
 // ---------------------------------------------------------------------------
-// start()
+// pollOnce()
 // ---------------------------------------------------------------------------
 
-describe("start()", () => {
-  it("sets running to true", async () => {
-    jest.useFakeTimers();
-    await start();
-    expect(isRunning()).toBe(true);
+describe("pollOnce()", () => {
+  it("does not call the endpoint when contractIds is empty", async () => {
+    await expect(pollOnce(config({ contractIds: [] }), new InMemoryCursorRepository())).resolves.toBe(0);
+    expect(stub.requests).toHaveLength(0);
   });
 
-  it("executes an immediate first poll on start", async () => {
-    jest.useFakeTimers();
-    const pollSpy = jest.fn<Promise<void>, [HorizonListenerConfig]>();
+  it("fetches contract events from startLedger and decodes them", async () => {
+    stub.addEvent(90, "CONTRACT_A", "draw");
+    const created = stub.addEvent(100, "CONTRACT_A", "credit_line_created", { map: [] });
+    stub.addEvent(110, "CONTRACT_B", "draw");
+    const events: HorizonEvent[] = [];
+    onEvent((e) => { events.push(e); });
 
-    withEnv({ CONTRACT_IDS: "MY_CONTRACT" }, async () => {
-      const received: HorizonEvent[] = [];
-      onEvent((e) => { received.push(e); });
-      await start();
-      
-      expect(received.length).toBe(1);
+    const dispatched = await pollOnce(config({ startLedger: "100" }), new InMemoryCursorRepository());
+
+    expect(dispatched).toBe(1);
+    expect(events).toEqual([{
+      id: created.id,
+      ledger: 100,
+      timestamp: created.ledgerClosedAt,
+      contractId: "CONTRACT_A",
+      topics: ["credit_line_created", "GBORROWER"],
+      data: JSON.stringify({ map: [] }),
+      txHash: created.txHash,
+    }]);
+    expect(stub.requests[0]).toMatchObject({
+      method: "getEvents",
+      params: {
+        startLedger: 100,
+        filters: [{ type: "contract", contractIds: ["CONTRACT_A"] }],
+        pagination: { limit: 100 },
+        xdrFormat: "json",
+      },
     });
   });
 
-  it("fires handlers on subsequent interval ticks", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "MY_CONTRACT", POLL_INTERVAL_MS: "100" }, async () => {
-      const received: HorizonEvent[] = [];
-      onEvent((e) => { received.push(e); });
-      await start();
+  it("starts from the latest ledger when configured", async () => {
+    stub.latestLedger = 200;
+    stub.addEvent(150, "CONTRACT_A", "draw");
+    stub.addEvent(200, "CONTRACT_A", "repay");
+    const events: HorizonEvent[] = [];
+    onEvent((e) => { events.push(e); });
 
-      expect(received.length).toBe(1);
+    await pollOnce(config({ startLedger: "latest" }), new InMemoryCursorRepository());
 
-      jest.advanceTimersByTime(100);
+    expect(stub.requests.map((r) => r.method)).toEqual(["getLatestLedger", "getEvents"]);
+    expect(events.map((e) => e.topics[0])).toEqual(["repay"]);
+  });
 
-      await Promise.resolve();
-      expect(received.length).toBe(2);
+  it("pages through results and saves the cursor after each page", async () => {
+    for (let ledger = 1; ledger <= 5; ledger++) stub.addEvent(ledger, "CONTRACT_A", "draw");
+    const cursors = new InMemoryCursorRepository();
+    const events: HorizonEvent[] = [];
+    onEvent((e) => { events.push(e); });
 
-      jest.advanceTimersByTime(200);
-      await Promise.resolve();
-      await Promise.resolve();
-      expect(received.length).toBe(4);
+    const dispatched = await pollOnce(config({ pageSize: 2 }), cursors);
+
+    expect(dispatched).toBe(5);
+    expect(events.map((e) => e.ledger)).toEqual([1, 2, 3, 4, 5]);
+    expect(stub.requests.map((r) => r.params?.pagination?.cursor)).toEqual([
+      undefined,
+      stub.events[1]!.id,
+      stub.events[3]!.id,
+    ]);
+    expect(await cursors.get(cursorName(config()))).toMatchObject({
+      cursor: stub.events[4]!.id,
+      lastLedger: 5,
     });
   });
 
-  it("is a no-op (warns) if called when already running", async () => {
-    jest.useFakeTimers();
-    await start();
-    const warnSpy = console.warn as jest.Mock;
-    warnSpy.mockClear();
-    await start(); // second call
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Already running"),
-    );
-    expect(isRunning()).toBe(true);
-  });
+  it("resumes from the saved cursor instead of startLedger", async () => {
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    const cursors = new InMemoryCursorRepository();
+    await pollOnce(config(), cursors);
+    stub.addEvent(11, "CONTRACT_A", "repay");
+    stub.requests = [];
+    const events: HorizonEvent[] = [];
+    onEvent((e) => { events.push(e); });
 
-  it("logs startup config information", async () => {
-    jest.useFakeTimers();
-    const logSpy = console.log as jest.Mock;
-    await start();
-    const calls = logSpy.mock.calls.flat().join(" ");
-    expect(calls).toContain("Starting with config");
+    await pollOnce(config(), cursors);
+
+    expect(events.map((e) => e.topics[0])).toEqual(["repay"]);
+    expect(stub.requests[0]!.params).not.toHaveProperty("startLedger");
+    expect(stub.requests[0]!.params?.pagination?.cursor).toBe(stub.events[0]!.id);
   });
-});
 
-// ---------------------------------------------------------------------------
-// stop()
-// ---------------------------------------------------------------------------
+  it("dispatches nothing when there are no new events", async () => {
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    const cursors = new InMemoryCursorRepository();
+    await pollOnce(config(), cursors);
 
-describe("stop()", () => {
-  it("sets running to false", async () => {
-    jest.useFakeTimers();
-    await start();
-    stop();
-    expect(isRunning()).toBe(false);
+    await expect(pollOnce(config(), cursors)).resolves.toBe(0);
   });
 
-  it("clears the polling interval so no more events fire", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "MY_CONTRACT", POLL_INTERVAL_MS: "100" }, async () => {
-      const received: HorizonEvent[] = [];
-      onEvent((e) => { received.push(e); });
-      await start();
-      stop();
-      const countAfterStop = received.length;
-      jest.advanceTimersByTime(500);
-      await Promise.resolve();
-      // No new events after stop
-      expect(received.length).toBe(countAfterStop);
-    });
-  });
+  it("rejects on HTTP errors without moving the cursor", async () => {
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    stub.failuresRemaining = 1;
+    const cursors = new InMemoryCursorRepository();
 
-  it("is a no-op (warns) if called when not running", () => {
-    const warnSpy = console.warn as jest.Mock;
-    stop();
-    expect(warnSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Not running"),
-    );
+    await expect(pollOnce(config(), cursors)).rejects.toThrow("HTTP 503");
+    expect(await cursors.get(cursorName(config()))).toBeNull();
   });
 
-  it("logs a stopped message", async () => {
-    jest.useFakeTimers();
-    await start();
-    const logSpy = console.log as jest.Mock;
-    logSpy.mockClear();
-    stop();
-    expect((console.log as jest.Mock).mock.calls.flat().join(" ")).toContain(
-      "Stopped",
-    );
-  });
+  it("rejects with HorizonRpcError on JSON-RPC errors", async () => {
+    stub.rpcError = { code: -32600, message: "startLedger must be positive" };
 
-  it("allows the listener to be restarted after stop", async () => {
-    jest.useFakeTimers();
-    await start();
-    stop();
-    expect(isRunning()).toBe(false);
-    await start();
-    expect(isRunning()).toBe(true);
-  });
-});
+    const error = await pollOnce(config(), new InMemoryCursorRepository()).catch((err: unknown) => err);
 
-// ---------------------------------------------------------------------------
-// onEvent() / clearEventHandlers()
-// ---------------------------------------------------------------------------
+    expect(error).toBeInstanceOf(HorizonRpcError);
+    expect((error as HorizonRpcError).code).toBe(-32600);
+  });
 
-describe("onEvent() / clearEventHandlers()", () => {
-  it("registers a handler that receives simulated events", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "MY_CONTRACT" }, async () => {
-      const events: HorizonEvent[] = [];
-      onEvent((e) => { events.push(e); });
-      await start();
-      expect(events.length).toBeGreaterThan(0);
-      expect(events[0]!.contractId).toBe("MY_CONTRACT");
-    });
+  it("rejects an invalid start ledger", async () => {
+    await expect(pollOnce(config({ startLedger: "soon" }), new InMemoryCursorRepository())).rejects.toThrow(
+      "Invalid start ledger",
+    );
   });
 
-  it("supports multiple handlers and invokes all of them", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "MULTI_CONTRACT" }, async () => {
-      const calls1: HorizonEvent[] = [];
-      const calls2: HorizonEvent[] = [];
-      onEvent((e) => { calls1.push(e); });
-      onEvent((e) => { calls2.push(e); });
-      await start();
-      expect(calls1.length).toBe(1);
-      expect(calls2.length).toBe(1);
+  it("rejects without moving the cursor when a handler throws", async () => {
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    stub.addEvent(11, "CONTRACT_A", "repay");
+    const cursors = new InMemoryCursorRepository();
+    await pollOnce(config(), cursors);
+    const saved = await cursors.get(cursorName(config()));
+    stub.addEvent(12, "CONTRACT_A", "draw");
+    stub.addEvent(13, "CONTRACT_A", "repay");
+    const later: HorizonEvent[] = [];
+    onEvent((e) => {
+      if (e.topics[0] === "draw") throw new Error("handler boom");
     });
-  });
+    onEvent((e) => { later.push(e); });
 
-  it("clearEventHandlers() removes all registered handlers", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "MY_CONTRACT" }, async () => {
-      const events: HorizonEvent[] = [];
-      onEvent((e) => { events.push(e); });
-      clearEventHandlers();
-      await start();
+    await expect(pollOnce(config(), cursors)).rejects.toThrow("handler boom");
 
-      expect(events.length).toBe(0);
-    });
+    expect(later).toHaveLength(0);
+    expect(await cursors.get(cursorName(config()))).toEqual(saved);
   });
 
-  it("catches and logs errors thrown by a handler without stopping dispatch", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "ERROR_CONTRACT" }, async () => {
-      const goodEvents: HorizonEvent[] = [];
-      onEvent(() => { throw new Error("handler boom"); });
-      onEvent((e) => { goodEvents.push(e); });
-      await start();
-
-      expect(goodEvents.length).toBe(1);
-      expect((console.error as jest.Mock).mock.calls.flat().join(" ")).toContain(
-        "handler threw an error",
-      );
+  it("redelivers the failed event on the next poll", async () => {
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    const cursors = new InMemoryCursorRepository();
+    let failures = 1;
+    const handled: HorizonEvent[] = [];
+    onEvent((e) => {
+      if (failures-- > 0) throw new Error("handler boom");
+      handled.push(e);
     });
-  });
 
-  it("handles async handlers that reject gracefully", async () => {
-    jest.useFakeTimers();
-    withEnv({ CONTRACT_IDS: "ASYNC_ERROR_CONTRACT" }, async () => {
-      const goodEvents: HorizonEvent[] = [];
-      onEvent(async () => { throw new Error("async handler boom"); });
-      onEvent((e) => { goodEvents.push(e); });
-      await start();
-      expect(goodEvents.length).toBe(1);
-    });
+    await expect(pollOnce(config(), cursors)).rejects.toThrow("handler boom");
+    await expect(pollOnce(config(), cursors)).resolves.toBe(1);
+
+    expect(handled.map((e) => e.ledger)).toEqual([10]);
+    expect(await cursors.get(cursorName(config()))).toMatchObject({ cursor: stub.events[0]!.id });
   });
 });
 
 // ---------------------------------------------------------------------------
-// pollOnce()
+// start() / stop()
 // ---------------------------------------------------------------------------
 
-describe("pollOnce()", () => {
-  const baseConfig: HorizonListenerConfig = {
-    horizonUrl: "https://horizon-testnet.stellar.org",
-    contractIds: [],
-    pollIntervalMs: 5000,
-    startLedger: "latest",
-  };
+describe("start() / stop()", () => {
+  it("reports state and config", async () => {
+    useStubEnv();
+    expect(isRunning()).toBe(false);
+    expect(getConfig()).toBeNull();
 
-  it("completes without throwing when contractIds is empty", async () => {
-    await expect(pollOnce(baseConfig)).resolves.toBeUndefined();
-  });
+    await start(new InMemoryCursorRepository());
+    expect(isRunning()).toBe(true);
+    expect(getConfig()?.horizonUrl).toBe(stub.url);
 
-  it("logs a polling message on every call", async () => {
-    const logSpy = console.log as jest.Mock;
-    logSpy.mockClear();
-    await pollOnce(baseConfig);
-    expect(logSpy).toHaveBeenCalledWith(
-      expect.stringContaining("Polling"),
-    );
+    stop();
+    expect(isRunning()).toBe(false);
+    expect(getConfig()).toBeNull();
   });
 
-  it("emits a simulated event when contractIds is non-empty", async () => {
-    const config: HorizonListenerConfig = {
-      ...baseConfig,
-      contractIds: ["TEST_CONTRACT"],
-    };
+  it("polls immediately and then on every interval", async () => {
+    useStubEnv();
+    stub.addEvent(10, "CONTRACT_A", "draw");
     const events: HorizonEvent[] = [];
     onEvent((e) => { events.push(e); });
-    await pollOnce(config);
+
+    await start(new InMemoryCursorRepository());
     expect(events).toHaveLength(1);
-    expect(events[0]!.contractId).toBe("TEST_CONTRACT");
-    expect(events[0]!.topics).toContain("credit_line_created");
-    expect(events[0]!.ledger).toBe(1000);
+
+    stub.addEvent(11, "CONTRACT_A", "repay");
+    await vi.waitFor(() => expect(events).toHaveLength(2));
   });
 
-  it("does not emit events when contractIds is empty", async () => {
+  it("resumes from the persisted cursor after a restart", async () => {
+    useStubEnv();
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    const cursors = new InMemoryCursorRepository();
     const events: HorizonEvent[] = [];
     onEvent((e) => { events.push(e); });
-    await pollOnce(baseConfig);
-    expect(events).toHaveLength(0);
-  });
 
-  it("logs 'none' for contracts when contractIds is empty", async () => {
-    const logSpy = console.log as jest.Mock;
-    logSpy.mockClear();
-    await pollOnce(baseConfig);
-    expect((logSpy.mock.calls.flat() as string[]).join(" ")).toContain("none");
+    await start(cursors);
+    stop();
+    stub.addEvent(11, "CONTRACT_A", "repay");
+    await start(cursors);
+
+    expect(events.map((e) => e.topics[0])).toEqual(["draw", "repay"]);
   });
 
-  it("includes simulated event data with a walletAddress field", async () => {
-    const config: HorizonListenerConfig = {
-      ...baseConfig,
-      contractIds: ["WALLET_CONTRACT"],
-    };
+  it("backs off while the endpoint fails and recovers afterwards", async () => {
+    useStubEnv();
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    stub.failuresRemaining = 3;
     const events: HorizonEvent[] = [];
     onEvent((e) => { events.push(e); });
-    await pollOnce(config);
-    const data = JSON.parse(events[0]!.data) as { walletAddress: string };
-    expect(data).toHaveProperty("walletAddress");
+
+    await start(new InMemoryCursorRepository());
+    expect(events).toHaveLength(0);
+    expect(vi.mocked(console.error).mock.calls.flat().join(" ")).toContain("Poll failed (1 in a row)");
+
+    // 40ms + 80ms + 160ms of backoff before the fourth attempt succeeds.
+    await vi.waitFor(() => expect(events).toHaveLength(1), { timeout: 2000 });
+    expect(vi.mocked(console.error).mock.calls.flat().join(" ")).toContain("Poll failed (3 in a row)");
   });
 
-  it("sets a valid ISO timestamp on the simulated event", async () => {
-    const config: HorizonListenerConfig = {
-      ...baseConfig,
-      contractIds: ["TS_CONTRACT"],
-    };
-    const events: HorizonEvent[] = [];
-    onEvent((e) => { events.push(e); });
-    await pollOnce(config);
-    expect(() => new Date(events[0]!.timestamp)).not.toThrow();
-    expect(new Date(events[0]!.timestamp).getTime()).not.toBeNaN();
+  it("stops polling after stop()", async () => {
+    useStubEnv();
+    await start(new InMemoryCursorRepository());
+    stop();
+    const requestsAfterStop = stub.requests.length;
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+
+    expect(stub.requests).toHaveLength(requestsAfterStop);
+  });
+
+  it("lets the current poll finish after stop()", async () => {
+    useStubEnv();
+    stub.addEvent(10, "CONTRACT_A", "draw");
+    let release!: () => void;
+    const handled: string[] = [];
+    onEvent(async (e) => {
+      await new Promise<void>((resolve) => (release = resolve));
+      handled.push(e.id);
+    });
+
+    const starting = start(new InMemoryCursorRepository());
+    await vi.waitFor(() => expect(release).toBeDefined());
+    stop();
+    let idled = false;
+    const idling = idle().then(() => (idled = true));
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(idled).toBe(false);
+    release();
+    await idling;
+    await starting;
+
+    expect(handled).toHaveLength(1);
+    expect(isRunning()).toBe(false);
+    await idle();
   });
-});
\ No newline at end of file
+
+  it("warns on a second start() and on stop() when not running", async () => {
+    useStubEnv();
+    stop();
+    expect(vi.mocked(console.warn)).toHaveBeenCalledWith(expect.stringContaining("Not running"));
+
+    await start(new InMemoryCursorRepository());
+    await start(new InMemoryCursorRepository());
+    expect(vi.mocked(console.warn)).toHaveBeenCalledWith(expect.stringContaining("Already running"));
+    expect(isRunning()).toBe(true);
+  });
+});
@@ -1,7 +1,12 @@
 import { describe, it, expect, vi, beforeEach, afterEach, type Mock } from "vitest";
 import {
   InMemoryJobQueue,
-  type Job,
+  DEFAULT_RETRY_POLICY,
+  resolveRetryPolicy,
+  retryDelay,
+  validateConcurrency,
+  dueOccurrences,
+  DuplicateJobError,
   type JobQueue,
   type JobHandler,
 } from "../services/jobQueue.js";
@@ -29,15 +34,15 @@ describe("InMemoryJobQueue", () => {
     queue.registerHandler("test", handler);
     queue.start();
 
-    queue.enqueue("test", { value: 42 });
+    await queue.enqueue("test", { value: 42 });
 
-    await vi.runAllTimersAsync();
+    await vi.advanceTimersByTimeAsync(1_000);
 
     expect(handler).toHaveBeenCalledTimes(1);
     const jobArg = handler.mock.calls[0]![0];
     expect(jobArg.type).toBe("test");
     expect(jobArg.payload).toEqual({ value: 42 });
-    expect(queue.size()).toBe(0);
+    expect(await queue.size()).toBe(0);
   });
 
   it("supports delayed execution via delayMs", async () => {
@@ -47,7 +52,7 @@ describe("InMemoryJobQueue", () => {
     queue.registerHandler("delayed", handler);
     queue.start();
 
-    queue.enqueue("delayed", undefined, { delayMs: 1000 });
+    await queue.enqueue("delayed", undefined, { delayMs: 1000 });
 
     await vi.advanceTimersByTimeAsync(500);
     expect(handler).not.toHaveBeenCalled();
@@ -67,13 +72,13 @@ describe("InMemoryJobQueue", () => {
     queue.registerHandler("unstable", handler);
     queue.start();
 
-    queue.enqueue("unstable", undefined, { maxAttempts: 3 });
+    await queue.enqueue("unstable", undefined, { maxAttempts: 3 });
 
-    await vi.runAllTimersAsync();
+    await vi.advanceTimersByTimeAsync(1_000);
 
     expect(handler).toHaveBeenCalledTimes(3);
-    expect(queue.getFailedJobs()).toHaveLength(0);
-    expect(queue.size()).toBe(0);
+    expect(await queue.getFailedJobs()).toHaveLength(0);
+    expect(await queue.size()).toBe(0);
   });
 
   it("moves job to failed set after exceeding maxAttempts", async () => {
@@ -85,12 +90,12 @@ describe("InMemoryJobQueue", () => {
     queue.registerHandler("always-fail", handler);
     queue.start();
 
-    queue.enqueue("always-fail", undefined, { maxAttempts: 2 });
+    await queue.enqueue("always-fail", undefined, { maxAttempts: 2 });
 
-    await vi.runAllTimersAsync();
+    await vi.advanceTimersByTimeAsync(1_000);
 
     expect(handler).toHaveBeenCalledTimes(2);
-    const failed = queue.getFailedJobs();
+    const failed = await queue.getFailedJobs();
     expect(failed).toHaveLength(1);
     expect(failed[0]!.type).toBe("always-fail");
   });
@@ -99,13 +104,13 @@ describe("InMemoryJobQueue", () => {
     const queue = createQueue();
     queue.start();
 
-    queue.enqueue("no-handler", { foo: "bar" });
+    await queue.enqueue("no-handler", { foo: "bar" });
 
-    await vi.runAllTimersAsync();
+    await vi.advanceTimersByTimeAsync(1_000);
 
-    expect(queue.getFailedJobs()).toHaveLength(1);
-    expect(queue.getFailedJobs()[0]!.type).toBe("no-handler");
-    expect(queue.size()).toBe(0);
+    expect(await queue.getFailedJobs()).toHaveLength(1);
+    expect((await queue.getFailedJobs())[0]!.type).toBe("no-handler");
+    expect(await queue.size()).toBe(0);
     expect(console.error).toHaveBeenCalled();
   });
 
@@ -129,12 +134,605 @@ describe("InMemoryJobQueue", () => {
     queue.registerHandler("immediate", handler);
     queue.start();
 
-    queue.enqueue("immediate", undefined);
+    await queue.enqueue("immediate", undefined);
 
     await queue.drain();
 
     expect(handler).toHaveBeenCalledTimes(1);
-    expect(queue.size()).toBe(0);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it("backs off exponentially between retries up to the cap", async () => {
+    const queue = new InMemoryJobQueue(10, 100, { retryPolicy: { maxDelayMs: 300 } });
+    const runs: number[] = [];
+    queue.registerHandler("flaky", () => {
+      runs.push(Date.now());
+      throw new Error("flaky");
+    });
+    queue.start();
+
+    const start = Date.now();
+    await queue.enqueue("flaky", undefined, { maxAttempts: 5 });
+    await vi.advanceTimersByTimeAsync(2_000);
+
+    // Retries after 100, 200, 300 (capped) and 300ms, rounded up to the 10ms tick.
+    expect(runs.map((at) => at - start)).toEqual([10, 110, 310, 610, 910]);
+  });
+
+  it("applies a per-job retry policy", async () => {
+    const queue = createQueue();
+    const runs: number[] = [];
+    queue.registerHandler("fixed", () => {
+      runs.push(Date.now());
+      throw new Error("fixed");
+    });
+    queue.start();
+
+    const start = Date.now();
+    await queue.enqueue("fixed", undefined, {
+      maxAttempts: 3,
+      retry: { initialDelayMs: 50, multiplier: 1 },
+    });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(runs.map((at) => at - start)).toEqual([10, 60, 110]);
+  });
+
+  it("records the last error on failed jobs", async () => {
+    const queue = createQueue();
+    queue.registerHandler(
+      "unstable",
+      vi.fn<JobHandler<void>>()
+        .mockRejectedValueOnce(new Error("first failure"))
+        .mockRejectedValueOnce(new Error("second failure")),
+    );
+    queue.start();
+
+    const id = await queue.enqueue("unstable", undefined, { maxAttempts: 2 });
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(await queue.getFailedJob(id)).toMatchObject({
+      id,
+      attempts: 2,
+      lastError: "second failure",
+    });
+    expect(await queue.getFailedJob("missing")).toBeNull();
+  });
+
+  it("requeues a failed job with a fresh set of attempts", async () => {
+    const queue = createQueue();
+    const handler = vi.fn<JobHandler<void>>()
+      .mockRejectedValueOnce(new Error("outage"))
+      .mockResolvedValueOnce(undefined);
+    queue.registerHandler("recoverable", handler);
+    queue.start();
+
+    const id = await queue.enqueue("recoverable", undefined, { maxAttempts: 1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(await queue.getFailedJob(id)).not.toBeNull();
+
+    expect(await queue.requeueFailedJob(id)).toBe(true);
+    expect(await queue.getFailedJobs()).toHaveLength(0);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[1]![0]).toMatchObject({ attempts: 0, lastError: "outage" });
+    expect(await queue.size()).toBe(0);
+    expect(await queue.requeueFailedJob(id)).toBe(false);
+  });
+
+  it("purges failed jobs individually or all at once", async () => {
+    const queue = createQueue();
+    queue.start();
+
+    const first = await queue.enqueue("no-handler", undefined);
+    const second = await queue.enqueue("no-handler", undefined);
+    await queue.enqueue("no-handler", undefined);
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await queue.getFailedJob(first))!.lastError).toBe(
+      'No handler registered for job type "no-handler"',
+    );
+    expect(await queue.purgeFailedJob(first)).toBe(true);
+    expect(await queue.purgeFailedJob(first)).toBe(false);
+    expect((await queue.getFailedJobs()).map((job) => job.id)).toContain(second);
+    expect(await queue.purgeFailedJobs()).toBe(2);
+    expect(await queue.getFailedJobs()).toHaveLength(0);
+  });
+});
+
+describe("InMemoryJobQueue administration", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as unknown as Mock).mockRestore?.();
+  });
+
+  it("records every attempt in the job history", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    queue.registerHandler(
+      "flaky",
+      vi.fn<JobHandler<void>>().mockRejectedValueOnce(new Error("timeout")).mockResolvedValueOnce(undefined),
+    );
+    const id = await queue.enqueue("flaky", undefined, { maxAttempts: 1 });
+    queue.start();
+    await queue.drain();
+
+    expect(await queue.getJob(id)).toMatchObject({
+      status: "failed",
+      history: [{ attempt: 1, error: "timeout" }],
+    });
+
+    await queue.retryJob(id);
+    await queue.drain();
+    queue.stop();
+
+    // Completed jobs are not kept in memory.
+    expect(await queue.getJob(id)).toBeNull();
+  });
+
+  it("lists jobs by status and type, oldest first", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    const a = await queue.enqueue("a", 1);
+    const b = await queue.enqueue("b", 2);
+    const c = await queue.enqueue("a", 3, { delayMs: 60_000 });
+    await queue.cancelJob(b);
+
+    expect((await queue.listJobs()).items.map((job) => job.id)).toEqual([a, b, c]);
+    expect(await queue.listJobs({ type: "a", limit: 1, offset: 1 })).toEqual({
+      items: [expect.objectContaining({ id: c, status: "pending", payload: 3 })],
+      total: 2,
+    });
+    expect((await queue.listJobs({ status: "cancelled" })).items.map((job) => job.id)).toEqual([b]);
+  });
+
+  it("cancels pending jobs and retries them with fresh attempts", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    const handler = vi.fn<JobHandler<void>>();
+    queue.registerHandler("work", handler);
+    const id = await queue.enqueue("work", undefined, { delayMs: 60_000 });
+
+    expect(await queue.cancelJob(id)).toBe(true);
+    expect(await queue.cancelJob(id)).toBe(false);
+    expect(await queue.size()).toBe(0);
+
+    expect(await queue.retryJob(id)).toBe(true);
+    queue.start();
+    await queue.drain();
+    queue.stop();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await queue.retryJob(id)).toBe(false);
+    expect(await queue.retryJob("missing")).toBe(false);
+  });
+
+  it("runs a delayed pending job immediately when retried", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    const handler = vi.fn<JobHandler<void>>();
+    queue.registerHandler("work", handler);
+    const id = await queue.enqueue("work", undefined, { delayMs: 60_000 });
+    queue.start();
+
+    await queue.drain();
+    expect(handler).not.toHaveBeenCalled();
+
+    await queue.retryJob(id);
+    await queue.drain();
+    queue.stop();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it("holds paused types, and later jobs sharing their keys, until resumed", async () => {
+    const queue = new InMemoryJobQueue(10, 0, { concurrency: 2 });
+    const order: string[] = [];
+    queue.registerHandler("webhook", (job) => {
+      order.push(`webhook:${job.payload as string}`);
+    });
+    queue.registerHandler("accrual", (job) => {
+      order.push(`accrual:${job.payload as string}`);
+    });
+    await queue.enqueue("webhook", "1", { serializationKey: "line-1" });
+    await queue.enqueue("accrual", "1", { serializationKey: "line-1" });
+    await queue.enqueue("accrual", "2");
+
+    await queue.pauseType("webhook");
+    expect(await queue.getPausedTypes()).toEqual(["webhook"]);
+    queue.start();
+    await queue.drain();
+    expect(order).toEqual(["accrual:2"]);
+
+    await queue.resumeType("webhook");
+    await queue.drain();
+    queue.stop();
+    expect(order).toEqual(["accrual:2", "webhook:1", "accrual:1"]);
+    expect(await queue.getPausedTypes()).toEqual([]);
   });
 });
 
+describe("InMemoryJobQueue deduplication", () => {
+  it("ignores a caller id the queue already holds", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+
+    expect(await queue.enqueue("work", 1, { id: "job-a" })).toBe("job-a");
+    expect(await queue.enqueue("work", 2, { id: "job-a" })).toBe("job-a");
+
+    expect(await queue.listJobs()).toMatchObject({ items: [{ id: "job-a", payload: 1 }], total: 1 });
+  });
+
+  it("coalesces, replaces or rejects a job waiting with the same unique key", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    const id = await queue.enqueue("sync", { version: 1 }, { uniqueKey: "wallet:G1" });
+
+    expect(await queue.enqueue("sync", { version: 2 }, { uniqueKey: "wallet:G1" })).toBe(id);
+    expect(await queue.getJob(id)).toMatchObject({ payload: { version: 1 }, uniqueKey: "wallet:G1" });
+
+    expect(
+      await queue.enqueue("sync", { version: 3 }, { uniqueKey: "wallet:G1", onDuplicate: "replace", maxAttempts: 5 }),
+    ).toBe(id);
+    expect(await queue.getJob(id)).toMatchObject({ payload: { version: 3 }, maxAttempts: 5 });
+
+    await expect(
+      queue.enqueue("sync", { version: 4 }, { uniqueKey: "wallet:G1", onDuplicate: "reject" }),
+    ).rejects.toMatchObject({ name: "DuplicateJobError", uniqueKey: "wallet:G1", existingJobId: id });
+    expect(await queue.size()).toBe(1);
+  });
+
+  it("enqueues a new job once the waiting one has started", async () => {
+    const queue = new InMemoryJobQueue(10, 60_000);
+    queue.registerHandler("sync", vi.fn<JobHandler<number>>().mockRejectedValue(new Error("down")));
+    const first = await queue.enqueue("sync", 1, { uniqueKey: "wallet:G1" });
+    queue.start();
+    await queue.drain();
+    queue.stop();
+
+    // The first job is now waiting to retry and may not see the new data.
+    const second = await queue.enqueue("sync", 2, { uniqueKey: "wallet:G1" });
+    expect(second).not.toBe(first);
+    expect(await queue.size()).toBe(2);
+  });
+
+  it("skips a unique job that completed within the TTL window", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    const handler = vi.fn<JobHandler<number>>();
+    queue.registerHandler("sync", handler);
+    const id = await queue.enqueue("sync", 1, { uniqueKey: "wallet:G1", uniqueTtlMs: 60_000 });
+    queue.start();
+    await queue.drain();
+    queue.stop();
+
+    expect(await queue.enqueue("sync", 2, { uniqueKey: "wallet:G1", uniqueTtlMs: 60_000 })).toBe(id);
+    await expect(
+      queue.enqueue("sync", 2, { uniqueKey: "wallet:G1", uniqueTtlMs: 60_000, onDuplicate: "reject" }),
+    ).rejects.toThrow(DuplicateJobError);
+    expect(await queue.size()).toBe(0);
+
+    const now = Date.now();
+    const spy = vi.spyOn(Date, "now").mockReturnValue(now + 61_000);
+    try {
+      expect(await queue.enqueue("sync", 3, { uniqueKey: "wallet:G1", uniqueTtlMs: 60_000 })).not.toBe(id);
+    } finally {
+      spy.mockRestore();
+    }
+    expect(await queue.size()).toBe(1);
+  });
+
+  it("only remembers completed unique keys enqueued with a TTL, until it passes", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    queue.registerHandler("sync", vi.fn<JobHandler<number>>());
+    const completedKeys = (queue as unknown as { completedKeys: Map<string, unknown> }).completedKeys;
+    const untracked = await queue.enqueue("sync", 1, { uniqueKey: "wallet:G1" });
+    await queue.enqueue("sync", 2, { uniqueKey: "wallet:G2", uniqueTtlMs: 60_000 });
+    queue.start();
+    await queue.drain();
+
+    expect([...completedKeys.keys()]).toEqual(["wallet:G2"]);
+    expect(await queue.enqueue("sync", 3, { uniqueKey: "wallet:G1", uniqueTtlMs: 60_000 })).not.toBe(untracked);
+    await queue.drain();
+
+    const now = Date.now();
+    const spy = vi.spyOn(Date, "now").mockReturnValue(now + 61_000);
+    try {
+      await queue.enqueue("sync", 4, { uniqueKey: "wallet:G3", uniqueTtlMs: 60_000 });
+      await queue.drain();
+    } finally {
+      spy.mockRestore();
+      queue.stop();
+    }
+    expect([...completedKeys.keys()]).toEqual(["wallet:G3"]);
+  });
+
+  it("refuses to retry a cancelled job whose unique key has been taken", async () => {
+    const queue = new InMemoryJobQueue(10, 0);
+    const cancelled = await queue.enqueue("sync", 1, { uniqueKey: "wallet:G1" });
+    await queue.cancelJob(cancelled);
+    const waiting = await queue.enqueue("sync", 2, { uniqueKey: "wallet:G1" });
+
+    await expect(queue.retryJob(cancelled)).rejects.toMatchObject({ existingJobId: waiting });
+    expect(await queue.getJob(cancelled)).toMatchObject({ status: "cancelled" });
+  });
+});
+
+describe("InMemoryJobQueue schedules", () => {
+  const MINUTE_MS = 60_000;
+  const HOUR_MS = 60 * MINUTE_MS;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date("2024-03-10T15:00:00Z"));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("fires each occurrence as a job with a stable id", async () => {
+    const queue = new InMemoryJobQueue(MINUTE_MS, 0);
+    const handler = vi.fn<JobHandler<{ region: string }>>();
+    queue.registerHandler("report", handler);
+    await queue.schedule({ id: "hourly-report", type: "report", payload: { region: "eu" }, cron: "0 * * * *" });
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(2 * HOUR_MS);
+    queue.stop();
+
+    expect(handler.mock.calls.map(([job]) => [job.id, job.scheduledFor, job.payload])).toEqual([
+      ["hourly-report:2024-03-10T16:00:00.000Z", Date.parse("2024-03-10T16:00:00Z"), { region: "eu" }],
+      ["hourly-report:2024-03-10T17:00:00.000Z", Date.parse("2024-03-10T17:00:00Z"), { region: "eu" }],
+    ]);
+    expect((await queue.getSchedules())[0]).toMatchObject({
+      nextRunAt: Date.parse("2024-03-10T18:00:00Z"),
+      lastRunAt: Date.parse("2024-03-10T17:00:00Z"),
+    });
+  });
+
+  it("keeps the next occurrence when re-registered with the same timing", async () => {
+    const queue = new InMemoryJobQueue(MINUTE_MS, 0);
+    await queue.schedule({ id: "sweep", type: "sweep", payload: null, intervalMs: HOUR_MS });
+    vi.setSystemTime(new Date("2024-03-10T15:30:00Z"));
+
+    await queue.schedule({ id: "sweep", type: "sweep", payload: { v: 2 }, intervalMs: HOUR_MS });
+    expect((await queue.getSchedules())[0]).toMatchObject({ payload: { v: 2 }, nextRunAt: Date.parse("2024-03-10T16:00:00Z") });
+
+    await queue.schedule({ id: "sweep", type: "sweep", payload: null, intervalMs: 2 * HOUR_MS });
+    expect((await queue.getSchedules())[0]!.nextRunAt).toBe(Date.parse("2024-03-10T17:30:00Z"));
+
+    expect(await queue.unschedule("sweep")).toBe(true);
+    expect(await queue.unschedule("sweep")).toBe(false);
+    expect(await queue.getSchedules()).toEqual([]);
+  });
+
+  it("passes job options to the jobs it fires", async () => {
+    const queue = new InMemoryJobQueue(MINUTE_MS, 0);
+    await queue.schedule({
+      id: "sync",
+      type: "sync",
+      payload: null,
+      intervalMs: HOUR_MS,
+      job: { maxAttempts: 7, serializationKey: "sync" },
+    });
+    queue.start();
+    await queue.pauseType("sync");
+
+    await vi.advanceTimersByTimeAsync(HOUR_MS);
+    queue.stop();
+
+    expect((await queue.listJobs()).items).toEqual([
+      expect.objectContaining({ type: "sync", maxAttempts: 7, serializationKey: "sync" }),
+    ]);
+  });
+
+  it("rejects invalid schedules", async () => {
+    const queue = new InMemoryJobQueue();
+    const base = { id: "x", type: "x", payload: null };
+
+    await expect(queue.schedule(base)).rejects.toThrow("exactly one of cron and intervalMs");
+    await expect(queue.schedule({ ...base, cron: "* * * * *", intervalMs: 1000 })).rejects.toThrow("exactly one");
+    await expect(queue.schedule({ ...base, cron: "every hour" })).rejects.toThrow("5 fields");
+    await expect(queue.schedule({ ...base, intervalMs: 0 })).rejects.toThrow("intervalMs");
+    await expect(
+      queue.schedule({ ...base, intervalMs: 1000, misfire: "sometimes" as never }),
+    ).rejects.toThrow("misfire");
+  });
+});
+
+describe("dueOccurrences", () => {
+  const hourly = { intervalMs: 3_600_000, misfireGraceMs: 60_000, nextRunAt: Date.parse("2024-03-10T10:00:00Z") };
+  const now = Date.parse("2024-03-10T13:00:30Z");
+  const iso = (times: number[]) => times.map((time) => new Date(time).toISOString());
+
+  it("fires an occurrence found within the grace period", () => {
+    const { fire, nextRunAt } = dueOccurrences({ ...hourly, misfire: "skip", nextRunAt: Date.parse("2024-03-10T13:00:00Z") }, now);
+
+    expect(iso(fire)).toEqual(["2024-03-10T13:00:00.000Z"]);
+    expect(new Date(nextRunAt).toISOString()).toBe("2024-03-10T14:00:00.000Z");
+  });
+
+  it("applies the misfire policy to missed occurrences", () => {
+    expect(iso(dueOccurrences({ ...hourly, misfire: "catch_up" }, now).fire)).toEqual([
+      "2024-03-10T10:00:00.000Z",
+      "2024-03-10T11:00:00.000Z",
+      "2024-03-10T12:00:00.000Z",
+      "2024-03-10T13:00:00.000Z",
+    ]);
+    expect(iso(dueOccurrences({ ...hourly, misfire: "fire_once" }, now).fire)).toEqual(["2024-03-10T13:00:00.000Z"]);
+    expect(iso(dueOccurrences({ ...hourly, misfire: "skip" }, now).fire)).toEqual(["2024-03-10T13:00:00.000Z"]);
+    expect(iso(dueOccurrences({ ...hourly, misfire: "skip" }, now + 60_000).fire)).toEqual([]);
+  });
+
+  it("caps how many occurrences are caught up", () => {
+    const { fire, nextRunAt } = dueOccurrences(
+      { ...hourly, intervalMs: 1000, misfire: "catch_up", nextRunAt: 0 },
+      10_000_000,
+    );
+
+    expect(fire).toHaveLength(1000);
+    expect(fire[fire.length - 1]).toBe(10_000_000);
+    expect(nextRunAt).toBe(10_001_000);
+  });
+});
+
+describe("InMemoryJobQueue concurrency", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    (console.error as unknown as Mock).mockRestore?.();
+    vi.useRealTimers();
+  });
+
+  /** Handler that takes `ms` and records how many of its jobs overlapped. */
+  function tracked(ms: number) {
+    const stats = { running: 0, peak: 0, order: [] as unknown[] };
+    const handler = vi.fn<JobHandler<unknown>>(async (job) => {
+      stats.running += 1;
+      stats.peak = Math.max(stats.peak, stats.running);
+      stats.order.push(job.payload);
+      await new Promise((resolve) => setTimeout(resolve, ms));
+      stats.running -= 1;
+    });
+    return { handler, stats };
+  }
+
+  it("runs one job at a time by default", async () => {
+    const queue = new InMemoryJobQueue(10, 20);
+    const { handler, stats } = tracked(100);
+    queue.registerHandler("work", handler);
+
+    for (let i = 0; i < 3; i++) await queue.enqueue("work", i);
+    queue.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(handler).toHaveBeenCalledTimes(3);
+    expect(stats.peak).toBe(1);
+  });
+
+  it("runs up to the global limit in parallel", async () => {
+    const queue = new InMemoryJobQueue(10, 20, { concurrency: 3 });
+    const { handler, stats } = tracked(100);
+    queue.registerHandler("work", handler);
+
+    for (let i = 0; i < 7; i++) await queue.enqueue("work", i);
+    queue.start();
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(stats.running).toBe(3);
+    expect(await queue.size()).toBe(7);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(handler).toHaveBeenCalledTimes(7);
+    expect(stats.peak).toBe(3);
+  });
+
+  it("caps a job type at its handler's concurrency", async () => {
+    const queue = new InMemoryJobQueue(10, 20, { concurrency: 4 });
+    const slow = tracked(100);
+    const fast = tracked(100);
+    queue.registerHandler("webhook", slow.handler, { concurrency: 1 });
+    queue.registerHandler("accrual", fast.handler);
+
+    for (let i = 0; i < 3; i++) {
+      await queue.enqueue("webhook", i);
+      await queue.enqueue("accrual", i);
+    }
+    queue.start();
+    await vi.advanceTimersByTimeAsync(50);
+
+    expect(slow.stats.running).toBe(1);
+    expect(fast.stats.running).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(slow.stats.peak).toBe(1);
+    expect(slow.handler).toHaveBeenCalledTimes(3);
+  });
+
+  it("runs jobs sharing a serialization key one at a time in enqueue order", async () => {
+    const queue = new InMemoryJobQueue(10, 20, { concurrency: 4 });
+    const lineA = tracked(50);
+    queue.registerHandler("line-a", lineA.handler);
+    const other = tracked(50);
+    queue.registerHandler("other", other.handler);
+
+    for (let i = 0; i < 4; i++) {
+      await queue.enqueue("line-a", i, { serializationKey: "credit_line:a" });
+    }
+    await queue.enqueue("other", "x");
+    queue.start();
+    await vi.advanceTimersByTimeAsync(20);
+
+    expect(lineA.stats.running).toBe(1);
+    expect(other.stats.running).toBe(1);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(lineA.stats.peak).toBe(1);
+    expect(lineA.stats.order).toEqual([0, 1, 2, 3]);
+  });
+
+  it("holds later jobs with the same key while an earlier one waits to retry", async () => {
+    const queue = new InMemoryJobQueue(10, 100, { concurrency: 2 });
+    const order: string[] = [];
+    queue.registerHandler("step", async (job) => {
+      order.push(`${job.payload as string}:${job.attempts}`);
+      if (job.payload === "first" && job.attempts === 0) throw new Error("transient");
+    });
+
+    await queue.enqueue("step", "first", { serializationKey: "line-1" });
+    await queue.enqueue("step", "second", { serializationKey: "line-1" });
+    queue.start();
+    await vi.advanceTimersByTimeAsync(1_000);
+
+    expect(order).toEqual(["first:0", "first:1", "second:0"]);
+  });
+
+  it("drain() waits for every concurrent job to finish", async () => {
+    vi.useRealTimers();
+    const queue = new InMemoryJobQueue(10, 20, { concurrency: 2 });
+    const { handler, stats } = tracked(5);
+    queue.registerHandler("work", handler);
+
+    for (let i = 0; i < 5; i++) await queue.enqueue("work", i);
+    queue.start();
+    await queue.drain();
+    queue.stop();
+
+    expect(handler).toHaveBeenCalledTimes(5);
+    expect(stats.peak).toBe(2);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it("rejects limits that are not positive integers", () => {
+    expect(validateConcurrency(2)).toBe(2);
+    expect(() => new InMemoryJobQueue(10, 20, { concurrency: 0 })).toThrow("concurrency");
+    expect(() => new InMemoryJobQueue().registerHandler("x", vi.fn(), { concurrency: 1.5 })).toThrow(
+      "concurrency",
+    );
+  });
+});
+
+describe("retryDelay", () => {
+  const policy = { initialDelayMs: 1000, multiplier: 2, maxDelayMs: 10_000, jitter: 0 };
+
+  it("grows the delay per failed attempt up to the cap", () => {
+    expect([1, 2, 3, 4, 5, 6].map((attempts) => retryDelay(policy, attempts))).toEqual([
+      1000, 2000, 4000, 8000, 10_000, 10_000,
+    ]);
+  });
+
+  it("removes up to the jitter fraction of the delay at random", () => {
+    const jittered = { ...policy, jitter: 0.5 };
+
+    expect(retryDelay(jittered, 3, () => 0)).toBe(4000);
+    expect(retryDelay(jittered, 3, () => 0.5)).toBe(3000);
+    expect(retryDelay(jittered, 3, () => 0.999)).toBe(2002);
+  });
+
+  it("rejects invalid policies", () => {
+    expect(() => resolveRetryPolicy(DEFAULT_RETRY_POLICY, { multiplier: 0.5 })).toThrow("multiplier");
+    expect(() => resolveRetryPolicy(DEFAULT_RETRY_POLICY, { jitter: 2 })).toThrow("jitter");
+    expect(() => resolveRetryPolicy(DEFAULT_RETRY_POLICY, { maxDelayMs: 1 })).toThrow("maxDelayMs");
+    expect(() => resolveRetryPolicy(DEFAULT_RETRY_POLICY, { initialDelayMs: -1 })).toThrow("initialDelayMs");
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { CurrencyMismatchError, DEFAULT_CURRENCY, Money } from "../utils/money.js";
+
+describe("Money", () => {
+  it("normalizes the amount and defaults the currency", () => {
+    const money = Money.of("100.50");
+
+    expect(money.amount).toBe("100.5");
+    expect(money.currency).toBe(DEFAULT_CURRENCY);
+    expect(Money.zero("XLM").toString()).toBe("0 XLM");
+  });
+
+  it("rejects malformed amounts and missing currency", () => {
+    expect(() => Money.of("1.123456789")).toThrow('Invalid decimal amount: "1.123456789"');
+    expect(() => Money.of("1", "")).toThrow("Currency is required");
+  });
+
+  it("adds, subtracts and compares in the same currency", () => {
+    const a = Money.of("0.1");
+    const b = Money.of("0.2");
+
+    expect(a.add(b).amount).toBe("0.3");
+    expect(a.subtract(b).amount).toBe("-0.1");
+    expect(a.subtract(b).isNegative()).toBe(true);
+    expect(a.compare(b)).toBe(-1);
+    expect(b.min(a)).toBe(a);
+    expect(a.subtract(a).isZero()).toBe(true);
+    expect(a.isPositive()).toBe(true);
+  });
+
+  it("refuses to mix currencies", () => {
+    const usdc = Money.of("1", "USDC");
+    const xlm = Money.of("1", "XLM");
+
+    expect(() => usdc.add(xlm)).toThrow(CurrencyMismatchError);
+    expect(() => usdc.compare(xlm)).toThrow("Currency mismatch: expected USDC, got XLM.");
+    expect(usdc.equals(xlm)).toBe(false);
+    expect(usdc.equals(Money.of("1.0", "USDC"))).toBe(true);
+  });
+
+  it("scales and rounds half to even", () => {
+    expect(Money.of("1000").scale("1", "3").amount).toBe("333.33333333");
+    expect(Money.of("2.345").round(2).amount).toBe("2.34");
+    expect(Money.of("2.355").round(2).amount).toBe("2.36");
+  });
+
+  it("round-trips through JSON", () => {
+    const money = Money.of("42.42", "XLM");
+    const json = JSON.parse(JSON.stringify({ balance: money })) as { balance: { amount: string; currency: string } };
+
+    expect(json.balance).toEqual({ amount: "42.42", currency: "XLM" });
+    expect(Money.fromJSON(json.balance).equals(money)).toBe(true);
+  });
+});
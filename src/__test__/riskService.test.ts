@@ -1,3 +1,4 @@
+import { vi } from "vitest";
 
 import {
     evaluateWallet,
@@ -91,6 +92,11 @@ describe("scoreToRiskLevel()", () => {
     it("returns 'high' for score 100", () => {
         expect(scoreToRiskLevel(100)).toBe<RiskLevel>("high");
     });
+
+    it("uses the bands it is given", () => {
+        expect(scoreToRiskLevel(30, { medium: 20, high: 50 })).toBe<RiskLevel>("medium");
+        expect(scoreToRiskLevel(50, { medium: 20, high: 50 })).toBe<RiskLevel>("high");
+    });
 });
 
 // ---------------------------------------------------------------------------
@@ -113,12 +119,14 @@ describe("scoreToRiskLevel()", () => {
         expect(result.walletAddress).toBe(VALID_ADDRESS);
         });
 
-        it("returns score as null (placeholder engine)", () => {
-        expect(result.score).toBeNull();
+        it("returns a score between 0 and 100", () => {
+        expect(Number.isInteger(result.score)).toBe(true);
+        expect(result.score).toBeGreaterThanOrEqual(0);
+        expect(result.score).toBeLessThanOrEqual(100);
         });
 
-        it("returns riskLevel as null (placeholder engine)", () => {
-        expect(result.riskLevel).toBeNull();
+        it("returns the risk level for the score", () => {
+        expect(result.riskLevel).toBe(scoreToRiskLevel(result.score));
         });
 
         it("returns a non-empty message string", () => {
@@ -126,10 +134,6 @@ describe("scoreToRiskLevel()", () => {
         expect(result.message.length).toBeGreaterThan(0);
         });
 
-        it("includes 'placeholder' in the message to indicate engine status", () => {
-        expect(result.message.toLowerCase()).toContain("placeholder");
-        });
-
         it("returns a valid ISO-8601 evaluatedAt timestamp", () => {
         const date = new Date(result.evaluatedAt);
         expect(date.getTime()).not.toBeNaN();
@@ -155,6 +159,21 @@ describe("scoreToRiskLevel()", () => {
         const result = await evaluateWallet(VALID_ADDRESS_2);
         expect(result.walletAddress).toBe(VALID_ADDRESS_2);
         });
+
+        it("scores a three-week-old wallet as riskier than an established one", async () => {
+        const established = await evaluateWallet(VALID_ADDRESS);
+        const fresh = await evaluateWallet(VALID_ADDRESS_2);
+        expect(fresh.score).toBeGreaterThan(established.score);
+        });
+    });
+
+    describe("with a custom scorer", () => {
+        it("uses the scorer's score and risk level", async () => {
+        const scoreWallet = vi.fn().mockResolvedValue({ riskScore: 72, riskLevel: "medium", factors: [], modelVersion: 3 });
+        const result = await evaluateWallet(VALID_ADDRESS, { scoreWallet });
+        expect(scoreWallet).toHaveBeenCalledWith(VALID_ADDRESS, expect.any(Date));
+        expect(result).toMatchObject({ score: 72, riskLevel: "medium" });
+        });
     });
 
     describe("with an invalid wallet address", () => {
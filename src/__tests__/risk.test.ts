@@ -69,11 +69,11 @@ describe('POST /api/risk/admin/recalibrate (admin – requires API key)', () =>
         expect(JSON.stringify(res.body)).not.toContain(badKey);
     });
 
-    it('returns 200 with the valid API key', async () => {
+    it('returns 202 with the valid API key', async () => {
         const res = await request(app)
             .post('/api/risk/admin/recalibrate')
             .set('x-api-key', VALID_KEY);
-        expect(res.status).toBe(200);
-        expect(res.body.message).toBe('Risk model recalibration triggered');
+        expect(res.status).toBe(202);
+        expect(res.body.data).toEqual({ version: 1, jobId: expect.any(String) });
     });
 });
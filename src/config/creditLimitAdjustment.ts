@@ -0,0 +1,48 @@
+/**
+ * Credit Limit Adjustment Configuration
+ *
+ * Read from the environment:
+ *   CREDIT_LIMIT_ADJUSTMENT        off, propose (default) or apply
+ *   CREDIT_LIMIT_MAX_STEP          largest limit change per adjustment, as a
+ *                                  fraction of the current limit (default 0.25)
+ *   CREDIT_RATE_MAX_STEP_BPS       largest rate change per adjustment (default 200)
+ *   CREDIT_LIMIT_COOLDOWN_HOURS    minimum time between applied adjustments to
+ *                                  a line (default 168)
+ */
+import {
+  CREDIT_LIMIT_ADJUSTMENT_MODES,
+  type CreditLimitAdjustmentMode,
+  type CreditLimitPolicy,
+} from '../services/CreditLimitAdjustmentService.js';
+
+function readInteger(name: string, fallback: string): number {
+  const raw = process.env[name] || fallback;
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || !Number.isSafeInteger(value)) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}".`);
+  }
+  return value;
+}
+
+/** Returns the adjustment policy. Throws on invalid values so misconfiguration fails at startup. */
+export function loadCreditLimitPolicy(): CreditLimitPolicy {
+  const mode = process.env.CREDIT_LIMIT_ADJUSTMENT || 'propose';
+  if (!CREDIT_LIMIT_ADJUSTMENT_MODES.includes(mode as CreditLimitAdjustmentMode)) {
+    throw new Error(
+      `CREDIT_LIMIT_ADJUSTMENT must be one of ${CREDIT_LIMIT_ADJUSTMENT_MODES.join(', ')}, got "${mode}".`,
+    );
+  }
+
+  const rawMaxStep = process.env.CREDIT_LIMIT_MAX_STEP || '0.25';
+  const maxLimitStep = Number(rawMaxStep);
+  if (!/^0?\.\d+$/.test(rawMaxStep) || !(maxLimitStep > 0)) {
+    throw new Error(`CREDIT_LIMIT_MAX_STEP must be a fraction between 0 and 1, got "${rawMaxStep}".`);
+  }
+
+  return {
+    mode: mode as CreditLimitAdjustmentMode,
+    maxLimitStep,
+    maxRateStepBps: readInteger('CREDIT_RATE_MAX_STEP_BPS', '200'),
+    cooldownMs: readInteger('CREDIT_LIMIT_COOLDOWN_HOURS', '168') * 60 * 60 * 1000,
+  };
+}
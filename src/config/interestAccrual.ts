@@ -0,0 +1,52 @@
+/**
+ * Interest Accrual Configuration
+ *
+ * Read from the environment:
+ *   INTEREST_DAY_COUNT       ACT/365 (default), ACT/360 or ACT/ACT
+ *   INTEREST_COMPOUNDING     simple (default) or compound
+ *   INTEREST_CATCH_UP_DAYS   completed days to accrue on startup (default 0)
+ */
+import {
+  COMPOUNDING_MODES,
+  DAY_COUNT_CONVENTIONS,
+  type CompoundingMode,
+  type DayCountConvention,
+} from '../services/InterestAccrualService.js';
+
+export interface InterestAccrualConfig {
+  dayCount: DayCountConvention;
+  compounding: CompoundingMode;
+  catchUpDays: number;
+}
+
+/**
+ * Returns the interest accrual settings. Throws on unrecognised values so
+ * that misconfiguration is caught at startup instead of mispricing interest.
+ */
+export function loadInterestAccrualConfig(): InterestAccrualConfig {
+  const dayCount = process.env.INTEREST_DAY_COUNT || 'ACT/365';
+  if (!DAY_COUNT_CONVENTIONS.includes(dayCount as DayCountConvention)) {
+    throw new Error(
+      `INTEREST_DAY_COUNT must be one of ${DAY_COUNT_CONVENTIONS.join(', ')}, got "${dayCount}".`,
+    );
+  }
+
+  const compounding = process.env.INTEREST_COMPOUNDING || 'simple';
+  if (!COMPOUNDING_MODES.includes(compounding as CompoundingMode)) {
+    throw new Error(
+      `INTEREST_COMPOUNDING must be one of ${COMPOUNDING_MODES.join(', ')}, got "${compounding}".`,
+    );
+  }
+
+  const rawCatchUpDays = process.env.INTEREST_CATCH_UP_DAYS || '0';
+  const catchUpDays = Number(rawCatchUpDays);
+  if (!/^\d+$/.test(rawCatchUpDays) || !Number.isSafeInteger(catchUpDays)) {
+    throw new Error(`INTEREST_CATCH_UP_DAYS must be a non-negative integer, got "${rawCatchUpDays}".`);
+  }
+
+  return {
+    dayCount: dayCount as DayCountConvention,
+    compounding: compounding as CompoundingMode,
+    catchUpDays,
+  };
+}
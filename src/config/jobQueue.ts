@@ -0,0 +1,30 @@
+/**
+ * Job Queue Configuration
+ *
+ * Read from the environment:
+ *   JOB_CONCURRENCY                 jobs each worker process runs at once (default 1)
+ *   JOB_COMPLETED_RETENTION_HOURS   how long completed jobs are kept before
+ *                                   they are deleted (default 168)
+ */
+
+export interface JobQueueConfig {
+  concurrency: number;
+  completedJobTtlMs: number;
+}
+
+/** Returns the job queue settings. Throws on invalid values so misconfiguration fails at startup. */
+export function loadJobQueueConfig(): JobQueueConfig {
+  const rawConcurrency = process.env.JOB_CONCURRENCY || '1';
+  const concurrency = Number(rawConcurrency);
+  if (!/^\d+$/.test(rawConcurrency) || !Number.isSafeInteger(concurrency) || concurrency < 1) {
+    throw new Error(`JOB_CONCURRENCY must be a positive integer, got "${rawConcurrency}".`);
+  }
+
+  const rawRetentionHours = process.env.JOB_COMPLETED_RETENTION_HOURS || '168';
+  const retentionHours = Number(rawRetentionHours);
+  if (!/^\d+$/.test(rawRetentionHours) || !Number.isSafeInteger(retentionHours) || retentionHours < 1) {
+    throw new Error(`JOB_COMPLETED_RETENTION_HOURS must be a positive integer, got "${rawRetentionHours}".`);
+  }
+
+  return { concurrency, completedJobTtlMs: retentionHours * 60 * 60 * 1000 };
+}
@@ -0,0 +1,58 @@
+/**
+ * Provisioning Configuration
+ *
+ * Read from the environment:
+ *   PROVISIONING_PD_TABLE     probability of default by risk score, as
+ *                             comma-separated `minScore:pd` pairs starting at
+ *                             score 0 (default 0:0.01,40:0.05,70:0.2)
+ *   PROVISIONING_UNRATED_PD   probability of default for borrowers never
+ *                             evaluated (default 0.2)
+ *   PROVISIONING_LGD          loss given default (default 0.45)
+ *   PROVISIONING_CCF          share of an active line's undrawn credit counted
+ *                             as exposure at default (default 0.5)
+ */
+import {
+  DEFAULT_PROVISIONING_POLICY,
+  type PdBand,
+  type ProvisioningPolicy,
+  validatePdTable,
+} from '../services/ProvisioningService.js';
+
+const FRACTION = /^(0(\.\d+)?|1(\.0+)?|\.\d+)$/;
+
+function readFraction(name: string, fallback: number): number {
+  const raw = process.env[name] || String(fallback);
+  if (!FRACTION.test(raw)) {
+    throw new Error(`${name} must be a number between 0 and 1, got "${raw}".`);
+  }
+  return Number(raw);
+}
+
+function readPdTable(): PdBand[] {
+  const raw = process.env.PROVISIONING_PD_TABLE;
+  if (!raw) return DEFAULT_PROVISIONING_POLICY.pdTable;
+
+  const pdTable = raw.split(',').map((entry) => {
+    const [minScore, pd] = entry.trim().split(':');
+    if (!/^\d+$/.test(minScore ?? '') || !FRACTION.test(pd ?? '')) {
+      throw new Error(`PROVISIONING_PD_TABLE entries must look like "40:0.05", got "${entry}".`);
+    }
+    return { minScore: Number(minScore), pd: Number(pd) };
+  });
+  try {
+    validatePdTable(pdTable);
+  } catch (err) {
+    throw new Error(`PROVISIONING_PD_TABLE is invalid: ${(err as Error).message}.`);
+  }
+  return pdTable;
+}
+
+/** Returns the provisioning policy. Throws on invalid values so misconfiguration fails at startup. */
+export function loadProvisioningPolicy(): ProvisioningPolicy {
+  return {
+    pdTable: readPdTable(),
+    unratedPd: readFraction('PROVISIONING_UNRATED_PD', DEFAULT_PROVISIONING_POLICY.unratedPd),
+    lgd: readFraction('PROVISIONING_LGD', DEFAULT_PROVISIONING_POLICY.lgd),
+    ccf: readFraction('PROVISIONING_CCF', DEFAULT_PROVISIONING_POLICY.ccf),
+  };
+}
@@ -0,0 +1,40 @@
+/**
+ * Risk Drift Monitoring Configuration
+ *
+ * Read from the environment:
+ *   RISK_DRIFT_THRESHOLD_LOW      score increase that raises an alert for a
+ *                                 wallet now at low risk (default 20)
+ *   RISK_DRIFT_THRESHOLD_MEDIUM   the same for medium risk (default 15)
+ *   RISK_DRIFT_THRESHOLD_HIGH     the same for high risk (default 10)
+ *   RISK_DRIFT_AUTO_SUSPEND       true to suspend the wallet's active credit
+ *                                 lines on an alert (default false)
+ */
+import { DEFAULT_RISK_DRIFT_POLICY, type RiskDriftPolicy } from '../services/RiskDriftService.js';
+import type { RiskLevel } from '../services/riskModel.js';
+
+function readThreshold(level: RiskLevel): number {
+  const name = `RISK_DRIFT_THRESHOLD_${level.toUpperCase()}`;
+  const raw = process.env[name] || String(DEFAULT_RISK_DRIFT_POLICY.thresholds[level]);
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || value < 1 || value > 100) {
+    throw new Error(`${name} must be an integer between 1 and 100, got "${raw}".`);
+  }
+  return value;
+}
+
+/** Returns the drift policy. Throws on invalid values so misconfiguration fails at startup. */
+export function loadRiskDriftPolicy(): RiskDriftPolicy {
+  const rawAutoSuspend = process.env.RISK_DRIFT_AUTO_SUSPEND || 'false';
+  if (rawAutoSuspend !== 'true' && rawAutoSuspend !== 'false') {
+    throw new Error(`RISK_DRIFT_AUTO_SUSPEND must be true or false, got "${rawAutoSuspend}".`);
+  }
+
+  return {
+    thresholds: {
+      low: readThreshold('low'),
+      medium: readThreshold('medium'),
+      high: readThreshold('high'),
+    },
+    autoSuspend: rawAutoSuspend === 'true',
+  };
+}
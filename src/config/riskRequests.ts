@@ -0,0 +1,41 @@
+/**
+ * Asynchronous Risk Evaluation Configuration
+ *
+ * Read from the environment:
+ *   RISK_CALLBACK_SECRET       signs completion callbacks with an HMAC-SHA256
+ *                              `X-Creditra-Signature` header (unsigned when unset)
+ *   RISK_CALLBACK_TIMEOUT_MS   how long a callback may take (default 10000)
+ *   RISK_CALLBACK_ALLOWED_HOSTS
+ *                              comma-separated hosts callbacks may be sent to;
+ *                              `*.example.com` allows any subdomain (default
+ *                              none, so callback URLs are rejected)
+ */
+
+export interface RiskRequestConfig {
+  callbackSecret?: string;
+  callbackTimeoutMs: number;
+  callbackAllowedHosts: string[];
+}
+
+const ALLOWED_HOST = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*$/;
+
+/** Returns the callback settings. Throws on invalid values so misconfiguration fails at startup. */
+export function loadRiskRequestConfig(): RiskRequestConfig {
+  const rawTimeout = process.env.RISK_CALLBACK_TIMEOUT_MS || '10000';
+  const callbackTimeoutMs = Number(rawTimeout);
+  if (!/^\d+$/.test(rawTimeout) || !Number.isSafeInteger(callbackTimeoutMs) || callbackTimeoutMs < 1) {
+    throw new Error(`RISK_CALLBACK_TIMEOUT_MS must be a positive integer, got "${rawTimeout}".`);
+  }
+
+  const callbackAllowedHosts = (process.env.RISK_CALLBACK_ALLOWED_HOSTS ?? '')
+    .split(',')
+    .map((host) => host.trim().toLowerCase())
+    .filter((host) => host !== '');
+  const invalid = callbackAllowedHosts.find((host) => !ALLOWED_HOST.test(host));
+  if (invalid !== undefined) {
+    throw new Error(`RISK_CALLBACK_ALLOWED_HOSTS entries must be host names like "hooks.example.com" or "*.example.com", got "${invalid}".`);
+  }
+
+  const callbackSecret = process.env.RISK_CALLBACK_SECRET || undefined;
+  return { ...(callbackSecret === undefined ? {} : { callbackSecret }), callbackTimeoutMs, callbackAllowedHosts };
+}
@@ -0,0 +1,31 @@
+/**
+ * Graceful Shutdown Configuration
+ *
+ * Read from the environment:
+ *   SHUTDOWN_HTTP_TIMEOUT_MS   how long in-flight requests may take to finish
+ *                              before their connections are closed (default 10000)
+ *   SHUTDOWN_JOB_TIMEOUT_MS    how long running jobs may take to finish before
+ *                              the process exits without them (default 30000)
+ */
+
+export interface ShutdownConfig {
+  httpTimeoutMs: number;
+  jobTimeoutMs: number;
+}
+
+function readTimeout(name: string, fallback: string): number {
+  const raw = process.env[name] || fallback;
+  const value = Number(raw);
+  if (!/^\d+$/.test(raw) || !Number.isSafeInteger(value)) {
+    throw new Error(`${name} must be a non-negative integer, got "${raw}".`);
+  }
+  return value;
+}
+
+/** Returns the shutdown deadlines. Throws on invalid values so misconfiguration fails at startup. */
+export function loadShutdownConfig(): ShutdownConfig {
+  return {
+    httpTimeoutMs: readTimeout('SHUTDOWN_HTTP_TIMEOUT_MS', '10000'),
+    jobTimeoutMs: readTimeout('SHUTDOWN_JOB_TIMEOUT_MS', '30000'),
+  };
+}
@@ -1,11 +1,49 @@
 import { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
 import { RiskEvaluationRepository } from '../repositories/interfaces/RiskEvaluationRepository.js';
 import { TransactionRepository } from '../repositories/interfaces/TransactionRepository.js';
+import type { EventRepository } from '../repositories/interfaces/EventRepository.js';
+import type { CursorRepository } from '../repositories/interfaces/CursorRepository.js';
+import type { RiskModelRepository } from '../repositories/interfaces/RiskModelRepository.js';
+import type { RiskRequestRepository } from '../repositories/interfaces/RiskRequestRepository.js';
+import type { PortfolioRepository } from '../repositories/interfaces/PortfolioRepository.js';
+import type { UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
 import { InMemoryCreditLineRepository } from '../repositories/memory/InMemoryCreditLineRepository.js';
 import { InMemoryRiskEvaluationRepository } from '../repositories/memory/InMemoryRiskEvaluationRepository.js';
 import { InMemoryTransactionRepository } from '../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryEventRepository } from '../repositories/memory/InMemoryEventRepository.js';
+import { InMemoryCursorRepository } from '../repositories/memory/InMemoryCursorRepository.js';
+import { InMemoryRiskModelRepository } from '../repositories/memory/InMemoryRiskModelRepository.js';
+import { InMemoryRiskRequestRepository } from '../repositories/memory/InMemoryRiskRequestRepository.js';
+import { InMemoryPortfolioRepository } from '../repositories/memory/InMemoryPortfolioRepository.js';
+import { InMemoryUnitOfWork } from '../repositories/memory/InMemoryUnitOfWork.js';
+import { PgCreditLineRepository } from '../repositories/postgres/PgCreditLineRepository.js';
+import { PgRiskEvaluationRepository } from '../repositories/postgres/PgRiskEvaluationRepository.js';
+import { PgTransactionRepository } from '../repositories/postgres/PgTransactionRepository.js';
+import { PgEventRepository } from '../repositories/postgres/PgEventRepository.js';
+import { PgCursorRepository } from '../repositories/postgres/PgCursorRepository.js';
+import { PgRiskModelRepository } from '../repositories/postgres/PgRiskModelRepository.js';
+import { PgRiskRequestRepository } from '../repositories/postgres/PgRiskRequestRepository.js';
+import { PgPortfolioRepository } from '../repositories/postgres/PgPortfolioRepository.js';
+import { PgUnitOfWork } from '../repositories/postgres/PgUnitOfWork.js';
+import { getPool, type DbPool } from '../db/client.js';
 import { CreditLineService } from '../services/CreditLineService.js';
+import { CreditLimitAdjustmentService } from '../services/CreditLimitAdjustmentService.js';
+import { RiskDriftService } from '../services/RiskDriftService.js';
+import { PortfolioAnalyticsService } from '../services/PortfolioAnalyticsService.js';
+import { ProvisioningService } from '../services/ProvisioningService.js';
 import { RiskEvaluationService } from '../services/RiskEvaluationService.js';
+import { RiskModelService } from '../services/RiskModelService.js';
+import { InterestAccrualService } from '../services/InterestAccrualService.js';
+import { EventIngestionService } from '../services/EventIngestionService.js';
+import { RiskScoringPipeline } from '../services/riskScoring.js';
+import { type WalletDataProvider, FixtureWalletDataProvider } from '../services/walletData.js';
+import { type JobQueue, defaultJobQueue } from '../services/jobQueue.js';
+import { PgJobQueue } from '../services/pgJobQueue.js';
+import { loadJobQueueConfig } from '../config/jobQueue.js';
+import { loadInterestAccrualConfig } from '../config/interestAccrual.js';
+import { loadCreditLimitPolicy } from '../config/creditLimitAdjustment.js';
+import { loadProvisioningPolicy } from '../config/provisioning.js';
+import { loadRiskDriftPolicy } from '../config/riskDrift.js';
 
 export class Container {
   private static instance: Container;
@@ -14,20 +52,65 @@ export class Container {
   private _creditLineRepository: CreditLineRepository;
   private _riskEvaluationRepository: RiskEvaluationRepository;
   private _transactionRepository: TransactionRepository;
+  private _eventRepository: EventRepository;
+  private _cursorRepository: CursorRepository;
+  private _riskModelRepository: RiskModelRepository;
+  private _riskRequestRepository: RiskRequestRepository;
+  private _portfolioRepository: PortfolioRepository;
+  private _unitOfWork: UnitOfWork;
+  private _jobQueue: JobQueue;
+  private _db: DbPool | null = null;
+  private _walletDataProvider: WalletDataProvider = new FixtureWalletDataProvider();
+  private _riskScoringPipeline!: RiskScoringPipeline;
   
   // Services
   private _creditLineService: CreditLineService;
+  private _creditLimitAdjustmentService: CreditLimitAdjustmentService;
   private _riskEvaluationService: RiskEvaluationService;
+  private _riskModelService!: RiskModelService;
+  private _riskDriftService: RiskDriftService;
+  private _portfolioAnalyticsService: PortfolioAnalyticsService;
+  private _provisioningService: ProvisioningService;
+  private _interestAccrualService: InterestAccrualService;
+  private _eventIngestionService: EventIngestionService;
 
   private constructor() {
-    // Initialize repositories (in-memory implementations for now)
-    this._creditLineRepository = new InMemoryCreditLineRepository();
-    this._riskEvaluationRepository = new InMemoryRiskEvaluationRepository();
-    this._transactionRepository = new InMemoryTransactionRepository();
+    // Initialize repositories (PostgreSQL when DATABASE_URL is set, in-memory otherwise)
+    if (process.env.DATABASE_URL) {
+      const db = getPool();
+      this._db = db;
+      this._creditLineRepository = new PgCreditLineRepository(db);
+      this._riskEvaluationRepository = new PgRiskEvaluationRepository(db);
+      this._transactionRepository = new PgTransactionRepository(db);
+      this._eventRepository = new PgEventRepository(db);
+      this._cursorRepository = new PgCursorRepository(db);
+      this._riskModelRepository = new PgRiskModelRepository(db);
+      this._riskRequestRepository = new PgRiskRequestRepository(db);
+      this._portfolioRepository = new PgPortfolioRepository(db);
+      this._unitOfWork = new PgUnitOfWork(db);
+      this._jobQueue = new PgJobQueue(db, loadJobQueueConfig());
+    } else {
+      this._creditLineRepository = new InMemoryCreditLineRepository();
+      this._riskEvaluationRepository = new InMemoryRiskEvaluationRepository();
+      this._transactionRepository = new InMemoryTransactionRepository(this._creditLineRepository);
+      this._eventRepository = new InMemoryEventRepository();
+      this._cursorRepository = new InMemoryCursorRepository();
+      this._riskModelRepository = new InMemoryRiskModelRepository();
+      this._riskRequestRepository = new InMemoryRiskRequestRepository();
+      this._portfolioRepository = this.createInMemoryPortfolioRepository();
+      this._unitOfWork = this.createInMemoryUnitOfWork();
+      this._jobQueue = defaultJobQueue;
+    }
     
     // Initialize services
-    this._creditLineService = new CreditLineService(this._creditLineRepository);
-    this._riskEvaluationService = new RiskEvaluationService(this._riskEvaluationRepository);
+    this._creditLineService = this.createCreditLineService();
+    this._creditLimitAdjustmentService = this.createCreditLimitAdjustmentService();
+    this._riskEvaluationService = this.createRiskEvaluationService();
+    this._riskDriftService = this.createRiskDriftService();
+    this._portfolioAnalyticsService = new PortfolioAnalyticsService(this._portfolioRepository);
+    this._provisioningService = this.createProvisioningService();
+    this._interestAccrualService = this.createInterestAccrualService();
+    this._eventIngestionService = this.createEventIngestionService();
   }
 
   public static getInstance(): Container {
@@ -50,33 +133,292 @@ export class Container {
     return this._transactionRepository;
   }
 
+  get eventRepository(): EventRepository {
+    return this._eventRepository;
+  }
+
+  get cursorRepository(): CursorRepository {
+    return this._cursorRepository;
+  }
+
+  get riskModelRepository(): RiskModelRepository {
+    return this._riskModelRepository;
+  }
+
+  /** Async risk evaluation requests and their outcome. */
+  get riskRequestRepository(): RiskRequestRepository {
+    return this._riskRequestRepository;
+  }
+
+  /** Credit line totals by risk level, status and origination month. */
+  get portfolioRepository(): PortfolioRepository {
+    return this._portfolioRepository;
+  }
+
+  /** Runs credit line, ledger and event writes atomically. */
+  get unitOfWork(): UnitOfWork {
+    return this._unitOfWork;
+  }
+
+  /** Source of on-chain wallet history for risk scoring; fixture-backed until a live provider is configured. */
+  get walletDataProvider(): WalletDataProvider {
+    return this._walletDataProvider;
+  }
+
+  /** Scores wallets from their on-chain history and Creditra repayment record. */
+  get riskScoringPipeline(): RiskScoringPipeline {
+    return this._riskScoringPipeline;
+  }
+
+  /** Shared job queue: PostgreSQL-backed when DATABASE_URL is set, in-memory otherwise. */
+  get jobQueue(): JobQueue {
+    return this._jobQueue;
+  }
+
   // Service getters
   get creditLineService(): CreditLineService {
     return this._creditLineService;
   }
 
+  /** Moves credit line terms toward fresh risk evaluations within the configured guardrails. */
+  get creditLimitAdjustmentService(): CreditLimitAdjustmentService {
+    return this._creditLimitAdjustmentService;
+  }
+
   get riskEvaluationService(): RiskEvaluationService {
     return this._riskEvaluationService;
   }
 
+  /** Publishes and looks up versioned risk model configurations. */
+  get riskModelService(): RiskModelService {
+    return this._riskModelService;
+  }
+
+  /** Raises alerts when a wallet's risk score deteriorates sharply between evaluations. */
+  get riskDriftService(): RiskDriftService {
+    return this._riskDriftService;
+  }
+
+  /** Exposure, limits and counts across the credit line book. */
+  get portfolioAnalyticsService(): PortfolioAnalyticsService {
+    return this._portfolioAnalyticsService;
+  }
+
+  /** Expected loss per credit line and period-end provisioning reports. */
+  get provisioningService(): ProvisioningService {
+    return this._provisioningService;
+  }
+
+  get interestAccrualService(): InterestAccrualService {
+    return this._interestAccrualService;
+  }
+
+  get eventIngestionService(): EventIngestionService {
+    return this._eventIngestionService;
+  }
+
+  /** Close the database pool, if any. Nothing may use the repositories afterwards. */
+  public async close(): Promise<void> {
+    const db = this._db;
+    this._db = null;
+    await db?.end();
+  }
+
+  /** Replace the wallet data provider used for risk scoring (useful for testing). */
+  public setWalletDataProvider(provider: WalletDataProvider): void {
+    this._walletDataProvider = provider;
+    this._riskEvaluationService = this.createRiskEvaluationService();
+    this._riskDriftService = this.createRiskDriftService();
+  }
+
+  /** Replace the job queue (useful for testing). */
+  public setJobQueue(jobQueue: JobQueue): void {
+    this._jobQueue = jobQueue;
+  }
+
   // Method to replace repositories (useful for testing or switching to DB implementations)
   public setRepositories(repositories: {
     creditLineRepository?: CreditLineRepository;
     riskEvaluationRepository?: RiskEvaluationRepository;
     transactionRepository?: TransactionRepository;
+    eventRepository?: EventRepository;
+    cursorRepository?: CursorRepository;
+    riskModelRepository?: RiskModelRepository;
+    riskRequestRepository?: RiskRequestRepository;
+    portfolioRepository?: PortfolioRepository;
+    unitOfWork?: UnitOfWork;
   }): void {
     if (repositories.creditLineRepository) {
       this._creditLineRepository = repositories.creditLineRepository;
-      this._creditLineService = new CreditLineService(this._creditLineRepository);
     }
     
     if (repositories.riskEvaluationRepository) {
       this._riskEvaluationRepository = repositories.riskEvaluationRepository;
-      this._riskEvaluationService = new RiskEvaluationService(this._riskEvaluationRepository);
     }
     
     if (repositories.transactionRepository) {
       this._transactionRepository = repositories.transactionRepository;
     }
+
+    if (repositories.eventRepository) {
+      this._eventRepository = repositories.eventRepository;
+    }
+
+    if (repositories.cursorRepository) {
+      this._cursorRepository = repositories.cursorRepository;
+    }
+
+    if (repositories.riskModelRepository) {
+      this._riskModelRepository = repositories.riskModelRepository;
+    }
+
+    if (repositories.riskRequestRepository) {
+      this._riskRequestRepository = repositories.riskRequestRepository;
+    }
+
+    // Units of work must write to the repositories in use, so replacing any of
+    // them without a matching unit of work falls back to the in-memory one.
+    if (repositories.unitOfWork) {
+      this._unitOfWork = repositories.unitOfWork;
+    } else if (
+      repositories.creditLineRepository ||
+      repositories.transactionRepository ||
+      repositories.eventRepository
+    ) {
+      this._unitOfWork = this.createInMemoryUnitOfWork();
+    }
+
+    // Totals must come from the repositories in use, so replacing any of them
+    // without a matching portfolio repository falls back to computing them.
+    if (repositories.portfolioRepository) {
+      this._portfolioRepository = repositories.portfolioRepository;
+    } else if (
+      repositories.creditLineRepository ||
+      repositories.riskEvaluationRepository ||
+      repositories.riskModelRepository
+    ) {
+      this._portfolioRepository = this.createInMemoryPortfolioRepository();
+    }
+    this._portfolioAnalyticsService = new PortfolioAnalyticsService(this._portfolioRepository);
+
+    if (
+      repositories.riskEvaluationRepository ||
+      repositories.creditLineRepository ||
+      repositories.transactionRepository ||
+      repositories.riskModelRepository
+    ) {
+      this._riskEvaluationService = this.createRiskEvaluationService();
+    }
+
+    if (
+      repositories.creditLineRepository ||
+      repositories.transactionRepository ||
+      repositories.eventRepository ||
+      repositories.unitOfWork
+    ) {
+      this._creditLineService = this.createCreditLineService();
+      this._creditLimitAdjustmentService = this.createCreditLimitAdjustmentService();
+      this._interestAccrualService = this.createInterestAccrualService();
+      this._eventIngestionService = this.createEventIngestionService();
+    }
+
+    if (
+      repositories.riskEvaluationRepository ||
+      repositories.creditLineRepository ||
+      repositories.transactionRepository ||
+      repositories.riskModelRepository ||
+      repositories.eventRepository ||
+      repositories.unitOfWork
+    ) {
+      this._riskDriftService = this.createRiskDriftService();
+    }
+
+    if (
+      repositories.creditLineRepository ||
+      repositories.riskEvaluationRepository ||
+      repositories.eventRepository ||
+      repositories.unitOfWork
+    ) {
+      this._provisioningService = this.createProvisioningService();
+    }
+  }
+
+  private createRiskEvaluationService(): RiskEvaluationService {
+    this._riskScoringPipeline = new RiskScoringPipeline(
+      this._walletDataProvider,
+      this._creditLineRepository,
+      this._transactionRepository
+    );
+    this._riskModelService = new RiskModelService(this._riskModelRepository, this._riskScoringPipeline.features);
+    return new RiskEvaluationService(this._riskEvaluationRepository, this._riskScoringPipeline, this._riskModelService);
+  }
+
+  private createCreditLineService(): CreditLineService {
+    return new CreditLineService(
+      this._creditLineRepository,
+      this._transactionRepository,
+      this._eventRepository,
+      this._unitOfWork
+    );
+  }
+
+  private createCreditLimitAdjustmentService(): CreditLimitAdjustmentService {
+    return new CreditLimitAdjustmentService(
+      this._creditLineService,
+      this._eventRepository,
+      this._unitOfWork,
+      loadCreditLimitPolicy()
+    );
+  }
+
+  private createInMemoryUnitOfWork(): InMemoryUnitOfWork {
+    return new InMemoryUnitOfWork({
+      creditLines: this._creditLineRepository,
+      transactions: this._transactionRepository,
+      events: this._eventRepository
+    });
+  }
+
+  private createInMemoryPortfolioRepository(): InMemoryPortfolioRepository {
+    return new InMemoryPortfolioRepository(
+      this._creditLineRepository,
+      this._riskEvaluationRepository,
+      this._riskModelRepository
+    );
+  }
+
+  private createRiskDriftService(): RiskDriftService {
+    return new RiskDriftService(
+      this._riskEvaluationRepository,
+      this._riskModelService,
+      this._creditLineService,
+      this._eventRepository,
+      this._unitOfWork,
+      loadRiskDriftPolicy()
+    );
+  }
+
+  private createProvisioningService(): ProvisioningService {
+    return new ProvisioningService(
+      this._creditLineRepository,
+      this._riskEvaluationRepository,
+      this._eventRepository,
+      this._unitOfWork,
+      loadProvisioningPolicy()
+    );
+  }
+
+  private createInterestAccrualService(): InterestAccrualService {
+    const { dayCount, compounding } = loadInterestAccrualConfig();
+    return new InterestAccrualService(
+      this._creditLineRepository,
+      this._eventRepository,
+      this._unitOfWork,
+      { dayCount, compounding }
+    );
+  }
+
+  private createEventIngestionService(): EventIngestionService {
+    return new EventIngestionService(this._eventRepository, this._unitOfWork);
   }
 }
\ No newline at end of file
@@ -6,19 +6,53 @@ import { createRequire } from 'module';
  */
 export interface DbClient {
   query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
-  connect?(): Promise<void>;
+  connect?(): Promise<unknown>;
+  end(): Promise<void>;
+}
+
+/** What repositories need from a connection: pools, clients and checked-out connections all qualify. */
+export type DbQueryable = Pick<DbClient, 'query'>;
+
+/** A connection checked out of a {@link DbPool}; `release` hands it back. */
+export interface PooledDbClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
+  release(): void;
+}
+
+/**
+ * Connection pool. Queries run on any idle connection; work that needs one
+ * connection throughout, such as a transaction, checks one out with `connect`.
+ */
+export interface DbPool {
+  query(text: string, values?: unknown[]): Promise<{ rows: unknown[] }>;
+  connect(): Promise<PooledDbClient>;
   end(): Promise<void>;
 }
 
 const require = createRequire(import.meta.url);
 
-export function getConnection(): DbClient {
+type PgConstructor = new (opts: { connectionString: string }) => DbClient;
+
+function resolveDatabaseUrl(): string {
   const url = process.env.DATABASE_URL;
   if (!url) {
     throw new Error('DATABASE_URL is required');
   }
-  const pg = require('pg') as {
-    Client: new (opts: { connectionString: string }) => DbClient;
-  };
+  return url;
+}
+
+export function getConnection(): DbClient {
+  const url = resolveDatabaseUrl();
+  const pg = require('pg') as { Client: PgConstructor };
   return new pg.Client({ connectionString: url });
 }
+
+/**
+ * Connection pool for long-lived application use (repositories).
+ * Unlike `getConnection`, no explicit `connect()` is needed before querying.
+ */
+export function getPool(): DbPool {
+  const url = resolveDatabaseUrl();
+  const pg = require('pg') as { Pool: new (opts: { connectionString: string }) => DbPool };
+  return new pg.Pool({ connectionString: url });
+}
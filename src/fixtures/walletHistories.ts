@@ -0,0 +1,53 @@
+/**
+ * Canned wallet histories for `FixtureWalletDataProvider`. Dates are days
+ * before the request; amounts are in the account's main asset.
+ */
+
+export interface WalletHistoryFixture {
+  accountAgeDays: number;
+  payments: { daysAgo: number; amount: string; direction: 'in' | 'out' }[];
+  balances: { daysAgo: number; balance: string }[];
+}
+
+/** Weekly snapshots over the last 12 weeks, from `values` (oldest first). */
+function weekly(values: string[]): WalletHistoryFixture['balances'] {
+  return values.map((balance, index) => ({ daysAgo: (values.length - 1 - index) * 7, balance }));
+}
+
+export const WALLET_HISTORY_FIXTURES: Record<string, WalletHistoryFixture> = {
+  // Established account: steady income and balance.
+  GCKFBEIYV2U22IO2BJ4KVJOIP7XPWQGZBW3JXDC55CYIXB5NAXMCEKJA: {
+    accountAgeDays: 900,
+    payments: [
+      { daysAgo: 85, amount: '2500', direction: 'in' },
+      { daysAgo: 80, amount: '1800', direction: 'out' },
+      { daysAgo: 55, amount: '2500', direction: 'in' },
+      { daysAgo: 50, amount: '2100', direction: 'out' },
+      { daysAgo: 25, amount: '2500', direction: 'in' },
+      { daysAgo: 20, amount: '1900', direction: 'out' },
+    ],
+    balances: weekly(['4100', '4300', '4200', '4500', '4400', '4600', '4300', '4700', '4800', '4600', '4900', '5000']),
+  },
+  // Three-week-old account with little activity.
+  GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWNB: {
+    accountAgeDays: 21,
+    payments: [
+      { daysAgo: 20, amount: '150', direction: 'in' },
+      { daysAgo: 6, amount: '90', direction: 'out' },
+    ],
+    balances: weekly(['150', '150', '60']),
+  },
+  // Busy account whose balance swings widely.
+  GBRPYHIL2CI3FNQ4BXLFMNDLFJUNPU2HY3ZMFSHONUCEOASW7QC7OX2H: {
+    accountAgeDays: 400,
+    payments: [
+      { daysAgo: 70, amount: '12000', direction: 'in' },
+      { daysAgo: 66, amount: '11500', direction: 'out' },
+      { daysAgo: 40, amount: '9000', direction: 'in' },
+      { daysAgo: 38, amount: '8800', direction: 'out' },
+      { daysAgo: 10, amount: '15000', direction: 'in' },
+      { daysAgo: 3, amount: '14000', direction: 'out' },
+    ],
+    balances: weekly(['200', '12200', '700', '500', '400', '9400', '600', '300', '15300', '1300', '900', '1100']),
+  },
+};
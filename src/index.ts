@@ -1,6 +1,7 @@
 import express from 'express';
 import cors from 'cors';
 import { readFileSync } from 'fs';
+import { createServer } from 'http';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
 import yaml from 'yaml';
@@ -9,7 +10,26 @@ import swaggerUi from 'swagger-ui-express';
 import { creditRouter } from './routes/credit.js';
 import { riskRouter } from './routes/risk.js';
 import { healthRouter } from './routes/health.js';
+import { jobsRouter } from './routes/jobs.js';
+import { portfolioRouter } from './routes/portfolio.js';
+import { provisioningRouter } from './routes/provisioning.js';
 import { errorHandler } from './middleware/errorHandler.js';
+import { Container } from './container/Container.js';
+import { scheduleInterestAccrual } from './services/interestAccrualJobs.js';
+import { registerRiskRecalibration, scheduleRiskEvaluationCleanup } from './services/riskEvaluationJobs.js';
+import { registerCreditLimitAdjustment } from './services/creditLimitAdjustmentJobs.js';
+import { registerRiskRequests } from './services/riskRequestJobs.js';
+import { registerRiskDriftMonitoring } from './services/riskDriftJobs.js';
+import { loadRiskRequestConfig } from './config/riskRequests.js';
+import { loadInterestAccrualConfig } from './config/interestAccrual.js';
+import { loadShutdownConfig } from './config/shutdown.js';
+import * as horizonListener from './services/horizonListener.js';
+import {
+  Lifecycle,
+  horizonListenerSubsystem,
+  httpServerSubsystem,
+  jobQueueSubsystem,
+} from './services/lifecycle.js';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const openapiSpec = yaml.parse(
@@ -29,6 +49,9 @@ app.get('/docs.json', (_req, res) => res.json(openapiSpec));
 
 app.use('/api/credit', creditRouter);
 app.use('/api/risk', riskRouter);
+app.use('/api/admin/jobs', jobsRouter);
+app.use('/api/admin/portfolio', portfolioRouter);
+app.use('/api/admin/provisioning', provisioningRouter);
 
 // Global error handler
 app.use(errorHandler);
@@ -36,10 +59,35 @@ app.use(errorHandler);
 // Only start the server if this file is run directly
 if (import.meta.url === `file://${process.argv[1]}`) {
   if (process.env.NODE_ENV !== 'test') {
-    app.listen(port, () => {
-      console.log(`Creditra API listening on http://localhost:${port}`);
-      console.log(`Swagger UI available at http://localhost:${port}/docs`);
-    });
+    const { catchUpDays } = loadInterestAccrualConfig();
+    const { httpTimeoutMs, jobTimeoutMs } = loadShutdownConfig();
+    const riskRequestConfig = loadRiskRequestConfig();
+    const container = Container.getInstance();
+    const { jobQueue, interestAccrualService, riskEvaluationService } = container;
+
+    // Started in this order and stopped in reverse.
+    const lifecycle = new Lifecycle()
+      .add({ name: 'database', start: () => {}, stop: () => container.close() })
+      .add(jobQueueSubsystem(jobQueue, jobTimeoutMs, async () => {
+        await scheduleInterestAccrual(jobQueue, interestAccrualService, { catchUpDays });
+        await scheduleRiskEvaluationCleanup(jobQueue, riskEvaluationService);
+        registerRiskRecalibration(jobQueue, riskEvaluationService, container.creditLineRepository);
+        registerCreditLimitAdjustment(jobQueue, riskEvaluationService, container.creditLimitAdjustmentService);
+        registerRiskRequests(jobQueue, riskEvaluationService, container.riskRequestRepository, riskRequestConfig);
+        registerRiskDriftMonitoring(jobQueue, riskEvaluationService, container.riskDriftService);
+      }));
+
+    if (horizonListener.resolveConfig().contractIds.length > 0) {
+      const ingestion = container.eventIngestionService;
+      lifecycle.add(horizonListenerSubsystem(container.cursorRepository, async event => {
+        await ingestion.ingest(event);
+      }));
+    }
+
+    lifecycle.add(httpServerSubsystem(createServer(app), port, httpTimeoutMs));
+    lifecycle.handleSignals();
+    await lifecycle.start();
+    console.log(`Swagger UI available at http://localhost:${port}/docs`);
   }
 }
 
@@ -3,6 +3,8 @@ export interface CreditLine {
   walletAddress: string;
   creditLimit: string; // Using string for precise decimal handling
   availableCredit: string;
+  accruedInterest: string; // Interest accrued and not yet repaid
+  currency: string; // Asset code all amounts on the line are denominated in
   interestRateBps: number; // Basis points (e.g., 500 = 5%)
   status: CreditLineStatus;
   createdAt: Date;
@@ -13,6 +15,7 @@ export enum CreditLineStatus {
   ACTIVE = 'active',
   SUSPENDED = 'suspended',
   CLOSED = 'closed',
+  DEFAULTED = 'defaulted', // Set by on-chain default events only
   PENDING = 'pending'
 }
 
@@ -20,10 +23,23 @@ export interface CreateCreditLineRequest {
   walletAddress: string;
   creditLimit: string;
   interestRateBps: number;
+  currency?: string; // Defaults to USDC
 }
 
 export interface UpdateCreditLineRequest {
   creditLimit?: string;
+  availableCredit?: string;
+  accruedInterest?: string;
   interestRateBps?: number;
   status?: CreditLineStatus;
-}
\ No newline at end of file
+}
+
+/**
+ * Signed amounts added to a line's current balances, so a change applies on
+ * top of whatever other writes landed first instead of overwriting them.
+ */
+export interface AdjustCreditLineBalancesRequest {
+  creditLimit?: string;
+  availableCredit?: string;
+  accruedInterest?: string;
+}
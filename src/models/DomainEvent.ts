@@ -0,0 +1,17 @@
+export interface DomainEvent {
+  id: string;
+  eventType: string; // e.g. 'credit_line.status_changed'
+  aggregateType: string; // e.g. 'credit_line'
+  aggregateId: string;
+  payload: Record<string, unknown>;
+  idempotencyKey?: string;
+  createdAt: Date;
+}
+
+export interface CreateDomainEventRequest {
+  eventType: string;
+  aggregateType: string;
+  aggregateId: string;
+  payload: Record<string, unknown>;
+  idempotencyKey?: string;
+}
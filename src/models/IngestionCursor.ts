@@ -0,0 +1,11 @@
+export interface IngestionCursor {
+  name: string; // Ingestion stream, e.g. 'horizon_listener:<contract ids>'
+  cursor: string; // Opaque RPC paging token of the last processed event
+  lastLedger: number;
+  updatedAt: Date;
+}
+
+export interface SaveIngestionCursorRequest {
+  cursor: string;
+  lastLedger: number;
+}
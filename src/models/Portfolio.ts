@@ -0,0 +1,28 @@
+/**
+ * How portfolio figures are broken down:
+ * - `total`: one segment per currency, keyed `total`.
+ * - `riskLevel`: by the risk level of each borrower's latest evaluation, under
+ *   the model version that produced it; `unrated` when there is none.
+ * - `status`: by credit line status.
+ * - `originationMonth`: by the UTC month the line was opened, as `YYYY-MM`.
+ */
+export type PortfolioGrouping = 'total' | 'riskLevel' | 'status' | 'originationMonth';
+
+export const PORTFOLIO_GROUPINGS: readonly PortfolioGrouping[] = ['total', 'riskLevel', 'status', 'originationMonth'];
+
+/** Level reported for borrowers without a stored risk evaluation. */
+export const UNRATED_RISK_LEVEL = 'unrated';
+
+/** Totals for the credit lines in one group and currency. */
+export interface PortfolioSegmentTotals {
+  key: string;
+  currency: string; // Amounts in different currencies are never added together
+  lineCount: number;
+  borrowerCount: number;
+  totalLimit: string; // Sum of creditLimit
+  exposure: string; // Sum of creditLimit - availableCredit
+}
+
+export interface PortfolioSegment extends PortfolioSegmentTotals {
+  utilization: number; // exposure / totalLimit, 0 when there is no limit
+}
@@ -1,19 +1,21 @@
 export interface RiskEvaluation {
   id: string;
   walletAddress: string;
-  riskScore: number; // 0-100 scale
+  riskScore: number; // 0 (lowest risk) to 100 (highest)
   creditLimit: string;
   interestRateBps: number;
   factors: RiskFactor[];
+  modelVersion: number; // Version of the risk model that produced the evaluation
   evaluatedAt: Date;
   expiresAt: Date;
 }
 
 export interface RiskFactor {
   name: string;
-  value: number;
+  value: number; // 0-1, 1 being the lowest risk
   weight: number;
   description?: string;
+  input?: number; // The measurement the value was derived from, e.g. account age in days
 }
 
 export interface RiskEvaluationRequest {
@@ -26,5 +28,11 @@ export interface RiskEvaluationResult {
   riskScore: number;
   creditLimit: string;
   interestRateBps: number;
+  modelVersion: number;
   message?: string;
-}
\ No newline at end of file
+}
+
+/** One wallet's outcome in a batch evaluation: its result, or why it has none. */
+export type RiskEvaluationBatchItem =
+  | { walletAddress: string; result: RiskEvaluationResult }
+  | { walletAddress: string; error: string };
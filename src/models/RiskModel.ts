@@ -0,0 +1,24 @@
+export interface RiskModelConfig {
+  weights: Record<string, number>; // Weight of each risk feature by name; non-negative, summing to 1
+  limitCurve: LimitCurvePoint[]; // Suggested credit limit by score, interpolated linearly between points
+  baseRateBps: number; // Interest rate at score 0
+  riskPremiumBps: number; // Added to the base rate in proportion to the score, in full at 100
+  bands: RiskBands;
+}
+
+export interface LimitCurvePoint {
+  score: number; // 0-100; the first point is at 0 and the last at 100
+  creditLimit: string;
+}
+
+export interface RiskBands {
+  medium: number; // Lowest score in the medium band; lower scores are low risk
+  high: number; // Lowest score in the high band
+}
+
+export interface RiskModelVersion {
+  version: number; // 1 is the built-in default model; published versions count up from there
+  config: RiskModelConfig;
+  description?: string;
+  publishedAt: Date;
+}
@@ -0,0 +1,35 @@
+import type { RiskEvaluationResult } from './RiskEvaluation.js';
+
+/** A risk evaluation requested in async mode, run by a background job. */
+export interface RiskRequest {
+  id: string;
+  walletAddress: string;
+  forceRefresh: boolean;
+  status: RiskRequestStatus;
+  callbackUrl?: string; // Called with the request once it completes or fails
+  result?: RiskEvaluationResult; // Set once completed
+  error?: string; // Set once failed
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt?: Date; // When it completed or failed
+}
+
+export enum RiskRequestStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed'
+}
+
+export interface CreateRiskRequest {
+  walletAddress: string;
+  forceRefresh?: boolean;
+  callbackUrl?: string;
+}
+
+export interface UpdateRiskRequest {
+  status?: RiskRequestStatus;
+  result?: RiskEvaluationResult;
+  error?: string;
+  completedAt?: Date;
+}
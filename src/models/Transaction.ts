@@ -3,6 +3,7 @@ export interface Transaction {
   creditLineId: string;
   walletAddress: string;
   amount: string;
+  currency: string; // Inherited from the credit line
   type: TransactionType;
   status: TransactionStatus;
   blockchainTxHash?: string;
@@ -29,4 +30,18 @@ export interface CreateTransactionRequest {
   amount: string;
   type: TransactionType;
   blockchainTxHash?: string;
-}
\ No newline at end of file
+}
+
+/** Criteria for {@link TransactionRepository.query}; every field is optional and combined with AND. */
+export interface TransactionFilter {
+  creditLineId?: string;
+  type?: TransactionType;
+  status?: TransactionStatus;
+  from?: Date; // Inclusive lower bound on createdAt
+  to?: Date; // Inclusive upper bound on createdAt
+}
+
+export interface TransactionPage {
+  transactions: Transaction[];
+  total: number; // Matches across all pages
+}
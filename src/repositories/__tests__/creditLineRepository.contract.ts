@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import type { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+
+/**
+ * Behaviour every CreditLineRepository implementation must satisfy.
+ * `createRepository` is called before each test and must return an empty store.
+ */
+export function describeCreditLineRepositoryContract(
+  createRepository: () => Promise<CreditLineRepository>
+): void {
+  describe('CreditLineRepository contract', () => {
+    let repository: CreditLineRepository;
+
+    beforeEach(async () => {
+      repository = await createRepository();
+    });
+
+    it('creates an active line with full credit available', async () => {
+      const creditLine = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000.5',
+        interestRateBps: 500
+      });
+
+      expect(creditLine.id).toBeDefined();
+      expect(creditLine.walletAddress).toBe('wallet123');
+      expect(creditLine.creditLimit).toBe('1000.5');
+      expect(creditLine.availableCredit).toBe('1000.5');
+      expect(creditLine.interestRateBps).toBe(500);
+      expect(creditLine.currency).toBe('USDC');
+      expect(creditLine.status).toBe(CreditLineStatus.ACTIVE);
+      expect(creditLine.createdAt).toBeInstanceOf(Date);
+      expect(creditLine.updatedAt).toBeInstanceOf(Date);
+    });
+
+    it('stores the requested currency and canonical amounts', async () => {
+      const creditLine = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '0250.50000000',
+        interestRateBps: 500,
+        currency: 'XLM'
+      });
+
+      expect(creditLine.currency).toBe('XLM');
+      expect(creditLine.creditLimit).toBe('250.5');
+      expect(await repository.findById(creditLine.id)).toEqual(creditLine);
+    });
+
+    it('scales available credit proportionally without float drift', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '0.3',
+        interestRateBps: 500
+      });
+      await repository.update(created.id, { availableCredit: '0.1' });
+
+      const updated = await repository.update(created.id, { creditLimit: '0.6' });
+
+      expect(updated!.availableCredit).toBe('0.2');
+    });
+
+    it('finds a line by id', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+
+      expect(await repository.findById(created.id)).toEqual(created);
+    });
+
+    it('returns null for unknown ids', async () => {
+      expect(await repository.findById('nonexistent')).toBeNull();
+      expect(await repository.findById(randomUUID())).toBeNull();
+    });
+
+    it('finds lines by wallet address', async () => {
+      await repository.create({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 });
+      await repository.create({ walletAddress: 'wallet123', creditLimit: '2000', interestRateBps: 600 });
+      await repository.create({ walletAddress: 'other-wallet', creditLimit: '500', interestRateBps: 400 });
+
+      const creditLines = await repository.findByWalletAddress('wallet123');
+      expect(creditLines).toHaveLength(2);
+      expect(creditLines.every(cl => cl.walletAddress === 'wallet123')).toBe(true);
+      expect(await repository.findByWalletAddress('nonexistent')).toEqual([]);
+    });
+
+    it('lists lines with pagination', async () => {
+      for (let i = 0; i < 5; i++) {
+        await repository.create({ walletAddress: `wallet${i}`, creditLimit: '1000', interestRateBps: 500 });
+      }
+
+      expect(await repository.findAll()).toHaveLength(5);
+      expect(await repository.findAll(2, 2)).toHaveLength(2);
+      expect(await repository.findAll(4, 10)).toHaveLength(1);
+    });
+
+    it('updates limit, rate and status', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+
+      await new Promise(resolve => setTimeout(resolve, 2));
+
+      const updated = await repository.update(created.id, {
+        creditLimit: '2000',
+        interestRateBps: 600,
+        status: CreditLineStatus.SUSPENDED
+      });
+
+      expect(updated).not.toBeNull();
+      expect(updated!.creditLimit).toBe('2000');
+      expect(updated!.availableCredit).toBe('2000');
+      expect(updated!.interestRateBps).toBe(600);
+      expect(updated!.status).toBe(CreditLineStatus.SUSPENDED);
+      expect(updated!.walletAddress).toBe('wallet123');
+      expect(updated!.updatedAt.getTime()).toBeGreaterThan(created.updatedAt.getTime());
+      expect(await repository.findById(created.id)).toEqual(updated);
+    });
+
+    it('leaves omitted fields untouched on update', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+
+      const updated = await repository.update(created.id, { interestRateBps: 700 });
+
+      expect(updated!.creditLimit).toBe('1000');
+      expect(updated!.availableCredit).toBe('1000');
+      expect(updated!.status).toBe(CreditLineStatus.ACTIVE);
+    });
+
+    it('sets available credit and accrued interest explicitly', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+      expect(created.accruedInterest).toBe('0');
+
+      const updated = await repository.update(created.id, {
+        creditLimit: '2000',
+        availableCredit: '750.25',
+        accruedInterest: '12.5'
+      });
+
+      expect(updated!.creditLimit).toBe('2000');
+      expect(updated!.availableCredit).toBe('750.25');
+      expect(updated!.accruedInterest).toBe('12.5');
+      expect(await repository.findById(created.id)).toEqual(updated);
+    });
+
+    it('adds signed amounts to balances', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+      await repository.update(created.id, { availableCredit: '400', accruedInterest: '2.5' });
+
+      const adjusted = await repository.adjustBalances(created.id, {
+        creditLimit: '250',
+        availableCredit: '-100.25',
+        accruedInterest: '0.00000001'
+      });
+
+      expect(adjusted!.creditLimit).toBe('1250');
+      expect(adjusted!.availableCredit).toBe('299.75');
+      expect(adjusted!.accruedInterest).toBe('2.50000001');
+      expect(await repository.findByIdForUpdate(created.id)).toEqual(adjusted);
+      expect(await repository.adjustBalances(randomUUID(), { availableCredit: '1' })).toBeNull();
+      expect(await repository.findByIdForUpdate('nonexistent')).toBeNull();
+    });
+
+    it('returns null when updating an unknown line', async () => {
+      expect(await repository.update('nonexistent', { creditLimit: '2000' })).toBeNull();
+      expect(await repository.update(randomUUID(), { creditLimit: '2000' })).toBeNull();
+    });
+
+    it('deletes lines', async () => {
+      const created = await repository.create({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+
+      expect(await repository.delete(created.id)).toBe(true);
+      expect(await repository.findById(created.id)).toBeNull();
+      expect(await repository.delete(created.id)).toBe(false);
+      expect(await repository.delete('nonexistent')).toBe(false);
+    });
+
+    it('reports existence and count', async () => {
+      expect(await repository.count()).toBe(0);
+
+      const created = await repository.create({
+        walletAddress: 'wallet1',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+      await repository.create({ walletAddress: 'wallet2', creditLimit: '2000', interestRateBps: 600 });
+
+      expect(await repository.exists(created.id)).toBe(true);
+      expect(await repository.exists('nonexistent')).toBe(false);
+      expect(await repository.count()).toBe(2);
+    });
+  });
+}
@@ -0,0 +1,54 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { CursorRepository } from '../interfaces/CursorRepository.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+/**
+ * Behaviour every CursorRepository implementation must satisfy.
+ * `createRepository` is called before each test and must return an empty store.
+ */
+export function describeCursorRepositoryContract(
+  createRepository: () => Promise<CursorRepository>
+): void {
+  describe('CursorRepository contract', () => {
+    let repository: CursorRepository;
+
+    beforeEach(async () => {
+      repository = await createRepository();
+    });
+
+    it('returns null for unknown streams', async () => {
+      expect(await repository.get('horizon_listener:CA')).toBeNull();
+    });
+
+    it('saves and reads a cursor', async () => {
+      const saved = await repository.save('horizon_listener:CA', {
+        cursor: '0000004294971392-0000000001',
+        lastLedger: 1000
+      });
+
+      expect(saved).toMatchObject({ name: 'horizon_listener:CA', cursor: '0000004294971392-0000000001', lastLedger: 1000 });
+      expect(saved.updatedAt).toBeInstanceOf(Date);
+      expect(await repository.get('horizon_listener:CA')).toEqual(saved);
+    });
+
+    it('replaces an existing cursor', async () => {
+      const first = await repository.save('horizon_listener:CA', { cursor: 'a', lastLedger: 1000 });
+      await tick();
+
+      const second = await repository.save('horizon_listener:CA', { cursor: 'b', lastLedger: 2000 });
+
+      expect(second).toMatchObject({ cursor: 'b', lastLedger: 2000 });
+      expect(second.updatedAt.getTime()).toBeGreaterThan(first.updatedAt.getTime());
+      expect(await repository.get('horizon_listener:CA')).toEqual(second);
+    });
+
+    it('keeps streams independent', async () => {
+      await repository.save('horizon_listener:CA', { cursor: 'a', lastLedger: 1000 });
+      await repository.save('horizon_listener:CB', { cursor: 'b', lastLedger: 2000 });
+
+      expect((await repository.get('horizon_listener:CA'))!.cursor).toBe('a');
+      expect((await repository.get('horizon_listener:CB'))!.cursor).toBe('b');
+    });
+  });
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import { type EventRepository, DuplicateEventError } from '../interfaces/EventRepository.js';
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+/**
+ * Behaviour every EventRepository implementation must satisfy.
+ * `createRepository` is called before each test and must return an empty store.
+ */
+export function describeEventRepositoryContract(
+  createRepository: () => Promise<EventRepository>
+): void {
+  describe('EventRepository contract', () => {
+    let repository: EventRepository;
+
+    beforeEach(async () => {
+      repository = await createRepository();
+    });
+
+    it('appends an event with its payload', async () => {
+      const aggregateId = randomUUID();
+
+      const event = await repository.append({
+        eventType: 'credit_line.status_changed',
+        aggregateType: 'credit_line',
+        aggregateId,
+        payload: { from: 'active', to: 'suspended', actor: 'ops@creditra', reason: 'Missed payment' }
+      });
+
+      expect(event.id).toBeDefined();
+      expect(event.eventType).toBe('credit_line.status_changed');
+      expect(event.aggregateType).toBe('credit_line');
+      expect(event.aggregateId).toBe(aggregateId);
+      expect(event.payload).toEqual({ from: 'active', to: 'suspended', actor: 'ops@creditra', reason: 'Missed payment' });
+      expect(event.idempotencyKey).toBeUndefined();
+      expect(event.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('finds events by aggregate, oldest first', async () => {
+      const aggregateId = randomUUID();
+      const first = await repository.append({ eventType: 'a', aggregateType: 'credit_line', aggregateId, payload: {} });
+      await tick();
+      const second = await repository.append({ eventType: 'b', aggregateType: 'credit_line', aggregateId, payload: {} });
+      await repository.append({ eventType: 'c', aggregateType: 'credit_line', aggregateId: randomUUID(), payload: {} });
+      await repository.append({ eventType: 'd', aggregateType: 'borrower', aggregateId, payload: {} });
+
+      expect(await repository.findByAggregate('credit_line', aggregateId)).toEqual([first, second]);
+      expect(await repository.findByAggregate('credit_line', aggregateId, 1, 1)).toEqual([second]);
+      expect(await repository.findByAggregate('credit_line', 'nonexistent')).toEqual([]);
+    });
+
+    it('finds events by type, newest first', async () => {
+      const first = await repository.append({ eventType: 'a', aggregateType: 'credit_line', aggregateId: randomUUID(), payload: {} });
+      await tick();
+      const second = await repository.append({ eventType: 'a', aggregateType: 'borrower', aggregateId: randomUUID(), payload: {} });
+      await repository.append({ eventType: 'b', aggregateType: 'credit_line', aggregateId: randomUUID(), payload: {} });
+
+      expect(await repository.findByType('a')).toEqual([second, first]);
+      expect(await repository.findByType('a', 1, 1)).toEqual([first]);
+      expect(await repository.findByType('nonexistent')).toEqual([]);
+    });
+
+    it('counts events', async () => {
+      expect(await repository.count()).toBe(0);
+
+      await repository.append({ eventType: 'a', aggregateType: 'credit_line', aggregateId: randomUUID(), payload: {} });
+      await repository.append({ eventType: 'b', aggregateType: 'credit_line', aggregateId: randomUUID(), payload: {} });
+
+      expect(await repository.count()).toBe(2);
+      expect(await repository.count('a')).toBe(1);
+      expect(await repository.count('nonexistent')).toBe(0);
+    });
+
+    it('finds an event by idempotency key', async () => {
+      const event = await repository.append({
+        eventType: 'credit_line.interest_accrued',
+        aggregateType: 'credit_line',
+        aggregateId: randomUUID(),
+        payload: { period: '2024-01-15' },
+        idempotencyKey: 'interest_accrual:line-1:2024-01-15'
+      });
+
+      expect(await repository.findByIdempotencyKey('interest_accrual:line-1:2024-01-15')).toEqual(event);
+      expect(await repository.findByIdempotencyKey('missing')).toBeNull();
+    });
+
+    it('rejects a second event with the same idempotency key', async () => {
+      const request = {
+        eventType: 'credit_line.interest_accrued',
+        aggregateType: 'credit_line',
+        aggregateId: randomUUID(),
+        payload: {},
+        idempotencyKey: 'interest_accrual:line-1:2024-01-15'
+      };
+      await repository.append(request);
+
+      await expect(repository.append(request)).rejects.toThrow(DuplicateEventError);
+      expect(await repository.count()).toBe(1);
+    });
+
+    it('stores events against non-UUID aggregates such as contracts', async () => {
+      const contractId = 'CCJZ5DGASBWQXR5MPFCJXMBI333XE5U3FSJTNQU7RIKE3P5GN2K2WYD5';
+
+      const event = await repository.append({
+        eventType: 'contract.draw',
+        aggregateType: 'contract',
+        aggregateId: contractId,
+        payload: { ledger: 100 }
+      });
+
+      expect(await repository.findByAggregate('contract', contractId)).toEqual([event]);
+    });
+  });
+}
@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { PortfolioRepository } from '../interfaces/PortfolioRepository.js';
+import type { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import type { RiskEvaluationRepository } from '../interfaces/RiskEvaluationRepository.js';
+import type { RiskModelRepository } from '../interfaces/RiskModelRepository.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../../services/riskModel.js';
+
+export interface PortfolioRepositoryHarness {
+  repository: PortfolioRepository;
+  creditLines: CreditLineRepository;
+  riskEvaluations: RiskEvaluationRepository;
+  /** Holds only the default version 1. */
+  riskModels: RiskModelRepository;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Behaviour every PortfolioRepository implementation must satisfy.
+ * `createHarness` is called before each test and must return empty stores.
+ */
+export function describePortfolioRepositoryContract(
+  createHarness: () => Promise<PortfolioRepositoryHarness>
+): void {
+  describe('PortfolioRepository contract', () => {
+    let repository: PortfolioRepository;
+    let harness: PortfolioRepositoryHarness;
+
+    const evaluate = (walletAddress: string, riskScore: number, modelVersion: number, hoursAgo: number) =>
+      harness.riskEvaluations.save({
+        walletAddress,
+        riskScore,
+        creditLimit: '500',
+        interestRateBps: 700,
+        factors: [],
+        modelVersion,
+        evaluatedAt: new Date(Date.now() - hoursAgo * HOUR_MS),
+        expiresAt: new Date(Date.now() + 24 * HOUR_MS)
+      });
+
+    beforeEach(async () => {
+      harness = await createHarness();
+      repository = harness.repository;
+      const { creditLines, riskModels } = harness;
+
+      // wallet-a: two lines, one drawn and one suspended; rated low.
+      const drawn = await creditLines.create({ walletAddress: 'wallet-a', creditLimit: '1000', interestRateBps: 500 });
+      await creditLines.update(drawn.id, { availableCredit: '600' });
+      const suspended = await creditLines.create({ walletAddress: 'wallet-a', creditLimit: '500', interestRateBps: 500 });
+      await creditLines.update(suspended.id, { status: CreditLineStatus.SUSPENDED });
+      await evaluate('wallet-a', 20, 1, 1);
+
+      // wallet-b: rated low before, high now.
+      await creditLines.create({ walletAddress: 'wallet-b', creditLimit: '2000', interestRateBps: 500 });
+      await evaluate('wallet-b', 10, 1, 2);
+      await evaluate('wallet-b', 80, 1, 1);
+
+      // wallet-c: an XLM line, rated medium under version 2's wider medium band.
+      await riskModels.publish({ ...DEFAULT_RISK_MODEL_CONFIG, bands: { medium: 10, high: 90 } });
+      const xlm = await creditLines.create({
+        walletAddress: 'wallet-c',
+        creditLimit: '300',
+        interestRateBps: 500,
+        currency: 'XLM'
+      });
+      await creditLines.update(xlm.id, { availableCredit: '100.5' });
+      await evaluate('wallet-c', 80, 2, 1);
+
+      // wallet-d: never evaluated.
+      await creditLines.create({ walletAddress: 'wallet-d', creditLimit: '100.25', interestRateBps: 500 });
+    });
+
+    it('sums the whole book per currency', async () => {
+      expect(await repository.summarize('total')).toEqual([
+        { key: 'total', currency: 'USDC', lineCount: 4, borrowerCount: 3, totalLimit: '3600.25', exposure: '400' },
+        { key: 'total', currency: 'XLM', lineCount: 1, borrowerCount: 1, totalLimit: '300', exposure: '199.5' }
+      ]);
+    });
+
+    it("groups by the risk level of each borrower's latest evaluation under its model version", async () => {
+      expect(await repository.summarize('riskLevel')).toEqual([
+        { key: 'high', currency: 'USDC', lineCount: 1, borrowerCount: 1, totalLimit: '2000', exposure: '0' },
+        { key: 'low', currency: 'USDC', lineCount: 2, borrowerCount: 1, totalLimit: '1500', exposure: '400' },
+        { key: 'medium', currency: 'XLM', lineCount: 1, borrowerCount: 1, totalLimit: '300', exposure: '199.5' },
+        { key: 'unrated', currency: 'USDC', lineCount: 1, borrowerCount: 1, totalLimit: '100.25', exposure: '0' }
+      ]);
+    });
+
+    it('groups by status', async () => {
+      expect(await repository.summarize('status')).toEqual([
+        { key: 'active', currency: 'USDC', lineCount: 3, borrowerCount: 3, totalLimit: '3100.25', exposure: '400' },
+        { key: 'active', currency: 'XLM', lineCount: 1, borrowerCount: 1, totalLimit: '300', exposure: '199.5' },
+        { key: 'suspended', currency: 'USDC', lineCount: 1, borrowerCount: 1, totalLimit: '500', exposure: '0' }
+      ]);
+    });
+
+    it('groups by UTC month of origination', async () => {
+      const lines = await harness.creditLines.findAll();
+      const months = [...new Set(lines.map(line => line.createdAt.toISOString().slice(0, 7)))];
+
+      const segments = await repository.summarize('originationMonth');
+
+      expect(segments.map(segment => segment.key)).toEqual(expect.arrayContaining(months));
+      expect(segments.reduce((sum, segment) => sum + segment.lineCount, 0)).toBe(5);
+    });
+
+    it('returns nothing for an empty book', async () => {
+      const empty = await createHarness();
+
+      expect(await empty.repository.summarize('total')).toEqual([]);
+    });
+  });
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import type { RiskEvaluationRepository } from '../interfaces/RiskEvaluationRepository.js';
+import type { RiskEvaluation } from '../../models/RiskEvaluation.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function evaluation(overrides: Partial<Omit<RiskEvaluation, 'id'>> = {}): Omit<RiskEvaluation, 'id'> {
+  return {
+    walletAddress: 'wallet123',
+    riskScore: 75,
+    creditLimit: '1000',
+    interestRateBps: 500,
+    factors: [],
+    modelVersion: 1,
+    evaluatedAt: new Date(),
+    expiresAt: new Date(Date.now() + DAY_MS),
+    ...overrides
+  };
+}
+
+/**
+ * Behaviour every RiskEvaluationRepository implementation must satisfy.
+ * `createRepository` is called before each test and must return an empty store.
+ */
+export function describeRiskEvaluationRepositoryContract(
+  createRepository: () => Promise<RiskEvaluationRepository>
+): void {
+  describe('RiskEvaluationRepository contract', () => {
+    let repository: RiskEvaluationRepository;
+
+    beforeEach(async () => {
+      repository = await createRepository();
+    });
+
+    it('saves an evaluation including its factors', async () => {
+      const input = evaluation({
+        creditLimit: '1234.5',
+        factors: [{ name: 'wallet_age', value: 0.8, weight: 0.3, description: 'Age of the wallet in months' }]
+      });
+
+      const saved = await repository.save(input);
+
+      expect(saved.id).toBeDefined();
+      expect(saved).toEqual({ id: saved.id, ...input });
+      expect(await repository.findById(saved.id)).toEqual(saved);
+    });
+
+    it('returns null for unknown ids', async () => {
+      expect(await repository.findById('nonexistent')).toBeNull();
+      expect(await repository.findById(randomUUID())).toBeNull();
+    });
+
+    it('finds the latest evaluation for a wallet', async () => {
+      const now = Date.now();
+      await repository.save(evaluation({ riskScore: 70, evaluatedAt: new Date(now - 60000) }));
+      const newer = await repository.save(evaluation({ riskScore: 75, evaluatedAt: new Date(now) }));
+      await repository.save(evaluation({ walletAddress: 'other-wallet', evaluatedAt: new Date(now + 1000) }));
+
+      expect(await repository.findLatestByWalletAddress('wallet123')).toEqual(newer);
+      expect(await repository.findLatestByWalletAddress('nonexistent')).toBeNull();
+    });
+
+    it('lists wallet history, most recent first', async () => {
+      const now = Date.now();
+      const eval1 = await repository.save(evaluation({ evaluatedAt: new Date(now - 120000) }));
+      const eval2 = await repository.save(evaluation({ evaluatedAt: new Date(now - 60000) }));
+
+      expect(await repository.findByWalletAddress('wallet123')).toEqual([eval2, eval1]);
+      expect(await repository.findByWalletAddress('wallet123', 1, 1)).toEqual([eval1]);
+    });
+
+    it('deletes expired evaluations only', async () => {
+      const now = Date.now();
+      await repository.save(evaluation({ walletAddress: 'wallet1', expiresAt: new Date(now - 1000) }));
+      await repository.save(evaluation({ walletAddress: 'wallet2' }));
+
+      expect(await repository.deleteExpired()).toBe(1);
+
+      const remaining = await repository.findAll();
+      expect(remaining).toHaveLength(1);
+      expect(remaining[0].walletAddress).toBe('wallet2');
+    });
+
+    it('reports whether the latest evaluation is still valid', async () => {
+      await repository.save(evaluation({ walletAddress: 'fresh' }));
+      await repository.save(evaluation({ walletAddress: 'stale', expiresAt: new Date(Date.now() - 1000) }));
+
+      expect(await repository.isValid('fresh')).toBe(true);
+      expect(await repository.isValid('stale')).toBe(false);
+      expect(await repository.isValid('nonexistent')).toBe(false);
+    });
+
+    it('lists and counts all evaluations', async () => {
+      expect(await repository.count()).toBe(0);
+
+      for (let i = 0; i < 3; i++) {
+        await repository.save(evaluation({ walletAddress: `wallet${i}`, riskScore: 70 + i }));
+      }
+
+      expect(await repository.findAll()).toHaveLength(3);
+      expect(await repository.findAll(1, 1)).toHaveLength(1);
+      expect(await repository.count()).toBe(3);
+    });
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { RiskModelRepository } from '../interfaces/RiskModelRepository.js';
+import type { RiskModelConfig } from '../../models/RiskModel.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../../services/riskModel.js';
+
+const config = (overrides: Partial<RiskModelConfig> = {}): RiskModelConfig => ({
+  ...DEFAULT_RISK_MODEL_CONFIG,
+  ...overrides
+});
+
+/**
+ * Behaviour every RiskModelRepository implementation must satisfy.
+ * `createRepository` is called before each test and must return a store
+ * holding only the default model, as version 1.
+ */
+export function describeRiskModelRepositoryContract(
+  createRepository: () => Promise<RiskModelRepository>
+): void {
+  describe('RiskModelRepository contract', () => {
+    let repository: RiskModelRepository;
+
+    beforeEach(async () => {
+      repository = await createRepository();
+    });
+
+    it('starts with the default model as version 1', async () => {
+      const latest = await repository.findLatest();
+
+      expect(latest).toMatchObject({ version: 1, config: DEFAULT_RISK_MODEL_CONFIG });
+      expect(await repository.findByVersion(1)).toEqual(latest);
+    });
+
+    it('publishes versions in sequence, the latest being current', async () => {
+      const second = await repository.publish(config({ baseRateBps: 450 }), 'Cheaper credit');
+      const third = await repository.publish(config({ bands: { medium: 30, high: 60 } }));
+
+      expect(second).toMatchObject({ version: 2, config: config({ baseRateBps: 450 }), description: 'Cheaper credit' });
+      expect(second.publishedAt).toBeInstanceOf(Date);
+      expect(third.version).toBe(3);
+      expect(third.description).toBeUndefined();
+      expect(await repository.findLatest()).toEqual(third);
+      expect(await repository.findByVersion(2)).toEqual(second);
+    });
+
+    it('lists every version, newest first', async () => {
+      await repository.publish(config({ riskPremiumBps: 800 }));
+
+      expect((await repository.findAll()).map(model => model.version)).toEqual([2, 1]);
+    });
+
+    it('returns null for unknown versions', async () => {
+      expect(await repository.findByVersion(2)).toBeNull();
+      expect(await repository.findByVersion(0)).toBeNull();
+      expect(await repository.findByVersion(1.5)).toBeNull();
+    });
+
+    it('does not let callers change a stored version', async () => {
+      const published = await repository.publish(config());
+      published.config.weights.wallet_age = 1;
+
+      expect((await repository.findByVersion(2))!.config).toEqual(DEFAULT_RISK_MODEL_CONFIG);
+    });
+  });
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { RiskRequestRepository } from '../interfaces/RiskRequestRepository.js';
+import { RiskRequestStatus } from '../../models/RiskRequest.js';
+
+const result = {
+  walletAddress: 'GWALLET',
+  riskScore: 30,
+  creditLimit: '700',
+  interestRateBps: 650,
+  modelVersion: 1,
+  message: 'New risk evaluation completed'
+};
+
+/**
+ * Behaviour every RiskRequestRepository implementation must satisfy.
+ * `createRepository` is called before each test and must return an empty store.
+ */
+export function describeRiskRequestRepositoryContract(
+  createRepository: () => Promise<RiskRequestRepository>
+): void {
+  describe('RiskRequestRepository contract', () => {
+    let repository: RiskRequestRepository;
+
+    beforeEach(async () => {
+      repository = await createRepository();
+    });
+
+    it('creates queued requests', async () => {
+      const request = await repository.create({ walletAddress: 'GWALLET', callbackUrl: 'https://example.com/hook' });
+
+      expect(request).toMatchObject({
+        walletAddress: 'GWALLET',
+        forceRefresh: false,
+        status: RiskRequestStatus.QUEUED,
+        callbackUrl: 'https://example.com/hook'
+      });
+      expect(request.result).toBeUndefined();
+      expect(request.completedAt).toBeUndefined();
+      expect(request.createdAt).toBeInstanceOf(Date);
+      expect(await repository.findById(request.id)).toEqual(request);
+    });
+
+    it('records progress and the outcome', async () => {
+      const request = await repository.create({ walletAddress: 'GWALLET', forceRefresh: true });
+
+      const running = await repository.update(request.id, { status: RiskRequestStatus.RUNNING });
+      expect(running).toMatchObject({ status: RiskRequestStatus.RUNNING, forceRefresh: true });
+      expect(running!.callbackUrl).toBeUndefined();
+
+      const completedAt = new Date('2026-01-01T00:00:00Z');
+      await repository.update(request.id, { status: RiskRequestStatus.COMPLETED, result, completedAt });
+
+      const found = await repository.findById(request.id);
+      expect(found).toMatchObject({ status: RiskRequestStatus.COMPLETED, result, completedAt });
+      expect(found!.updatedAt.getTime()).toBeGreaterThanOrEqual(request.updatedAt.getTime());
+    });
+
+    it('keeps failures', async () => {
+      const request = await repository.create({ walletAddress: 'GWALLET' });
+
+      await repository.update(request.id, { status: RiskRequestStatus.FAILED, error: 'Wallet data unavailable' });
+
+      expect(await repository.findById(request.id)).toMatchObject({
+        status: RiskRequestStatus.FAILED,
+        error: 'Wallet data unavailable'
+      });
+    });
+
+    it('returns null for unknown ids', async () => {
+      expect(await repository.findById('00000000-0000-4000-8000-000000000000')).toBeNull();
+      expect(await repository.findById('not-a-uuid')).toBeNull();
+      expect(await repository.update('not-a-uuid', { status: RiskRequestStatus.RUNNING })).toBeNull();
+    });
+  });
+}
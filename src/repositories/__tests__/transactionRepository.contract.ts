@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { randomUUID } from 'crypto';
+import type { TransactionRepository } from '../interfaces/TransactionRepository.js';
+import { TransactionType, TransactionStatus } from '../../models/Transaction.js';
+
+export interface TransactionRepositoryHarness {
+  repository: TransactionRepository;
+  /** Create a credit line owned by `walletAddress` and return its id. */
+  createCreditLine(walletAddress: string): Promise<string>;
+}
+
+const tick = () => new Promise(resolve => setTimeout(resolve, 2));
+
+/**
+ * Behaviour every TransactionRepository implementation must satisfy.
+ * `createHarness` is called before each test and must return an empty store.
+ */
+export function describeTransactionRepositoryContract(
+  createHarness: () => Promise<TransactionRepositoryHarness>
+): void {
+  describe('TransactionRepository contract', () => {
+    let repository: TransactionRepository;
+    let createCreditLine: TransactionRepositoryHarness['createCreditLine'];
+
+    beforeEach(async () => {
+      ({ repository, createCreditLine } = await createHarness());
+    });
+
+    it('creates a pending transaction resolved to the line owner', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+
+      const transaction = await repository.create({
+        creditLineId,
+        amount: '100.25',
+        type: TransactionType.BORROW,
+        blockchainTxHash: 'tx-hash-123'
+      });
+
+      expect(transaction.id).toBeDefined();
+      expect(transaction.creditLineId).toBe(creditLineId);
+      expect(transaction.walletAddress).toBe('wallet123');
+      expect(transaction.amount).toBe('100.25');
+      expect(transaction.currency).toBe('USDC');
+      expect(transaction.type).toBe(TransactionType.BORROW);
+      expect(transaction.status).toBe(TransactionStatus.PENDING);
+      expect(transaction.blockchainTxHash).toBe('tx-hash-123');
+      expect(transaction.createdAt).toBeInstanceOf(Date);
+      expect(transaction.processedAt).toBeUndefined();
+    });
+
+    it('creates a transaction without blockchain hash', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+
+      const transaction = await repository.create({ creditLineId, amount: '100', type: TransactionType.REPAY });
+
+      expect(transaction.blockchainTxHash).toBeUndefined();
+    });
+
+    it('finds a transaction by id', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const created = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+
+      expect(await repository.findById(created.id)).toEqual(created);
+      expect(await repository.findById('nonexistent')).toBeNull();
+      expect(await repository.findById(randomUUID())).toBeNull();
+    });
+
+    it('finds transactions by credit line, most recent first', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const otherLineId = await createCreditLine('wallet456');
+
+      const tx1 = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+      await tick();
+      const tx2 = await repository.create({ creditLineId, amount: '50', type: TransactionType.REPAY });
+      await repository.create({ creditLineId: otherLineId, amount: '200', type: TransactionType.BORROW });
+
+      const transactions = await repository.findByCreditLineId(creditLineId);
+      expect(transactions).toEqual([tx2, tx1]);
+      expect(await repository.findByCreditLineId(creditLineId, 1, 1)).toEqual([tx1]);
+      expect(await repository.findByCreditLineId('nonexistent')).toEqual([]);
+    });
+
+    it('finds transactions by wallet address', async () => {
+      const lineA = await createCreditLine('wallet123');
+      const lineB = await createCreditLine('wallet123');
+      const lineC = await createCreditLine('other-wallet');
+
+      await repository.create({ creditLineId: lineA, amount: '100', type: TransactionType.BORROW });
+      await repository.create({ creditLineId: lineB, amount: '50', type: TransactionType.REPAY });
+      await repository.create({ creditLineId: lineC, amount: '200', type: TransactionType.BORROW });
+
+      const transactions = await repository.findByWalletAddress('wallet123');
+      expect(transactions).toHaveLength(2);
+      expect(transactions.every(tx => tx.walletAddress === 'wallet123')).toBe(true);
+      expect(await repository.findByWalletAddress('wallet123', 1, 1)).toHaveLength(1);
+    });
+
+    it('updates status with an explicit processedAt', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const created = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+
+      const processedAt = new Date();
+      const updated = await repository.updateStatus(created.id, TransactionStatus.CONFIRMED, processedAt);
+
+      expect(updated!.status).toBe(TransactionStatus.CONFIRMED);
+      expect(updated!.processedAt).toEqual(processedAt);
+      expect(await repository.findById(created.id)).toEqual(updated);
+    });
+
+    it('defaults processedAt when updating status', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const created = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+
+      const updated = await repository.updateStatus(created.id, TransactionStatus.FAILED);
+
+      expect(updated!.status).toBe(TransactionStatus.FAILED);
+      expect(updated!.processedAt).toBeInstanceOf(Date);
+    });
+
+    it('returns null when updating an unknown transaction', async () => {
+      expect(await repository.updateStatus('nonexistent', TransactionStatus.CONFIRMED)).toBeNull();
+      expect(await repository.updateStatus(randomUUID(), TransactionStatus.CONFIRMED)).toBeNull();
+    });
+
+    it('lists all transactions, most recent first', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      for (let i = 0; i < 3; i++) {
+        await repository.create({ creditLineId, amount: `${100 + i}`, type: TransactionType.BORROW });
+        await tick();
+      }
+
+      const all = await repository.findAll();
+      expect(all.map(tx => tx.amount)).toEqual(['102', '101', '100']);
+      expect(await repository.findAll(2, 2)).toHaveLength(1);
+    });
+
+    it('counts transactions', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      expect(await repository.count()).toBe(0);
+
+      await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+      await repository.create({ creditLineId, amount: '50', type: TransactionType.REPAY });
+
+      expect(await repository.count()).toBe(2);
+    });
+
+    it('finds transactions by status', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const tx1 = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+      const tx2 = await repository.create({ creditLineId, amount: '50', type: TransactionType.REPAY });
+
+      await repository.updateStatus(tx1.id, TransactionStatus.CONFIRMED);
+
+      const pending = await repository.findByStatus(TransactionStatus.PENDING);
+      const confirmed = await repository.findByStatus(TransactionStatus.CONFIRMED);
+
+      expect(pending.map(tx => tx.id)).toEqual([tx2.id]);
+      expect(confirmed.map(tx => tx.id)).toEqual([tx1.id]);
+      expect(await repository.findByStatus(TransactionStatus.FAILED)).toEqual([]);
+    });
+
+    it('queries by credit line, type and status with a total count', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const otherLineId = await createCreditLine('wallet456');
+
+      const borrow1 = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+      await tick();
+      const repay = await repository.create({ creditLineId, amount: '50', type: TransactionType.REPAY });
+      await tick();
+      const borrow2 = await repository.create({ creditLineId, amount: '25', type: TransactionType.BORROW });
+      await repository.create({ creditLineId: otherLineId, amount: '200', type: TransactionType.BORROW });
+      await repository.updateStatus(borrow1.id, TransactionStatus.CONFIRMED);
+
+      const all = await repository.query({ creditLineId });
+      expect(all.total).toBe(3);
+      expect(all.transactions.map(tx => tx.id)).toEqual([borrow2.id, repay.id, borrow1.id]);
+
+      const borrows = await repository.query({ creditLineId, type: TransactionType.BORROW });
+      expect(borrows.total).toBe(2);
+      expect(borrows.transactions.map(tx => tx.id)).toEqual([borrow2.id, borrow1.id]);
+
+      const confirmed = await repository.query({ creditLineId, status: TransactionStatus.CONFIRMED });
+      expect(confirmed.transactions.map(tx => tx.id)).toEqual([borrow1.id]);
+
+      const page = await repository.query({ creditLineId }, 1, 1);
+      expect(page.total).toBe(3);
+      expect(page.transactions.map(tx => tx.id)).toEqual([repay.id]);
+
+      expect((await repository.query({})).total).toBe(4);
+    });
+
+    it('queries by an inclusive date range', async () => {
+      const creditLineId = await createCreditLine('wallet123');
+      const first = await repository.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+      await tick();
+      const second = await repository.create({ creditLineId, amount: '50', type: TransactionType.REPAY });
+      await tick();
+      const third = await repository.create({ creditLineId, amount: '25', type: TransactionType.BORROW });
+
+      const range = await repository.query({ creditLineId, from: second.createdAt, to: second.createdAt });
+      expect(range.transactions.map(tx => tx.id)).toEqual([second.id]);
+
+      const since = await repository.query({ creditLineId, from: second.createdAt });
+      expect(since.transactions.map(tx => tx.id)).toEqual([third.id, second.id]);
+
+      const until = await repository.query({ creditLineId, to: second.createdAt });
+      expect(until.transactions.map(tx => tx.id)).toEqual([second.id, first.id]);
+    });
+
+    it('returns an empty page for unknown credit lines', async () => {
+      expect(await repository.query({ creditLineId: 'nonexistent' })).toEqual({ transactions: [], total: 0 });
+      expect(await repository.query({ creditLineId: randomUUID() })).toEqual({ transactions: [], total: 0 });
+    });
+  });
+}
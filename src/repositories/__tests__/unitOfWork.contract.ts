@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { UnitOfWork, TransactionalRepositories } from '../interfaces/UnitOfWork.js';
+import { TransactionType } from '../../models/Transaction.js';
+
+export interface UnitOfWorkHarness {
+  unitOfWork: UnitOfWork;
+  /** The same stores as seen outside any unit. */
+  repositories: TransactionalRepositories;
+}
+
+/**
+ * Behaviour every UnitOfWork implementation must satisfy.
+ * `createHarness` is called before each test and must return empty stores.
+ */
+export function describeUnitOfWorkContract(createHarness: () => Promise<UnitOfWorkHarness>): void {
+  describe('UnitOfWork contract', () => {
+    let unitOfWork: UnitOfWork;
+    let repositories: TransactionalRepositories;
+    let creditLineId: string;
+
+    beforeEach(async () => {
+      ({ unitOfWork, repositories } = await createHarness());
+      creditLineId = (
+        await repositories.creditLines.create({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 })
+      ).id;
+    });
+
+    it('keeps every write of work that resolves', async () => {
+      const result = await unitOfWork.run(async ({ creditLines, transactions, events }) => {
+        await creditLines.adjustBalances(creditLineId, { availableCredit: '-100' });
+        await transactions.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+        await events.append({ eventType: 'test', aggregateType: 'credit_line', aggregateId: creditLineId, payload: {} });
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect((await repositories.creditLines.findById(creditLineId))!.availableCredit).toBe('900');
+      expect(await repositories.transactions.count()).toBe(1);
+      expect(await repositories.events.count()).toBe(1);
+    });
+
+    it('rolls back every write of work that throws', async () => {
+      await expect(
+        unitOfWork.run(async ({ creditLines, transactions, events }) => {
+          await creditLines.adjustBalances(creditLineId, { availableCredit: '-100' });
+          await transactions.create({ creditLineId, amount: '100', type: TransactionType.BORROW });
+          await events.append({ eventType: 'test', aggregateType: 'credit_line', aggregateId: creditLineId, payload: {} });
+          throw new Error('projection failed');
+        })
+      ).rejects.toThrow('projection failed');
+
+      expect((await repositories.creditLines.findById(creditLineId))!.availableCredit).toBe('1000');
+      expect(await repositories.transactions.count()).toBe(0);
+      expect(await repositories.events.count()).toBe(0);
+    });
+
+    it('makes concurrent units on a locked line wait their turn', async () => {
+      // Each unit checks the balance it read; without the lock both would pass.
+      const drawHalf = () =>
+        unitOfWork.run(async ({ creditLines }) => {
+          const creditLine = await creditLines.findByIdForUpdate(creditLineId);
+          if (creditLine!.availableCredit !== '1000') return false;
+          await new Promise(resolve => setTimeout(resolve, 20));
+          await creditLines.adjustBalances(creditLineId, { availableCredit: '-500' });
+          return true;
+        });
+
+      expect(await Promise.all([drawHalf(), drawHalf()])).toEqual(expect.arrayContaining([true, false]));
+      expect((await repositories.creditLines.findById(creditLineId))!.availableCredit).toBe('500');
+    });
+
+    it('makes concurrent units that lock an aggregate type wait their turn', async () => {
+      // Each unit appends only if no event of the aggregate exists yet.
+      const appendFirst = (aggregateId: string) =>
+        unitOfWork.run(async ({ events }) => {
+          await events.lockAggregateType('report');
+          if (await events.count('report.created')) return false;
+          await new Promise(resolve => setTimeout(resolve, 20));
+          await events.append({ eventType: 'report.created', aggregateType: 'report', aggregateId, payload: {} });
+          return true;
+        });
+
+      expect(await Promise.all([appendFirst('a'), appendFirst('b')])).toEqual(expect.arrayContaining([true, false]));
+      expect(await repositories.events.count('report.created')).toBe(1);
+    });
+  });
+}
@@ -1,4 +1,4 @@
-import { CreditLine, CreateCreditLineRequest, UpdateCreditLineRequest } from '../../models/CreditLine.js';
+import { CreditLine, CreateCreditLineRequest, UpdateCreditLineRequest, AdjustCreditLineBalancesRequest } from '../../models/CreditLine.js';
 
 export interface CreditLineRepository {
   /**
@@ -11,6 +11,12 @@ export interface CreditLineRepository {
    */
   findById(id: string): Promise<CreditLine | null>;
 
+  /**
+   * Find credit line by ID and, inside a unit of work, lock it until the work
+   * ends, so concurrent changes to the same line wait their turn
+   */
+  findByIdForUpdate(id: string): Promise<CreditLine | null>;
+
   /**
    * Find credit lines by wallet address
    */
@@ -26,6 +32,11 @@ export interface CreditLineRepository {
    */
   update(id: string, request: UpdateCreditLineRequest): Promise<CreditLine | null>;
 
+  /**
+   * Add signed amounts to the line's balances
+   */
+  adjustBalances(id: string, request: AdjustCreditLineBalancesRequest): Promise<CreditLine | null>;
+
   /**
    * Delete credit line
    */
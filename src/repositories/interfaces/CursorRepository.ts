@@ -0,0 +1,13 @@
+import type { IngestionCursor, SaveIngestionCursorRequest } from '../../models/IngestionCursor.js';
+
+export interface CursorRepository {
+  /**
+   * Find the saved position of an ingestion stream
+   */
+  get(name: string): Promise<IngestionCursor | null>;
+
+  /**
+   * Create or replace the saved position of an ingestion stream
+   */
+  save(name: string, request: SaveIngestionCursorRequest): Promise<IngestionCursor>;
+}
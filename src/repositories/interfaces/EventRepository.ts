@@ -0,0 +1,44 @@
+import type { DomainEvent, CreateDomainEventRequest } from '../../models/DomainEvent.js';
+
+/** Thrown by {@link EventRepository.append} when the idempotency key has already been used. */
+export class DuplicateEventError extends Error {
+  constructor(public readonly idempotencyKey: string) {
+    super(`An event with idempotency key "${idempotencyKey}" already exists.`);
+    this.name = 'DuplicateEventError';
+  }
+}
+
+export interface EventRepository {
+  /**
+   * Append an immutable event. Throws {@link DuplicateEventError} if the
+   * request's idempotency key is already taken.
+   */
+  append(request: CreateDomainEventRequest): Promise<DomainEvent>;
+
+  /**
+   * Find the event recorded under an idempotency key
+   */
+  findByIdempotencyKey(idempotencyKey: string): Promise<DomainEvent | null>;
+
+  /**
+   * Find events recorded against an aggregate, oldest first
+   */
+  findByAggregate(aggregateType: string, aggregateId: string, offset?: number, limit?: number): Promise<DomainEvent[]>;
+
+  /**
+   * Find events of one type across all aggregates, newest first
+   */
+  findByType(eventType: string, offset?: number, limit?: number): Promise<DomainEvent[]>;
+
+  /**
+   * Get total count of events, or of one type of event
+   */
+  count(eventType?: string): Promise<number>;
+
+  /**
+   * Inside a unit of work, wait for and hold an exclusive lock on
+   * `aggregateType` until the unit ends, so units that check and then append
+   * events of that aggregate take turns. Outside one it has no effect.
+   */
+  lockAggregateType(aggregateType: string): Promise<void>;
+}
@@ -0,0 +1,8 @@
+import type { PortfolioGrouping, PortfolioSegmentTotals } from '../../models/Portfolio.js';
+
+export interface PortfolioRepository {
+  /**
+   * Sum credit line counts, limits and exposure by `grouping` and currency
+   */
+  summarize(grouping: PortfolioGrouping): Promise<PortfolioSegmentTotals[]>;
+}
@@ -0,0 +1,23 @@
+import type { RiskModelConfig, RiskModelVersion } from '../../models/RiskModel.js';
+
+export interface RiskModelRepository {
+  /**
+   * Store `config` as the next version, which becomes the current one
+   */
+  publish(config: RiskModelConfig, description?: string): Promise<RiskModelVersion>;
+
+  /**
+   * Find the current (highest) version
+   */
+  findLatest(): Promise<RiskModelVersion | null>;
+
+  /**
+   * Find a version by number
+   */
+  findByVersion(version: number): Promise<RiskModelVersion | null>;
+
+  /**
+   * Get every version, newest first
+   */
+  findAll(): Promise<RiskModelVersion[]>;
+}
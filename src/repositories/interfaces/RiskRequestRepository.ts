@@ -0,0 +1,18 @@
+import type { CreateRiskRequest, RiskRequest, UpdateRiskRequest } from '../../models/RiskRequest.js';
+
+export interface RiskRequestRepository {
+  /**
+   * Create a queued request
+   */
+  create(request: CreateRiskRequest): Promise<RiskRequest>;
+
+  /**
+   * Find request by ID
+   */
+  findById(id: string): Promise<RiskRequest | null>;
+
+  /**
+   * Update a request's status and outcome
+   */
+  update(id: string, request: UpdateRiskRequest): Promise<RiskRequest | null>;
+}
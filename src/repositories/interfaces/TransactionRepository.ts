@@ -1,4 +1,4 @@
-import { Transaction, CreateTransactionRequest, TransactionStatus } from '../../models/Transaction.js';
+import { Transaction, CreateTransactionRequest, TransactionStatus, TransactionFilter, TransactionPage } from '../../models/Transaction.js';
 
 export interface TransactionRepository {
   /**
@@ -40,4 +40,9 @@ export interface TransactionRepository {
    * Get transactions by status
    */
   findByStatus(status: TransactionStatus, offset?: number, limit?: number): Promise<Transaction[]>;
+
+  /**
+   * Find transactions matching a filter, most recent first, with the total match count
+   */
+  query(filter: TransactionFilter, offset?: number, limit?: number): Promise<TransactionPage>;
 }
\ No newline at end of file
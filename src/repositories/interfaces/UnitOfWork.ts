@@ -0,0 +1,21 @@
+import type { CreditLineRepository } from './CreditLineRepository.js';
+import type { TransactionRepository } from './TransactionRepository.js';
+import type { EventRepository } from './EventRepository.js';
+
+/** Repositories whose writes inside one {@link UnitOfWork.run} commit or roll back together. */
+export interface TransactionalRepositories {
+  creditLines: CreditLineRepository;
+  transactions: TransactionRepository;
+  events: EventRepository;
+}
+
+export interface UnitOfWork {
+  /**
+   * Run `work` as one transaction: everything it writes through the given
+   * repositories is kept only if it resolves. If it throws, its writes are
+   * rolled back and the error is rethrown. Lines read with
+   * `findByIdForUpdate` stay locked until the work ends. Units must not be
+   * nested.
+   */
+  run<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T>;
+}
@@ -1,5 +1,7 @@
-import { CreditLine, CreateCreditLineRequest, UpdateCreditLineRequest, CreditLineStatus } from '../../models/CreditLine.js';
-import { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import { type CreditLine, type CreateCreditLineRequest, type UpdateCreditLineRequest, type AdjustCreditLineBalancesRequest, CreditLineStatus } from '../../models/CreditLine.js';
+import type { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import { addDecimal, normalizeDecimal, scaleDecimal } from '../../utils/decimal.js';
+import { DEFAULT_CURRENCY } from '../../utils/money.js';
 import { randomUUID } from 'crypto';
 
 export class InMemoryCreditLineRepository implements CreditLineRepository {
@@ -9,11 +11,15 @@ export class InMemoryCreditLineRepository implements CreditLineRepository {
     const id = randomUUID();
     const now = new Date();
     
+    const creditLimit = normalizeDecimal(request.creditLimit);
+
     const creditLine: CreditLine = {
       id,
       walletAddress: request.walletAddress,
-      creditLimit: request.creditLimit,
-      availableCredit: request.creditLimit, // Initially full credit available
+      creditLimit,
+      availableCredit: creditLimit, // Initially full credit available
+      accruedInterest: '0',
+      currency: request.currency ?? DEFAULT_CURRENCY,
       interestRateBps: request.interestRateBps,
       status: CreditLineStatus.ACTIVE,
       createdAt: now,
@@ -28,6 +34,11 @@ export class InMemoryCreditLineRepository implements CreditLineRepository {
     return this.creditLines.get(id) || null;
   }
 
+  // InMemoryUnitOfWork runs one unit at a time, so there is nothing to lock.
+  async findByIdForUpdate(id: string): Promise<CreditLine | null> {
+    return this.findById(id);
+  }
+
   async findByWalletAddress(walletAddress: string): Promise<CreditLine[]> {
     return Array.from(this.creditLines.values())
       .filter(cl => cl.walletAddress === walletAddress);
@@ -49,22 +60,41 @@ export class InMemoryCreditLineRepository implements CreditLineRepository {
       ...request,
       updatedAt: new Date()
     };
+    if (request.creditLimit !== undefined) updated.creditLimit = normalizeDecimal(request.creditLimit);
+    if (request.availableCredit !== undefined) updated.availableCredit = normalizeDecimal(request.availableCredit);
+    if (request.accruedInterest !== undefined) updated.accruedInterest = normalizeDecimal(request.accruedInterest);
 
     // If credit limit changed, adjust available credit proportionally
-    if (request.creditLimit && request.creditLimit !== existing.creditLimit) {
-      const oldLimit = parseFloat(existing.creditLimit);
-      const newLimit = parseFloat(request.creditLimit);
-      const oldAvailable = parseFloat(existing.availableCredit);
-      
+    // (unless the caller sets available credit explicitly)
+    if (request.creditLimit && updated.creditLimit !== existing.creditLimit &&
+        request.availableCredit === undefined) {
       // Maintain the same ratio of available credit
-      const ratio = oldLimit > 0 ? oldAvailable / oldLimit : 1;
-      updated.availableCredit = (newLimit * ratio).toString();
+      updated.availableCredit = existing.creditLimit !== '0'
+        ? scaleDecimal(updated.creditLimit, existing.availableCredit, existing.creditLimit)
+        : updated.creditLimit;
     }
 
     this.creditLines.set(id, updated);
     return updated;
   }
 
+  async adjustBalances(id: string, request: AdjustCreditLineBalancesRequest): Promise<CreditLine | null> {
+    const existing = this.creditLines.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: CreditLine = {
+      ...existing,
+      creditLimit: addDecimal(existing.creditLimit, request.creditLimit ?? '0'),
+      availableCredit: addDecimal(existing.availableCredit, request.availableCredit ?? '0'),
+      accruedInterest: addDecimal(existing.accruedInterest, request.accruedInterest ?? '0'),
+      updatedAt: new Date()
+    };
+    this.creditLines.set(id, updated);
+    return updated;
+  }
+
   async delete(id: string): Promise<boolean> {
     return this.creditLines.delete(id);
   }
@@ -77,6 +107,14 @@ export class InMemoryCreditLineRepository implements CreditLineRepository {
     return this.creditLines.size;
   }
 
+  /** Returns a function that puts the store back as it is now; lets InMemoryUnitOfWork roll back. */
+  checkpoint(): () => void {
+    const saved = new Map(this.creditLines);
+    return () => {
+      this.creditLines = saved;
+    };
+  }
+
   // Helper method for testing
   clear(): void {
     this.creditLines.clear();
@@ -0,0 +1,27 @@
+import type { IngestionCursor, SaveIngestionCursorRequest } from '../../models/IngestionCursor.js';
+import type { CursorRepository } from '../interfaces/CursorRepository.js';
+
+export class InMemoryCursorRepository implements CursorRepository {
+  private cursors: Map<string, IngestionCursor> = new Map();
+
+  async get(name: string): Promise<IngestionCursor | null> {
+    const cursor = this.cursors.get(name);
+    return cursor ? { ...cursor } : null;
+  }
+
+  async save(name: string, request: SaveIngestionCursorRequest): Promise<IngestionCursor> {
+    const cursor: IngestionCursor = {
+      name,
+      cursor: request.cursor,
+      lastLedger: request.lastLedger,
+      updatedAt: new Date()
+    };
+    this.cursors.set(name, cursor);
+    return { ...cursor };
+  }
+
+  // Helper method for testing
+  clear(): void {
+    this.cursors.clear();
+  }
+}
@@ -0,0 +1,64 @@
+import type { DomainEvent, CreateDomainEventRequest } from '../../models/DomainEvent.js';
+import { type EventRepository, DuplicateEventError } from '../interfaces/EventRepository.js';
+import { randomUUID } from 'crypto';
+
+export class InMemoryEventRepository implements EventRepository {
+  private events: DomainEvent[] = [];
+
+  async append(request: CreateDomainEventRequest): Promise<DomainEvent> {
+    if (request.idempotencyKey !== undefined && (await this.findByIdempotencyKey(request.idempotencyKey))) {
+      throw new DuplicateEventError(request.idempotencyKey);
+    }
+
+    const event: DomainEvent = {
+      id: randomUUID(),
+      eventType: request.eventType,
+      aggregateType: request.aggregateType,
+      aggregateId: request.aggregateId,
+      payload: request.payload,
+      idempotencyKey: request.idempotencyKey,
+      createdAt: new Date()
+    };
+
+    this.events.push(event);
+    return event;
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<DomainEvent | null> {
+    return this.events.find(event => event.idempotencyKey === idempotencyKey) ?? null;
+  }
+
+  async findByAggregate(aggregateType: string, aggregateId: string, offset = 0, limit = 100): Promise<DomainEvent[]> {
+    return this.events
+      .filter(event => event.aggregateType === aggregateType && event.aggregateId === aggregateId)
+      .slice(offset, offset + limit);
+  }
+
+  async findByType(eventType: string, offset = 0, limit = 100): Promise<DomainEvent[]> {
+    return this.events
+      .filter(event => event.eventType === eventType)
+      .reverse()
+      .slice(offset, offset + limit);
+  }
+
+  async count(eventType?: string): Promise<number> {
+    if (eventType === undefined) return this.events.length;
+    return this.events.filter(event => event.eventType === eventType).length;
+  }
+
+  /** InMemoryUnitOfWork already runs one unit at a time. */
+  async lockAggregateType(_aggregateType: string): Promise<void> {}
+
+  /** Returns a function that puts the store back as it is now; lets InMemoryUnitOfWork roll back. */
+  checkpoint(): () => void {
+    const saved = [...this.events];
+    return () => {
+      this.events = saved;
+    };
+  }
+
+  // Helper method for testing
+  clear(): void {
+    this.events = [];
+  }
+}
@@ -0,0 +1,68 @@
+import { type PortfolioGrouping, type PortfolioSegmentTotals, UNRATED_RISK_LEVEL } from '../../models/Portfolio.js';
+import type { CreditLine } from '../../models/CreditLine.js';
+import type { PortfolioRepository } from '../interfaces/PortfolioRepository.js';
+import type { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import type { RiskEvaluationRepository } from '../interfaces/RiskEvaluationRepository.js';
+import type { RiskModelRepository } from '../interfaces/RiskModelRepository.js';
+import { riskLevelForScore } from '../../services/riskModel.js';
+import { addDecimal, subtractDecimal } from '../../utils/decimal.js';
+
+/** Computes portfolio totals from the other repositories by walking every credit line. */
+export class InMemoryPortfolioRepository implements PortfolioRepository {
+  constructor(
+    private creditLines: CreditLineRepository,
+    private riskEvaluations: RiskEvaluationRepository,
+    private riskModels: RiskModelRepository
+  ) {}
+
+  async summarize(grouping: PortfolioGrouping): Promise<PortfolioSegmentTotals[]> {
+    const lines = await this.creditLines.findAll(0, await this.creditLines.count());
+    const segments = new Map<string, PortfolioSegmentTotals & { borrowers: Set<string> }>();
+
+    for (const line of lines) {
+      const key = await this.keyFor(line, grouping);
+      const id = `${key}\u0000${line.currency}`;
+      let segment = segments.get(id);
+      if (!segment) {
+        segment = {
+          key,
+          currency: line.currency,
+          lineCount: 0,
+          borrowerCount: 0,
+          totalLimit: '0',
+          exposure: '0',
+          borrowers: new Set()
+        };
+        segments.set(id, segment);
+      }
+      segment.lineCount++;
+      segment.borrowers.add(line.walletAddress);
+      segment.totalLimit = addDecimal(segment.totalLimit, line.creditLimit);
+      segment.exposure = addDecimal(segment.exposure, subtractDecimal(line.creditLimit, line.availableCredit));
+    }
+
+    return Array.from(segments.values())
+      .map(({ borrowers, ...segment }) => ({ ...segment, borrowerCount: borrowers.size }))
+      .sort((a, b) => (a.key === b.key ? compare(a.currency, b.currency) : compare(a.key, b.key)));
+  }
+
+  private async keyFor(line: CreditLine, grouping: PortfolioGrouping): Promise<string> {
+    switch (grouping) {
+      case 'total':
+        return 'total';
+      case 'status':
+        return line.status;
+      case 'originationMonth':
+        return line.createdAt.toISOString().slice(0, 7);
+      case 'riskLevel': {
+        const evaluation = await this.riskEvaluations.findLatestByWalletAddress(line.walletAddress);
+        const model = evaluation && (await this.riskModels.findByVersion(evaluation.modelVersion));
+        return model ? riskLevelForScore(model.config.bands, evaluation.riskScore) : UNRATED_RISK_LEVEL;
+      }
+    }
+  }
+}
+
+function compare(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
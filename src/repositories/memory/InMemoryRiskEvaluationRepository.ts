@@ -1,5 +1,6 @@
 import { RiskEvaluation } from '../../models/RiskEvaluation.js';
 import { RiskEvaluationRepository } from '../interfaces/RiskEvaluationRepository.js';
+import { normalizeDecimal } from '../../utils/decimal.js';
 import { randomUUID } from 'crypto';
 
 export class InMemoryRiskEvaluationRepository implements RiskEvaluationRepository {
@@ -9,7 +10,8 @@ export class InMemoryRiskEvaluationRepository implements RiskEvaluationRepositor
     const id = randomUUID();
     const newEvaluation: RiskEvaluation = {
       id,
-      ...evaluation
+      ...evaluation,
+      creditLimit: normalizeDecimal(evaluation.creditLimit)
     };
 
     this.evaluations.set(id, newEvaluation);
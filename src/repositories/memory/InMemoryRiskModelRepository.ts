@@ -0,0 +1,48 @@
+import type { RiskModelConfig, RiskModelVersion } from '../../models/RiskModel.js';
+import type { RiskModelRepository } from '../interfaces/RiskModelRepository.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../../services/riskModel.js';
+
+const copy = (model: RiskModelVersion): RiskModelVersion => structuredClone(model);
+
+export class InMemoryRiskModelRepository implements RiskModelRepository {
+  private versions: RiskModelVersion[] = [];
+
+  constructor() {
+    this.clear();
+  }
+
+  async publish(config: RiskModelConfig, description?: string): Promise<RiskModelVersion> {
+    const model: RiskModelVersion = {
+      version: this.versions.length + 1,
+      config: structuredClone(config),
+      ...(description === undefined ? {} : { description }),
+      publishedAt: new Date()
+    };
+    this.versions.push(model);
+    return copy(model);
+  }
+
+  async findLatest(): Promise<RiskModelVersion | null> {
+    const latest = this.versions[this.versions.length - 1];
+    return latest ? copy(latest) : null;
+  }
+
+  async findByVersion(version: number): Promise<RiskModelVersion | null> {
+    const model = this.versions[version - 1];
+    return model ? copy(model) : null;
+  }
+
+  async findAll(): Promise<RiskModelVersion[]> {
+    return this.versions.map(copy).reverse();
+  }
+
+  // Helper method for testing: back to just the default model
+  clear(): void {
+    this.versions = [{
+      version: 1,
+      config: structuredClone(DEFAULT_RISK_MODEL_CONFIG),
+      description: 'Built-in default model',
+      publishedAt: new Date()
+    }];
+  }
+}
@@ -0,0 +1,45 @@
+import { randomUUID } from 'crypto';
+import { type CreateRiskRequest, type RiskRequest, RiskRequestStatus, type UpdateRiskRequest } from '../../models/RiskRequest.js';
+import type { RiskRequestRepository } from '../interfaces/RiskRequestRepository.js';
+
+const copy = (request: RiskRequest): RiskRequest => structuredClone(request);
+
+export class InMemoryRiskRequestRepository implements RiskRequestRepository {
+  private requests: Map<string, RiskRequest> = new Map();
+
+  async create(request: CreateRiskRequest): Promise<RiskRequest> {
+    const now = new Date();
+    const created: RiskRequest = {
+      id: randomUUID(),
+      walletAddress: request.walletAddress,
+      forceRefresh: request.forceRefresh ?? false,
+      status: RiskRequestStatus.QUEUED,
+      ...(request.callbackUrl === undefined ? {} : { callbackUrl: request.callbackUrl }),
+      createdAt: now,
+      updatedAt: now
+    };
+    this.requests.set(created.id, created);
+    return copy(created);
+  }
+
+  async findById(id: string): Promise<RiskRequest | null> {
+    const request = this.requests.get(id);
+    return request ? copy(request) : null;
+  }
+
+  async update(id: string, request: UpdateRiskRequest): Promise<RiskRequest | null> {
+    const existing = this.requests.get(id);
+    if (!existing) {
+      return null;
+    }
+
+    const updated: RiskRequest = { ...existing, ...structuredClone(request), updatedAt: new Date() };
+    this.requests.set(id, updated);
+    return copy(updated);
+  }
+
+  // Helper method for testing
+  clear(): void {
+    this.requests.clear();
+  }
+}
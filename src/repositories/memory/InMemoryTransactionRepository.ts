@@ -1,19 +1,32 @@
-import { Transaction, CreateTransactionRequest, TransactionStatus, TransactionType } from '../../models/Transaction.js';
+import { Transaction, CreateTransactionRequest, TransactionStatus, TransactionFilter, TransactionPage } from '../../models/Transaction.js';
 import { TransactionRepository } from '../interfaces/TransactionRepository.js';
+import type { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import { normalizeDecimal } from '../../utils/decimal.js';
+import { DEFAULT_CURRENCY } from '../../utils/money.js';
 import { randomUUID } from 'crypto';
 
 export class InMemoryTransactionRepository implements TransactionRepository {
   private transactions: Map<string, Transaction> = new Map();
 
+  /**
+   * @param creditLineRepository Optional lookup used to resolve the owning
+   *   wallet of each transaction (mirrors the borrowers join in PostgreSQL).
+   */
+  constructor(private creditLineRepository?: CreditLineRepository) {}
+
   async create(request: CreateTransactionRequest): Promise<Transaction> {
     const id = randomUUID();
     const now = new Date();
+    const creditLine = this.creditLineRepository
+      ? await this.creditLineRepository.findById(request.creditLineId)
+      : null;
 
     const transaction: Transaction = {
       id,
       creditLineId: request.creditLineId,
-      walletAddress: '', // Will be set by service layer
-      amount: request.amount,
+      walletAddress: creditLine?.walletAddress ?? '',
+      amount: normalizeDecimal(request.amount),
+      currency: creditLine?.currency ?? DEFAULT_CURRENCY,
       type: request.type,
       status: TransactionStatus.PENDING,
       blockchainTxHash: request.blockchainTxHash,
@@ -79,6 +92,27 @@ export class InMemoryTransactionRepository implements TransactionRepository {
     return filtered.slice(offset, offset + limit);
   }
 
+  async query(filter: TransactionFilter, offset = 0, limit = 100): Promise<TransactionPage> {
+    const filtered = Array.from(this.transactions.values())
+      .filter(tx =>
+        (filter.creditLineId === undefined || tx.creditLineId === filter.creditLineId) &&
+        (filter.type === undefined || tx.type === filter.type) &&
+        (filter.status === undefined || tx.status === filter.status) &&
+        (filter.from === undefined || tx.createdAt >= filter.from) &&
+        (filter.to === undefined || tx.createdAt <= filter.to))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+
+    return { transactions: filtered.slice(offset, offset + limit), total: filtered.length };
+  }
+
+  /** Returns a function that puts the store back as it is now; lets InMemoryUnitOfWork roll back. */
+  checkpoint(): () => void {
+    const saved = new Map(this.transactions);
+    return () => {
+      this.transactions = saved;
+    };
+  }
+
   // Helper method for testing
   clear(): void {
     this.transactions.clear();
@@ -0,0 +1,38 @@
+import type { TransactionalRepositories, UnitOfWork } from '../interfaces/UnitOfWork.js';
+
+interface Checkpointable {
+  checkpoint(): () => void;
+}
+
+const isCheckpointable = (repository: object): repository is Checkpointable =>
+  typeof (repository as Partial<Checkpointable>).checkpoint === 'function';
+
+/**
+ * Runs one unit at a time over the given repositories, standing in for row
+ * locks, and rolls back those that support `checkpoint` (the in-memory
+ * ones) when the work throws.
+ */
+export class InMemoryUnitOfWork implements UnitOfWork {
+  private tail: Promise<void> = Promise.resolve();
+
+  constructor(private repositories: TransactionalRepositories) {}
+
+  async run<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T> {
+    const previous = this.tail;
+    let release!: () => void;
+    this.tail = new Promise(resolve => (release = resolve));
+    await previous;
+
+    const restores = Object.values(this.repositories)
+      .filter(isCheckpointable)
+      .map(repository => repository.checkpoint());
+    try {
+      return await work(this.repositories);
+    } catch (err) {
+      for (const restore of restores) restore();
+      throw err;
+    } finally {
+      release();
+    }
+  }
+}
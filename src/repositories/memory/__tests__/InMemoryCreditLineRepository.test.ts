@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryCreditLineRepository } from '../InMemoryCreditLineRepository.js';
 import { CreditLineStatus } from '../../../models/CreditLine.js';
+import { describeCreditLineRepositoryContract } from '../../__tests__/creditLineRepository.contract.js';
 
 describe('InMemoryCreditLineRepository', () => {
   let repository: InMemoryCreditLineRepository;
@@ -21,8 +22,8 @@ describe('InMemoryCreditLineRepository', () => {
 
       expect(creditLine.id).toBeDefined();
       expect(creditLine.walletAddress).toBe(request.walletAddress);
-      expect(creditLine.creditLimit).toBe(request.creditLimit);
-      expect(creditLine.availableCredit).toBe(request.creditLimit);
+      expect(creditLine.creditLimit).toBe('1000');
+      expect(creditLine.availableCredit).toBe('1000');
       expect(creditLine.interestRateBps).toBe(request.interestRateBps);
       expect(creditLine.status).toBe(CreditLineStatus.ACTIVE);
       expect(creditLine.createdAt).toBeInstanceOf(Date);
@@ -122,7 +123,7 @@ describe('InMemoryCreditLineRepository', () => {
       const updated = await repository.update(created.id, updateRequest);
 
       expect(updated).toBeDefined();
-      expect(updated!.creditLimit).toBe('2000.00');
+      expect(updated!.creditLimit).toBe('2000');
       expect(updated!.interestRateBps).toBe(600);
       expect(updated!.status).toBe(CreditLineStatus.SUSPENDED);
       expect(updated!.updatedAt.getTime()).toBeGreaterThan(created.updatedAt.getTime());
@@ -215,4 +216,6 @@ describe('InMemoryCreditLineRepository', () => {
       expect(await repository.count()).toBe(2);
     });
   });
-});
\ No newline at end of file
+
+  describeCreditLineRepositoryContract(async () => new InMemoryCreditLineRepository());
+});
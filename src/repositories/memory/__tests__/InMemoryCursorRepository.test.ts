@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryCursorRepository } from '../InMemoryCursorRepository.js';
+import { describeCursorRepositoryContract } from '../../__tests__/cursorRepository.contract.js';
+
+describe('InMemoryCursorRepository', () => {
+  describe('clear', () => {
+    it('should clear all cursors', async () => {
+      const repository = new InMemoryCursorRepository();
+      await repository.save('horizon_listener:CA', { cursor: 'a', lastLedger: 1000 });
+
+      repository.clear();
+
+      expect(await repository.get('horizon_listener:CA')).toBeNull();
+    });
+  });
+
+  describeCursorRepositoryContract(async () => new InMemoryCursorRepository());
+});
@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryEventRepository } from '../InMemoryEventRepository.js';
+import { describeEventRepositoryContract } from '../../__tests__/eventRepository.contract.js';
+
+describe('InMemoryEventRepository', () => {
+  describe('clear', () => {
+    it('should clear all events', async () => {
+      const repository = new InMemoryEventRepository();
+      await repository.append({ eventType: 'a', aggregateType: 'credit_line', aggregateId: 'cl-1', payload: {} });
+
+      repository.clear();
+
+      expect(await repository.count()).toBe(0);
+    });
+  });
+
+  describeEventRepositoryContract(async () => new InMemoryEventRepository());
+});
@@ -0,0 +1,20 @@
+import { describe } from 'vitest';
+import { InMemoryPortfolioRepository } from '../InMemoryPortfolioRepository.js';
+import { InMemoryCreditLineRepository } from '../InMemoryCreditLineRepository.js';
+import { InMemoryRiskEvaluationRepository } from '../InMemoryRiskEvaluationRepository.js';
+import { InMemoryRiskModelRepository } from '../InMemoryRiskModelRepository.js';
+import { describePortfolioRepositoryContract } from '../../__tests__/portfolioRepository.contract.js';
+
+describe('InMemoryPortfolioRepository', () => {
+  describePortfolioRepositoryContract(async () => {
+    const creditLines = new InMemoryCreditLineRepository();
+    const riskEvaluations = new InMemoryRiskEvaluationRepository();
+    const riskModels = new InMemoryRiskModelRepository();
+    return {
+      repository: new InMemoryPortfolioRepository(creditLines, riskEvaluations, riskModels),
+      creditLines,
+      riskEvaluations,
+      riskModels
+    };
+  });
+});
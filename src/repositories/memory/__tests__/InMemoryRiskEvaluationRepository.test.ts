@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryRiskEvaluationRepository } from '../InMemoryRiskEvaluationRepository.js';
+import { describeRiskEvaluationRepositoryContract } from '../../__tests__/riskEvaluationRepository.contract.js';
 
 describe('InMemoryRiskEvaluationRepository', () => {
   let repository: InMemoryRiskEvaluationRepository;
@@ -16,6 +17,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       };
@@ -25,7 +27,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
       expect(saved.id).toBeDefined();
       expect(saved.walletAddress).toBe(evaluation.walletAddress);
       expect(saved.riskScore).toBe(evaluation.riskScore);
-      expect(saved.creditLimit).toBe(evaluation.creditLimit);
+      expect(saved.creditLimit).toBe('1000');
       expect(saved.interestRateBps).toBe(evaluation.interestRateBps);
     });
   });
@@ -42,6 +44,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '800.00',
         interestRateBps: 600,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(now.getTime() - 60000), // 1 minute ago
         expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000)
       });
@@ -53,6 +56,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: now,
         expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000)
       });
@@ -75,6 +79,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       });
@@ -100,6 +105,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '800.00',
         interestRateBps: 600,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(now.getTime() - 120000), // 2 minutes ago
         expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000)
       });
@@ -110,6 +116,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(now.getTime() - 60000), // 1 minute ago
         expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000)
       });
@@ -131,6 +138,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
           creditLimit: '1000.00',
           interestRateBps: 500,
           factors: [],
+          modelVersion: 1,
           evaluatedAt: new Date(Date.now() - i * 60000),
           expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
         });
@@ -152,6 +160,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '800.00',
         interestRateBps: 600,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(now.getTime() - 60000),
         expiresAt: new Date(now.getTime() - 1000) // Expired 1 second ago
       });
@@ -163,6 +172,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: now,
         expiresAt: new Date(now.getTime() + 24 * 60 * 60 * 1000)
       });
@@ -186,6 +196,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       });
@@ -203,6 +214,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() - 1000) // Expired
       });
@@ -227,6 +239,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
           creditLimit: '1000.00',
           interestRateBps: 500,
           factors: [],
+          modelVersion: 1,
           evaluatedAt: new Date(),
           expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
         });
@@ -250,6 +263,7 @@ describe('InMemoryRiskEvaluationRepository', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       });
@@ -257,4 +271,6 @@ describe('InMemoryRiskEvaluationRepository', () => {
       expect(await repository.count()).toBe(1);
     });
   });
-});
\ No newline at end of file
+
+  describeRiskEvaluationRepositoryContract(async () => new InMemoryRiskEvaluationRepository());
+});
@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { InMemoryRiskModelRepository } from '../InMemoryRiskModelRepository.js';
+import { describeRiskModelRepositoryContract } from '../../__tests__/riskModelRepository.contract.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../../../services/riskModel.js';
+
+describe('InMemoryRiskModelRepository', () => {
+  describe('clear', () => {
+    it('should keep only the default model', async () => {
+      const repository = new InMemoryRiskModelRepository();
+      await repository.publish({ ...DEFAULT_RISK_MODEL_CONFIG, baseRateBps: 100 });
+
+      repository.clear();
+
+      expect((await repository.findAll()).map(model => model.version)).toEqual([1]);
+    });
+  });
+
+  describeRiskModelRepositoryContract(async () => new InMemoryRiskModelRepository());
+});
@@ -0,0 +1,7 @@
+import { describe } from 'vitest';
+import { InMemoryRiskRequestRepository } from '../InMemoryRiskRequestRepository.js';
+import { describeRiskRequestRepositoryContract } from '../../__tests__/riskRequestRepository.contract.js';
+
+describe('InMemoryRiskRequestRepository', () => {
+  describeRiskRequestRepositoryContract(async () => new InMemoryRiskRequestRepository());
+});
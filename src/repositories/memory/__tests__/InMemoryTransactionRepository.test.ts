@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest';
 import { InMemoryTransactionRepository } from '../InMemoryTransactionRepository.js';
+import { InMemoryCreditLineRepository } from '../InMemoryCreditLineRepository.js';
 import { TransactionType, TransactionStatus } from '../../../models/Transaction.js';
+import { describeTransactionRepositoryContract } from '../../__tests__/transactionRepository.contract.js';
 
 describe('InMemoryTransactionRepository', () => {
   let repository: InMemoryTransactionRepository;
@@ -22,7 +24,7 @@ describe('InMemoryTransactionRepository', () => {
 
       expect(transaction.id).toBeDefined();
       expect(transaction.creditLineId).toBe(request.creditLineId);
-      expect(transaction.amount).toBe(request.amount);
+      expect(transaction.amount).toBe('100');
       expect(transaction.type).toBe(request.type);
       expect(transaction.status).toBe(TransactionStatus.PENDING);
       expect(transaction.blockchainTxHash).toBe(request.blockchainTxHash);
@@ -322,4 +324,13 @@ describe('InMemoryTransactionRepository', () => {
       expect(repository['transactions'].size).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describeTransactionRepositoryContract(async () => {
+    const creditLines = new InMemoryCreditLineRepository();
+    return {
+      repository: new InMemoryTransactionRepository(creditLines),
+      createCreditLine: async (walletAddress) =>
+        (await creditLines.create({ walletAddress, creditLimit: '1000', interestRateBps: 500 })).id
+    };
+  });
+});
@@ -0,0 +1,18 @@
+import { describe } from 'vitest';
+import { InMemoryUnitOfWork } from '../InMemoryUnitOfWork.js';
+import { InMemoryCreditLineRepository } from '../InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../InMemoryTransactionRepository.js';
+import { InMemoryEventRepository } from '../InMemoryEventRepository.js';
+import { describeUnitOfWorkContract } from '../../__tests__/unitOfWork.contract.js';
+
+describe('InMemoryUnitOfWork', () => {
+  describeUnitOfWorkContract(async () => {
+    const creditLines = new InMemoryCreditLineRepository();
+    const repositories = {
+      creditLines,
+      transactions: new InMemoryTransactionRepository(creditLines),
+      events: new InMemoryEventRepository()
+    };
+    return { unitOfWork: new InMemoryUnitOfWork(repositories), repositories };
+  });
+});
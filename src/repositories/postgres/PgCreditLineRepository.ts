@@ -0,0 +1,197 @@
+import {
+  type CreditLine,
+  type CreateCreditLineRequest,
+  type UpdateCreditLineRequest,
+  type AdjustCreditLineBalancesRequest,
+  CreditLineStatus
+} from '../../models/CreditLine.js';
+import type { CreditLineRepository } from '../interfaces/CreditLineRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { isUuid, toCount, UPSERT_BORROWER_CTE } from './pgUtils.js';
+import { normalizeDecimal } from '../../utils/decimal.js';
+import { DEFAULT_CURRENCY } from '../../utils/money.js';
+
+interface CreditLineRow {
+  id: string;
+  wallet_address: string;
+  credit_limit: string;
+  available_credit: string;
+  accrued_interest: string;
+  currency: string;
+  interest_rate_bps: number;
+  status: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SELECT_COLUMNS = `
+  cl.id, b.wallet_address, cl.credit_limit, cl.available_credit, cl.accrued_interest,
+  cl.currency, cl.interest_rate_bps, cl.status, cl.created_at, cl.updated_at`;
+
+function toCreditLine(row: CreditLineRow): CreditLine {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    creditLimit: normalizeDecimal(row.credit_limit),
+    availableCredit: normalizeDecimal(row.available_credit),
+    accruedInterest: normalizeDecimal(row.accrued_interest),
+    currency: row.currency,
+    interestRateBps: row.interest_rate_bps,
+    status: row.status as CreditLineStatus,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+export class PgCreditLineRepository implements CreditLineRepository {
+  constructor(private db: DbQueryable) {}
+
+  async create(request: CreateCreditLineRequest): Promise<CreditLine> {
+    const result = await this.db.query(
+      `WITH ${UPSERT_BORROWER_CTE},
+       inserted AS (
+         INSERT INTO credit_lines (borrower_id, credit_limit, available_credit, interest_rate_bps, status, currency)
+         SELECT id, $2::numeric, $2::numeric, $3, $4, $5 FROM borrower
+         RETURNING *
+       )
+       SELECT ${SELECT_COLUMNS}
+       FROM inserted cl JOIN borrower b ON b.id = cl.borrower_id`,
+      [
+        request.walletAddress,
+        request.creditLimit,
+        request.interestRateBps,
+        CreditLineStatus.ACTIVE,
+        request.currency ?? DEFAULT_CURRENCY
+      ]
+    );
+    return toCreditLine(result.rows[0] as CreditLineRow);
+  }
+
+  async findById(id: string): Promise<CreditLine | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM credit_lines cl JOIN borrowers b ON b.id = cl.borrower_id
+       WHERE cl.id = $1`,
+      [id]
+    );
+    const row = result.rows[0] as CreditLineRow | undefined;
+    return row ? toCreditLine(row) : null;
+  }
+
+  async findByIdForUpdate(id: string): Promise<CreditLine | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM credit_lines cl JOIN borrowers b ON b.id = cl.borrower_id
+       WHERE cl.id = $1
+       FOR UPDATE OF cl`,
+      [id]
+    );
+    const row = result.rows[0] as CreditLineRow | undefined;
+    return row ? toCreditLine(row) : null;
+  }
+
+  async findByWalletAddress(walletAddress: string): Promise<CreditLine[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM credit_lines cl JOIN borrowers b ON b.id = cl.borrower_id
+       WHERE b.wallet_address = $1
+       ORDER BY cl.created_at, cl.id`,
+      [walletAddress]
+    );
+    return (result.rows as CreditLineRow[]).map(toCreditLine);
+  }
+
+  async findAll(offset = 0, limit = 100): Promise<CreditLine[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM credit_lines cl JOIN borrowers b ON b.id = cl.borrower_id
+       ORDER BY cl.created_at, cl.id
+       OFFSET $1 LIMIT $2`,
+      [offset, limit]
+    );
+    return (result.rows as CreditLineRow[]).map(toCreditLine);
+  }
+
+  async update(id: string, request: UpdateCreditLineRequest): Promise<CreditLine | null> {
+    if (!isUuid(id)) return null;
+
+    // If credit limit changed, adjust available credit proportionally
+    // (unless the caller sets available credit explicitly)
+    const result = await this.db.query(
+      `WITH updated AS (
+         UPDATE credit_lines SET
+           available_credit = CASE
+             WHEN $5::numeric IS NOT NULL THEN $5::numeric
+             WHEN $2::numeric IS NULL OR $2::numeric = credit_limit THEN available_credit
+             WHEN credit_limit > 0 THEN $2::numeric * available_credit / credit_limit
+             ELSE $2::numeric
+           END,
+           credit_limit = COALESCE($2::numeric, credit_limit),
+           accrued_interest = COALESCE($6::numeric, accrued_interest),
+           interest_rate_bps = COALESCE($3, interest_rate_bps),
+           status = COALESCE($4, status),
+           updated_at = now()
+         WHERE id = $1
+         RETURNING *
+       )
+       SELECT ${SELECT_COLUMNS}
+       FROM updated cl JOIN borrowers b ON b.id = cl.borrower_id`,
+      [
+        id,
+        request.creditLimit ?? null,
+        request.interestRateBps ?? null,
+        request.status ?? null,
+        request.availableCredit ?? null,
+        request.accruedInterest ?? null
+      ]
+    );
+    const row = result.rows[0] as CreditLineRow | undefined;
+    return row ? toCreditLine(row) : null;
+  }
+
+  async adjustBalances(id: string, request: AdjustCreditLineBalancesRequest): Promise<CreditLine | null> {
+    if (!isUuid(id)) return null;
+
+    const result = await this.db.query(
+      `WITH updated AS (
+         UPDATE credit_lines SET
+           credit_limit = credit_limit + $2::numeric,
+           available_credit = available_credit + $3::numeric,
+           accrued_interest = accrued_interest + $4::numeric,
+           updated_at = now()
+         WHERE id = $1
+         RETURNING *
+       )
+       SELECT ${SELECT_COLUMNS}
+       FROM updated cl JOIN borrowers b ON b.id = cl.borrower_id`,
+      [id, request.creditLimit ?? '0', request.availableCredit ?? '0', request.accruedInterest ?? '0']
+    );
+    const row = result.rows[0] as CreditLineRow | undefined;
+    return row ? toCreditLine(row) : null;
+  }
+
+  async delete(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const result = await this.db.query(
+      'DELETE FROM credit_lines WHERE id = $1 RETURNING id',
+      [id]
+    );
+    return result.rows.length > 0;
+  }
+
+  async exists(id: string): Promise<boolean> {
+    if (!isUuid(id)) return false;
+    const result = await this.db.query(
+      'SELECT 1 FROM credit_lines WHERE id = $1',
+      [id]
+    );
+    return result.rows.length > 0;
+  }
+
+  async count(): Promise<number> {
+    const result = await this.db.query('SELECT count(*) AS count FROM credit_lines');
+    return toCount(result.rows);
+  }
+}
@@ -0,0 +1,46 @@
+import type { IngestionCursor, SaveIngestionCursorRequest } from '../../models/IngestionCursor.js';
+import type { CursorRepository } from '../interfaces/CursorRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+
+interface CursorRow {
+  name: string;
+  cursor: string;
+  last_ledger: string; // BIGINT is returned as a string by node-postgres
+  updated_at: Date;
+}
+
+const SELECT_COLUMNS = 'name, cursor, last_ledger, updated_at';
+
+function toCursor(row: CursorRow): IngestionCursor {
+  return {
+    name: row.name,
+    cursor: row.cursor,
+    lastLedger: Number(row.last_ledger),
+    updatedAt: row.updated_at
+  };
+}
+
+export class PgCursorRepository implements CursorRepository {
+  constructor(private db: DbQueryable) {}
+
+  async get(name: string): Promise<IngestionCursor | null> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM ingestion_cursors WHERE name = $1`,
+      [name]
+    );
+    const row = result.rows[0] as CursorRow | undefined;
+    return row ? toCursor(row) : null;
+  }
+
+  async save(name: string, request: SaveIngestionCursorRequest): Promise<IngestionCursor> {
+    const result = await this.db.query(
+      `INSERT INTO ingestion_cursors (name, cursor, last_ledger)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (name) DO UPDATE
+         SET cursor = EXCLUDED.cursor, last_ledger = EXCLUDED.last_ledger, updated_at = now()
+       RETURNING ${SELECT_COLUMNS}`,
+      [name, request.cursor, request.lastLedger]
+    );
+    return toCursor(result.rows[0] as CursorRow);
+  }
+}
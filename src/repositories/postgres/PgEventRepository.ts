@@ -0,0 +1,102 @@
+import type { DomainEvent, CreateDomainEventRequest } from '../../models/DomainEvent.js';
+import { type EventRepository, DuplicateEventError } from '../interfaces/EventRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { toCount } from './pgUtils.js';
+
+interface EventRow {
+  id: string;
+  event_type: string;
+  aggregate_type: string;
+  aggregate_id: string;
+  payload: Record<string, unknown> | null;
+  idempotency_key: string | null;
+  created_at: Date;
+}
+
+const SELECT_COLUMNS = 'id, event_type, aggregate_type, aggregate_id, payload, idempotency_key, created_at';
+
+const UNIQUE_VIOLATION = '23505';
+
+function toDomainEvent(row: EventRow): DomainEvent {
+  return {
+    id: row.id,
+    eventType: row.event_type,
+    aggregateType: row.aggregate_type,
+    aggregateId: row.aggregate_id,
+    payload: row.payload ?? {},
+    idempotencyKey: row.idempotency_key ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+export class PgEventRepository implements EventRepository {
+  constructor(private db: DbQueryable) {}
+
+  async append(request: CreateDomainEventRequest): Promise<DomainEvent> {
+    try {
+      const result = await this.db.query(
+        `INSERT INTO events (event_type, aggregate_type, aggregate_id, payload, idempotency_key)
+         VALUES ($1, $2, $3, $4::jsonb, $5)
+         RETURNING ${SELECT_COLUMNS}`,
+        [
+          request.eventType,
+          request.aggregateType,
+          request.aggregateId,
+          JSON.stringify(request.payload),
+          request.idempotencyKey ?? null
+        ]
+      );
+      return toDomainEvent(result.rows[0] as EventRow);
+    } catch (err) {
+      if (request.idempotencyKey !== undefined && (err as { code?: string }).code === UNIQUE_VIOLATION) {
+        throw new DuplicateEventError(request.idempotencyKey);
+      }
+      throw err;
+    }
+  }
+
+  async findByIdempotencyKey(idempotencyKey: string): Promise<DomainEvent | null> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM events WHERE idempotency_key = $1`,
+      [idempotencyKey]
+    );
+    const row = result.rows[0] as EventRow | undefined;
+    return row ? toDomainEvent(row) : null;
+  }
+
+  async findByAggregate(aggregateType: string, aggregateId: string, offset = 0, limit = 100): Promise<DomainEvent[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM events
+       WHERE aggregate_type = $1 AND aggregate_id = $2
+       ORDER BY created_at, id
+       OFFSET $3 LIMIT $4`,
+      [aggregateType, aggregateId, offset, limit]
+    );
+    return (result.rows as EventRow[]).map(toDomainEvent);
+  }
+
+  async findByType(eventType: string, offset = 0, limit = 100): Promise<DomainEvent[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM events
+       WHERE event_type = $1
+       ORDER BY created_at DESC, id DESC
+       OFFSET $2 LIMIT $3`,
+      [eventType, offset, limit]
+    );
+    return (result.rows as EventRow[]).map(toDomainEvent);
+  }
+
+  async lockAggregateType(aggregateType: string): Promise<void> {
+    await this.db.query(
+      "SELECT pg_advisory_xact_lock(hashtextextended('events:' || $1, 0))",
+      [aggregateType]
+    );
+  }
+
+  async count(eventType?: string): Promise<number> {
+    const result = eventType === undefined
+      ? await this.db.query('SELECT count(*) AS count FROM events')
+      : await this.db.query('SELECT count(*) AS count FROM events WHERE event_type = $1', [eventType]);
+    return toCount(result.rows);
+  }
+}
@@ -0,0 +1,67 @@
+import { type PortfolioGrouping, type PortfolioSegmentTotals, UNRATED_RISK_LEVEL } from '../../models/Portfolio.js';
+import type { PortfolioRepository } from '../interfaces/PortfolioRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { normalizeDecimal } from '../../utils/decimal.js';
+
+interface PortfolioSegmentRow {
+  key: string;
+  currency: string;
+  line_count: string;
+  borrower_count: string;
+  total_limit: string;
+  exposure: string;
+}
+
+// Mirrors riskLevelForScore: scores below the medium band are low, below the high band medium.
+const RISK_LEVEL = `
+  CASE
+    WHEN m.version IS NULL THEN '${UNRATED_RISK_LEVEL}'
+    WHEN latest.risk_score < (m.config->'bands'->>'medium')::numeric THEN 'low'
+    WHEN latest.risk_score < (m.config->'bands'->>'high')::numeric THEN 'medium'
+    ELSE 'high'
+  END`;
+
+// Only grouping by risk level needs each borrower's latest evaluation.
+const LATEST_EVALUATION = `
+  LEFT JOIN LATERAL (
+    SELECT r.risk_score, r.model_version
+    FROM risk_evaluations r
+    WHERE r.borrower_id = cl.borrower_id
+    ORDER BY r.evaluated_at DESC, r.id
+    LIMIT 1
+  ) latest ON true
+  LEFT JOIN risk_models m ON m.version = latest.model_version`;
+
+const GROUPINGS: Record<PortfolioGrouping, { key: string; joins: string }> = {
+  total: { key: `'total'`, joins: '' },
+  riskLevel: { key: RISK_LEVEL, joins: LATEST_EVALUATION },
+  status: { key: 'cl.status', joins: '' },
+  originationMonth: { key: `to_char(cl.created_at AT TIME ZONE 'UTC', 'YYYY-MM')`, joins: '' }
+};
+
+export class PgPortfolioRepository implements PortfolioRepository {
+  constructor(private db: DbQueryable) {}
+
+  async summarize(grouping: PortfolioGrouping): Promise<PortfolioSegmentTotals[]> {
+    const { key, joins } = GROUPINGS[grouping];
+    const result = await this.db.query(
+      `SELECT ${key} AS key,
+              cl.currency,
+              count(*) AS line_count,
+              count(DISTINCT cl.borrower_id) AS borrower_count,
+              sum(cl.credit_limit) AS total_limit,
+              sum(cl.credit_limit - cl.available_credit) AS exposure
+       FROM credit_lines cl ${joins}
+       GROUP BY 1, cl.currency
+       ORDER BY 1, cl.currency`
+    );
+    return (result.rows as PortfolioSegmentRow[]).map(row => ({
+      key: row.key,
+      currency: row.currency,
+      lineCount: Number(row.line_count),
+      borrowerCount: Number(row.borrower_count),
+      totalLimit: normalizeDecimal(row.total_limit),
+      exposure: normalizeDecimal(row.exposure)
+    }));
+  }
+}
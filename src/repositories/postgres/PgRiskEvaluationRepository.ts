@@ -0,0 +1,126 @@
+import type { RiskEvaluation, RiskFactor } from '../../models/RiskEvaluation.js';
+import type { RiskEvaluationRepository } from '../interfaces/RiskEvaluationRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { isUuid, toCount, UPSERT_BORROWER_CTE } from './pgUtils.js';
+import { normalizeDecimal } from '../../utils/decimal.js';
+
+interface RiskEvaluationRow {
+  id: string;
+  wallet_address: string;
+  risk_score: number;
+  suggested_limit: string;
+  interest_rate_bps: number;
+  inputs: { factors?: RiskFactor[] } | null;
+  model_version: number;
+  evaluated_at: Date;
+  expires_at: Date;
+}
+
+const SELECT_COLUMNS = `
+  r.id, b.wallet_address, r.risk_score, r.suggested_limit, r.interest_rate_bps,
+  r.inputs, r.model_version, r.evaluated_at, r.expires_at`;
+
+function toRiskEvaluation(row: RiskEvaluationRow): RiskEvaluation {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    riskScore: row.risk_score,
+    creditLimit: normalizeDecimal(row.suggested_limit),
+    interestRateBps: row.interest_rate_bps,
+    factors: row.inputs?.factors ?? [],
+    modelVersion: row.model_version,
+    evaluatedAt: row.evaluated_at,
+    expiresAt: row.expires_at
+  };
+}
+
+export class PgRiskEvaluationRepository implements RiskEvaluationRepository {
+  constructor(private db: DbQueryable) {}
+
+  async save(evaluation: Omit<RiskEvaluation, 'id'>): Promise<RiskEvaluation> {
+    // Factors are kept in the `inputs` snapshot column
+    const result = await this.db.query(
+      `WITH ${UPSERT_BORROWER_CTE},
+       inserted AS (
+         INSERT INTO risk_evaluations
+           (borrower_id, risk_score, suggested_limit, interest_rate_bps, inputs, model_version, evaluated_at, expires_at)
+         SELECT id, $2, $3::numeric, $4, $5::jsonb, $6, $7, $8 FROM borrower
+         RETURNING *
+       )
+       SELECT ${SELECT_COLUMNS}
+       FROM inserted r JOIN borrower b ON b.id = r.borrower_id`,
+      [
+        evaluation.walletAddress,
+        evaluation.riskScore,
+        evaluation.creditLimit,
+        evaluation.interestRateBps,
+        JSON.stringify({ factors: evaluation.factors }),
+        evaluation.modelVersion,
+        evaluation.evaluatedAt,
+        evaluation.expiresAt
+      ]
+    );
+    return toRiskEvaluation(result.rows[0] as RiskEvaluationRow);
+  }
+
+  async findLatestByWalletAddress(walletAddress: string): Promise<RiskEvaluation | null> {
+    const [latest] = await this.findByWalletAddress(walletAddress, 0, 1);
+    return latest ?? null;
+  }
+
+  async findById(id: string): Promise<RiskEvaluation | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM risk_evaluations r JOIN borrowers b ON b.id = r.borrower_id
+       WHERE r.id = $1`,
+      [id]
+    );
+    const row = result.rows[0] as RiskEvaluationRow | undefined;
+    return row ? toRiskEvaluation(row) : null;
+  }
+
+  async findByWalletAddress(walletAddress: string, offset = 0, limit = 100): Promise<RiskEvaluation[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM risk_evaluations r JOIN borrowers b ON b.id = r.borrower_id
+       WHERE b.wallet_address = $1
+       ORDER BY r.evaluated_at DESC, r.id
+       OFFSET $2 LIMIT $3`,
+      [walletAddress, offset, limit]
+    );
+    return (result.rows as RiskEvaluationRow[]).map(toRiskEvaluation);
+  }
+
+  async deleteExpired(): Promise<number> {
+    const result = await this.db.query(
+      'DELETE FROM risk_evaluations WHERE expires_at < now() RETURNING id'
+    );
+    return result.rows.length;
+  }
+
+  async isValid(walletAddress: string): Promise<boolean> {
+    const latest = await this.findLatestByWalletAddress(walletAddress);
+    if (!latest) {
+      return false;
+    }
+
+    return latest.expiresAt > new Date();
+  }
+
+  async findAll(offset = 0, limit = 100): Promise<RiskEvaluation[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS}
+       FROM risk_evaluations r JOIN borrowers b ON b.id = r.borrower_id
+       ORDER BY r.evaluated_at DESC, r.id
+       OFFSET $1 LIMIT $2`,
+      [offset, limit]
+    );
+    return (result.rows as RiskEvaluationRow[]).map(toRiskEvaluation);
+  }
+
+  async count(): Promise<number> {
+    const result = await this.db.query('SELECT count(*) AS count FROM risk_evaluations');
+    return toCount(result.rows);
+  }
+}
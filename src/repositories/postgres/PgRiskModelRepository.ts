@@ -0,0 +1,73 @@
+import type { RiskModelConfig, RiskModelVersion } from '../../models/RiskModel.js';
+import type { RiskModelRepository } from '../interfaces/RiskModelRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { UNIQUE_VIOLATION } from './pgUtils.js';
+
+interface RiskModelRow {
+  version: number;
+  config: RiskModelConfig;
+  description: string | null;
+  published_at: Date;
+}
+
+const SELECT_COLUMNS = 'version, config, description, published_at';
+
+/** Largest value of the INTEGER `version` column. */
+const MAX_VERSION = 2_147_483_647;
+
+/** Attempts at taking the next version number while other publishers race for it. */
+const MAX_PUBLISH_ATTEMPTS = 3;
+
+function toRiskModel(row: RiskModelRow): RiskModelVersion {
+  return {
+    version: row.version,
+    config: row.config,
+    ...(row.description === null ? {} : { description: row.description }),
+    publishedAt: row.published_at
+  };
+}
+
+export class PgRiskModelRepository implements RiskModelRepository {
+  constructor(private db: DbQueryable) {}
+
+  async publish(config: RiskModelConfig, description?: string): Promise<RiskModelVersion> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        const result = await this.db.query(
+          `INSERT INTO risk_models (version, config, description)
+           SELECT coalesce(max(version), 0) + 1, $1::jsonb, $2 FROM risk_models
+           RETURNING ${SELECT_COLUMNS}`,
+          [JSON.stringify(config), description ?? null]
+        );
+        return toRiskModel(result.rows[0] as RiskModelRow);
+      } catch (err) {
+        if ((err as { code?: string }).code !== UNIQUE_VIOLATION || attempt >= MAX_PUBLISH_ATTEMPTS) throw err;
+      }
+    }
+  }
+
+  async findLatest(): Promise<RiskModelVersion | null> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM risk_models ORDER BY version DESC LIMIT 1`
+    );
+    const row = result.rows[0] as RiskModelRow | undefined;
+    return row ? toRiskModel(row) : null;
+  }
+
+  async findByVersion(version: number): Promise<RiskModelVersion | null> {
+    if (!Number.isInteger(version) || version < 1 || version > MAX_VERSION) return null;
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM risk_models WHERE version = $1`,
+      [version]
+    );
+    const row = result.rows[0] as RiskModelRow | undefined;
+    return row ? toRiskModel(row) : null;
+  }
+
+  async findAll(): Promise<RiskModelVersion[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM risk_models ORDER BY version DESC`
+    );
+    return (result.rows as RiskModelRow[]).map(toRiskModel);
+  }
+}
@@ -0,0 +1,83 @@
+import type { RiskEvaluationResult } from '../../models/RiskEvaluation.js';
+import type { CreateRiskRequest, RiskRequest, RiskRequestStatus, UpdateRiskRequest } from '../../models/RiskRequest.js';
+import type { RiskRequestRepository } from '../interfaces/RiskRequestRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { isUuid } from './pgUtils.js';
+
+interface RiskRequestRow {
+  id: string;
+  wallet_address: string;
+  force_refresh: boolean;
+  status: RiskRequestStatus;
+  callback_url: string | null;
+  result: RiskEvaluationResult | null;
+  error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+const SELECT_COLUMNS =
+  'id, wallet_address, force_refresh, status, callback_url, result, error, created_at, updated_at, completed_at';
+
+function toRiskRequest(row: RiskRequestRow): RiskRequest {
+  return {
+    id: row.id,
+    walletAddress: row.wallet_address,
+    forceRefresh: row.force_refresh,
+    status: row.status,
+    ...(row.callback_url === null ? {} : { callbackUrl: row.callback_url }),
+    ...(row.result === null ? {} : { result: row.result }),
+    ...(row.error === null ? {} : { error: row.error }),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    ...(row.completed_at === null ? {} : { completedAt: row.completed_at })
+  };
+}
+
+export class PgRiskRequestRepository implements RiskRequestRepository {
+  constructor(private db: DbQueryable) {}
+
+  async create(request: CreateRiskRequest): Promise<RiskRequest> {
+    const result = await this.db.query(
+      `INSERT INTO risk_requests (wallet_address, force_refresh, callback_url)
+       VALUES ($1, $2, $3)
+       RETURNING ${SELECT_COLUMNS}`,
+      [request.walletAddress, request.forceRefresh ?? false, request.callbackUrl ?? null]
+    );
+    return toRiskRequest(result.rows[0] as RiskRequestRow);
+  }
+
+  async findById(id: string): Promise<RiskRequest | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM risk_requests WHERE id = $1`,
+      [id]
+    );
+    const row = result.rows[0] as RiskRequestRow | undefined;
+    return row ? toRiskRequest(row) : null;
+  }
+
+  async update(id: string, request: UpdateRiskRequest): Promise<RiskRequest | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `UPDATE risk_requests SET
+         status = COALESCE($2, status),
+         result = COALESCE($3::jsonb, result),
+         error = COALESCE($4, error),
+         completed_at = COALESCE($5, completed_at),
+         updated_at = now()
+       WHERE id = $1
+       RETURNING ${SELECT_COLUMNS}`,
+      [
+        id,
+        request.status ?? null,
+        request.result === undefined ? null : JSON.stringify(request.result),
+        request.error ?? null,
+        request.completedAt ?? null
+      ]
+    );
+    const row = result.rows[0] as RiskRequestRow | undefined;
+    return row ? toRiskRequest(row) : null;
+  }
+}
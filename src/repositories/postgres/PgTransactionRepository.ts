@@ -0,0 +1,199 @@
+import {
+  type Transaction,
+  type CreateTransactionRequest,
+  type TransactionFilter,
+  type TransactionPage,
+  TransactionStatus,
+  type TransactionType
+} from '../../models/Transaction.js';
+import type { TransactionRepository } from '../interfaces/TransactionRepository.js';
+import type { DbQueryable } from '../../db/client.js';
+import { isUuid, toCount } from './pgUtils.js';
+import { normalizeDecimal } from '../../utils/decimal.js';
+
+interface TransactionRow {
+  id: string;
+  credit_line_id: string;
+  wallet_address: string;
+  amount: string;
+  currency: string;
+  type: string;
+  status: string;
+  blockchain_tx_hash: string | null;
+  created_at: Date;
+  processed_at: Date | null;
+}
+
+const SELECT_COLUMNS = `
+  t.id, t.credit_line_id, b.wallet_address, t.amount, t.currency, t.type, t.status,
+  t.blockchain_tx_hash, t.created_at, t.processed_at`;
+
+/** Resolves the owning wallet through credit_lines → borrowers. */
+const JOIN_BORROWER = `
+  JOIN credit_lines cl ON cl.id = t.credit_line_id
+  JOIN borrowers b ON b.id = cl.borrower_id`;
+
+/**
+ * NULL parameters disable their condition, so one statement serves every
+ * filter combination. The upper bound is compared at millisecond precision so
+ * a `createdAt` read back into a JS Date still matches its own row.
+ */
+const FILTER_CONDITIONS = `
+  ($1::uuid IS NULL OR t.credit_line_id = $1)
+  AND ($2::text IS NULL OR t.type = $2)
+  AND ($3::text IS NULL OR t.status = $3)
+  AND ($4::timestamptz IS NULL OR t.created_at >= $4)
+  AND ($5::timestamptz IS NULL OR date_trunc('milliseconds', t.created_at) <= $5)`;
+
+function toTransaction(row: TransactionRow): Transaction {
+  return {
+    id: row.id,
+    creditLineId: row.credit_line_id,
+    walletAddress: row.wallet_address,
+    amount: normalizeDecimal(row.amount),
+    currency: row.currency,
+    type: row.type as TransactionType,
+    status: row.status as TransactionStatus,
+    blockchainTxHash: row.blockchain_tx_hash ?? undefined,
+    createdAt: row.created_at,
+    processedAt: row.processed_at ?? undefined
+  };
+}
+
+export class PgTransactionRepository implements TransactionRepository {
+  constructor(private db: DbQueryable) {}
+
+  async create(request: CreateTransactionRequest): Promise<Transaction> {
+    if (!isUuid(request.creditLineId)) {
+      throw new Error(`Credit line ${request.creditLineId} not found`);
+    }
+
+    // Transactions inherit the currency of the line they are posted against
+    const result = await this.db.query(
+      `WITH inserted AS (
+         INSERT INTO transactions (credit_line_id, type, amount, currency, status, blockchain_tx_hash)
+         SELECT id, $2, $3::numeric, currency, $4, $5 FROM credit_lines WHERE id = $1
+         RETURNING *
+       )
+       SELECT ${SELECT_COLUMNS}
+       FROM inserted t ${JOIN_BORROWER}`,
+      [
+        request.creditLineId,
+        request.type,
+        request.amount,
+        TransactionStatus.PENDING,
+        request.blockchainTxHash ?? null
+      ]
+    );
+
+    const row = result.rows[0] as TransactionRow | undefined;
+    if (!row) {
+      throw new Error(`Credit line ${request.creditLineId} not found`);
+    }
+    return toTransaction(row);
+  }
+
+  async findById(id: string): Promise<Transaction | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM transactions t ${JOIN_BORROWER} WHERE t.id = $1`,
+      [id]
+    );
+    const row = result.rows[0] as TransactionRow | undefined;
+    return row ? toTransaction(row) : null;
+  }
+
+  async findByCreditLineId(creditLineId: string, offset = 0, limit = 100): Promise<Transaction[]> {
+    if (!isUuid(creditLineId)) return [];
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM transactions t ${JOIN_BORROWER}
+       WHERE t.credit_line_id = $1
+       ORDER BY t.created_at DESC, t.id
+       OFFSET $2 LIMIT $3`,
+      [creditLineId, offset, limit]
+    );
+    return (result.rows as TransactionRow[]).map(toTransaction);
+  }
+
+  async findByWalletAddress(walletAddress: string, offset = 0, limit = 100): Promise<Transaction[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM transactions t ${JOIN_BORROWER}
+       WHERE b.wallet_address = $1
+       ORDER BY t.created_at DESC, t.id
+       OFFSET $2 LIMIT $3`,
+      [walletAddress, offset, limit]
+    );
+    return (result.rows as TransactionRow[]).map(toTransaction);
+  }
+
+  async updateStatus(id: string, status: TransactionStatus, processedAt?: Date): Promise<Transaction | null> {
+    if (!isUuid(id)) return null;
+    const result = await this.db.query(
+      `WITH updated AS (
+         UPDATE transactions SET status = $2, processed_at = COALESCE($3, now())
+         WHERE id = $1
+         RETURNING *
+       )
+       SELECT ${SELECT_COLUMNS} FROM updated t ${JOIN_BORROWER}`,
+      [id, status, processedAt ?? null]
+    );
+    const row = result.rows[0] as TransactionRow | undefined;
+    return row ? toTransaction(row) : null;
+  }
+
+  async findAll(offset = 0, limit = 100): Promise<Transaction[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM transactions t ${JOIN_BORROWER}
+       ORDER BY t.created_at DESC, t.id
+       OFFSET $1 LIMIT $2`,
+      [offset, limit]
+    );
+    return (result.rows as TransactionRow[]).map(toTransaction);
+  }
+
+  async count(): Promise<number> {
+    const result = await this.db.query('SELECT count(*) AS count FROM transactions');
+    return toCount(result.rows);
+  }
+
+  async findByStatus(status: TransactionStatus, offset = 0, limit = 100): Promise<Transaction[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM transactions t ${JOIN_BORROWER}
+       WHERE t.status = $1
+       ORDER BY t.created_at DESC, t.id
+       OFFSET $2 LIMIT $3`,
+      [status, offset, limit]
+    );
+    return (result.rows as TransactionRow[]).map(toTransaction);
+  }
+
+  async query(filter: TransactionFilter, offset = 0, limit = 100): Promise<TransactionPage> {
+    if (filter.creditLineId !== undefined && !isUuid(filter.creditLineId)) {
+      return { transactions: [], total: 0 };
+    }
+
+    const params = [
+      filter.creditLineId ?? null,
+      filter.type ?? null,
+      filter.status ?? null,
+      filter.from ?? null,
+      filter.to ?? null
+    ];
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM transactions t ${JOIN_BORROWER}
+       WHERE ${FILTER_CONDITIONS}
+       ORDER BY t.created_at DESC, t.id
+       OFFSET $6 LIMIT $7`,
+      [...params, offset, limit]
+    );
+    const countResult = await this.db.query(
+      `SELECT count(*) AS count FROM transactions t WHERE ${FILTER_CONDITIONS}`,
+      params
+    );
+
+    return {
+      transactions: (result.rows as TransactionRow[]).map(toTransaction),
+      total: toCount(countResult.rows)
+    };
+  }
+}
@@ -0,0 +1,29 @@
+import type { TransactionalRepositories, UnitOfWork } from '../interfaces/UnitOfWork.js';
+import type { DbPool } from '../../db/client.js';
+import { PgCreditLineRepository } from './PgCreditLineRepository.js';
+import { PgTransactionRepository } from './PgTransactionRepository.js';
+import { PgEventRepository } from './PgEventRepository.js';
+
+/** Runs each unit in a database transaction on a connection of its own. */
+export class PgUnitOfWork implements UnitOfWork {
+  constructor(private pool: DbPool) {}
+
+  async run<T>(work: (repositories: TransactionalRepositories) => Promise<T>): Promise<T> {
+    const client = await this.pool.connect();
+    try {
+      await client.query('BEGIN');
+      const result = await work({
+        creditLines: new PgCreditLineRepository(client),
+        transactions: new PgTransactionRepository(client),
+        events: new PgEventRepository(client)
+      });
+      await client.query('COMMIT');
+      return result;
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,24 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgCreditLineRepository } from '../PgCreditLineRepository.js';
+import { describeCreditLineRepositoryContract } from '../../__tests__/creditLineRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_credit_line_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgCreditLineRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeCreditLineRepositoryContract(async () => {
+    await truncateTables(db);
+    return new PgCreditLineRepository(db);
+  });
+});
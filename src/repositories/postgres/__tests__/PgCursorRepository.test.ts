@@ -0,0 +1,24 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgCursorRepository } from '../PgCursorRepository.js';
+import { describeCursorRepositoryContract } from '../../__tests__/cursorRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_cursor_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgCursorRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeCursorRepositoryContract(async () => {
+    await truncateTables(db);
+    return new PgCursorRepository(db);
+  });
+});
@@ -0,0 +1,24 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgEventRepository } from '../PgEventRepository.js';
+import { describeEventRepositoryContract } from '../../__tests__/eventRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_event_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgEventRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeEventRepositoryContract(async () => {
+    await truncateTables(db);
+    return new PgEventRepository(db);
+  });
+});
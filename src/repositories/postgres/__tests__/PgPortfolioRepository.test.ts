@@ -0,0 +1,34 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgPortfolioRepository } from '../PgPortfolioRepository.js';
+import { PgCreditLineRepository } from '../PgCreditLineRepository.js';
+import { PgRiskEvaluationRepository } from '../PgRiskEvaluationRepository.js';
+import { PgRiskModelRepository } from '../PgRiskModelRepository.js';
+import { describePortfolioRepositoryContract } from '../../__tests__/portfolioRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_portfolio_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgPortfolioRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describePortfolioRepositoryContract(async () => {
+    // Keep version 1, which the migration seeds.
+    await truncateTables(db);
+    await db.query('DELETE FROM risk_models WHERE version > 1');
+    return {
+      repository: new PgPortfolioRepository(db),
+      creditLines: new PgCreditLineRepository(db),
+      riskEvaluations: new PgRiskEvaluationRepository(db),
+      riskModels: new PgRiskModelRepository(db)
+    };
+  });
+});
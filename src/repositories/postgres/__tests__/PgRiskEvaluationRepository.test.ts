@@ -0,0 +1,24 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgRiskEvaluationRepository } from '../PgRiskEvaluationRepository.js';
+import { describeRiskEvaluationRepositoryContract } from '../../__tests__/riskEvaluationRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_risk_evaluation_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgRiskEvaluationRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeRiskEvaluationRepositoryContract(async () => {
+    await truncateTables(db);
+    return new PgRiskEvaluationRepository(db);
+  });
+});
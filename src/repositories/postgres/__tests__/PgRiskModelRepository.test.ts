@@ -0,0 +1,26 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgRiskModelRepository } from '../PgRiskModelRepository.js';
+import { describeRiskModelRepositoryContract } from '../../__tests__/riskModelRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_risk_model_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgRiskModelRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeRiskModelRepositoryContract(async () => {
+    // Keep version 1, which the migration seeds.
+    await truncateTables(db, ['risk_evaluations']);
+    await db.query('DELETE FROM risk_models WHERE version > 1');
+    return new PgRiskModelRepository(db);
+  });
+});
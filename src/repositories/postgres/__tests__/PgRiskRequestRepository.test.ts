@@ -0,0 +1,24 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgRiskRequestRepository } from '../PgRiskRequestRepository.js';
+import { describeRiskRequestRepositoryContract } from '../../__tests__/riskRequestRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_risk_request_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgRiskRequestRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeRiskRequestRepositoryContract(async () => {
+    await truncateTables(db, ['risk_requests']);
+    return new PgRiskRequestRepository(db);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import type { DbClient } from '../../../db/client.js';
+import { PgCreditLineRepository } from '../PgCreditLineRepository.js';
+import { PgTransactionRepository } from '../PgTransactionRepository.js';
+import { TransactionType } from '../../../models/Transaction.js';
+import { describeTransactionRepositoryContract } from '../../__tests__/transactionRepository.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_transaction_repository';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgTransactionRepository', () => {
+  let db: DbClient;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeTransactionRepositoryContract(async () => {
+    await truncateTables(db);
+    const creditLines = new PgCreditLineRepository(db);
+    return {
+      repository: new PgTransactionRepository(db),
+      createCreditLine: async (walletAddress) =>
+        (await creditLines.create({ walletAddress, creditLimit: '1000', interestRateBps: 500 })).id
+    };
+  });
+
+  it('rejects transactions for unknown credit lines', async () => {
+    const repository = new PgTransactionRepository(db);
+    await expect(
+      repository.create({ creditLineId: 'nonexistent', amount: '1', type: TransactionType.BORROW })
+    ).rejects.toThrow('Credit line nonexistent not found');
+    await expect(
+      repository.create({
+        creditLineId: '00000000-0000-4000-8000-000000000000',
+        amount: '1',
+        type: TransactionType.BORROW
+      })
+    ).rejects.toThrow('not found');
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, beforeAll, afterAll } from 'vitest';
+import type { DbClient, DbPool } from '../../../db/client.js';
+import { PgUnitOfWork } from '../PgUnitOfWork.js';
+import { PgCreditLineRepository } from '../PgCreditLineRepository.js';
+import { PgTransactionRepository } from '../PgTransactionRepository.js';
+import { PgEventRepository } from '../PgEventRepository.js';
+import { describeUnitOfWorkContract } from '../../__tests__/unitOfWork.contract.js';
+import { TEST_DATABASE_URL, connectTestDb, connectTestPool, truncateTables, disconnectTestDb } from './testDb.js';
+
+const SCHEMA = 'test_pg_unit_of_work';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgUnitOfWork', () => {
+  let db: DbClient;
+  let pool: DbPool;
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+    pool = connectTestPool(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await pool.end();
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  describeUnitOfWorkContract(async () => {
+    await truncateTables(db);
+    return {
+      unitOfWork: new PgUnitOfWork(pool),
+      repositories: {
+        creditLines: new PgCreditLineRepository(db),
+        transactions: new PgTransactionRepository(db),
+        events: new PgEventRepository(db)
+      }
+    };
+  });
+});
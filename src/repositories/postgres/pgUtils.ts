@@ -0,0 +1,34 @@
+/**
+ * Helpers shared by the PostgreSQL repository implementations.
+ */
+
+const UUID_REGEX =
+  /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Primary keys are UUID columns; any other string can never match a row and
+ * would make PostgreSQL raise `invalid input syntax for type uuid`.
+ */
+export function isUuid(value: string): boolean {
+  return UUID_REGEX.test(value);
+}
+
+/** Parse a `count(*)` result row. */
+export function toCount(rows: unknown[]): number {
+  const row = rows[0] as { count: string | number } | undefined;
+  return row ? Number(row.count) : 0;
+}
+
+/**
+ * Upsert a borrower by wallet address and expose its id as the `borrower` CTE.
+ * The no-op `DO UPDATE` makes `RETURNING` yield the existing row on conflict.
+ */
+export const UPSERT_BORROWER_CTE = `
+  borrower AS (
+    INSERT INTO borrowers (wallet_address) VALUES ($1)
+    ON CONFLICT (wallet_address) DO UPDATE SET wallet_address = EXCLUDED.wallet_address
+    RETURNING id, wallet_address
+  )`;
+
+/** PostgreSQL `unique_violation` SQLSTATE. */
+export const UNIQUE_VIOLATION = '23505';
@@ -1,9 +1,13 @@
-import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
 import express from 'express';
 import request from 'supertest';
 import { creditRouter } from '../credit.js';
 import { Container } from '../../container/Container.js';
 import { CreditLineStatus } from '../../models/CreditLine.js';
+import { TransactionType } from '../../models/Transaction.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
 
 describe('Credit Routes', () => {
   let app: express.Application;
@@ -389,4 +393,320 @@ describe('Credit Routes', () => {
       (container as any)._creditLineService = originalService;
     });
   });
-});
\ No newline at end of file
+
+  describe('POST /api/credit/lines/:id/repay', () => {
+    beforeEach(() => {
+      const creditLineRepository = new InMemoryCreditLineRepository();
+      container.setRepositories({
+        creditLineRepository,
+        transactionRepository: new InMemoryTransactionRepository(creditLineRepository)
+      });
+    });
+
+    it('should restore available credit and record a repay transaction', async () => {
+      const created = await container.creditLineService.createCreditLine({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+      await container.creditLineRepository.update(created.id, { availableCredit: '600' });
+
+      const response = await request(app)
+        .post(`/api/credit/lines/${created.id}/repay`)
+        .send({ amount: '150.25' })
+        .expect(200);
+
+      expect(response.body.error).toBeNull();
+      expect(response.body.data.creditLine.availableCredit).toBe('750.25');
+      expect(response.body.data.transaction).toMatchObject({
+        creditLineId: created.id,
+        walletAddress: 'wallet123',
+        amount: '150.25',
+        type: 'repay'
+      });
+    });
+
+    it('should reject overpayment with 400', async () => {
+      const created = await container.creditLineService.createCreditLine({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+
+      const response = await request(app)
+        .post(`/api/credit/lines/${created.id}/repay`)
+        .send({ amount: '1' })
+        .expect(400);
+
+      expect(response.body).toEqual({
+        data: null,
+        error: 'Repayment of 1 exceeds outstanding balance of 0.'
+      });
+    });
+
+    it('should return 404 when credit line not found', async () => {
+      const response = await request(app)
+        .post('/api/credit/lines/nonexistent/repay')
+        .send({ amount: '10' })
+        .expect(404);
+
+      expect(response.body.error).toBe('Credit line "nonexistent" not found.');
+    });
+
+    it('should return 400 for a missing amount', async () => {
+      const response = await request(app)
+        .post('/api/credit/lines/nonexistent/repay')
+        .send({})
+        .expect(400);
+
+      expect(response.body.error).toBe('Validation failed');
+    });
+  });
+
+  describe('GET /api/credit/lines/:id/transactions', () => {
+    let transactionRepository: InMemoryTransactionRepository;
+    let lineId: string;
+
+    beforeEach(async () => {
+      const creditLineRepository = new InMemoryCreditLineRepository();
+      transactionRepository = new InMemoryTransactionRepository(creditLineRepository);
+      container.setRepositories({ creditLineRepository, transactionRepository });
+
+      const created = await container.creditLineService.createCreditLine({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      });
+      lineId = created.id;
+      await container.creditLineService.draw(lineId, 'wallet123', '400');
+      await new Promise(resolve => setTimeout(resolve, 2));
+      await container.creditLineService.repay(lineId, '100');
+    });
+
+    it('should return the history most recent first with pagination metadata', async () => {
+      const response = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions`)
+        .expect(200);
+
+      expect(response.body.error).toBeNull();
+      expect(response.body.data).toMatchObject({ total: 2, page: 1, limit: 20, totalPages: 1 });
+      expect(response.body.data.transactions.map((tx: { type: string }) => tx.type)).toEqual(['repay', 'borrow']);
+      expect(response.body.data.transactions[1]).toMatchObject({
+        creditLineId: lineId,
+        walletAddress: 'wallet123',
+        amount: '400',
+        status: 'pending'
+      });
+    });
+
+    it('should filter by type and status', async () => {
+      const byType = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?type=borrow`)
+        .expect(200);
+      expect(byType.body.data.total).toBe(1);
+      expect(byType.body.data.transactions[0].type).toBe('borrow');
+
+      const byStatus = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?status=confirmed`)
+        .expect(200);
+      expect(byStatus.body.data).toMatchObject({ transactions: [], total: 0, totalPages: 1 });
+    });
+
+    it('should filter by date range', async () => {
+      const { transactions } = await transactionRepository.query({ creditLineId: lineId, type: TransactionType.REPAY });
+      const repaidAt = transactions[0].createdAt.toISOString();
+
+      const response = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions`)
+        .query({ from: repaidAt, to: repaidAt })
+        .expect(200);
+
+      expect(response.body.data.transactions.map((tx: { type: string }) => tx.type)).toEqual(['repay']);
+    });
+
+    it('should paginate', async () => {
+      const response = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?page=2&limit=1`)
+        .expect(200);
+
+      expect(response.body.data).toMatchObject({ total: 2, page: 2, limit: 1, totalPages: 2 });
+      expect(response.body.data.transactions.map((tx: { type: string }) => tx.type)).toEqual(['borrow']);
+    });
+
+    it('should return 400 for an unknown type filter', async () => {
+      const response = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?type=draw`)
+        .expect(400);
+
+      expect(response.body).toEqual({
+        data: null,
+        error: 'Invalid type filter. Must be one of: borrow, repay, interest_accrual, fee.'
+      });
+    });
+
+    it('should return 400 for invalid dates and page bounds', async () => {
+      const badDate = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?from=yesterday`)
+        .expect(400);
+      expect(badDate.body.error).toBe('Invalid from date. Must be an ISO 8601 timestamp.');
+
+      const badRange = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?from=2024-02-01&to=2024-01-01`)
+        .expect(400);
+      expect(badRange.body.error).toBe('Invalid date range. from must not be after to.');
+
+      const badLimit = await request(app)
+        .get(`/api/credit/lines/${lineId}/transactions?limit=101`)
+        .expect(400);
+      expect(badLimit.body.error).toBe('limit must be an integer between 1 and 100');
+    });
+
+    it('should return 404 when credit line not found', async () => {
+      const response = await request(app)
+        .get('/api/credit/lines/nonexistent/transactions')
+        .expect(404);
+
+      expect(response.body).toEqual({ data: null, error: 'Credit line "nonexistent" not found.' });
+    });
+  });
+
+  describe('credit line lifecycle routes', () => {
+    const API_KEY = 'test-key';
+    const transition = { actor: 'ops@creditra', reason: 'Missed payment' };
+    let originalApiKeys: string | undefined;
+    let lineId: string;
+
+    beforeEach(async () => {
+      originalApiKeys = process.env.API_KEYS;
+      process.env.API_KEYS = API_KEY;
+
+      const creditLineRepository = new InMemoryCreditLineRepository();
+      container.setRepositories({
+        creditLineRepository,
+        transactionRepository: new InMemoryTransactionRepository(creditLineRepository),
+        eventRepository: new InMemoryEventRepository()
+      });
+      lineId = (await container.creditLineService.createCreditLine({
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        interestRateBps: 500
+      })).id;
+    });
+
+    afterEach(() => {
+      if (originalApiKeys === undefined) delete process.env.API_KEYS;
+      else process.env.API_KEYS = originalApiKeys;
+    });
+
+    it('should suspend an active line and record the event', async () => {
+      const response = await request(app)
+        .post(`/api/credit/lines/${lineId}/suspend`)
+        .set('x-api-key', API_KEY)
+        .send(transition)
+        .expect(200);
+
+      expect(response.body.data.creditLine.status).toBe(CreditLineStatus.SUSPENDED);
+      expect(response.body.data.event).toMatchObject({
+        eventType: 'credit_line.status_changed',
+        aggregateId: lineId,
+        payload: { action: 'suspend', from: 'active', to: 'suspended', ...transition }
+      });
+    });
+
+    it('should walk suspend → reinstate → close → reopen and expose the history', async () => {
+      for (const action of ['suspend', 'reinstate', 'close', 'reopen']) {
+        await request(app)
+          .post(`/api/credit/lines/${lineId}/${action}`)
+          .set('x-api-key', API_KEY)
+          .send(transition)
+          .expect(200);
+      }
+
+      const response = await request(app)
+        .get(`/api/credit/lines/${lineId}/status-history`)
+        .set('x-api-key', API_KEY)
+        .expect(200);
+
+      expect(response.body.data.map((event: { payload: { to: string } }) => event.payload.to)).toEqual([
+        'suspended', 'active', 'closed', 'active'
+      ]);
+    });
+
+    it('should return 409 for a transition the current status does not allow', async () => {
+      const response = await request(app)
+        .post(`/api/credit/lines/${lineId}/reopen`)
+        .set('x-api-key', API_KEY)
+        .send(transition)
+        .expect(409);
+
+      expect(response.body.error).toBe(`Cannot reopen credit line "${lineId}" while it is active.`);
+    });
+
+    it('should return 404 for an unknown credit line', async () => {
+      await request(app)
+        .post('/api/credit/lines/nonexistent/close')
+        .set('x-api-key', API_KEY)
+        .send(transition)
+        .expect(404);
+    });
+
+    it('should require an API key', async () => {
+      await request(app)
+        .post(`/api/credit/lines/${lineId}/close`)
+        .send(transition)
+        .expect(401);
+
+      await request(app)
+        .post(`/api/credit/lines/${lineId}/close`)
+        .set('x-api-key', 'wrong-key')
+        .send(transition)
+        .expect(403);
+
+      const line = await container.creditLineService.getCreditLine(lineId);
+      expect(line!.status).toBe(CreditLineStatus.ACTIVE);
+    });
+
+    it('should list automated limit adjustments', async () => {
+      await container.creditLimitAdjustmentService.adjustForEvaluation({
+        id: 'eval-1',
+        walletAddress: 'wallet123',
+        riskScore: 20,
+        creditLimit: '800',
+        interestRateBps: 600,
+        factors: [],
+        modelVersion: 1,
+        evaluatedAt: new Date(),
+        expiresAt: new Date()
+      });
+
+      const response = await request(app)
+        .get(`/api/credit/lines/${lineId}/limit-adjustments`)
+        .set('x-api-key', API_KEY)
+        .expect(200);
+
+      expect(response.body.data).toHaveLength(1);
+      expect(response.body.data[0]).toMatchObject({
+        eventType: 'credit_line.limit_adjustment',
+        payload: { evaluationId: 'eval-1', to: { creditLimit: '800', interestRateBps: 600 } }
+      });
+
+      await request(app)
+        .get('/api/credit/lines/nonexistent/limit-adjustments')
+        .set('x-api-key', API_KEY)
+        .expect(404);
+      await request(app)
+        .get(`/api/credit/lines/${lineId}/limit-adjustments`)
+        .expect(401);
+    });
+
+    it('should require actor and reason', async () => {
+      const response = await request(app)
+        .post(`/api/credit/lines/${lineId}/suspend`)
+        .set('x-api-key', API_KEY)
+        .send({ actor: 'ops@creditra' })
+        .expect(400);
+
+      expect(response.body.details.some((d: { field: string }) => d.field === 'reason')).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { jobsRouter } from '../jobs.js';
+import { Container } from '../../container/Container.js';
+import { InMemoryJobQueue, type JobQueue } from '../../services/jobQueue.js';
+
+const API_KEY = 'test-key';
+
+describe('Job admin routes', () => {
+  let app: express.Application;
+  let container: Container;
+  let originalQueue: JobQueue;
+  let originalApiKeys: string | undefined;
+  let queue: InMemoryJobQueue;
+
+  beforeAll(() => {
+    container = Container.getInstance();
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin/jobs', jobsRouter);
+  });
+
+  beforeEach(() => {
+    originalApiKeys = process.env.API_KEYS;
+    process.env.API_KEYS = API_KEY;
+    originalQueue = container.jobQueue;
+    queue = new InMemoryJobQueue(10, 0);
+    container.setJobQueue(queue);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    queue.stop();
+    container.setJobQueue(originalQueue);
+    if (originalApiKeys === undefined) delete process.env.API_KEYS;
+    else process.env.API_KEYS = originalApiKeys;
+    vi.mocked(console.error).mockRestore();
+  });
+
+  const get = (path: string) => request(app).get(`/api/admin/jobs${path}`).set('x-api-key', API_KEY);
+  const post = (path: string) => request(app).post(`/api/admin/jobs${path}`).set('x-api-key', API_KEY);
+
+  /** A webhook job that failed its only attempt. */
+  async function failedJob(): Promise<string> {
+    queue.registerHandler('webhook', () => {
+      throw new Error('503 from partner');
+    });
+    const id = await queue.enqueue('webhook', { url: 'https://partner.example' }, { maxAttempts: 1 });
+    queue.start();
+    await queue.drain();
+    queue.stop();
+    return id;
+  }
+
+  it('requires an API key', async () => {
+    await request(app).get('/api/admin/jobs').expect(401);
+    await request(app).get('/api/admin/jobs').set('x-api-key', 'wrong-key').expect(403);
+  });
+
+  describe('GET /api/admin/jobs', () => {
+    it('lists jobs oldest first, filtered by status and type, with pagination', async () => {
+      const first = await queue.enqueue('interest_accrual', { date: '2024-01-15' });
+      const second = await queue.enqueue('webhook', { url: 'https://a.example' });
+      const third = await queue.enqueue('interest_accrual', { date: '2024-01-16' });
+
+      const all = await get('/').expect(200);
+      expect(all.body.error).toBeNull();
+      expect(all.body.data).toMatchObject({ total: 3, page: 1, limit: 20, totalPages: 1 });
+      expect(all.body.data.jobs.map((job: { id: string }) => job.id)).toEqual([first, second, third]);
+
+      const accruals = await get('/?type=interest_accrual&status=pending&limit=1&page=2').expect(200);
+      expect(accruals.body.data).toMatchObject({ total: 2, page: 2, limit: 1, totalPages: 2 });
+      expect(accruals.body.data.jobs.map((job: { id: string }) => job.id)).toEqual([third]);
+    });
+
+    it('lists failed jobs', async () => {
+      const id = await failedJob();
+
+      const response = await get('/?status=failed').expect(200);
+
+      expect(response.body.data.jobs).toEqual([
+        expect.objectContaining({ id, status: 'failed', lastError: '503 from partner' })
+      ]);
+    });
+
+    it('rejects an unknown status filter', async () => {
+      const response = await get('/?status=stuck').expect(400);
+
+      expect(response.body).toEqual({
+        data: null,
+        error: 'Invalid status filter. Must be one of: pending, running, completed, failed, cancelled.'
+      });
+    });
+  });
+
+  describe('GET /api/admin/jobs/:id', () => {
+    it('returns the payload and attempt history', async () => {
+      const id = await failedJob();
+
+      const response = await get(`/${id}`).expect(200);
+
+      expect(response.body.data).toMatchObject({
+        id,
+        type: 'webhook',
+        status: 'failed',
+        payload: { url: 'https://partner.example' },
+        history: [{ attempt: 1, error: '503 from partner' }]
+      });
+    });
+
+    it('returns 404 for an unknown job', async () => {
+      const response = await get('/missing').expect(404);
+
+      expect(response.body).toEqual({ data: null, error: 'Job "missing" not found.' });
+    });
+  });
+
+  describe('POST /api/admin/jobs/:id/retry', () => {
+    it('requeues a failed job', async () => {
+      const id = await failedJob();
+
+      const response = await post(`/${id}/retry`).expect(200);
+
+      expect(response.body.data).toMatchObject({ id, status: 'pending', attempts: 0 });
+    });
+
+    it('returns 404 for an unknown job', async () => {
+      await post('/missing/retry').expect(404);
+    });
+
+    it('refuses to retry a cancelled job whose unique key a newer job holds', async () => {
+      const cancelled = await queue.enqueue('sync', null, { uniqueKey: 'wallet:G1' });
+      await queue.cancelJob(cancelled);
+      const waiting = await queue.enqueue('sync', null, { uniqueKey: 'wallet:G1' });
+
+      const response = await post(`/${cancelled}/retry`).expect(409);
+
+      expect(response.body.error).toBe(`Job "${waiting}" already has unique key "wallet:G1".`);
+    });
+  });
+
+  describe('POST /api/admin/jobs/:id/cancel', () => {
+    it('cancels a pending job so it never runs', async () => {
+      const handler = vi.fn();
+      queue.registerHandler('webhook', handler);
+      const id = await queue.enqueue('webhook', null);
+
+      const response = await post(`/${id}/cancel`).expect(200);
+      queue.start();
+      await queue.drain();
+
+      expect(response.body.data).toMatchObject({ id, status: 'cancelled' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('refuses to cancel a job that is not pending', async () => {
+      const id = await failedJob();
+
+      const response = await post(`/${id}/cancel`).expect(409);
+
+      expect(response.body.error).toBe('Cannot cancel a failed job. Only pending jobs can be cancelled.');
+    });
+  });
+
+  describe('GET /api/admin/jobs/schedules', () => {
+    it('lists schedules with their next occurrence', async () => {
+      await queue.schedule({ id: 'cleanup', type: 'cleanup', payload: null, intervalMs: 60_000 });
+
+      const response = await get('/schedules').expect(200);
+
+      expect(response.body.data).toEqual([
+        expect.objectContaining({ id: 'cleanup', intervalMs: 60_000, misfire: 'fire_once', nextRunAt: expect.any(Number) })
+      ]);
+    });
+  });
+
+  describe('pausing job types', () => {
+    it('holds jobs of a paused type until it is resumed', async () => {
+      const handler = vi.fn();
+      queue.registerHandler('webhook', handler);
+      await queue.enqueue('webhook', null);
+
+      const paused = await post('/types/webhook/pause').expect(200);
+      expect(paused.body.data).toEqual({ type: 'webhook', paused: true });
+      expect((await get('/paused-types').expect(200)).body.data).toEqual(['webhook']);
+
+      queue.start();
+      await queue.drain();
+      expect(handler).not.toHaveBeenCalled();
+
+      await post('/types/webhook/resume').expect(200);
+      await queue.drain();
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect((await get('/paused-types').expect(200)).body.data).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { portfolioRouter } from '../portfolio.js';
+import { Container } from '../../container/Container.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+import type { CreditLineRepository } from '../../repositories/interfaces/CreditLineRepository.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+
+const API_KEY = 'test-key';
+
+describe('Portfolio routes', () => {
+  let app: express.Application;
+  let container: Container;
+  let originalCreditLines: CreditLineRepository;
+  let originalApiKeys: string | undefined;
+  let creditLines: InMemoryCreditLineRepository;
+
+  beforeAll(() => {
+    container = Container.getInstance();
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin/portfolio', portfolioRouter);
+  });
+
+  beforeEach(async () => {
+    originalApiKeys = process.env.API_KEYS;
+    process.env.API_KEYS = API_KEY;
+    originalCreditLines = container.creditLineRepository;
+    creditLines = new InMemoryCreditLineRepository();
+    container.setRepositories({ creditLineRepository: creditLines });
+
+    const drawn = await creditLines.create({ walletAddress: 'wallet-a', creditLimit: '1000', interestRateBps: 500 });
+    await creditLines.update(drawn.id, { availableCredit: '750' });
+    const suspended = await creditLines.create({ walletAddress: 'wallet-b', creditLimit: '500', interestRateBps: 500 });
+    await creditLines.update(suspended.id, { status: CreditLineStatus.SUSPENDED });
+  });
+
+  afterEach(() => {
+    container.setRepositories({ creditLineRepository: originalCreditLines });
+    if (originalApiKeys === undefined) delete process.env.API_KEYS;
+    else process.env.API_KEYS = originalApiKeys;
+  });
+
+  const get = (path: string) => request(app).get(`/api/admin/portfolio${path}`).set('x-api-key', API_KEY);
+
+  it('requires an API key', async () => {
+    await request(app).get('/api/admin/portfolio').expect(401);
+    await request(app).get('/api/admin/portfolio/by-status').set('x-api-key', 'wrong-key').expect(403);
+  });
+
+  it('returns totals for the whole book', async () => {
+    const response = await get('').expect(200);
+
+    expect(response.body).toEqual({
+      data: [
+        {
+          key: 'total',
+          currency: 'USDC',
+          lineCount: 2,
+          borrowerCount: 2,
+          totalLimit: '1500',
+          exposure: '250',
+          utilization: 0.1667
+        }
+      ],
+      error: null
+    });
+  });
+
+  it('breaks the book down by status, risk level and origination month', async () => {
+    const byStatus = await get('/by-status').expect(200);
+    expect(byStatus.body.data.map((segment: { key: string; exposure: string }) => [segment.key, segment.exposure])).toEqual([
+      ['active', '250'],
+      ['suspended', '0']
+    ]);
+
+    const byRiskLevel = await get('/by-risk-level').expect(200);
+    expect(byRiskLevel.body.data).toEqual([expect.objectContaining({ key: 'unrated', lineCount: 2 })]);
+
+    const byMonth = await get('/by-origination-month').expect(200);
+    expect(byMonth.body.data[0].key).toMatch(/^\d{4}-\d{2}$/);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeAll, beforeEach, afterEach } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { provisioningRouter } from '../provisioning.js';
+import { Container } from '../../container/Container.js';
+import type { CreditLineRepository } from '../../repositories/interfaces/CreditLineRepository.js';
+import type { EventRepository } from '../../repositories/interfaces/EventRepository.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+
+const API_KEY = 'test-key';
+
+describe('Provisioning routes', () => {
+  let app: express.Application;
+  let container: Container;
+  let originalCreditLines: CreditLineRepository;
+  let originalEvents: EventRepository;
+  let originalApiKeys: string | undefined;
+
+  beforeAll(() => {
+    container = Container.getInstance();
+    app = express();
+    app.use(express.json());
+    app.use('/api/admin/provisioning', provisioningRouter);
+  });
+
+  beforeEach(async () => {
+    originalApiKeys = process.env.API_KEYS;
+    process.env.API_KEYS = API_KEY;
+    originalCreditLines = container.creditLineRepository;
+    originalEvents = container.eventRepository;
+    const creditLines = new InMemoryCreditLineRepository();
+    container.setRepositories({ creditLineRepository: creditLines, eventRepository: new InMemoryEventRepository() });
+
+    const line = await creditLines.create({ walletAddress: 'wallet-a', creditLimit: '1000', interestRateBps: 500 });
+    await creditLines.update(line.id, { availableCredit: '800' });
+  });
+
+  afterEach(() => {
+    container.setRepositories({ creditLineRepository: originalCreditLines, eventRepository: originalEvents });
+    if (originalApiKeys === undefined) delete process.env.API_KEYS;
+    else process.env.API_KEYS = originalApiKeys;
+  });
+
+  const get = (path: string) => request(app).get(`/api/admin/provisioning${path}`).set('x-api-key', API_KEY);
+  const createReport = (body: object) =>
+    request(app).post('/api/admin/provisioning/reports').set('x-api-key', API_KEY).send(body);
+
+  it('requires an API key', async () => {
+    await request(app).get('/api/admin/provisioning').expect(401);
+    await request(app).get('/api/admin/provisioning').set('x-api-key', 'wrong-key').expect(403);
+  });
+
+  it('returns current provisions', async () => {
+    const response = await get('').expect(200);
+
+    // Unrated: PD 0.2 x LGD 0.45 x EAD (200 drawn + half of 800 undrawn).
+    expect(response.body.data.totals).toEqual([{ currency: 'USDC', lineCount: 1, ead: '600', expectedLoss: '54' }]);
+    expect(response.body.data.lines).toHaveLength(1);
+  });
+
+  it('creates a period-end report once and serves it back', async () => {
+    const created = await createReport({ periodEnd: '2026-09-30' }).expect(201);
+    expect(created.body.data).toMatchObject({ periodEnd: '2026-09-30', totals: [{ expectedLoss: '54' }] });
+
+    const fetched = await get('/reports/2026-09-30').expect(200);
+    expect(fetched.body.data).toEqual(created.body.data);
+
+    const duplicate = await createReport({ periodEnd: '2026-09-30' }).expect(409);
+    expect(duplicate.body.error).toBe('A provisioning report for 2026-09-30 already exists.');
+  });
+
+  it('rejects invalid or future period ends', async () => {
+    await createReport({ periodEnd: '30/09/2026' }).expect(400);
+    await createReport({ periodEnd: '2999-12-31' }).expect(400);
+    await createReport({}).expect(400);
+  });
+
+  it('returns 404 for a period without a report', async () => {
+    const response = await get('/reports/2026-06-30').expect(404);
+
+    expect(response.body).toEqual({ data: null, error: 'No provisioning report for 2026-06-30.' });
+  });
+});
@@ -1,8 +1,23 @@
-import { describe, it, expect, beforeAll, afterEach } from 'vitest';
+import { describe, it, expect, beforeAll, beforeEach, afterEach, vi } from 'vitest';
 import express from 'express';
 import request from 'supertest';
 import { riskRouter } from '../risk.js';
 import { Container } from '../../container/Container.js';
+import { InMemoryJobQueue, type JobQueue } from '../../services/jobQueue.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../../services/riskModel.js';
+import { RISK_RECALIBRATION_JOB } from '../../services/riskEvaluationJobs.js';
+import { registerRiskRequests } from '../../services/riskRequestJobs.js';
+import type { InMemoryRiskModelRepository } from '../../repositories/memory/InMemoryRiskModelRepository.js';
+import type { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+
+const API_KEY = 'test-key';
+
+// Callback hosts resolve without DNS: internal.example.com to a private address, others to a public one.
+vi.mock('dns/promises', () => ({
+  lookup: vi.fn(async (hostname: string) => [
+    { address: hostname === 'internal.example.com' ? '10.0.0.5' : '93.184.216.34', family: 4 },
+  ]),
+}));
 
 describe('Risk Routes', () => {
   let app: express.Application;
@@ -18,6 +33,7 @@ describe('Risk Routes', () => {
   });
 
   afterEach(() => {
+    vi.unstubAllEnvs();
     // Clear repository data after each test
     if (container.riskEvaluationRepository && typeof (container.riskEvaluationRepository as any).clear === 'function') {
       (container.riskEvaluationRepository as any).clear();
@@ -120,6 +136,116 @@ describe('Risk Routes', () => {
     });
   });
 
+  describe('POST /api/risk/evaluate/batch', () => {
+    const WALLET = 'GCKFBEIYV2U22IO2BJ4KVJOIP7XPWQGZBW3JXDC55CYIXB5NAXMCEKJA';
+
+    it('returns per-wallet results and errors', async () => {
+      const response = await request(app)
+        .post('/api/risk/evaluate/batch')
+        .send({ walletAddresses: [WALLET, 'wallet123'] })
+        .expect(200);
+
+      expect(response.body.error).toBeNull();
+      expect(response.body.data).toMatchObject({
+        results: [
+          { walletAddress: WALLET, result: { walletAddress: WALLET, modelVersion: 1 } },
+          { walletAddress: 'wallet123', error: 'Invalid wallet address format.' }
+        ],
+        succeeded: 1,
+        failed: 1
+      });
+    });
+
+    it('rejects empty and oversized batches', async () => {
+      await request(app).post('/api/risk/evaluate/batch').send({ walletAddresses: [] }).expect(400);
+      await request(app).post('/api/risk/evaluate/batch').send({}).expect(400);
+
+      const response = await request(app)
+        .post('/api/risk/evaluate/batch')
+        .send({ walletAddresses: Array(101).fill(WALLET) })
+        .expect(400);
+      expect(response.body.details[0].message).toBe('walletAddresses must list at most 100 wallets');
+    });
+  });
+
+  describe('async risk evaluation', () => {
+    let originalQueue: JobQueue;
+    let queue: InMemoryJobQueue;
+
+    beforeEach(() => {
+      originalQueue = container.jobQueue;
+      queue = new InMemoryJobQueue(10, 0);
+      container.setJobQueue(queue);
+      registerRiskRequests(queue, container.riskEvaluationService, container.riskRequestRepository);
+    });
+
+    afterEach(() => {
+      queue.stop();
+      container.setJobQueue(originalQueue);
+    });
+
+    it('queues the evaluation and exposes its progress', async () => {
+      const response = await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123', async: true })
+        .expect(202);
+
+      const { id, status } = response.body.data;
+      expect(status).toBe('queued');
+      expect(response.headers.location).toBe(`/api/risk/requests/${id}`);
+
+      const queued = await request(app).get(`/api/risk/requests/${id}`).expect(200);
+      expect(queued.body.data).toMatchObject({ id, walletAddress: 'wallet123', status: 'queued' });
+
+      queue.start();
+      await queue.drain();
+
+      const completed = await request(app).get(`/api/risk/requests/${id}`).expect(200);
+      expect(completed.body.data).toMatchObject({
+        status: 'completed',
+        result: { walletAddress: 'wallet123', modelVersion: 1 }
+      });
+    });
+
+    it('requires async for a callback URL and accepts only http(s) URLs on allowed public hosts', async () => {
+      vi.stubEnv('RISK_CALLBACK_ALLOWED_HOSTS', 'example.com,*.example.com');
+      const sync = await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123', callbackUrl: 'https://example.com/hook' })
+        .expect(400);
+      expect(sync.body.details.some((d: { field: string }) => d.field === 'callbackUrl')).toBe(true);
+
+      await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123', async: true, callbackUrl: 'ftp://example.com/hook' })
+        .expect(400);
+
+      const accepted = await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123', async: true, callbackUrl: 'https://example.com/hook' })
+        .expect(202);
+      expect(accepted.body.data.callbackUrl).toBe('https://example.com/hook');
+
+      const unlisted = await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123', async: true, callbackUrl: 'http://169.254.169.254/latest/meta-data' })
+        .expect(400);
+      expect(unlisted.body.error).toBe('callbackUrl host "169.254.169.254" is not allowed');
+
+      const internal = await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123', async: true, callbackUrl: 'https://internal.example.com/hook' })
+        .expect(400);
+      expect(internal.body.error).toBe('callbackUrl host "internal.example.com" does not resolve to a public address');
+    });
+
+    it('returns 404 for unknown requests', async () => {
+      const response = await request(app).get('/api/risk/requests/nonexistent').expect(404);
+
+      expect(response.body).toEqual({ data: null, error: 'Risk evaluation request not found' });
+    });
+  });
+
   describe('GET /api/risk/evaluations/:id', () => {
     it('should return risk evaluation when found', async () => {
       // Create a risk evaluation first
@@ -170,6 +296,36 @@ describe('Risk Routes', () => {
     });
   });
 
+  describe('GET /api/risk/evaluations/:id/explanation', () => {
+    it('should explain a stored evaluation', async () => {
+      await container.riskEvaluationService.evaluateRisk({ walletAddress: 'wallet123' });
+      const latest = await container.riskEvaluationRepository.findLatestByWalletAddress('wallet123');
+
+      const response = await request(app)
+        .get(`/api/risk/evaluations/${latest!.id}/explanation`)
+        .expect(200);
+
+      expect(response.body).toMatchObject({
+        evaluationId: latest!.id,
+        riskScore: latest!.riskScore,
+        modelVersion: latest!.modelVersion,
+        maxCreditLimit: '1000'
+      });
+      expect(response.body.factors.map((factor: { name: string }) => factor.name)).toEqual(
+        latest!.factors.map((factor) => factor.name)
+      );
+      expect(response.body.reasons.length).toBeLessThanOrEqual(3);
+    });
+
+    it('should return 404 when evaluation not found', async () => {
+      const response = await request(app)
+        .get('/api/risk/evaluations/nonexistent/explanation')
+        .expect(404);
+
+      expect(response.body).toEqual({ error: 'Risk evaluation not found', id: 'nonexistent' });
+    });
+  });
+
   describe('GET /api/risk/wallet/:walletAddress/latest', () => {
     it('should return latest evaluation for wallet', async () => {
       const walletAddress = 'wallet123';
@@ -287,4 +443,153 @@ describe('Risk Routes', () => {
       (container as any)._riskEvaluationService = originalService;
     });
   });
-});
\ No newline at end of file
+
+  describe('risk model administration', () => {
+    let originalQueue: JobQueue;
+    let originalApiKeys: string | undefined;
+    let queue: InMemoryJobQueue;
+
+    beforeEach(() => {
+      originalApiKeys = process.env.API_KEYS;
+      process.env.API_KEYS = API_KEY;
+      originalQueue = container.jobQueue;
+      queue = new InMemoryJobQueue(10, 0);
+      container.setJobQueue(queue);
+    });
+
+    afterEach(() => {
+      container.setJobQueue(originalQueue);
+      (container.riskModelRepository as InMemoryRiskModelRepository).clear();
+      if (originalApiKeys === undefined) delete process.env.API_KEYS;
+      else process.env.API_KEYS = originalApiKeys;
+    });
+
+    const publish = (body: object) =>
+      request(app).post('/api/risk/admin/models').set('x-api-key', API_KEY).send(body);
+
+    it('requires an API key', async () => {
+      await request(app).get('/api/risk/admin/models').expect(401);
+      await request(app).post('/api/risk/admin/models').send(DEFAULT_RISK_MODEL_CONFIG).expect(401);
+    });
+
+    it('publishes a version that new evaluations use', async () => {
+      const response = await publish({ ...DEFAULT_RISK_MODEL_CONFIG, baseRateBps: 100, description: 'Promotional rate' })
+        .expect(201);
+
+      expect(response.body.data).toMatchObject({
+        version: 2,
+        description: 'Promotional rate',
+        config: { ...DEFAULT_RISK_MODEL_CONFIG, baseRateBps: 100 }
+      });
+
+      const evaluation = await request(app)
+        .post('/api/risk/evaluate')
+        .send({ walletAddress: 'wallet123' })
+        .expect(200);
+      expect(evaluation.body.data.modelVersion).toBe(2);
+      expect(evaluation.body.data.interestRateBps).toBe(100 + Math.round(5 * evaluation.body.data.riskScore));
+    });
+
+    it('lists and fetches versions', async () => {
+      await publish(DEFAULT_RISK_MODEL_CONFIG).expect(201);
+
+      const list = await request(app).get('/api/risk/admin/models').set('x-api-key', API_KEY).expect(200);
+      expect(list.body.data.map((model: { version: number }) => model.version)).toEqual([2, 1]);
+
+      const one = await request(app).get('/api/risk/admin/models/1').set('x-api-key', API_KEY).expect(200);
+      expect(one.body.data).toMatchObject({ version: 1, config: DEFAULT_RISK_MODEL_CONFIG });
+
+      const missing = await request(app).get('/api/risk/admin/models/9').set('x-api-key', API_KEY).expect(404);
+      expect(missing.body.error).toBe('Risk model version 9 not found');
+    });
+
+    it('rejects malformed and inconsistent models', async () => {
+      const malformed = await publish({ ...DEFAULT_RISK_MODEL_CONFIG, limitCurve: 'steep' }).expect(400);
+      expect(malformed.body.error).toBe('Validation failed');
+
+      const inconsistent = await publish({
+        ...DEFAULT_RISK_MODEL_CONFIG,
+        weights: { ...DEFAULT_RISK_MODEL_CONFIG.weights, wallet_age: 0.9 }
+      }).expect(400);
+      expect(inconsistent.body.error).toMatch(/sum to 1/);
+    });
+
+    it('queues a recalibration under the current version by default', async () => {
+      await publish(DEFAULT_RISK_MODEL_CONFIG).expect(201);
+
+      const response = await request(app)
+        .post('/api/risk/admin/recalibrate')
+        .set('x-api-key', API_KEY)
+        .expect(202);
+
+      expect(response.body.data).toEqual({ version: 2, jobId: expect.any(String) });
+      const { items } = await queue.listJobs({ type: RISK_RECALIBRATION_JOB });
+      expect(items.map(job => job.payload)).toEqual([{ version: 2 }]);
+    });
+
+    it('queues a recalibration under a given version', async () => {
+      const response = await request(app)
+        .post('/api/risk/admin/recalibrate')
+        .set('x-api-key', API_KEY)
+        .send({ version: 1 })
+        .expect(202);
+      expect(response.body.data.version).toBe(1);
+
+      await request(app).post('/api/risk/admin/recalibrate').set('x-api-key', API_KEY).send({ version: 5 }).expect(404);
+      await request(app).post('/api/risk/admin/recalibrate').set('x-api-key', API_KEY).send({ version: 'latest' }).expect(400);
+    });
+  });
+
+  describe('GET /api/risk/alerts', () => {
+    let originalApiKeys: string | undefined;
+
+    beforeEach(() => {
+      originalApiKeys = process.env.API_KEYS;
+      process.env.API_KEYS = API_KEY;
+    });
+
+    afterEach(() => {
+      (container.eventRepository as InMemoryEventRepository).clear();
+      if (originalApiKeys === undefined) delete process.env.API_KEYS;
+      else process.env.API_KEYS = originalApiKeys;
+    });
+
+    const evaluate = (riskScore: number, hoursAgo: number) =>
+      container.riskEvaluationRepository.save({
+        walletAddress: 'wallet123',
+        riskScore,
+        creditLimit: '500',
+        interestRateBps: 750,
+        factors: [],
+        modelVersion: 1,
+        evaluatedAt: new Date(Date.now() - hoursAgo * 60 * 60 * 1000),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      });
+
+    it('requires an API key', async () => {
+      await request(app).get('/api/risk/alerts').expect(401);
+    });
+
+    it('lists drift alerts newest first, a page at a time', async () => {
+      await evaluate(10, 3);
+      await container.riskDriftService.checkEvaluation(await evaluate(40, 2));
+      await container.riskDriftService.checkEvaluation(await evaluate(90, 1));
+
+      const response = await request(app).get('/api/risk/alerts?limit=1').set('x-api-key', API_KEY).expect(200);
+
+      expect(response.body.data).toMatchObject({ total: 2, page: 1, limit: 1, totalPages: 2 });
+      expect(response.body.data.alerts).toHaveLength(1);
+      expect(response.body.data.alerts[0]).toMatchObject({
+        eventType: 'risk.score_drift',
+        aggregateId: 'wallet123',
+        payload: { previousScore: 40, riskScore: 90, riskLevel: 'high' }
+      });
+    });
+
+    it('rejects invalid paging', async () => {
+      const response = await request(app).get('/api/risk/alerts?limit=500').set('x-api-key', API_KEY).expect(400);
+
+      expect(response.body.error).toBe('limit must be an integer between 1 and 100');
+    });
+  });
+});
@@ -5,8 +5,15 @@ import {
   createCreditLineSchema,
   drawSchema,
   repaySchema,
+  creditLineTransitionSchema,
+  transactionHistoryQuerySchema,
+} from '../schemas/index.js';
+import type {
+  CreateCreditLineBody,
+  DrawBody,
+  RepayBody,
+  CreditLineTransitionBody,
 } from '../schemas/index.js';
-import type { CreateCreditLineBody, DrawBody, RepayBody } from '../schemas/index.js';
 import { Container } from '../container/Container.js';
 import { createApiKeyMiddleware } from '../middleware/auth.js';
 import { loadApiKeys } from '../config/apiKeys.js';
@@ -15,11 +22,14 @@ import { ok, fail } from "../utils/response.js";
 import { paginateAndFilter } from '../utils/paginate.js';
 import {
   CreditLineNotFoundError,
-  getTransactions,
-  suspendCreditLine,
-  closeCreditLine,
-  drawFromCreditLine
-} from "../services/creditService.js";
+  InvalidAmountError,
+  InvalidCreditLineStatusError,
+  InvalidTransitionError,
+  CreditLimitExceededError,
+  UnauthorizedBorrowerError,
+  OverpaymentError
+} from '../services/CreditLineService.js';
+import type { CreditLineAction } from '../services/CreditLineService.js';
 
 export const creditRouter = Router();
 const container = Container.getInstance();
@@ -30,7 +40,23 @@ function handleServiceError(err: unknown, res: Response): void {
     fail(res, err.message, 404);
     return;
   }
-  res.status(500).json({ error: 'Internal server error' });
+  if (err instanceof UnauthorizedBorrowerError) {
+    fail(res, err.message, 403);
+    return;
+  }
+  if (err instanceof InvalidCreditLineStatusError || err instanceof InvalidTransitionError) {
+    fail(res, err.message, 409);
+    return;
+  }
+  if (
+    err instanceof InvalidAmountError ||
+    err instanceof CreditLimitExceededError ||
+    err instanceof OverpaymentError
+  ) {
+    fail(res, err.message, 400);
+    return;
+  }
+  fail(res, err);
 }
 
 /** * GET /lines — Supports Pagination, Filtering, and Sorting
@@ -99,15 +125,93 @@ creditRouter.post('/lines', validateBody(createCreditLineSchema), async (req: Re
 /** POST /lines/:id/draw */
 creditRouter.post('/lines/:id/draw', validateBody(drawSchema), async (req: Request, res: Response) => {
   try {
-    const { amount, borrowerId } = req.body as DrawBody & { borrowerId?: string };
-    const updated = drawFromCreditLine({
-      id: req.params.id,
-      borrowerId: borrowerId ?? "unknown",
-      amount: parseFloat(amount),
-    });
-    res.status(200).json({ message: 'Draw successful', creditLine: updated });
-  } catch (err: any) {
-    res.status(400).json({ error: err.message });
+    const { walletAddress, amount } = req.body as DrawBody;
+    const result = await container.creditLineService.draw(req.params.id, walletAddress, amount);
+    ok(res, result);
+  } catch (err) {
+    handleServiceError(err, res);
+  }
+});
+
+/** POST /lines/:id/repay */
+creditRouter.post('/lines/:id/repay', validateBody(repaySchema), async (req: Request, res: Response) => {
+  try {
+    const { amount } = req.body as RepayBody;
+    const result = await container.creditLineService.repay(req.params.id, amount);
+    ok(res, result);
+  } catch (err) {
+    handleServiceError(err, res);
+  }
+});
+
+/**
+ * GET /lines/:id/transactions — transaction history, most recent first.
+ * Query: `type`, `status`, `from`, `to` (ISO 8601, inclusive), `page`, `limit`.
+ */
+creditRouter.get('/lines/:id/transactions', async (req: Request, res: Response) => {
+  const parsed = transactionHistoryQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    fail(res, parsed.error.issues[0].message, 400);
+    return;
+  }
+
+  try {
+    const { page, limit, ...filter } = parsed.data;
+    const history = await container.creditLineService.getTransactions(req.params.id, filter, page, limit);
+    ok(res, history);
+  } catch (err) {
+    handleServiceError(err, res);
+  }
+});
+
+/**
+ * Lifecycle routes (API key required). Body: `{ actor, reason }`; the
+ * transition is recorded as a `credit_line.status_changed` event.
+ */
+function transitionHandler(action: CreditLineAction) {
+  return async (req: Request, res: Response) => {
+    try {
+      const { actor, reason } = req.body as CreditLineTransitionBody;
+      const result = await container.creditLineService.transition(req.params.id, action, { actor, reason });
+      ok(res, result);
+    } catch (err) {
+      handleServiceError(err, res);
+    }
+  };
+}
+
+/** POST /lines/:id/activate — pending → active */
+creditRouter.post('/lines/:id/activate', requireApiKey, validateBody(creditLineTransitionSchema), transitionHandler('activate'));
+
+/** POST /lines/:id/suspend — active → suspended */
+creditRouter.post('/lines/:id/suspend', requireApiKey, validateBody(creditLineTransitionSchema), transitionHandler('suspend'));
+
+/** POST /lines/:id/reinstate — suspended → active */
+creditRouter.post('/lines/:id/reinstate', requireApiKey, validateBody(creditLineTransitionSchema), transitionHandler('reinstate'));
+
+/** POST /lines/:id/close — pending/active/suspended → closed */
+creditRouter.post('/lines/:id/close', requireApiKey, validateBody(creditLineTransitionSchema), transitionHandler('close'));
+
+/** POST /lines/:id/reopen — closed → active */
+creditRouter.post('/lines/:id/reopen', requireApiKey, validateBody(creditLineTransitionSchema), transitionHandler('reopen'));
+
+/** GET /lines/:id/status-history — status change events, oldest first (API key required) */
+creditRouter.get('/lines/:id/status-history', requireApiKey, async (req: Request, res: Response) => {
+  try {
+    const events = await container.creditLineService.getStatusHistory(req.params.id);
+    ok(res, events);
+  } catch (err) {
+    handleServiceError(err, res);
+  }
+});
+
+/** GET /lines/:id/limit-adjustments — automated limit and rate adjustments, oldest first (API key required) */
+creditRouter.get('/lines/:id/limit-adjustments', requireApiKey, async (req: Request, res: Response) => {
+  try {
+    const events = await container.creditLimitAdjustmentService.getAdjustmentHistory(req.params.id);
+    ok(res, events);
+  } catch (err) {
+    handleServiceError(err, res);
   }
 });
 
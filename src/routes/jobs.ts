@@ -0,0 +1,142 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { jobListQuerySchema } from '../schemas/index.js';
+import { Container } from '../container/Container.js';
+import { createApiKeyMiddleware } from '../middleware/auth.js';
+import { loadApiKeys } from '../config/apiKeys.js';
+import { ok, fail } from '../utils/response.js';
+import { DuplicateJobError } from '../services/jobQueue.js';
+
+/**
+ * Job queue administration (API key required): inspect jobs and schedules,
+ * retry or cancel jobs, and pause or resume job types.
+ */
+export const jobsRouter = Router();
+const container = Container.getInstance();
+const requireApiKey = createApiKeyMiddleware(() => loadApiKeys());
+
+jobsRouter.use(requireApiKey);
+
+/**
+ * GET / — jobs, oldest first.
+ * Query: `status`, `type`, `page`, `limit`.
+ */
+jobsRouter.get('/', async (req: Request, res: Response) => {
+  const parsed = jobListQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    fail(res, parsed.error.issues[0].message, 400);
+    return;
+  }
+
+  try {
+    const { status, type, page, limit } = parsed.data;
+    const { items, total } = await container.jobQueue.listJobs({
+      status,
+      type,
+      limit,
+      offset: (page - 1) * limit,
+    });
+    ok(res, { jobs: items, total, page, limit, totalPages: Math.ceil(total / limit) });
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/** GET /paused-types — job types that workers are not starting */
+jobsRouter.get('/paused-types', async (_req: Request, res: Response) => {
+  try {
+    ok(res, await container.jobQueue.getPausedTypes());
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/** GET /schedules — recurring schedules and when each fires next */
+jobsRouter.get('/schedules', async (_req: Request, res: Response) => {
+  try {
+    ok(res, await container.jobQueue.getSchedules());
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/** POST /types/:type/pause — stop starting jobs of a type; running jobs finish */
+jobsRouter.post('/types/:type/pause', async (req: Request, res: Response) => {
+  try {
+    await container.jobQueue.pauseType(req.params.type);
+    ok(res, { type: req.params.type, paused: true });
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/** POST /types/:type/resume — start jobs of a paused type again */
+jobsRouter.post('/types/:type/resume', async (req: Request, res: Response) => {
+  try {
+    await container.jobQueue.resumeType(req.params.type);
+    ok(res, { type: req.params.type, paused: false });
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/** GET /:id — a job with its payload and attempt history */
+jobsRouter.get('/:id', async (req: Request, res: Response) => {
+  try {
+    const job = await container.jobQueue.getJob(req.params.id);
+    if (!job) {
+      fail(res, `Job "${req.params.id}" not found.`, 404);
+      return;
+    }
+    ok(res, job);
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/**
+ * Retry and cancel only apply to jobs in `allowed` states: a job in any other
+ * state is a 409, an unknown job a 404, and so is retrying a cancelled job
+ * whose unique key a newer job now holds. Responds with the updated job.
+ */
+function jobActionHandler(
+  apply: (id: string) => Promise<boolean>,
+  action: string,
+  allowed: string,
+) {
+  return async (req: Request, res: Response) => {
+    try {
+      const applied = await apply(req.params.id);
+      const job = await container.jobQueue.getJob(req.params.id);
+      if (!job) {
+        fail(res, `Job "${req.params.id}" not found.`, 404);
+        return;
+      }
+      if (!applied) {
+        fail(res, `Cannot ${action} a ${job.status} job. Only ${allowed} jobs can be ${action === 'retry' ? 'retried' : 'cancelled'}.`, 409);
+        return;
+      }
+      ok(res, job);
+    } catch (err) {
+      if (err instanceof DuplicateJobError) {
+        fail(res, err.message, 409);
+        return;
+      }
+      fail(res, err);
+    }
+  };
+}
+
+/** POST /:id/retry — run a pending job now, or requeue a failed or cancelled one with full attempts */
+jobsRouter.post(
+  '/:id/retry',
+  jobActionHandler(id => container.jobQueue.retryJob(id), 'retry', 'pending, failed or cancelled'),
+);
+
+/** POST /:id/cancel — pending → cancelled */
+jobsRouter.post(
+  '/:id/cancel',
+  jobActionHandler(id => container.jobQueue.cancelJob(id), 'cancel', 'pending'),
+);
+
+export default jobsRouter;
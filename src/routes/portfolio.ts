@@ -0,0 +1,37 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { Container } from '../container/Container.js';
+import { createApiKeyMiddleware } from '../middleware/auth.js';
+import { loadApiKeys } from '../config/apiKeys.js';
+import { ok, fail } from '../utils/response.js';
+import type { PortfolioGrouping } from '../models/Portfolio.js';
+
+/**
+ * Portfolio analytics (API key required): credit line counts, limits,
+ * exposure and utilization per currency, in total or broken down.
+ */
+export const portfolioRouter = Router();
+const container = Container.getInstance();
+const requireApiKey = createApiKeyMiddleware(() => loadApiKeys());
+
+portfolioRouter.use(requireApiKey);
+
+const segmentsRoute = (grouping: PortfolioGrouping) => async (_req: Request, res: Response) => {
+  try {
+    ok(res, await container.portfolioAnalyticsService.getSegments(grouping));
+  } catch (err) {
+    fail(res, err);
+  }
+};
+
+/** GET / — totals for the whole book, one entry per currency */
+portfolioRouter.get('/', segmentsRoute('total'));
+
+/** GET /by-risk-level — by the risk level of each borrower's latest evaluation, or `unrated` */
+portfolioRouter.get('/by-risk-level', segmentsRoute('riskLevel'));
+
+/** GET /by-status — by credit line status */
+portfolioRouter.get('/by-status', segmentsRoute('status'));
+
+/** GET /by-origination-month — by the UTC month lines were opened, as `YYYY-MM` */
+portfolioRouter.get('/by-origination-month', segmentsRoute('originationMonth'));
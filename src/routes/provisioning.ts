@@ -0,0 +1,61 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { validateBody } from '../middleware/validate.js';
+import { provisioningReportSchema, type ProvisioningReportBody } from '../schemas/index.js';
+import { Container } from '../container/Container.js';
+import { createApiKeyMiddleware } from '../middleware/auth.js';
+import { loadApiKeys } from '../config/apiKeys.js';
+import { ok, fail } from '../utils/response.js';
+import { InvalidProvisioningPeriodError, ProvisioningReportExistsError } from '../services/ProvisioningService.js';
+
+/**
+ * Expected loss provisioning (API key required): current provisions per line
+ * and per currency, and period-end reports frozen for reconciliation.
+ */
+export const provisioningRouter = Router();
+const container = Container.getInstance();
+const requireApiKey = createApiKeyMiddleware(() => loadApiKeys());
+
+provisioningRouter.use(requireApiKey);
+
+/** GET / — provisions as they stand now, with the policy used */
+provisioningRouter.get('/', async (_req: Request, res: Response) => {
+  try {
+    ok(res, await container.provisioningService.calculate());
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/**
+ * POST /reports — freeze the current provisions as the report for a period.
+ * Body: `{ periodEnd: "YYYY-MM-DD" }`. `400` if the period is in the future or
+ * before the latest report, `409` if it already has one.
+ */
+provisioningRouter.post('/reports', validateBody(provisioningReportSchema), async (req: Request, res: Response) => {
+  const { periodEnd } = req.body as ProvisioningReportBody;
+  try {
+    ok(res, await container.provisioningService.createReport(periodEnd), 201);
+  } catch (err) {
+    if (err instanceof ProvisioningReportExistsError) {
+      return fail(res, err.message, 409);
+    }
+    if (err instanceof InvalidProvisioningPeriodError) {
+      return fail(res, err.message, 400);
+    }
+    fail(res, err);
+  }
+});
+
+/** GET /reports/:periodEnd — the stored report for a period */
+provisioningRouter.get('/reports/:periodEnd', async (req: Request, res: Response) => {
+  try {
+    const report = await container.provisioningService.getReport(req.params.periodEnd);
+    if (!report) {
+      return fail(res, `No provisioning report for ${req.params.periodEnd}.`, 404);
+    }
+    ok(res, report);
+  } catch (err) {
+    fail(res, err);
+  }
+});
@@ -1,11 +1,21 @@
 import { Router, Request, Response } from 'express';
 import { validateBody } from '../middleware/validate.js';
-import { riskEvaluateSchema } from '../schemas/index.js';
-import type { RiskEvaluateBody } from '../schemas/index.js';
+import {
+  riskEvaluateSchema,
+  riskEvaluateBatchSchema,
+  riskAlertsQuerySchema,
+  riskModelPublishSchema,
+  riskRecalibrateSchema,
+} from '../schemas/index.js';
+import type { RiskEvaluateBody, RiskEvaluateBatchBody, RiskModelPublishBody } from '../schemas/index.js';
 import { Container } from '../container/Container.js';
 import { createApiKeyMiddleware } from '../middleware/auth.js';
 import { loadApiKeys } from '../config/apiKeys.js';
 import { ok, fail } from '../utils/response.js';
+import { InvalidRiskModelError, RiskModelNotFoundError } from '../services/riskModel.js';
+import { enqueueRiskRecalibration } from '../services/riskEvaluationJobs.js';
+import { CallbackUrlNotAllowedError, submitRiskRequest } from '../services/riskRequestJobs.js';
+import { loadRiskRequestConfig } from '../config/riskRequests.js';
 
 export const riskRouter = Router();
 const container = Container.getInstance();
@@ -15,19 +25,32 @@ const requireApiKey = createApiKeyMiddleware(() => loadApiKeys());
 
 /**
  * POST /api/risk/evaluate
- * Evaluate risk for a given wallet address.
+ * Evaluate risk for a given wallet address. With `async: true` the
+ * evaluation is queued instead and the response is 202 with the request to
+ * poll at GET /api/risk/requests/:id.
  */
 riskRouter.post(
   '/evaluate',
   validateBody(riskEvaluateSchema),
   async (req: Request, res: Response) => {
     try {
-      const { walletAddress, forceRefresh } = req.body as RiskEvaluateBody;
+      const { walletAddress, forceRefresh, async, callbackUrl } = req.body as RiskEvaluateBody;
 
       if (!walletAddress) {
         return fail(res, 'walletAddress is required', 400);
       }
 
+      if (async) {
+        const request = await submitRiskRequest(
+          container.jobQueue,
+          container.riskRequestRepository,
+          { walletAddress, forceRefresh, callbackUrl },
+          loadRiskRequestConfig()
+        );
+        res.location(`${req.baseUrl}/requests/${request.id}`);
+        return ok(res, request, 202);
+      }
+
       const result = await container.riskEvaluationService.evaluateRisk({
         walletAddress,
         forceRefresh,
@@ -35,12 +58,36 @@ riskRouter.post(
 
       return ok(res, result);
     } catch (error) {
+      if (error instanceof CallbackUrlNotAllowedError) {
+        return fail(res, error.message, 400);
+      }
       const message = error instanceof Error ? error.message : 'Risk evaluation failed';
       return res.status(500).json({ error: message });
     }
   }
 );
 
+/**
+ * POST /api/risk/evaluate/batch
+ * Evaluate up to RISK_EVALUATE_BATCH_MAX_WALLETS wallets. Each entry of
+ * `results` holds a wallet's result or its error; one wallet failing does not
+ * fail the request.
+ */
+riskRouter.post(
+  '/evaluate/batch',
+  validateBody(riskEvaluateBatchSchema),
+  async (req: Request, res: Response) => {
+    try {
+      const { walletAddresses, forceRefresh } = req.body as RiskEvaluateBatchBody;
+      const results = await container.riskEvaluationService.evaluateRiskBatch(walletAddresses, forceRefresh);
+      const succeeded = results.filter(item => 'result' in item).length;
+      return ok(res, { results, succeeded, failed: results.length - succeeded });
+    } catch (error) {
+      return fail(res, 'Batch risk evaluation failed', 500);
+    }
+  }
+);
+
 /**
  * GET /api/risk/evaluations/:id
  */
@@ -56,6 +103,39 @@ riskRouter.get('/evaluations/:id', async (req: Request, res: Response) => {
   }
 });
 
+/**
+ * GET /api/risk/evaluations/:id/explanation
+ * Each factor's contribution to the score, the band thresholds it crossed and
+ * the main reasons for it, under the model version that produced it.
+ */
+riskRouter.get('/evaluations/:id/explanation', async (req: Request, res: Response) => {
+  try {
+    const explanation = await container.riskEvaluationService.explainRiskEvaluation(req.params.id);
+    if (!explanation) {
+      return res.status(404).json({ error: 'Risk evaluation not found', id: req.params.id });
+    }
+    return res.json(explanation);
+  } catch (error) {
+    return res.status(500).json({ error: 'Failed to explain risk evaluation' });
+  }
+});
+
+/**
+ * GET /api/risk/requests/:id
+ * Status of an async evaluation, with its result once completed.
+ */
+riskRouter.get('/requests/:id', async (req: Request, res: Response) => {
+  try {
+    const request = await container.riskRequestRepository.findById(req.params.id);
+    if (!request) {
+      return fail(res, 'Risk evaluation request not found', 404);
+    }
+    return ok(res, request);
+  } catch (error) {
+    return fail(res, 'Failed to fetch risk evaluation request', 500);
+  }
+});
+
 /**
  * GET /api/risk/wallet/:walletAddress/latest
  */
@@ -93,10 +173,93 @@ riskRouter.get('/wallet/:walletAddress/history', async (req: Request, res: Respo
 });
 
 /**
- * Admin: Trigger recalibration
+ * Admin: risk model versions, newest first
+ */
+riskRouter.get('/admin/models', requireApiKey, async (_req: Request, res: Response) => {
+  try {
+    ok(res, await container.riskModelService.list());
+  } catch (err) {
+    fail(res, err);
+  }
+});
+
+/**
+ * Admin: one risk model version
  */
-riskRouter.post('/admin/recalibrate', requireApiKey, (_req: Request, res: Response) => {
-  ok(res, { message: 'Risk model recalibration triggered' });
+riskRouter.get('/admin/models/:version', requireApiKey, async (req: Request, res: Response) => {
+  try {
+    ok(res, await container.riskModelService.get(Number(req.params.version)));
+  } catch (err) {
+    if (err instanceof RiskModelNotFoundError) {
+      return fail(res, err.message, 404);
+    }
+    fail(res, err);
+  }
+});
+
+/**
+ * Admin: publish a risk model version, which new evaluations use from now on.
+ * Existing evaluations keep their version until recalibrated.
+ */
+riskRouter.post(
+  '/admin/models',
+  requireApiKey,
+  validateBody(riskModelPublishSchema),
+  async (req: Request, res: Response) => {
+    const { description, ...config } = req.body as RiskModelPublishBody;
+    try {
+      ok(res, await container.riskModelService.publish(config, description), 201);
+    } catch (err) {
+      if (err instanceof InvalidRiskModelError) {
+        return fail(res, err.message, 400);
+      }
+      fail(res, err);
+    }
+  }
+);
+
+/**
+ * Admin: re-evaluate every borrower with an active credit line under a model
+ * version (the current one unless `version` is given), as background jobs.
+ */
+riskRouter.post('/admin/recalibrate', requireApiKey, async (req: Request, res: Response) => {
+  const parsed = riskRecalibrateSchema.safeParse(req.body ?? {});
+  if (!parsed.success) {
+    return fail(res, parsed.error.issues[0].message, 400);
+  }
+
+  try {
+    const { version } = parsed.data;
+    const model = version === undefined
+      ? await container.riskModelService.current()
+      : await container.riskModelService.get(version);
+    const jobId = await enqueueRiskRecalibration(container.jobQueue, model.version);
+    ok(res, { version: model.version, jobId }, 202);
+  } catch (err) {
+    if (err instanceof RiskModelNotFoundError) {
+      return fail(res, err.message, 404);
+    }
+    fail(res, err);
+  }
+});
+
+/**
+ * Admin: risk score drift alerts across all wallets, newest first.
+ * Query: `page`, `limit`.
+ */
+riskRouter.get('/alerts', requireApiKey, async (req: Request, res: Response) => {
+  const parsed = riskAlertsQuerySchema.safeParse(req.query);
+  if (!parsed.success) {
+    return fail(res, parsed.error.issues[0].message, 400);
+  }
+
+  try {
+    const { page, limit } = parsed.data;
+    const { items, total } = await container.riskDriftService.getAlerts((page - 1) * limit, limit);
+    ok(res, { alerts: items, total, page, limit, totalPages: Math.ceil(total / limit) });
+  } catch (err) {
+    fail(res, err);
+  }
 });
 
 export default riskRouter;
\ No newline at end of file
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { TransactionStatus, TransactionType } from '../models/Transaction.js';
 
 /** Schema for POST /api/credit/lines — create a credit line */
 export const createCreditLineSchema = z.object({
@@ -15,6 +16,10 @@ export type CreateCreditLineBody = z.infer<typeof createCreditLineSchema>;
 
 /** Schema for POST /api/credit/lines/:id/draw — draw from a credit line */
 export const drawSchema = z.object({
+  walletAddress: z
+    .string({ message: 'walletAddress is required' })
+    .min(1, 'walletAddress must not be empty')
+    .max(256, 'walletAddress must be at most 256 characters'),
   amount: z
     .string({ message: 'amount is required' })
     .regex(/^\d+(\.\d+)?$/, 'amount must be a numeric string'),
@@ -30,3 +35,56 @@ export const repaySchema = z.object({
 });
 
 export type RepayBody = z.infer<typeof repaySchema>;
+
+/** Schema for the credit line lifecycle routes (suspend, close, reopen, …) */
+export const creditLineTransitionSchema = z.object({
+  actor: z
+    .string({ message: 'actor is required' })
+    .min(1, 'actor must not be empty')
+    .max(256, 'actor must be at most 256 characters'),
+  reason: z
+    .string({ message: 'reason is required' })
+    .min(1, 'reason must not be empty')
+    .max(1000, 'reason must be at most 1000 characters'),
+});
+
+export type CreditLineTransitionBody = z.infer<typeof creditLineTransitionSchema>;
+
+const TRANSACTION_TYPES = Object.values(TransactionType) as [TransactionType, ...TransactionType[]];
+const TRANSACTION_STATUSES = Object.values(TransactionStatus) as [TransactionStatus, ...TransactionStatus[]];
+
+const isoTimestamp = (field: string) =>
+  z
+    .string()
+    .refine((value) => !Number.isNaN(Date.parse(value)), `Invalid ${field} date. Must be an ISO 8601 timestamp.`)
+    .transform((value) => new Date(value));
+
+/** Schema for the query string of GET /api/credit/lines/:id/transactions */
+export const transactionHistoryQuerySchema = z
+  .object({
+    type: z.enum(TRANSACTION_TYPES, {
+      message: `Invalid type filter. Must be one of: ${TRANSACTION_TYPES.join(', ')}.`,
+    }).optional(),
+    status: z.enum(TRANSACTION_STATUSES, {
+      message: `Invalid status filter. Must be one of: ${TRANSACTION_STATUSES.join(', ')}.`,
+    }).optional(),
+    from: isoTimestamp('from').optional(),
+    to: isoTimestamp('to').optional(),
+    page: z.coerce
+      .number({ message: 'page must be a positive integer' })
+      .int('page must be a positive integer')
+      .min(1, 'page must be a positive integer')
+      .default(1),
+    limit: z.coerce
+      .number({ message: 'limit must be an integer between 1 and 100' })
+      .int('limit must be an integer between 1 and 100')
+      .min(1, 'limit must be an integer between 1 and 100')
+      .max(100, 'limit must be an integer between 1 and 100')
+      .default(20),
+  })
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: 'Invalid date range. from must not be after to.',
+    path: ['from'],
+  });
+
+export type TransactionHistoryQuery = z.infer<typeof transactionHistoryQuerySchema>;
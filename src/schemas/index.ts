@@ -1,13 +1,30 @@
-export { riskEvaluateSchema } from './risk.schema.js';
-export type { RiskEvaluateBody } from './risk.schema.js';
+export {
+  riskEvaluateSchema,
+  riskEvaluateBatchSchema,
+  RISK_EVALUATE_BATCH_MAX_WALLETS,
+  riskAlertsQuerySchema,
+  riskModelPublishSchema,
+  riskRecalibrateSchema,
+} from './risk.schema.js';
+export type { RiskEvaluateBody, RiskEvaluateBatchBody, RiskModelPublishBody } from './risk.schema.js';
 
 export {
   createCreditLineSchema,
   drawSchema,
   repaySchema,
+  creditLineTransitionSchema,
+  transactionHistoryQuerySchema,
 } from './credit.schema.js';
 export type {
   CreateCreditLineBody,
   DrawBody,
   RepayBody,
+  CreditLineTransitionBody,
+  TransactionHistoryQuery,
 } from './credit.schema.js';
+
+export { jobListQuerySchema } from './jobs.schema.js';
+export type { JobListQuery } from './jobs.schema.js';
+
+export { provisioningReportSchema } from './provisioning.schema.js';
+export type { ProvisioningReportBody } from './provisioning.schema.js';
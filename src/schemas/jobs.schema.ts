@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { JOB_STATUSES } from '../services/jobQueue.js';
+
+/** Schema for the query string of GET /api/admin/jobs */
+export const jobListQuerySchema = z.object({
+  status: z.enum(JOB_STATUSES, {
+    message: `Invalid status filter. Must be one of: ${JOB_STATUSES.join(', ')}.`,
+  }).optional(),
+  type: z.string().min(1, 'type must not be empty').optional(),
+  page: z.coerce
+    .number({ message: 'page must be a positive integer' })
+    .int('page must be a positive integer')
+    .min(1, 'page must be a positive integer')
+    .default(1),
+  limit: z.coerce
+    .number({ message: 'limit must be an integer between 1 and 100' })
+    .int('limit must be an integer between 1 and 100')
+    .min(1, 'limit must be an integer between 1 and 100')
+    .max(100, 'limit must be an integer between 1 and 100')
+    .default(20),
+});
+
+export type JobListQuery = z.infer<typeof jobListQuerySchema>;
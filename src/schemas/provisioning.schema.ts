@@ -0,0 +1,8 @@
+import { z } from 'zod';
+
+/** Schema for POST /api/admin/provisioning/reports */
+export const provisioningReportSchema = z.object({
+  periodEnd: z.iso.date({ message: 'periodEnd must be a date in YYYY-MM-DD format' }),
+});
+
+export type ProvisioningReportBody = z.infer<typeof provisioningReportSchema>;
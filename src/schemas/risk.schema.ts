@@ -1,12 +1,83 @@
 import { z } from 'zod';
 
-/** Schema for POST /api/risk/evaluate */
-export const riskEvaluateSchema = z.object({
-  walletAddress: z
-    .string({ message: 'walletAddress is required' })
-    .min(1, 'walletAddress must not be empty')
-    .max(256, 'walletAddress must be at most 256 characters'),
+/**
+ * Schema for POST /api/risk/evaluate. With `async` the evaluation runs as a
+ * background job, which can call `callbackUrl` when it finishes.
+ */
+export const riskEvaluateSchema = z
+  .object({
+    walletAddress: z
+      .string({ message: 'walletAddress is required' })
+      .min(1, 'walletAddress must not be empty')
+      .max(256, 'walletAddress must be at most 256 characters'),
+    forceRefresh: z.boolean().optional(),
+    async: z.boolean().optional(),
+    callbackUrl: z
+      .url({ protocol: /^https?$/, message: 'callbackUrl must be an http or https URL' })
+      .max(2048, 'callbackUrl must be at most 2048 characters')
+      .optional(),
+  })
+  .refine((body) => body.callbackUrl === undefined || body.async === true, {
+    message: 'callbackUrl requires async: true',
+    path: ['callbackUrl'],
+  });
+
+export type RiskEvaluateBody = z.infer<typeof riskEvaluateSchema>;
+
+/** Most wallets one POST /api/risk/evaluate/batch request may evaluate. */
+export const RISK_EVALUATE_BATCH_MAX_WALLETS = 100;
+
+/**
+ * Schema for POST /api/risk/evaluate/batch. Addresses are checked one by one
+ * when evaluated, so a malformed address fails only its own entry.
+ */
+export const riskEvaluateBatchSchema = z.object({
+  walletAddresses: z
+    .array(z.string().max(256, 'walletAddresses must be at most 256 characters each'), {
+      message: 'walletAddresses must be an array',
+    })
+    .min(1, 'walletAddresses must not be empty')
+    .max(RISK_EVALUATE_BATCH_MAX_WALLETS, `walletAddresses must list at most ${RISK_EVALUATE_BATCH_MAX_WALLETS} wallets`),
   forceRefresh: z.boolean().optional(),
 });
 
-export type RiskEvaluateBody = z.infer<typeof riskEvaluateSchema>;
+export type RiskEvaluateBatchBody = z.infer<typeof riskEvaluateBatchSchema>;
+
+const score = z.number().int('scores must be integers').min(0).max(100);
+
+/** Schema for POST /api/risk/admin/models — publish a risk model version */
+export const riskModelPublishSchema = z.object({
+  description: z.string().max(500, 'description must be at most 500 characters').optional(),
+  weights: z.record(z.string(), z.number()),
+  limitCurve: z
+    .array(z.object({
+      score,
+      creditLimit: z.string().regex(/^\d+(\.\d+)?$/, 'creditLimit must be a numeric string'),
+    }))
+    .min(2, 'limitCurve needs at least two points'),
+  baseRateBps: z.number().int().nonnegative(),
+  riskPremiumBps: z.number().int().nonnegative(),
+  bands: z.object({ medium: score, high: score }),
+});
+
+export type RiskModelPublishBody = z.infer<typeof riskModelPublishSchema>;
+
+/** Schema for POST /api/risk/admin/recalibrate; the version defaults to the current one */
+export const riskRecalibrateSchema = z.object({
+  version: z.number().int().positive().optional(),
+});
+
+/** Schema for the query string of GET /api/risk/alerts */
+export const riskAlertsQuerySchema = z.object({
+  page: z.coerce
+    .number({ message: 'page must be a positive integer' })
+    .int('page must be a positive integer')
+    .min(1, 'page must be a positive integer')
+    .default(1),
+  limit: z.coerce
+    .number({ message: 'limit must be an integer between 1 and 100' })
+    .int('limit must be an integer between 1 and 100')
+    .min(1, 'limit must be an integer between 1 and 100')
+    .max(100, 'limit must be an integer between 1 and 100')
+    .default(20),
+});
@@ -0,0 +1,251 @@
+import { type CreditLine, CreditLineStatus } from '../models/CreditLine.js';
+import type { DomainEvent } from '../models/DomainEvent.js';
+import type { RiskEvaluation } from '../models/RiskEvaluation.js';
+import { type EventRepository, DuplicateEventError } from '../repositories/interfaces/EventRepository.js';
+import type { UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
+import { decimalFromNumber } from '../utils/decimal.js';
+import { Money } from '../utils/money.js';
+import { CREDIT_LINE_AGGREGATE, type CreditLineService, CreditLineNotFoundError } from './CreditLineService.js';
+
+/**
+ * What to do with the terms a fresh risk evaluation suggests:
+ * - `off`: nothing.
+ * - `propose`: record the adjustment for an operator to review.
+ * - `apply`: change the credit line and record the adjustment.
+ */
+export type CreditLimitAdjustmentMode = 'off' | 'propose' | 'apply';
+
+export const CREDIT_LIMIT_ADJUSTMENT_MODES: readonly CreditLimitAdjustmentMode[] = ['off', 'propose', 'apply'];
+
+export interface CreditLimitPolicy {
+  mode: CreditLimitAdjustmentMode;
+  maxLimitStep: number; // Largest change to a limit in one adjustment, as a fraction of it; 0 < step < 1
+  maxRateStepBps: number; // Largest change to an interest rate in one adjustment
+  cooldownMs: number; // Minimum time between applied adjustments to the same line
+}
+
+export const DEFAULT_CREDIT_LIMIT_POLICY: CreditLimitPolicy = {
+  mode: 'propose',
+  maxLimitStep: 0.25,
+  maxRateStepBps: 200,
+  cooldownMs: 7 * 24 * 60 * 60 * 1000,
+};
+
+export const CREDIT_LINE_LIMIT_ADJUSTMENT = 'credit_line.limit_adjustment';
+
+/**
+ * Guardrails that moved an adjustment away from the evaluation's terms:
+ * - `max_limit_step` / `max_rate_step`: the change was capped.
+ * - `utilization_floor`: the limit was kept at the amount already drawn.
+ */
+export type CreditLimitGuardrail = 'max_limit_step' | 'utilization_floor' | 'max_rate_step';
+
+export interface CreditTerms {
+  creditLimit: string;
+  interestRateBps: number;
+}
+
+/** Payload of a `credit_line.limit_adjustment` event. */
+export interface CreditLimitAdjustment extends Record<string, unknown> {
+  applied: boolean; // False for proposals
+  evaluationId: string;
+  modelVersion: number;
+  riskScore: number;
+  from: CreditTerms;
+  to: CreditTerms;
+  target: CreditTerms; // The terms the evaluation suggested
+  guardrails: CreditLimitGuardrail[];
+}
+
+/** An adjustment recorded for one line, with the line after it. */
+export interface CreditLimitAdjustmentResult {
+  creditLine: CreditLine;
+  event: DomainEvent;
+}
+
+/** Throws unless `policy` describes a usable set of guardrails. */
+export function validateCreditLimitPolicy(policy: CreditLimitPolicy): void {
+  if (!CREDIT_LIMIT_ADJUSTMENT_MODES.includes(policy.mode)) {
+    throw new Error(`Credit limit adjustment mode must be one of ${CREDIT_LIMIT_ADJUSTMENT_MODES.join(', ')}, got "${policy.mode}"`);
+  }
+  if (!(policy.maxLimitStep > 0 && policy.maxLimitStep < 1)) {
+    throw new Error(`Maximum limit step must be between 0 and 1, got ${policy.maxLimitStep}`);
+  }
+  if (!Number.isInteger(policy.maxRateStepBps) || policy.maxRateStepBps < 0) {
+    throw new Error(`Maximum rate step must be a non-negative integer, got ${policy.maxRateStepBps}`);
+  }
+  if (!Number.isSafeInteger(policy.cooldownMs) || policy.cooldownMs < 0) {
+    throw new Error(`Cool-down must be a non-negative integer, got ${policy.cooldownMs}`);
+  }
+}
+
+export function limitAdjustmentIdempotencyKey(creditLineId: string, evaluationId: string): string {
+  return `credit_limit_adjustment:${creditLineId}:${evaluationId}`;
+}
+
+/**
+ * Moves credit line terms toward those of fresh risk evaluations, within the
+ * policy's guardrails, and records every adjustment on the line.
+ */
+export class CreditLimitAdjustmentService {
+  constructor(
+    private creditLineService: CreditLineService,
+    private eventRepository: EventRepository,
+    private unitOfWork: UnitOfWork,
+    public readonly policy: CreditLimitPolicy = DEFAULT_CREDIT_LIMIT_POLICY
+  ) {
+    validateCreditLimitPolicy(policy);
+  }
+
+  /**
+   * Propose or apply the terms of `evaluation` to each of its wallet's active
+   * lines. Lines whose terms would not change, or that were adjusted within
+   * the cool-down, are left alone. Handling the same evaluation twice records
+   * nothing new.
+   */
+  async adjustForEvaluation(evaluation: RiskEvaluation, now: Date = new Date()): Promise<CreditLimitAdjustmentResult[]> {
+    if (this.policy.mode === 'off') {
+      return [];
+    }
+
+    const results: CreditLimitAdjustmentResult[] = [];
+    for (const creditLine of await this.creditLineService.getCreditLinesByWallet(evaluation.walletAddress)) {
+      if (creditLine.status !== CreditLineStatus.ACTIVE) continue;
+      const result = await this.adjustLine(creditLine, evaluation, now);
+      if (result) results.push(result);
+    }
+    return results;
+  }
+
+  /** Adjustments recorded for a credit line, oldest first. */
+  async getAdjustmentHistory(id: string): Promise<DomainEvent[]> {
+    if (!(await this.creditLineService.getCreditLine(id))) {
+      throw new CreditLineNotFoundError(id);
+    }
+    const events = await this.eventRepository.findByAggregate(CREDIT_LINE_AGGREGATE, id);
+    return events.filter(event => event.eventType === CREDIT_LINE_LIMIT_ADJUSTMENT);
+  }
+
+  /**
+   * Propose or apply `evaluation`'s terms to one line. The line is locked
+   * while the idempotency key and cool-down are checked and the guardrails
+   * worked out, and the change is applied relative to its balances in the
+   * same unit of work as the event, so concurrent draws, repayments and
+   * adjustments are not lost.
+   */
+  private async adjustLine(
+    creditLine: CreditLine,
+    evaluation: RiskEvaluation,
+    now: Date
+  ): Promise<CreditLimitAdjustmentResult | null> {
+    const idempotencyKey = limitAdjustmentIdempotencyKey(creditLine.id, evaluation.id);
+    if (await this.eventRepository.findByIdempotencyKey(idempotencyKey)) {
+      return null;
+    }
+
+    try {
+      return await this.unitOfWork.run(async ({ creditLines, events }) => {
+        const locked = await creditLines.findByIdForUpdate(creditLine.id);
+        if (!locked || locked.status !== CreditLineStatus.ACTIVE) {
+          return null;
+        }
+        if (await events.findByIdempotencyKey(idempotencyKey)) {
+          return null;
+        }
+
+        const apply = this.policy.mode === 'apply';
+        if (apply && (await this.inCooldown(events, locked.id, now))) {
+          return null;
+        }
+
+        const target: CreditTerms = { creditLimit: evaluation.creditLimit, interestRateBps: evaluation.interestRateBps };
+        const { terms, guardrails } = this.constrain(locked, target);
+        const limit = Money.of(locked.creditLimit, locked.currency);
+        const newLimit = Money.of(terms.creditLimit, locked.currency);
+        if (newLimit.equals(limit) && terms.interestRateBps === locked.interestRateBps) {
+          return null;
+        }
+
+        let updated: CreditLine | null = locked;
+        if (apply) {
+          // The drawn amount is unchanged, so available credit moves with the limit.
+          const change = newLimit.subtract(limit).amount;
+          updated = await creditLines.adjustBalances(locked.id, { creditLimit: change, availableCredit: change });
+          if (updated && terms.interestRateBps !== locked.interestRateBps) {
+            updated = await creditLines.update(locked.id, { interestRateBps: terms.interestRateBps });
+          }
+          if (!updated) {
+            throw new CreditLineNotFoundError(locked.id);
+          }
+        }
+
+        const payload: CreditLimitAdjustment = {
+          applied: apply,
+          evaluationId: evaluation.id,
+          modelVersion: evaluation.modelVersion,
+          riskScore: evaluation.riskScore,
+          from: { creditLimit: limit.amount, interestRateBps: locked.interestRateBps },
+          to: { creditLimit: newLimit.amount, interestRateBps: terms.interestRateBps },
+          target,
+          guardrails
+        };
+
+        const event = await events.append({
+          eventType: CREDIT_LINE_LIMIT_ADJUSTMENT,
+          aggregateType: CREDIT_LINE_AGGREGATE,
+          aggregateId: locked.id,
+          payload,
+          idempotencyKey
+        });
+        return { creditLine: updated, event };
+      });
+    } catch (err) {
+      // A concurrent run recorded this evaluation's adjustment first; this one was rolled back.
+      if (err instanceof DuplicateEventError && err.idempotencyKey === idempotencyKey) return null;
+      throw err;
+    }
+  }
+
+  /** The terms closest to `target` that the guardrails allow. */
+  private constrain(
+    creditLine: CreditLine,
+    target: CreditTerms
+  ): { terms: CreditTerms; guardrails: CreditLimitGuardrail[] } {
+    const guardrails: CreditLimitGuardrail[] = [];
+    const { currency } = creditLine;
+    const limit = Money.of(creditLine.creditLimit, currency);
+
+    const step = limit.scale(decimalFromNumber(this.policy.maxLimitStep));
+    let newLimit = Money.of(target.creditLimit, currency);
+    if (newLimit.compare(limit.add(step)) > 0) {
+      newLimit = limit.add(step);
+      guardrails.push('max_limit_step');
+    } else if (newLimit.compare(limit.subtract(step)) < 0) {
+      newLimit = limit.subtract(step);
+      guardrails.push('max_limit_step');
+    }
+
+    const drawn = limit.subtract(Money.of(creditLine.availableCredit, currency));
+    if (newLimit.compare(drawn) < 0) {
+      newLimit = drawn;
+      guardrails.push('utilization_floor');
+    }
+
+    const maxRateStep = this.policy.maxRateStepBps;
+    let rate = target.interestRateBps;
+    if (Math.abs(rate - creditLine.interestRateBps) > maxRateStep) {
+      rate = creditLine.interestRateBps + Math.sign(rate - creditLine.interestRateBps) * maxRateStep;
+      guardrails.push('max_rate_step');
+    }
+
+    return { terms: { creditLimit: newLimit.amount, interestRateBps: rate }, guardrails };
+  }
+
+  private async inCooldown(events: EventRepository, id: string, now: Date): Promise<boolean> {
+    const history = await events.findByAggregate(CREDIT_LINE_AGGREGATE, id);
+    const lastApplied = history
+      .filter(event => event.eventType === CREDIT_LINE_LIMIT_ADJUSTMENT && event.payload.applied === true)
+      .at(-1);
+    return lastApplied !== undefined && now.getTime() - lastApplied.createdAt.getTime() < this.policy.cooldownMs;
+  }
+}
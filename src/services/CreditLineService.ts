@@ -1,8 +1,133 @@
-import { CreditLine, CreateCreditLineRequest, UpdateCreditLineRequest } from '../models/CreditLine.js';
-import { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import { type CreditLine, type CreateCreditLineRequest, type UpdateCreditLineRequest, CreditLineStatus } from '../models/CreditLine.js';
+import { type Transaction, type TransactionFilter, TransactionType } from '../models/Transaction.js';
+import type { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import type { TransactionRepository } from '../repositories/interfaces/TransactionRepository.js';
+import type { EventRepository } from '../repositories/interfaces/EventRepository.js';
+import type { TransactionalRepositories, UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
+import type { DomainEvent } from '../models/DomainEvent.js';
+import { compareDecimal, isDecimal } from '../utils/decimal.js';
+import { Money } from '../utils/money.js';
+
+/** Lifecycle actions an operator can apply to a credit line. */
+export type CreditLineAction = 'activate' | 'suspend' | 'reinstate' | 'close' | 'reopen';
+
+/**
+ * Allowed status transitions. An action is only valid when the line is in one
+ * of its `from` statuses; closing is allowed from every non-closed status.
+ */
+export const CREDIT_LINE_TRANSITIONS: Record<CreditLineAction, { from: CreditLineStatus[]; to: CreditLineStatus }> = {
+  activate: { from: [CreditLineStatus.PENDING], to: CreditLineStatus.ACTIVE },
+  suspend: { from: [CreditLineStatus.ACTIVE], to: CreditLineStatus.SUSPENDED },
+  reinstate: { from: [CreditLineStatus.SUSPENDED], to: CreditLineStatus.ACTIVE },
+  close: {
+    from: [CreditLineStatus.PENDING, CreditLineStatus.ACTIVE, CreditLineStatus.SUSPENDED, CreditLineStatus.DEFAULTED],
+    to: CreditLineStatus.CLOSED
+  },
+  reopen: { from: [CreditLineStatus.CLOSED], to: CreditLineStatus.ACTIVE }
+};
+
+export const CREDIT_LINE_AGGREGATE = 'credit_line';
+export const CREDIT_LINE_STATUS_CHANGED = 'credit_line.status_changed';
+
+export class CreditLineNotFoundError extends Error {
+  constructor(public readonly id: string) {
+    super(`Credit line "${id}" not found.`);
+    this.name = 'CreditLineNotFoundError';
+  }
+}
+
+export class InvalidAmountError extends Error {
+  constructor(public readonly amount: string) {
+    super(`Amount must be a positive decimal with at most 8 decimal places, got "${amount}".`);
+    this.name = 'InvalidAmountError';
+  }
+}
+
+export class InvalidCreditLineStatusError extends Error {
+  constructor(
+    public readonly id: string,
+    public readonly status: CreditLineStatus,
+  ) {
+    super(`Credit line "${id}" is ${status}; only active lines can be drawn.`);
+    this.name = 'InvalidCreditLineStatusError';
+  }
+}
+
+export class InvalidTransitionError extends Error {
+  constructor(
+    public readonly id: string,
+    public readonly currentStatus: CreditLineStatus,
+    public readonly action: CreditLineAction,
+  ) {
+    super(`Cannot ${action} credit line "${id}" while it is ${currentStatus}.`);
+    this.name = 'InvalidTransitionError';
+  }
+}
+
+export class CreditLimitExceededError extends Error {
+  constructor(
+    public readonly amount: string,
+    public readonly availableCredit: string,
+  ) {
+    super(`Draw of ${amount} exceeds available credit of ${availableCredit}.`);
+    this.name = 'CreditLimitExceededError';
+  }
+}
+
+export class UnauthorizedBorrowerError extends Error {
+  constructor(public readonly id: string) {
+    super(`Wallet is not the borrower on credit line "${id}".`);
+    this.name = 'UnauthorizedBorrowerError';
+  }
+}
+
+export class OverpaymentError extends Error {
+  constructor(
+    public readonly amount: string,
+    public readonly outstanding: string,
+  ) {
+    super(`Repayment of ${amount} exceeds outstanding balance of ${outstanding}.`);
+    this.name = 'OverpaymentError';
+  }
+}
+
+/** Credit line after a draw or repayment, with the ledger entry recorded for it. */
+export interface BalanceChangeResult {
+  creditLine: CreditLine;
+  transaction: Transaction;
+}
+
+/** One page of a credit line's transaction history, most recent first. */
+export interface TransactionHistoryPage {
+  transactions: Transaction[];
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+}
+
+function isPositiveDecimal(value: string): boolean {
+  return isDecimal(value) && compareDecimal(value, '0') > 0;
+}
+
+/** Who applied a lifecycle transition and why; stored on the status event. */
+export interface TransitionContext {
+  actor: string;
+  reason: string;
+}
+
+export interface TransitionResult {
+  creditLine: CreditLine;
+  event: DomainEvent;
+}
 
 export class CreditLineService {
-  constructor(private creditLineRepository: CreditLineRepository) {}
+  constructor(
+    private creditLineRepository: CreditLineRepository,
+    private transactionRepository: TransactionRepository,
+    private eventRepository: EventRepository,
+    private unitOfWork: UnitOfWork
+  ) {}
 
   async createCreditLine(request: CreateCreditLineRequest): Promise<CreditLine> {
     // Validate request
@@ -10,7 +135,7 @@ export class CreditLineService {
       throw new Error('Wallet address is required');
     }
     
-    if (!request.creditLimit || parseFloat(request.creditLimit) <= 0) {
+    if (!request.creditLimit || !isPositiveDecimal(request.creditLimit)) {
       throw new Error('Credit limit must be greater than 0');
     }
 
@@ -35,7 +160,7 @@ export class CreditLineService {
 
   async updateCreditLine(id: string, request: UpdateCreditLineRequest): Promise<CreditLine | null> {
     // Validate update request
-    if (request.creditLimit && parseFloat(request.creditLimit) <= 0) {
+    if (request.creditLimit && !isPositiveDecimal(request.creditLimit)) {
       throw new Error('Credit limit must be greater than 0');
     }
 
@@ -44,9 +169,198 @@ export class CreditLineService {
       throw new Error('Interest rate must be between 0 and 10000 basis points');
     }
 
+    if (request.status !== undefined) {
+      throw new Error('Credit line status can only be changed through a lifecycle transition');
+    }
+
     return await this.creditLineRepository.update(id, request);
   }
 
+  /**
+   * Apply a lifecycle action (see {@link CREDIT_LINE_TRANSITIONS}) and record
+   * it as a `credit_line.status_changed` event with the actor and reason. The
+   * line is locked while its status is checked, so concurrent transitions
+   * cannot both start from the same status, and the status change and event
+   * are recorded together.
+   */
+  async transition(id: string, action: CreditLineAction, context: TransitionContext): Promise<TransitionResult> {
+    return await this.unitOfWork.run(async repositories => await this.applyTransition(repositories, id, action, context));
+  }
+
+  /**
+   * {@link transition} inside a unit of work the caller is already running,
+   * so the status change commits or rolls back with the caller's own writes.
+   */
+  async applyTransition(
+    { creditLines, events }: TransactionalRepositories,
+    id: string,
+    action: CreditLineAction,
+    context: TransitionContext
+  ): Promise<TransitionResult> {
+    const creditLine = await creditLines.findByIdForUpdate(id);
+    if (!creditLine) {
+      throw new CreditLineNotFoundError(id);
+    }
+
+    const { from, to } = CREDIT_LINE_TRANSITIONS[action];
+    if (!from.includes(creditLine.status)) {
+      throw new InvalidTransitionError(id, creditLine.status, action);
+    }
+
+    const updated = await creditLines.update(id, { status: to });
+    if (!updated) {
+      throw new CreditLineNotFoundError(id);
+    }
+
+    const event = await events.append({
+      eventType: CREDIT_LINE_STATUS_CHANGED,
+      aggregateType: CREDIT_LINE_AGGREGATE,
+      aggregateId: id,
+      payload: {
+        action,
+        from: creditLine.status,
+        to,
+        actor: context.actor,
+        reason: context.reason
+      }
+    });
+
+    return { creditLine: updated, event };
+  }
+
+  /** Status change events for a credit line, oldest first. */
+  async getStatusHistory(id: string): Promise<DomainEvent[]> {
+    if (!(await this.creditLineRepository.exists(id))) {
+      throw new CreditLineNotFoundError(id);
+    }
+    const events = await this.eventRepository.findByAggregate(CREDIT_LINE_AGGREGATE, id);
+    return events.filter(event => event.eventType === CREDIT_LINE_STATUS_CHANGED);
+  }
+
+  /**
+   * Transactions recorded on a credit line, filtered by type, status and
+   * creation date. `page` is 1-indexed.
+   */
+  async getTransactions(
+    id: string,
+    filter: Omit<TransactionFilter, 'creditLineId'> = {},
+    page = 1,
+    limit = 20
+  ): Promise<TransactionHistoryPage> {
+    if (!(await this.creditLineRepository.exists(id))) {
+      throw new CreditLineNotFoundError(id);
+    }
+
+    const { transactions, total } = await this.transactionRepository.query(
+      { ...filter, creditLineId: id },
+      (page - 1) * limit,
+      limit
+    );
+
+    return {
+      transactions,
+      total,
+      page,
+      limit,
+      totalPages: Math.max(1, Math.ceil(total / limit))
+    };
+  }
+
+  /**
+   * Draw from an active credit line on behalf of its borrower. Available
+   * credit is reduced by `amount` and a BORROW transaction is recorded. The
+   * line is locked while the draw is checked, so concurrent draws cannot
+   * overdraw it, and the balance change and transaction are recorded together.
+   */
+  async draw(id: string, walletAddress: string, amount: string): Promise<BalanceChangeResult> {
+    if (!isPositiveDecimal(amount)) {
+      throw new InvalidAmountError(amount);
+    }
+
+    return await this.unitOfWork.run(async ({ creditLines, transactions }) => {
+      const creditLine = await creditLines.findByIdForUpdate(id);
+      if (!creditLine) {
+        throw new CreditLineNotFoundError(id);
+      }
+
+      if (creditLine.walletAddress !== walletAddress) {
+        throw new UnauthorizedBorrowerError(id);
+      }
+
+      if (creditLine.status !== CreditLineStatus.ACTIVE) {
+        throw new InvalidCreditLineStatusError(id, creditLine.status);
+      }
+
+      const drawn = Money.of(amount, creditLine.currency);
+      const available = Money.of(creditLine.availableCredit, creditLine.currency);
+      if (drawn.compare(available) > 0) {
+        throw new CreditLimitExceededError(drawn.amount, available.amount);
+      }
+
+      const updated = await creditLines.adjustBalances(id, {
+        availableCredit: Money.zero(creditLine.currency).subtract(drawn).amount
+      });
+      if (!updated) {
+        throw new CreditLineNotFoundError(id);
+      }
+
+      const transaction = await transactions.create({
+        creditLineId: id,
+        amount: drawn.amount,
+        type: TransactionType.BORROW
+      });
+
+      return { creditLine: updated, transaction };
+    });
+  }
+
+  /**
+   * Repay a credit line. Accrued interest is settled first, the remainder
+   * restores available credit. Paying more than principal plus accrued
+   * interest is rejected. The line is locked while the split is worked out,
+   * and the balance change and REPAY transaction are recorded together.
+   */
+  async repay(id: string, amount: string): Promise<BalanceChangeResult> {
+    if (!isPositiveDecimal(amount)) {
+      throw new InvalidAmountError(amount);
+    }
+
+    return await this.unitOfWork.run(async ({ creditLines, transactions }) => {
+      const creditLine = await creditLines.findByIdForUpdate(id);
+      if (!creditLine) {
+        throw new CreditLineNotFoundError(id);
+      }
+
+      const { currency } = creditLine;
+      const paid = Money.of(amount, currency);
+      const available = Money.of(creditLine.availableCredit, currency);
+      const accruedInterest = Money.of(creditLine.accruedInterest, currency);
+      const outstanding = Money.of(creditLine.creditLimit, currency).subtract(available).add(accruedInterest);
+      if (paid.compare(outstanding) > 0) {
+        throw new OverpaymentError(paid.amount, outstanding.amount);
+      }
+
+      const interestPaid = paid.min(accruedInterest);
+      const principalPaid = paid.subtract(interestPaid);
+
+      const updated = await creditLines.adjustBalances(id, {
+        availableCredit: principalPaid.amount,
+        accruedInterest: Money.zero(currency).subtract(interestPaid).amount
+      });
+      if (!updated) {
+        throw new CreditLineNotFoundError(id);
+      }
+
+      const transaction = await transactions.create({
+        creditLineId: id,
+        amount: paid.amount,
+        type: TransactionType.REPAY
+      });
+
+      return { creditLine: updated, transaction };
+    });
+  }
+
   async deleteCreditLine(id: string): Promise<boolean> {
     return await this.creditLineRepository.delete(id);
   }
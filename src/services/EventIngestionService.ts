@@ -0,0 +1,400 @@
+import { type CreditLine, CreditLineStatus } from '../models/CreditLine.js';
+import { type Transaction, TransactionStatus, TransactionType } from '../models/Transaction.js';
+import type { DomainEvent } from '../models/DomainEvent.js';
+import type { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import { type EventRepository, DuplicateEventError } from '../repositories/interfaces/EventRepository.js';
+import type { TransactionalRepositories, UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
+import type { HorizonEvent } from './horizonListener.js';
+import { CREDIT_LINE_AGGREGATE, CREDIT_LINE_STATUS_CHANGED, CreditLineNotFoundError } from './CreditLineService.js';
+import { isDecimal, scaleDecimal } from '../utils/decimal.js';
+import { Money } from '../utils/money.js';
+
+export const CONTRACT_AGGREGATE = 'contract';
+
+/** Links an on-chain credit line (contract + borrower) to the credit line projected from it. */
+export const CREDIT_LINE_CHAIN_LINKED = 'credit_line.chain_linked';
+
+/** Contract event topics projected into credit line and transaction state. */
+export const CONTRACT_TOPICS = {
+  CREDIT_LINE_CREATED: 'credit_line_created',
+  DRAW: 'draw',
+  REPAY: 'repay',
+  DEFAULT: 'default'
+} as const;
+
+/** Decimal places of on-chain amounts; Stellar assets use 7 (1 stroop = 0.0000001). */
+const DEFAULT_AMOUNT_DECIMALS = 7;
+
+export class InvalidContractEventError extends Error {
+  constructor(
+    public readonly eventId: string,
+    reason: string,
+  ) {
+    super(`Contract event "${eventId}" cannot be projected: ${reason}`);
+    this.name = 'InvalidContractEventError';
+  }
+}
+
+export class UnlinkedCreditLineError extends Error {
+  constructor(
+    public readonly contractId: string,
+    public readonly borrower: string,
+  ) {
+    super(`No credit line has been created on contract "${contractId}" for borrower "${borrower}".`);
+    this.name = 'UnlinkedCreditLineError';
+  }
+}
+
+/**
+ * Errors that a redelivery would hit again: a malformed event, or one for a
+ * credit line this service never saw created, such as a line opened before
+ * the listener's start ledger.
+ */
+function isUnprojectable(err: unknown): boolean {
+  return err instanceof InvalidContractEventError
+    || err instanceof UnlinkedCreditLineError
+    || err instanceof CreditLineNotFoundError;
+}
+
+export interface EventIngestionOptions {
+  amountDecimals?: number;
+}
+
+/** The stored contract event and whatever its projection changed. */
+export interface IngestionResult {
+  event: DomainEvent;
+  creditLine?: CreditLine;
+  transaction?: Transaction;
+}
+
+/**
+ * Position of an event within its ledger, taken from the RPC event id
+ * (`<toid>-<event index>`, where the low 32 bits of the TOID hold the
+ * transaction and operation index). Falls back to the whole id for ids in
+ * any other format.
+ */
+export function eventIndex(event: HorizonEvent): string {
+  const match = /^(\d+)-(\d+)$/.exec(event.id);
+  if (!match) return event.id;
+  const position = BigInt(match[1]!) & 0xffffffffn;
+  return `${position}-${BigInt(match[2]!)}`;
+}
+
+/** One row per contract event, whichever page or poll delivered it. */
+export function contractEventIdempotencyKey(event: HorizonEvent): string {
+  return `horizon:${event.ledger}:${event.contractId}:${eventIndex(event)}`;
+}
+
+export function chainLinkIdempotencyKey(contractId: string, borrower: string): string {
+  return `chain_credit_line:${contractId}:${borrower}`;
+}
+
+/**
+ * Convert a JSON-encoded ScVal (as returned with `xdrFormat: "json"`) into a
+ * plain value: integers become decimal strings, maps become objects keyed by
+ * their decoded keys, and symbols, strings and addresses become strings.
+ */
+export function decodeScVal(value: unknown): unknown {
+  if (value === null || typeof value !== 'object') return value;
+  if (Array.isArray(value)) return value.map(decodeScVal);
+
+  const entries = Object.entries(value);
+  if (entries.length !== 1) return value;
+  const [type, inner] = entries[0]!;
+
+  switch (type) {
+    case 'symbol':
+    case 'string':
+    case 'address':
+    case 'bool':
+      return inner;
+    case 'u32':
+    case 'i32':
+    case 'u64':
+    case 'i64':
+    case 'u128':
+    case 'i128':
+    case 'u256':
+    case 'i256':
+      return String(inner);
+    case 'vec':
+      return Array.isArray(inner) ? inner.map(decodeScVal) : [];
+    case 'map':
+      return Object.fromEntries(
+        (Array.isArray(inner) ? inner : []).map((entry: { key: unknown; val: unknown }) => [
+          String(decodeScVal(entry.key)),
+          decodeScVal(entry.val)
+        ])
+      );
+    default:
+      return value;
+  }
+}
+
+/**
+ * Ingests contract events from the Horizon listener. Every event is appended
+ * to the events table as an immutable row keyed by (ledger, contract, event
+ * index); events already stored are skipped, so redelivered pages are
+ * harmless. Known topics are then projected into credit line and transaction
+ * state in the same unit of work as the append, so an event is only recorded
+ * as ingested once its projection has been applied. The chain is
+ * authoritative: draws and repayments are mirrored without the limit and
+ * status checks applied to API requests.
+ */
+export class EventIngestionService {
+  private readonly amountDecimals: number;
+
+  constructor(
+    private eventRepository: EventRepository,
+    private unitOfWork: UnitOfWork,
+    options: EventIngestionOptions = {}
+  ) {
+    this.amountDecimals = options.amountDecimals ?? DEFAULT_AMOUNT_DECIMALS;
+  }
+
+  /**
+   * Store and project one contract event. Returns null if it was already
+   * ingested. If the projection fails, nothing is stored, so a redelivery
+   * projects the event again. Events that cannot be projected (see
+   * {@link isUnprojectable}) are stored unprojected before the error is
+   * rethrown, so they are not retried and do not hold up the events after
+   * them.
+   */
+  async ingest(event: HorizonEvent): Promise<IngestionResult | null> {
+    const idempotencyKey = contractEventIdempotencyKey(event);
+    if (await this.eventRepository.findByIdempotencyKey(idempotencyKey)) {
+      return null;
+    }
+
+    try {
+      return await this.unitOfWork.run(async repositories => {
+        const stored = await this.store(repositories.events, event);
+        return { event: stored, ...(await this.project(repositories, event)) };
+      });
+    } catch (err) {
+      // A concurrent delivery of the same event was ingested first.
+      if (err instanceof DuplicateEventError && err.idempotencyKey === idempotencyKey) return null;
+      if (isUnprojectable(err)) {
+        await this.store(this.eventRepository, event).catch((storeErr: unknown) => {
+          if (!(storeErr instanceof DuplicateEventError)) throw storeErr;
+        });
+      }
+      throw err;
+    }
+  }
+
+  private async store(events: EventRepository, event: HorizonEvent): Promise<DomainEvent> {
+    const topic = event.topics[0] ?? '';
+    return await events.append({
+      eventType: `${CONTRACT_AGGREGATE}.${topic}`,
+      aggregateType: CONTRACT_AGGREGATE,
+      aggregateId: event.contractId,
+      payload: {
+        eventId: event.id,
+        ledger: event.ledger,
+        timestamp: event.timestamp,
+        txHash: event.txHash ?? null,
+        topics: event.topics,
+        data: event.data
+      },
+      idempotencyKey: contractEventIdempotencyKey(event)
+    });
+  }
+
+  private async project(
+    repositories: TransactionalRepositories,
+    event: HorizonEvent
+  ): Promise<Omit<IngestionResult, 'event'>> {
+    switch (event.topics[0]) {
+      case CONTRACT_TOPICS.CREDIT_LINE_CREATED:
+        return await this.projectCreated(repositories, event);
+      case CONTRACT_TOPICS.DRAW:
+        return await this.projectDraw(repositories, event);
+      case CONTRACT_TOPICS.REPAY:
+        return await this.projectRepay(repositories, event);
+      case CONTRACT_TOPICS.DEFAULT:
+        return { creditLine: await this.projectDefault(repositories, event) };
+      default:
+        return {};
+    }
+  }
+
+  private async projectCreated(
+    { creditLines, events }: TransactionalRepositories,
+    event: HorizonEvent
+  ): Promise<{ creditLine: CreditLine }> {
+    const borrower = this.borrowerOf(event);
+    const key = chainLinkIdempotencyKey(event.contractId, borrower);
+    if (await events.findByIdempotencyKey(key)) {
+      throw new InvalidContractEventError(event.id, `borrower "${borrower}" already has a credit line on this contract`);
+    }
+
+    const data = this.decodeData(event);
+    const interestRateBps = Number(data['interest_rate_bps'] ?? 0);
+    if (!Number.isInteger(interestRateBps) || interestRateBps < 0 || interestRateBps > 10000) {
+      throw new InvalidContractEventError(event.id, 'interest_rate_bps must be between 0 and 10000');
+    }
+
+    const creditLine = await creditLines.create({
+      walletAddress: borrower,
+      creditLimit: this.toAmount(event, data['credit_limit']),
+      interestRateBps
+    });
+
+    await events.append({
+      eventType: CREDIT_LINE_CHAIN_LINKED,
+      aggregateType: CREDIT_LINE_AGGREGATE,
+      aggregateId: creditLine.id,
+      payload: { contractId: event.contractId, borrower, ledger: event.ledger },
+      idempotencyKey: key
+    });
+
+    return { creditLine };
+  }
+
+  private async projectDraw(
+    repositories: TransactionalRepositories,
+    event: HorizonEvent
+  ): Promise<{ creditLine: CreditLine; transaction: Transaction }> {
+    const creditLine = await this.findLinkedLine(repositories, event);
+    const drawn = Money.of(this.eventAmount(event), creditLine.currency);
+
+    const updated = await this.adjustLine(repositories.creditLines, creditLine.id, {
+      availableCredit: Money.zero(creditLine.currency).subtract(drawn).amount
+    });
+    const transaction = await this.recordTransaction(repositories, event, creditLine.id, drawn, TransactionType.BORROW);
+    return { creditLine: updated, transaction };
+  }
+
+  /** Mirrors {@link CreditLineService.repay}: accrued interest is settled before principal. */
+  private async projectRepay(
+    repositories: TransactionalRepositories,
+    event: HorizonEvent
+  ): Promise<{ creditLine: CreditLine; transaction: Transaction }> {
+    const creditLine = await this.findLinkedLine(repositories, event);
+    const { currency } = creditLine;
+    const paid = Money.of(this.eventAmount(event), currency);
+    const interestPaid = paid.min(Money.of(creditLine.accruedInterest, currency));
+
+    const updated = await this.adjustLine(repositories.creditLines, creditLine.id, {
+      availableCredit: paid.subtract(interestPaid).amount,
+      accruedInterest: Money.zero(currency).subtract(interestPaid).amount
+    });
+    const transaction = await this.recordTransaction(repositories, event, creditLine.id, paid, TransactionType.REPAY);
+    return { creditLine: updated, transaction };
+  }
+
+  private async projectDefault(repositories: TransactionalRepositories, event: HorizonEvent): Promise<CreditLine> {
+    const creditLine = await this.findLinkedLine(repositories, event);
+    if (creditLine.status === CreditLineStatus.DEFAULTED) return creditLine;
+
+    const updated = await repositories.creditLines.update(creditLine.id, { status: CreditLineStatus.DEFAULTED });
+    if (!updated) {
+      throw new CreditLineNotFoundError(creditLine.id);
+    }
+    await repositories.events.append({
+      eventType: CREDIT_LINE_STATUS_CHANGED,
+      aggregateType: CREDIT_LINE_AGGREGATE,
+      aggregateId: creditLine.id,
+      payload: {
+        action: 'default',
+        from: creditLine.status,
+        to: CreditLineStatus.DEFAULTED,
+        actor: `contract:${event.contractId}`,
+        reason: `Defaulted on-chain in ledger ${event.ledger}`
+      }
+    });
+    return updated;
+  }
+
+  /** The credit line linked to the event's borrower, locked until the unit of work ends. */
+  private async findLinkedLine(
+    { creditLines, events }: TransactionalRepositories,
+    event: HorizonEvent
+  ): Promise<CreditLine> {
+    const borrower = this.borrowerOf(event);
+    const link = await events.findByIdempotencyKey(chainLinkIdempotencyKey(event.contractId, borrower));
+    if (!link) {
+      throw new UnlinkedCreditLineError(event.contractId, borrower);
+    }
+    const creditLine = await creditLines.findByIdForUpdate(link.aggregateId);
+    if (!creditLine) {
+      throw new CreditLineNotFoundError(link.aggregateId);
+    }
+    return creditLine;
+  }
+
+  private async adjustLine(
+    creditLines: CreditLineRepository,
+    id: string,
+    request: Parameters<CreditLineRepository['adjustBalances']>[1]
+  ): Promise<CreditLine> {
+    const updated = await creditLines.adjustBalances(id, request);
+    if (!updated) {
+      throw new CreditLineNotFoundError(id);
+    }
+    return updated;
+  }
+
+  /** Chain transactions are final, so they are recorded as confirmed at ledger close. */
+  private async recordTransaction(
+    { transactions }: TransactionalRepositories,
+    event: HorizonEvent,
+    creditLineId: string,
+    amount: Money,
+    type: TransactionType
+  ): Promise<Transaction> {
+    const created = await transactions.create({
+      creditLineId,
+      amount: amount.amount,
+      type,
+      blockchainTxHash: event.txHash
+    });
+    const confirmed = await transactions.updateStatus(
+      created.id,
+      TransactionStatus.CONFIRMED,
+      new Date(event.timestamp)
+    );
+    return confirmed ?? created;
+  }
+
+  /** The borrower address: the second topic, or `borrower` in the data map. */
+  private borrowerOf(event: HorizonEvent): string {
+    const borrower = event.topics[1] ?? this.decodeData(event)['borrower'];
+    if (typeof borrower !== 'string' || borrower === '') {
+      throw new InvalidContractEventError(event.id, 'borrower address is missing');
+    }
+    return borrower;
+  }
+
+  private decodeData(event: HorizonEvent): Record<string, unknown> {
+    let decoded: unknown;
+    try {
+      decoded = decodeScVal(JSON.parse(event.data || 'null'));
+    } catch {
+      throw new InvalidContractEventError(event.id, 'data is not JSON');
+    }
+    if (decoded !== null && typeof decoded === 'object' && !Array.isArray(decoded)) {
+      return decoded as Record<string, unknown>;
+    }
+    return { value: decoded };
+  }
+
+  /** Draw and repay events carry the amount as the data value or its `amount` field. */
+  private eventAmount(event: HorizonEvent): string {
+    const data = this.decodeData(event);
+    return this.toAmount(event, data['amount'] ?? data['value']);
+  }
+
+  /** Convert an integer amount in on-chain base units into a positive decimal string. */
+  private toAmount(event: HorizonEvent, raw: unknown): string {
+    if (typeof raw !== 'string' || !/^\d+$/.test(raw)) {
+      throw new InvalidContractEventError(event.id, `amount "${String(raw)}" is not a non-negative integer`);
+    }
+    const amount = scaleDecimal(raw, '1', `1${'0'.repeat(this.amountDecimals)}`);
+    if (!isDecimal(amount) || amount === '0') {
+      throw new InvalidContractEventError(event.id, 'amount must be positive');
+    }
+    return amount;
+  }
+}
@@ -0,0 +1,220 @@
+import { type CreditLine, CreditLineStatus } from '../models/CreditLine.js';
+import { type Transaction, TransactionType } from '../models/Transaction.js';
+import type { DomainEvent } from '../models/DomainEvent.js';
+import type { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import { type EventRepository, DuplicateEventError } from '../repositories/interfaces/EventRepository.js';
+import type { UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
+import { Money } from '../utils/money.js';
+import { CREDIT_LINE_AGGREGATE } from './CreditLineService.js';
+
+/**
+ * Day-count conventions for turning an annual rate into a daily one:
+ * - `ACT/365`: every year has 365 days.
+ * - `ACT/360`: every year has 360 days (money-market convention).
+ * - `ACT/ACT`: 366 days in leap years, 365 otherwise.
+ */
+export type DayCountConvention = 'ACT/365' | 'ACT/360' | 'ACT/ACT';
+
+/**
+ * `simple` charges interest on outstanding principal only; `compound` also
+ * charges it on interest accrued and not yet repaid (daily compounding).
+ */
+export type CompoundingMode = 'simple' | 'compound';
+
+export interface InterestAccrualOptions {
+  dayCount?: DayCountConvention; // Defaults to ACT/365
+  compounding?: CompoundingMode; // Defaults to simple
+}
+
+export const DAY_COUNT_CONVENTIONS: readonly DayCountConvention[] = ['ACT/365', 'ACT/360', 'ACT/ACT'];
+export const COMPOUNDING_MODES: readonly CompoundingMode[] = ['simple', 'compound'];
+
+export const INTEREST_ACCRUED = 'credit_line.interest_accrued';
+
+/** Statuses that still carry an outstanding balance and therefore accrue interest. */
+const ACCRUING_STATUSES = [CreditLineStatus.ACTIVE, CreditLineStatus.SUSPENDED];
+
+const PERIOD_REGEX = /^\d{4}-\d{2}-\d{2}$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 100;
+
+/** Accrual periods are UTC calendar days written as `YYYY-MM-DD`. */
+export function periodOf(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(period: string, days: number): string {
+  return periodOf(new Date(periodStart(period).getTime() + days * DAY_MS));
+}
+
+/** Midnight UTC at the start of `period`. */
+export function periodStart(period: string): Date {
+  const date = new Date(`${period}T00:00:00.000Z`);
+  if (!PERIOD_REGEX.test(period) || Number.isNaN(date.getTime()) || periodOf(date) !== period) {
+    throw new Error(`Invalid accrual period "${period}"; expected YYYY-MM-DD`);
+  }
+  return date;
+}
+
+function daysInYear(period: string, dayCount: DayCountConvention): number {
+  if (dayCount === 'ACT/360') return 360;
+  if (dayCount === 'ACT/365') return 365;
+  const year = periodStart(period).getUTCFullYear();
+  const leap = (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+  return leap ? 366 : 365;
+}
+
+/** Whether `creditLine` accrues interest for a period ending at `periodEnd` (epoch ms). */
+function accruesBefore(creditLine: CreditLine, periodEnd: number): boolean {
+  return ACCRUING_STATUSES.includes(creditLine.status) && creditLine.createdAt.getTime() < periodEnd;
+}
+
+export function accrualIdempotencyKey(creditLineId: string, period: string): string {
+  return `interest_accrual:${creditLineId}:${period}`;
+}
+
+/** An accrual posted for one line and period. */
+export interface AccrualResult {
+  creditLine: CreditLine;
+  transaction: Transaction;
+  event: DomainEvent;
+}
+
+export interface PeriodAccrualSummary {
+  period: string;
+  posted: AccrualResult[];
+  skipped: number; // Lines already accrued for the period or with nothing to accrue
+}
+
+export class InterestAccrualService {
+  private readonly dayCount: DayCountConvention;
+  private readonly compounding: CompoundingMode;
+
+  constructor(
+    private creditLineRepository: CreditLineRepository,
+    private eventRepository: EventRepository,
+    private unitOfWork: UnitOfWork,
+    options: InterestAccrualOptions = {}
+  ) {
+    this.dayCount = options.dayCount ?? 'ACT/365';
+    this.compounding = options.compounding ?? 'simple';
+  }
+
+  /**
+   * Interest for one day on `creditLine` at its current balance, rounded
+   * half-even to 8 places.
+   */
+  calculateDailyInterest(creditLine: CreditLine, period: string): Money {
+    const { currency } = creditLine;
+    const principal = Money.of(creditLine.creditLimit, currency).subtract(Money.of(creditLine.availableCredit, currency));
+    const base = this.compounding === 'compound'
+      ? principal.add(Money.of(creditLine.accruedInterest, currency))
+      : principal;
+    if (!base.isPositive()) {
+      return Money.zero(currency);
+    }
+    return base.scale(String(creditLine.interestRateBps), String(10000 * daysInYear(period, this.dayCount)));
+  }
+
+  /**
+   * Accrue one day of interest on a line. Each line is accrued at most once
+   * per period, under a per-line, per-period idempotency key. The line is
+   * locked and re-read, so interest is charged on its balance at posting
+   * time, and the accrued interest increment, event and INTEREST_ACCRUAL
+   * transaction are recorded together. Returns null when the period was
+   * already accrued or no interest is due.
+   */
+  async accrueLine(creditLine: CreditLine, period: string): Promise<AccrualResult | null> {
+    const periodEnd = periodStart(period).getTime() + DAY_MS;
+    const idempotencyKey = accrualIdempotencyKey(creditLine.id, period);
+    if (!accruesBefore(creditLine, periodEnd) || await this.eventRepository.findByIdempotencyKey(idempotencyKey)) {
+      return null;
+    }
+
+    try {
+      return await this.unitOfWork.run(async ({ creditLines, transactions, events }) => {
+        const locked = await creditLines.findByIdForUpdate(creditLine.id);
+        if (!locked || !accruesBefore(locked, periodEnd) || await events.findByIdempotencyKey(idempotencyKey)) {
+          return null;
+        }
+
+        const interest = this.calculateDailyInterest(locked, period);
+        if (interest.isZero()) {
+          return null;
+        }
+
+        const updated = await creditLines.adjustBalances(locked.id, { accruedInterest: interest.amount });
+        if (!updated) {
+          return null;
+        }
+
+        const event = await events.append({
+          eventType: INTEREST_ACCRUED,
+          aggregateType: CREDIT_LINE_AGGREGATE,
+          aggregateId: locked.id,
+          payload: {
+            period,
+            amount: interest.amount,
+            currency: interest.currency,
+            interestRateBps: locked.interestRateBps,
+            dayCount: this.dayCount,
+            compounding: this.compounding
+          },
+          idempotencyKey
+        });
+
+        const transaction = await transactions.create({
+          creditLineId: locked.id,
+          amount: interest.amount,
+          type: TransactionType.INTEREST_ACCRUAL
+        });
+
+        return { creditLine: updated, transaction, event };
+      });
+    } catch (err) {
+      // A concurrent run posted this period first; its unit of work was rolled back.
+      if (err instanceof DuplicateEventError) return null;
+      throw err;
+    }
+  }
+
+  /** Accrue `period` on every active or suspended line. */
+  async accruePeriod(period: string): Promise<PeriodAccrualSummary> {
+    periodStart(period);
+    const summary: PeriodAccrualSummary = { period, posted: [], skipped: 0 };
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const creditLines = await this.creditLineRepository.findAll(offset, PAGE_SIZE);
+      for (const creditLine of creditLines) {
+        const result = await this.accrueLine(creditLine, period);
+        if (result) {
+          summary.posted.push(result);
+        } else {
+          summary.skipped += 1;
+        }
+      }
+      if (creditLines.length < PAGE_SIZE) break;
+    }
+
+    return summary;
+  }
+
+  /**
+   * Catch-up mode: accrue every period from `from` through `through`
+   * (inclusive), oldest first. Periods already accrued are skipped, so this
+   * is safe to run over a range that partially overlaps earlier runs. Missed
+   * periods accrue on each line's current balance, as balances are not
+   * versioned.
+   */
+  async catchUp(from: string, through: string): Promise<PeriodAccrualSummary[]> {
+    if (periodStart(from) > periodStart(through)) {
+      throw new Error(`Catch-up start ${from} is after ${through}`);
+    }
+
+    const summaries: PeriodAccrualSummary[] = [];
+    for (let period = from; period <= through; period = addDays(period, 1)) {
+      summaries.push(await this.accruePeriod(period));
+    }
+    return summaries;
+  }
+}
@@ -0,0 +1,33 @@
+import { type PortfolioGrouping, type PortfolioSegment, UNRATED_RISK_LEVEL } from '../models/Portfolio.js';
+import type { PortfolioRepository } from '../repositories/interfaces/PortfolioRepository.js';
+import { compareDecimal, roundDecimal, scaleDecimal } from '../utils/decimal.js';
+
+const RISK_LEVEL_ORDER = ['low', 'medium', 'high', UNRATED_RISK_LEVEL];
+
+/**
+ * Aggregate view of the credit line book: line and borrower counts, limits,
+ * exposure and utilization, per currency and broken down by risk level,
+ * status or origination month.
+ */
+export class PortfolioAnalyticsService {
+  constructor(private portfolioRepository: PortfolioRepository) {}
+
+  /**
+   * Segments for `grouping`, each with its utilization, ordered by key and
+   * then currency; risk levels run from low to high, then unrated.
+   */
+  async getSegments(grouping: PortfolioGrouping): Promise<PortfolioSegment[]> {
+    const totals = await this.portfolioRepository.summarize(grouping);
+    const segments = totals.map(segment => ({
+      ...segment,
+      utilization: compareDecimal(segment.totalLimit, '0') > 0
+        ? Number(roundDecimal(scaleDecimal(segment.exposure, '1', segment.totalLimit), 4))
+        : 0
+    }));
+    if (grouping === 'riskLevel') {
+      // Stable, so currencies stay in order within each level.
+      segments.sort((a, b) => RISK_LEVEL_ORDER.indexOf(a.key) - RISK_LEVEL_ORDER.indexOf(b.key));
+    }
+    return segments;
+  }
+}
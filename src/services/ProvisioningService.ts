@@ -0,0 +1,294 @@
+import { type CreditLine, CreditLineStatus } from '../models/CreditLine.js';
+import type { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import type { RiskEvaluationRepository } from '../repositories/interfaces/RiskEvaluationRepository.js';
+import { type EventRepository, DuplicateEventError } from '../repositories/interfaces/EventRepository.js';
+import type { UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
+import { addDecimal, decimalFromNumber, scaleDecimal, subtractDecimal } from '../utils/decimal.js';
+
+/** Probability of default for risk scores from `minScore` up to the next band. */
+export interface PdBand {
+  minScore: number;
+  pd: number;
+}
+
+export interface ProvisioningPolicy {
+  pdTable: PdBand[]; // Ascending by minScore, starting at 0
+  unratedPd: number; // For borrowers with no stored risk evaluation
+  lgd: number; // Share of the exposure lost once a line defaults
+  ccf: number; // Share of an active line's undrawn credit expected to be drawn by default
+}
+
+export const DEFAULT_PROVISIONING_POLICY: ProvisioningPolicy = {
+  pdTable: [
+    { minScore: 0, pd: 0.01 },
+    { minScore: 40, pd: 0.05 },
+    { minScore: 70, pd: 0.2 },
+  ],
+  unratedPd: 0.2,
+  lgd: 0.45,
+  ccf: 0.5,
+};
+
+export const PROVISIONING_REPORT = 'provisioning.report';
+
+/** Aggregate for provisioning reports; the id is the period end date. */
+export const PROVISIONING_REPORT_AGGREGATE = 'provisioning_report';
+
+/** Expected loss on one credit line. Amounts are in the line's currency. */
+export interface LineProvision {
+  creditLineId: string;
+  walletAddress: string;
+  currency: string;
+  status: CreditLineStatus;
+  riskScore: number | null; // Latest evaluation of the borrower; null if unrated
+  pd: number;
+  lgd: number;
+  drawn: string; // creditLimit - availableCredit
+  accruedInterest: string;
+  undrawn: string; // Available credit counted towards exposure, after the conversion factor
+  ead: string; // drawn + accruedInterest + undrawn
+  expectedLoss: string; // pd * lgd * ead
+}
+
+export interface ProvisionTotals {
+  currency: string;
+  lineCount: number;
+  ead: string;
+  expectedLoss: string;
+}
+
+export interface ProvisioningSummary {
+  policy: ProvisioningPolicy;
+  lines: LineProvision[];
+  totals: ProvisionTotals[]; // One per currency, sorted by currency
+}
+
+/** Payload of a `provisioning.report` event: the book's provisions frozen at a period end. */
+export interface ProvisioningReport extends ProvisioningSummary, Record<string, unknown> {
+  periodEnd: string; // YYYY-MM-DD
+  generatedAt: string;
+}
+
+export class ProvisioningReportExistsError extends Error {
+  constructor(public readonly periodEnd: string) {
+    super(`A provisioning report for ${periodEnd} already exists.`);
+    this.name = 'ProvisioningReportExistsError';
+  }
+}
+
+/** The period end is in the future, or earlier than the latest report already frozen. */
+export class InvalidProvisioningPeriodError extends Error {
+  constructor(public readonly periodEnd: string, reason: string) {
+    super(`Cannot report provisions for ${periodEnd}: ${reason}.`);
+    this.name = 'InvalidProvisioningPeriodError';
+  }
+}
+
+const isProbability = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1;
+
+/** Throws unless the PD table covers every score with PDs between 0 and 1 that never fall. */
+export function validatePdTable(pdTable: PdBand[]): void {
+  if (pdTable.length === 0 || pdTable[0].minScore !== 0) {
+    throw new Error('PD table must start at score 0');
+  }
+  pdTable.forEach((band, i) => {
+    if (!Number.isInteger(band.minScore) || band.minScore > 100) {
+      throw new Error(`PD table scores must be integers between 0 and 100, got ${band.minScore}`);
+    }
+    if (!isProbability(band.pd)) {
+      throw new Error(`PD for score ${band.minScore} must be between 0 and 1, got ${band.pd}`);
+    }
+    const previous = pdTable[i - 1];
+    if (previous && band.minScore <= previous.minScore) {
+      throw new Error('PD table scores must be in ascending order');
+    }
+    if (previous && band.pd < previous.pd) {
+      throw new Error(`PD must not fall as scores rise, got ${band.pd} after ${previous.pd}`);
+    }
+  });
+}
+
+/** Throws unless the PD table covers every score and all rates are between 0 and 1. */
+export function validateProvisioningPolicy(policy: ProvisioningPolicy): void {
+  validatePdTable(policy.pdTable);
+  if (!isProbability(policy.unratedPd)) {
+    throw new Error(`PD for unrated borrowers must be between 0 and 1, got ${policy.unratedPd}`);
+  }
+  if (!isProbability(policy.lgd)) {
+    throw new Error(`LGD must be between 0 and 1, got ${policy.lgd}`);
+  }
+  if (!isProbability(policy.ccf)) {
+    throw new Error(`Credit conversion factor must be between 0 and 1, got ${policy.ccf}`);
+  }
+}
+
+/** The PD of the highest band whose `minScore` is at most `riskScore`. */
+export function probabilityOfDefault(pdTable: PdBand[], riskScore: number): number {
+  let pd = pdTable[0].pd;
+  for (const band of pdTable) {
+    if (band.minScore > riskScore) break;
+    pd = band.pd;
+  }
+  return pd;
+}
+
+export function provisioningReportIdempotencyKey(periodEnd: string): string {
+  return `provisioning_report:${periodEnd}`;
+}
+
+const PAGE_SIZE = 100;
+
+/**
+ * Expected credit loss on the credit line book: PD from each borrower's
+ * latest risk score, a flat LGD, and exposure at default from the drawn
+ * balance, accrued interest and, for active lines, a share of undrawn
+ * credit. Closed lines carry no exposure and are left out.
+ */
+export class ProvisioningService {
+  constructor(
+    private creditLineRepository: CreditLineRepository,
+    private riskEvaluationRepository: RiskEvaluationRepository,
+    private eventRepository: EventRepository,
+    private unitOfWork: UnitOfWork,
+    public readonly policy: ProvisioningPolicy = DEFAULT_PROVISIONING_POLICY
+  ) {
+    validateProvisioningPolicy(policy);
+  }
+
+  /** Provisions as they stand now, per line and per currency. */
+  async calculate(): Promise<ProvisioningSummary> {
+    const riskScores = new Map<string, number | null>();
+    const lines: LineProvision[] = [];
+
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const page = await this.creditLineRepository.findAll(offset, PAGE_SIZE);
+      for (const creditLine of page) {
+        if (creditLine.status === CreditLineStatus.CLOSED) continue;
+        if (!riskScores.has(creditLine.walletAddress)) {
+          const latest = await this.riskEvaluationRepository.findLatestByWalletAddress(creditLine.walletAddress);
+          riskScores.set(creditLine.walletAddress, latest?.riskScore ?? null);
+        }
+        lines.push(this.provisionLine(creditLine, riskScores.get(creditLine.walletAddress)!));
+      }
+      if (page.length < PAGE_SIZE) break;
+    }
+
+    return { policy: this.policy, lines, totals: totalsByCurrency(lines) };
+  }
+
+  /**
+   * Freeze the current provisions as the report for `periodEnd`. Throws
+   * {@link ProvisioningReportExistsError} if that period already has one, so
+   * a reconciled report is never replaced, and
+   * {@link InvalidProvisioningPeriodError} if `periodEnd` is after `now` or
+   * before the latest reported period, whose figures would not match. The
+   * checks and the append run under a lock on provisioning reports, so
+   * concurrent requests for different periods are ordered too.
+   */
+  async createReport(periodEnd: string, now = new Date()): Promise<ProvisioningReport> {
+    const idempotencyKey = provisioningReportIdempotencyKey(periodEnd);
+    if (await this.eventRepository.findByIdempotencyKey(idempotencyKey)) {
+      throw new ProvisioningReportExistsError(periodEnd);
+    }
+    if (periodEnd > now.toISOString().slice(0, 10)) {
+      throw new InvalidProvisioningPeriodError(periodEnd, 'the period has not ended');
+    }
+
+    const report: ProvisioningReport = {
+      periodEnd,
+      generatedAt: now.toISOString(),
+      ...(await this.calculate()),
+    };
+
+    try {
+      await this.unitOfWork.run(async ({ events }) => {
+        await events.lockAggregateType(PROVISIONING_REPORT_AGGREGATE);
+        if (await events.findByIdempotencyKey(idempotencyKey)) {
+          throw new ProvisioningReportExistsError(periodEnd);
+        }
+        const latest = await latestReportedPeriod(events);
+        if (latest !== null && periodEnd < latest) {
+          throw new InvalidProvisioningPeriodError(periodEnd, `a report for ${latest} already exists`);
+        }
+
+        await events.append({
+          eventType: PROVISIONING_REPORT,
+          aggregateType: PROVISIONING_REPORT_AGGREGATE,
+          aggregateId: periodEnd,
+          payload: report,
+          idempotencyKey,
+        });
+      });
+    } catch (err) {
+      // A concurrent request recorded this period's report first.
+      if (err instanceof DuplicateEventError && err.idempotencyKey === idempotencyKey) {
+        throw new ProvisioningReportExistsError(periodEnd);
+      }
+      throw err;
+    }
+    return report;
+  }
+
+  /** The report stored for `periodEnd`, or null. */
+  async getReport(periodEnd: string): Promise<ProvisioningReport | null> {
+    const event = await this.eventRepository.findByIdempotencyKey(provisioningReportIdempotencyKey(periodEnd));
+    return event ? (event.payload as ProvisioningReport) : null;
+  }
+
+  private provisionLine(creditLine: CreditLine, riskScore: number | null): LineProvision {
+    const { lgd, ccf } = this.policy;
+    // A defaulted line has already defaulted, and only an active line can be drawn further.
+    const pd = creditLine.status === CreditLineStatus.DEFAULTED
+      ? 1
+      : riskScore === null
+        ? this.policy.unratedPd
+        : probabilityOfDefault(this.policy.pdTable, riskScore);
+    const drawn = subtractDecimal(creditLine.creditLimit, creditLine.availableCredit);
+    const undrawn = creditLine.status === CreditLineStatus.ACTIVE
+      ? scaleDecimal(creditLine.availableCredit, decimalFromNumber(ccf))
+      : '0';
+    const ead = addDecimal(addDecimal(drawn, creditLine.accruedInterest), undrawn);
+
+    return {
+      creditLineId: creditLine.id,
+      walletAddress: creditLine.walletAddress,
+      currency: creditLine.currency,
+      status: creditLine.status,
+      riskScore,
+      pd,
+      lgd,
+      drawn,
+      accruedInterest: creditLine.accruedInterest,
+      undrawn,
+      ead,
+      expectedLoss: scaleDecimal(ead, decimalFromNumber(pd * lgd)),
+    };
+  }
+}
+
+async function latestReportedPeriod(events: EventRepository): Promise<string | null> {
+  let latest: string | null = null;
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    const page = await events.findByType(PROVISIONING_REPORT, offset, PAGE_SIZE);
+    for (const event of page) {
+      const { periodEnd } = event.payload as ProvisioningReport;
+      if (latest === null || periodEnd > latest) latest = periodEnd;
+    }
+    if (page.length < PAGE_SIZE) break;
+  }
+  return latest;
+}
+
+function totalsByCurrency(lines: LineProvision[]): ProvisionTotals[] {
+  const totals = new Map<string, ProvisionTotals>();
+  for (const line of lines) {
+    const total = totals.get(line.currency) ?? { currency: line.currency, lineCount: 0, ead: '0', expectedLoss: '0' };
+    totals.set(line.currency, {
+      currency: line.currency,
+      lineCount: total.lineCount + 1,
+      ead: addDecimal(total.ead, line.ead),
+      expectedLoss: addDecimal(total.expectedLoss, line.expectedLoss),
+    });
+  }
+  return [...totals.values()].sort((a, b) => a.currency.localeCompare(b.currency));
+}
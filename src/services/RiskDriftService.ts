@@ -0,0 +1,186 @@
+import { CreditLineStatus } from '../models/CreditLine.js';
+import type { DomainEvent } from '../models/DomainEvent.js';
+import type { RiskEvaluation } from '../models/RiskEvaluation.js';
+import type { RiskEvaluationRepository } from '../repositories/interfaces/RiskEvaluationRepository.js';
+import { type EventRepository, DuplicateEventError } from '../repositories/interfaces/EventRepository.js';
+import type { TransactionalRepositories, UnitOfWork } from '../repositories/interfaces/UnitOfWork.js';
+import type { CreditLineService } from './CreditLineService.js';
+import type { RiskModelService } from './RiskModelService.js';
+import { type RiskLevel, riskLevelForScore } from './riskModel.js';
+
+export interface RiskDriftPolicy {
+  // Score increase between consecutive evaluations that raises an alert, by
+  // the risk level of the newer one; lower thresholds make riskier wallets
+  // alert on smaller moves.
+  thresholds: Record<RiskLevel, number>;
+  autoSuspend: boolean; // Suspend the wallet's active credit lines when an alert is raised
+}
+
+export const DEFAULT_RISK_DRIFT_POLICY: RiskDriftPolicy = {
+  thresholds: { low: 20, medium: 15, high: 10 },
+  autoSuspend: false,
+};
+
+export const RISK_LEVELS: readonly RiskLevel[] = ['low', 'medium', 'high'];
+
+export const RISK_SCORE_DRIFT = 'risk.score_drift';
+
+/** Aggregate for events about a wallet rather than one of its credit lines; the id is the wallet address. */
+export const WALLET_AGGREGATE = 'wallet';
+
+/** Recorded as the actor of suspensions made by the drift monitor. */
+export const RISK_DRIFT_ACTOR = 'risk-drift-monitor';
+
+/** Payload of a `risk.score_drift` event. */
+export interface RiskDriftAlert extends Record<string, unknown> {
+  evaluationId: string;
+  previousEvaluationId: string;
+  modelVersion: number;
+  previousScore: number;
+  riskScore: number;
+  change: number; // riskScore - previousScore
+  riskLevel: RiskLevel;
+  threshold: number;
+  suspendedCreditLineIds: string[];
+}
+
+/** Throws unless every risk level has a threshold between 1 and 100. */
+export function validateRiskDriftPolicy(policy: RiskDriftPolicy): void {
+  for (const level of RISK_LEVELS) {
+    const threshold = policy.thresholds[level];
+    if (!Number.isInteger(threshold) || threshold < 1 || threshold > 100) {
+      throw new Error(`Drift threshold for ${level} risk must be an integer between 1 and 100, got ${threshold}`);
+    }
+  }
+}
+
+export function riskDriftIdempotencyKey(evaluationId: string): string {
+  return `risk_drift:${evaluationId}`;
+}
+
+const HISTORY_PAGE_SIZE = 20;
+
+/**
+ * Watches for wallets whose risk score deteriorates sharply from one
+ * evaluation to the next, records an alert for each and, if the policy says
+ * so, suspends their active credit lines.
+ */
+export class RiskDriftService {
+  constructor(
+    private riskEvaluationRepository: RiskEvaluationRepository,
+    private riskModels: Pick<RiskModelService, 'get'>,
+    private creditLineService: CreditLineService,
+    private eventRepository: EventRepository,
+    private unitOfWork: UnitOfWork,
+    public readonly policy: RiskDriftPolicy = DEFAULT_RISK_DRIFT_POLICY
+  ) {
+    validateRiskDriftPolicy(policy);
+  }
+
+  /**
+   * Compare `evaluation` with the wallet's previous stored evaluation and
+   * raise an alert if the score rose by at least the threshold for its new
+   * risk level. Evaluations under different model versions are not
+   * compared, since a recalibration is not a change in the borrower. Returns
+   * the alert, or null; checking the same evaluation twice records nothing
+   * new. Suspensions and the alert are recorded in one unit of work, so the
+   * alert always lists exactly the lines it suspended.
+   */
+  async checkEvaluation(evaluation: RiskEvaluation): Promise<DomainEvent | null> {
+    const idempotencyKey = riskDriftIdempotencyKey(evaluation.id);
+    if (await this.eventRepository.findByIdempotencyKey(idempotencyKey)) {
+      return null;
+    }
+
+    const previous = await this.findPreviousEvaluation(evaluation);
+    if (!previous || previous.modelVersion !== evaluation.modelVersion) {
+      return null;
+    }
+
+    const model = await this.riskModels.get(evaluation.modelVersion);
+    const riskLevel = riskLevelForScore(model.config.bands, evaluation.riskScore);
+    const threshold = this.policy.thresholds[riskLevel];
+    const change = evaluation.riskScore - previous.riskScore;
+    if (change < threshold) {
+      return null;
+    }
+
+    try {
+      return await this.unitOfWork.run(async repositories => {
+        const suspendedCreditLineIds = this.policy.autoSuspend
+          ? await this.suspendCreditLines(repositories, evaluation.walletAddress, previous.riskScore, evaluation.riskScore)
+          : [];
+
+        const payload: RiskDriftAlert = {
+          evaluationId: evaluation.id,
+          previousEvaluationId: previous.id,
+          modelVersion: evaluation.modelVersion,
+          previousScore: previous.riskScore,
+          riskScore: evaluation.riskScore,
+          change,
+          riskLevel,
+          threshold,
+          suspendedCreditLineIds
+        };
+
+        return await repositories.events.append({
+          eventType: RISK_SCORE_DRIFT,
+          aggregateType: WALLET_AGGREGATE,
+          aggregateId: evaluation.walletAddress,
+          payload,
+          idempotencyKey
+        });
+      });
+    } catch (err) {
+      // A concurrent check recorded this evaluation's alert first; its suspensions were rolled back.
+      if (err instanceof DuplicateEventError && err.idempotencyKey === idempotencyKey) return null;
+      throw err;
+    }
+  }
+
+  /** Drift alerts across all wallets, newest first, with their total. */
+  async getAlerts(offset = 0, limit = 20): Promise<{ items: DomainEvent[]; total: number }> {
+    const [items, total] = await Promise.all([
+      this.eventRepository.findByType(RISK_SCORE_DRIFT, offset, limit),
+      this.eventRepository.count(RISK_SCORE_DRIFT)
+    ]);
+    return { items, total };
+  }
+
+  /** The evaluation of the same wallet made just before `evaluation`, if it is still stored. */
+  private async findPreviousEvaluation(evaluation: RiskEvaluation): Promise<RiskEvaluation | null> {
+    // History is newest first, so the first older evaluation is the previous one.
+    for (let offset = 0; ; offset += HISTORY_PAGE_SIZE) {
+      const page = await this.riskEvaluationRepository.findByWalletAddress(
+        evaluation.walletAddress,
+        offset,
+        HISTORY_PAGE_SIZE
+      );
+      const previous = page.find(
+        other => other.id !== evaluation.id && other.evaluatedAt.getTime() < evaluation.evaluatedAt.getTime()
+      );
+      if (previous) return previous;
+      if (page.length < HISTORY_PAGE_SIZE) return null;
+    }
+  }
+
+  /** Suspends the wallet's lines that are still active once locked; lines closed or suspended meanwhile are skipped. */
+  private async suspendCreditLines(
+    repositories: TransactionalRepositories,
+    walletAddress: string,
+    from: number,
+    to: number
+  ): Promise<string[]> {
+    const suspended: string[] = [];
+    for (const creditLine of await repositories.creditLines.findByWalletAddress(walletAddress)) {
+      const locked = await repositories.creditLines.findByIdForUpdate(creditLine.id);
+      if (locked?.status !== CreditLineStatus.ACTIVE) continue;
+      await this.creditLineService.applyTransition(repositories, creditLine.id, 'suspend', {
+        actor: RISK_DRIFT_ACTOR,
+        reason: `Risk score rose from ${from} to ${to}`
+      });
+      suspended.push(creditLine.id);
+    }
+    return suspended;
+  }
+}
@@ -1,50 +1,143 @@
-import { RiskEvaluation, RiskEvaluationRequest, RiskEvaluationResult, RiskFactor } from '../models/RiskEvaluation.js';
+import { RiskEvaluation, RiskEvaluationBatchItem, RiskEvaluationRequest, RiskEvaluationResult, RiskFactor } from '../models/RiskEvaluation.js';
+import type { RiskModelVersion } from '../models/RiskModel.js';
 import { RiskEvaluationRepository } from '../repositories/interfaces/RiskEvaluationRepository.js';
+import type { RiskScoringPipeline } from './riskScoring.js';
+import type { RiskModelService } from './RiskModelService.js';
+import { type RiskLevel, creditLimitForScore, interestRateForScore, riskLevelForScore } from './riskModel.js';
+import { type RiskExplanation, explainRiskEvaluation } from './riskExplanation.js';
+import { isValidStellarPublicKey } from '../utils/stellarAddress.js';
+
+/** A wallet scored under the current risk model, without terms or storage. */
+export interface WalletRiskScore {
+  riskScore: number;
+  riskLevel: RiskLevel;
+  factors: RiskFactor[];
+  modelVersion: number;
+}
+
+/** Called with every evaluation the service stores. */
+export type RiskEvaluationListener = (evaluation: RiskEvaluation) => void | Promise<void>;
 
 export class RiskEvaluationService {
-  constructor(private riskEvaluationRepository: RiskEvaluationRepository) {}
+  private listeners: RiskEvaluationListener[] = [];
+
+  constructor(
+    private riskEvaluationRepository: RiskEvaluationRepository,
+    private scoringPipeline: Pick<RiskScoringPipeline, 'score' | 'features'>,
+    private riskModels: Pick<RiskModelService, 'current' | 'get'>
+  ) {}
 
   async evaluateRisk(request: RiskEvaluationRequest): Promise<RiskEvaluationResult> {
     if (!request.walletAddress) {
       throw new Error('Wallet address is required');
     }
 
-    // Check if we have a valid cached evaluation
+    const model = await this.riskModels.current();
+
+    // Check if we have a valid cached evaluation from the current model
     if (!request.forceRefresh) {
       const isValid = await this.riskEvaluationRepository.isValid(request.walletAddress);
       if (isValid) {
         const cached = await this.riskEvaluationRepository.findLatestByWalletAddress(request.walletAddress);
-        if (cached) {
+        if (cached && cached.modelVersion === model.version) {
           return {
             walletAddress: cached.walletAddress,
             riskScore: cached.riskScore,
             creditLimit: cached.creditLimit,
             interestRateBps: cached.interestRateBps,
+            modelVersion: cached.modelVersion,
             message: 'Using cached risk evaluation'
           };
         }
       }
     }
 
-    // Perform new risk evaluation (placeholder implementation)
-    const evaluation = await this.performRiskEvaluation(request.walletAddress);
+    const evaluation = await this.performRiskEvaluation(request.walletAddress, model);
     
     // Save the evaluation
-    await this.riskEvaluationRepository.save(evaluation);
+    await this.saveEvaluation(evaluation);
 
     return {
       walletAddress: evaluation.walletAddress,
       riskScore: evaluation.riskScore,
       creditLimit: evaluation.creditLimit,
       interestRateBps: evaluation.interestRateBps,
+      modelVersion: evaluation.modelVersion,
       message: 'New risk evaluation completed'
     };
   }
 
+  /**
+   * Evaluate each wallet in turn, reusing valid cached evaluations unless
+   * `forceRefresh`. A wallet that is not a Stellar public key, or whose
+   * evaluation fails, gets an error instead of a result without affecting
+   * the rest; a failed evaluation is logged and reported with a generic
+   * error. Results follow the order of `walletAddresses`; a repeated address
+   * is evaluated once.
+   */
+  async evaluateRiskBatch(walletAddresses: string[], forceRefresh?: boolean): Promise<RiskEvaluationBatchItem[]> {
+    const outcomes = new Map<string, RiskEvaluationBatchItem>();
+    for (const walletAddress of walletAddresses) {
+      if (outcomes.has(walletAddress)) continue;
+      if (!isValidStellarPublicKey(walletAddress)) {
+        outcomes.set(walletAddress, { walletAddress, error: 'Invalid wallet address format.' });
+        continue;
+      }
+      try {
+        outcomes.set(walletAddress, { walletAddress, result: await this.evaluateRisk({ walletAddress, forceRefresh }) });
+      } catch (err) {
+        // The cause may carry internal details, so it is logged rather than returned.
+        console.error(`[RiskEvaluationService] Batch evaluation of ${walletAddress} failed:`, err);
+        outcomes.set(walletAddress, { walletAddress, error: 'Risk evaluation failed' });
+      }
+    }
+    return walletAddresses.map(walletAddress => outcomes.get(walletAddress)!);
+  }
+
+  /**
+   * Evaluate a wallet under model `version` and store the result, whatever
+   * is cached. Throws RiskModelNotFoundError for unknown versions.
+   */
+  async reevaluate(walletAddress: string, version: number): Promise<RiskEvaluation> {
+    const model = await this.riskModels.get(version);
+    return await this.saveEvaluation(await this.performRiskEvaluation(walletAddress, model));
+  }
+
+  /**
+   * Register a listener for evaluations stored from now on; cached results
+   * are not passed on. A listener that throws is logged and does not fail
+   * the evaluation.
+   */
+  onEvaluationSaved(listener: RiskEvaluationListener): void {
+    this.listeners.push(listener);
+  }
+
+  /** Score a wallet under the current model without storing an evaluation. */
+  async scoreWallet(walletAddress: string, now: Date = new Date()): Promise<WalletRiskScore> {
+    const model = await this.riskModels.current();
+    const { riskScore, factors } = await this.scoringPipeline.score(walletAddress, now, model.config.weights);
+    return {
+      riskScore,
+      riskLevel: riskLevelForScore(model.config.bands, riskScore),
+      factors,
+      modelVersion: model.version
+    };
+  }
+
   async getRiskEvaluation(id: string): Promise<RiskEvaluation | null> {
     return await this.riskEvaluationRepository.findById(id);
   }
 
+  /** Explain a stored evaluation under the model version that produced it. */
+  async explainRiskEvaluation(id: string): Promise<RiskExplanation | null> {
+    const evaluation = await this.riskEvaluationRepository.findById(id);
+    if (!evaluation) {
+      return null;
+    }
+    const model = await this.riskModels.get(evaluation.modelVersion);
+    return explainRiskEvaluation(evaluation, model, this.scoringPipeline.features);
+  }
+
   async getLatestRiskEvaluation(walletAddress: string): Promise<RiskEvaluation | null> {
     return await this.riskEvaluationRepository.findLatestByWalletAddress(walletAddress);
   }
@@ -57,57 +150,36 @@ export class RiskEvaluationService {
     return await this.riskEvaluationRepository.deleteExpired();
   }
 
-  private async performRiskEvaluation(walletAddress: string): Promise<Omit<RiskEvaluation, 'id'>> {
-    // Placeholder risk evaluation logic
-    // In a real implementation, this would analyze wallet history, transaction patterns, etc.
-    
-    const now = new Date();
-    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours
-
-    // Mock risk factors
-    const factors: RiskFactor[] = [
-      {
-        name: 'wallet_age',
-        value: 0.8,
-        weight: 0.3,
-        description: 'Age of the wallet in months'
-      },
-      {
-        name: 'transaction_volume',
-        value: 0.6,
-        weight: 0.4,
-        description: 'Historical transaction volume'
-      },
-      {
-        name: 'defi_participation',
-        value: 0.7,
-        weight: 0.3,
-        description: 'Participation in DeFi protocols'
+  private async saveEvaluation(evaluation: Omit<RiskEvaluation, 'id'>): Promise<RiskEvaluation> {
+    const saved = await this.riskEvaluationRepository.save(evaluation);
+    for (const listener of this.listeners) {
+      try {
+        await listener(saved);
+      } catch (err) {
+        console.error('[RiskEvaluationService] Evaluation listener threw an error:', err);
       }
-    ];
-
-    // Calculate weighted risk score
-    const riskScore = factors.reduce((score, factor) => {
-      return score + (factor.value * factor.weight);
-    }, 0) * 100;
+    }
+    return saved;
+  }
 
-    // Determine credit limit based on risk score
-    const baseCreditLimit = 1000;
-    const creditLimit = (baseCreditLimit * (riskScore / 100)).toString();
+  private async performRiskEvaluation(
+    walletAddress: string,
+    model: RiskModelVersion
+  ): Promise<Omit<RiskEvaluation, 'id'>> {
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + 24 * 60 * 60 * 1000); // 24 hours
 
-    // Determine interest rate (higher risk = higher rate)
-    const baseRateBps = 500; // 5%
-    const riskMultiplier = (100 - riskScore) / 100;
-    const interestRateBps = Math.round(baseRateBps + (baseRateBps * (1 - riskMultiplier)));
+    const { riskScore, factors } = await this.scoringPipeline.score(walletAddress, now, model.config.weights);
 
     return {
       walletAddress,
-      riskScore: Math.round(riskScore),
-      creditLimit,
-      interestRateBps,
+      riskScore,
+      creditLimit: creditLimitForScore(model.config, riskScore),
+      interestRateBps: interestRateForScore(model.config, riskScore),
       factors,
+      modelVersion: model.version,
       evaluatedAt: now,
       expiresAt
     };
   }
-}
\ No newline at end of file
+}
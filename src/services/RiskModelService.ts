@@ -0,0 +1,42 @@
+import type { RiskModelConfig, RiskModelVersion } from '../models/RiskModel.js';
+import type { RiskModelRepository } from '../repositories/interfaces/RiskModelRepository.js';
+import { DEFAULT_RISK_FEATURES, type RiskFeature } from './riskScoring.js';
+import { RiskModelNotFoundError, validateRiskModelConfig } from './riskModel.js';
+
+export class RiskModelService {
+  constructor(
+    private riskModelRepository: RiskModelRepository,
+    private features: readonly RiskFeature[] = DEFAULT_RISK_FEATURES
+  ) {}
+
+  /**
+   * Validate `config` against the scoring pipeline's features and publish it
+   * as the new current version. Evaluations made from now on use it.
+   */
+  async publish(config: RiskModelConfig, description?: string): Promise<RiskModelVersion> {
+    validateRiskModelConfig(config, this.features);
+    return await this.riskModelRepository.publish(config, description);
+  }
+
+  /** The version new evaluations use. */
+  async current(): Promise<RiskModelVersion> {
+    const latest = await this.riskModelRepository.findLatest();
+    if (!latest) {
+      throw new Error('No risk model has been published');
+    }
+    return latest;
+  }
+
+  /** Throws {@link RiskModelNotFoundError} for unknown versions. */
+  async get(version: number): Promise<RiskModelVersion> {
+    const model = await this.riskModelRepository.findByVersion(version);
+    if (!model) {
+      throw new RiskModelNotFoundError(version);
+    }
+    return model;
+  }
+
+  async list(): Promise<RiskModelVersion[]> {
+    return await this.riskModelRepository.findAll();
+  }
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  CREDIT_LINE_LIMIT_ADJUSTMENT,
+  CreditLimitAdjustmentService,
+  type CreditLimitPolicy,
+  DEFAULT_CREDIT_LIMIT_POLICY,
+  validateCreditLimitPolicy
+} from '../CreditLimitAdjustmentService.js';
+import { CreditLineNotFoundError, CreditLineService } from '../CreditLineService.js';
+import { loadCreditLimitPolicy } from '../../config/creditLimitAdjustment.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+import { type CreditLine, CreditLineStatus } from '../../models/CreditLine.js';
+import type { RiskEvaluation } from '../../models/RiskEvaluation.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const APPLY: CreditLimitPolicy = { ...DEFAULT_CREDIT_LIMIT_POLICY, mode: 'apply' };
+
+let evaluationCount = 0;
+const evaluation = (overrides: Partial<RiskEvaluation> = {}): RiskEvaluation => ({
+  id: `eval-${++evaluationCount}`,
+  walletAddress: 'wallet123',
+  riskScore: 20,
+  creditLimit: '1100',
+  interestRateBps: 600,
+  factors: [],
+  modelVersion: 1,
+  evaluatedAt: new Date(),
+  expiresAt: new Date(),
+  ...overrides
+});
+
+describe('CreditLimitAdjustmentService', () => {
+  let creditLines: InMemoryCreditLineRepository;
+  let events: InMemoryEventRepository;
+  let unitOfWork: InMemoryUnitOfWork;
+  let creditLineService: CreditLineService;
+  let line: CreditLine;
+
+  const service = (policy: CreditLimitPolicy = APPLY) =>
+    new CreditLimitAdjustmentService(creditLineService, events, unitOfWork, policy);
+
+  beforeEach(async () => {
+    creditLines = new InMemoryCreditLineRepository();
+    events = new InMemoryEventRepository();
+    const transactions = new InMemoryTransactionRepository(creditLines);
+    unitOfWork = new InMemoryUnitOfWork({ creditLines, transactions, events });
+    creditLineService = new CreditLineService(creditLines, transactions, events, unitOfWork);
+    line = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 });
+  });
+
+  it('should apply terms within the guardrails and record the adjustment', async () => {
+    const [result] = await service().adjustForEvaluation(evaluation({ id: 'eval-a' }));
+
+    expect(result!.creditLine).toMatchObject({ creditLimit: '1100', availableCredit: '1100', interestRateBps: 600 });
+    expect(result!.event).toMatchObject({
+      eventType: CREDIT_LINE_LIMIT_ADJUSTMENT,
+      aggregateId: line.id,
+      payload: {
+        applied: true,
+        evaluationId: 'eval-a',
+        from: { creditLimit: '1000', interestRateBps: 500 },
+        to: { creditLimit: '1100', interestRateBps: 600 },
+        target: { creditLimit: '1100', interestRateBps: 600 },
+        guardrails: []
+      }
+    });
+  });
+
+  it('should only record a proposal in propose mode', async () => {
+    const [result] = await service({ ...APPLY, mode: 'propose' }).adjustForEvaluation(evaluation());
+
+    expect(result!.event.payload).toMatchObject({ applied: false, to: { creditLimit: '1100', interestRateBps: 600 } });
+    expect(await creditLineService.getCreditLine(line.id)).toMatchObject({ creditLimit: '1000', interestRateBps: 500 });
+  });
+
+  it('should do nothing when the policy is off', async () => {
+    expect(await service({ ...APPLY, mode: 'off' }).adjustForEvaluation(evaluation())).toEqual([]);
+    expect(await events.count()).toBe(0);
+  });
+
+  it('should cap the limit and rate steps', async () => {
+    const [result] = await service().adjustForEvaluation(evaluation({ creditLimit: '100', interestRateBps: 900 }));
+
+    expect(result!.creditLine).toMatchObject({ creditLimit: '750', availableCredit: '750', interestRateBps: 700 });
+    expect(result!.event.payload.guardrails).toEqual(['max_limit_step', 'max_rate_step']);
+  });
+
+  it('should never lower the limit below the amount drawn', async () => {
+    await creditLineService.draw(line.id, 'wallet123', '900');
+
+    const [result] = await service().adjustForEvaluation(evaluation({ creditLimit: '500', interestRateBps: 500 }));
+
+    expect(result!.creditLine).toMatchObject({ creditLimit: '900', availableCredit: '0' });
+    expect(result!.event.payload.guardrails).toEqual(['max_limit_step', 'utilization_floor']);
+  });
+
+  it('should wait out the cool-down between applied adjustments', async () => {
+    const adjustments = service({ ...APPLY, cooldownMs: 24 * HOUR_MS });
+    await adjustments.adjustForEvaluation(evaluation({ creditLimit: '1100' }));
+
+    expect(await adjustments.adjustForEvaluation(evaluation({ creditLimit: '1200' }), new Date(Date.now() + HOUR_MS))).toEqual([]);
+
+    const [later] = await adjustments.adjustForEvaluation(
+      evaluation({ creditLimit: '1200' }),
+      new Date(Date.now() + 25 * HOUR_MS)
+    );
+    expect(later!.creditLine.creditLimit).toBe('1200');
+  });
+
+  it('should keep draws made after the line was read', async () => {
+    const adjustments = service();
+    const [stale] = await creditLineService.getCreditLinesByWallet('wallet123');
+    await creditLineService.draw(line.id, 'wallet123', '300');
+    const lookup = vi.spyOn(creditLineService, 'getCreditLinesByWallet').mockResolvedValueOnce([stale!]);
+
+    const [result] = await adjustments.adjustForEvaluation(evaluation());
+
+    expect(lookup).toHaveBeenCalled();
+    expect(result!.creditLine).toMatchObject({ creditLimit: '1100', availableCredit: '800', interestRateBps: 600 });
+  });
+
+  it('should apply an evaluation once when handled concurrently', async () => {
+    const fresh = evaluation();
+    const adjustments = service({ ...APPLY, cooldownMs: 0 });
+
+    const results = await Promise.all([adjustments.adjustForEvaluation(fresh), adjustments.adjustForEvaluation(fresh)]);
+
+    expect(results.flat()).toHaveLength(1);
+    expect((await creditLineService.getCreditLine(line.id))!.creditLimit).toBe('1100');
+  });
+
+  it('should record each evaluation once', async () => {
+    const fresh = evaluation();
+    const adjustments = service({ ...APPLY, cooldownMs: 0 });
+
+    expect(await adjustments.adjustForEvaluation(fresh)).toHaveLength(1);
+    expect(await adjustments.adjustForEvaluation(fresh)).toEqual([]);
+    expect(await adjustments.getAdjustmentHistory(line.id)).toHaveLength(1);
+  });
+
+  it('should skip lines that are not active or whose terms would not change', async () => {
+    const other = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '1100', interestRateBps: 600 });
+    await creditLineService.transition(line.id, 'suspend', { actor: 'ops', reason: 'Review' });
+
+    expect(await service().adjustForEvaluation(evaluation())).toEqual([]);
+    expect(await creditLineService.getCreditLine(other.id)).toMatchObject({ creditLimit: '1100' });
+    expect((await creditLineService.getCreditLine(line.id))!.status).toBe(CreditLineStatus.SUSPENDED);
+  });
+
+  it('should list adjustments without status changes and reject unknown lines', async () => {
+    await creditLineService.transition(line.id, 'suspend', { actor: 'ops', reason: 'Review' });
+    await creditLineService.transition(line.id, 'reinstate', { actor: 'ops', reason: 'Cleared' });
+    await service().adjustForEvaluation(evaluation());
+
+    const history = await service().getAdjustmentHistory(line.id);
+    expect(history.map(event => event.eventType)).toEqual([CREDIT_LINE_LIMIT_ADJUSTMENT]);
+    await expect(service().getAdjustmentHistory('nonexistent')).rejects.toBeInstanceOf(CreditLineNotFoundError);
+  });
+
+  it('should reject unusable policies', () => {
+    expect(() => validateCreditLimitPolicy({ ...APPLY, maxLimitStep: 1 })).toThrow('between 0 and 1');
+    expect(() => validateCreditLimitPolicy({ ...APPLY, maxRateStepBps: -1 })).toThrow('non-negative integer');
+    expect(() => validateCreditLimitPolicy({ ...APPLY, mode: 'auto' as never })).toThrow('must be one of');
+  });
+});
+
+describe('loadCreditLimitPolicy', () => {
+  const names = ['CREDIT_LIMIT_ADJUSTMENT', 'CREDIT_LIMIT_MAX_STEP', 'CREDIT_RATE_MAX_STEP_BPS', 'CREDIT_LIMIT_COOLDOWN_HOURS'];
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(names.map(name => [name, process.env[name]]));
+    for (const name of names) delete process.env[name];
+  });
+
+  afterEach(() => {
+    for (const name of names) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('should default to proposing within the default guardrails', () => {
+    expect(loadCreditLimitPolicy()).toEqual(DEFAULT_CREDIT_LIMIT_POLICY);
+  });
+
+  it('should read the policy from the environment', () => {
+    process.env.CREDIT_LIMIT_ADJUSTMENT = 'apply';
+    process.env.CREDIT_LIMIT_MAX_STEP = '0.1';
+    process.env.CREDIT_RATE_MAX_STEP_BPS = '50';
+    process.env.CREDIT_LIMIT_COOLDOWN_HOURS = '24';
+
+    expect(loadCreditLimitPolicy()).toEqual({ mode: 'apply', maxLimitStep: 0.1, maxRateStepBps: 50, cooldownMs: 24 * HOUR_MS });
+  });
+
+  it('should reject invalid values', () => {
+    process.env.CREDIT_LIMIT_ADJUSTMENT = 'auto';
+    expect(() => loadCreditLimitPolicy()).toThrow('CREDIT_LIMIT_ADJUSTMENT');
+
+    delete process.env.CREDIT_LIMIT_ADJUSTMENT;
+    process.env.CREDIT_LIMIT_MAX_STEP = '1.5';
+    expect(() => loadCreditLimitPolicy()).toThrow('CREDIT_LIMIT_MAX_STEP');
+  });
+});
@@ -1,25 +1,64 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
-import { CreditLineService } from '../CreditLineService.js';
+import {
+  CreditLineService,
+  CreditLineNotFoundError,
+  InvalidAmountError,
+  InvalidCreditLineStatusError,
+  CreditLimitExceededError,
+  InvalidTransitionError,
+  UnauthorizedBorrowerError,
+  OverpaymentError
+} from '../CreditLineService.js';
 import { CreditLineRepository } from '../../repositories/interfaces/CreditLineRepository.js';
+import type { TransactionRepository } from '../../repositories/interfaces/TransactionRepository.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork.js';
 import { CreditLine, CreditLineStatus } from '../../models/CreditLine.js';
+import { type Transaction, TransactionStatus, TransactionType } from '../../models/Transaction.js';
+import { addDecimal } from '../../utils/decimal.js';
 
 describe('CreditLineService', () => {
   let service: CreditLineService;
   let mockRepository: CreditLineRepository;
+  let mockTransactionRepository: TransactionRepository;
+  let eventRepository: InMemoryEventRepository;
 
   beforeEach(() => {
     mockRepository = {
       create: vi.fn(),
       findById: vi.fn(),
+      findByIdForUpdate: vi.fn(),
       findByWalletAddress: vi.fn(),
       findAll: vi.fn(),
       update: vi.fn(),
+      adjustBalances: vi.fn(),
       delete: vi.fn(),
       exists: vi.fn(),
       count: vi.fn()
     };
     
-    service = new CreditLineService(mockRepository);
+    mockTransactionRepository = {
+      create: vi.fn(),
+      findById: vi.fn(),
+      findByCreditLineId: vi.fn(),
+      findByWalletAddress: vi.fn(),
+      updateStatus: vi.fn(),
+      findAll: vi.fn(),
+      count: vi.fn(),
+      findByStatus: vi.fn(),
+      query: vi.fn()
+    };
+    
+    eventRepository = new InMemoryEventRepository();
+
+    service = new CreditLineService(
+      mockRepository,
+      mockTransactionRepository,
+      eventRepository,
+      new InMemoryUnitOfWork({ creditLines: mockRepository, transactions: mockTransactionRepository, events: eventRepository })
+    );
   });
 
   describe('createCreditLine', () => {
@@ -35,6 +74,8 @@ describe('CreditLineService', () => {
         walletAddress: request.walletAddress,
         creditLimit: request.creditLimit,
         availableCredit: request.creditLimit,
+        accruedInterest: '0',
+        currency: 'USDC',
         interestRateBps: request.interestRateBps,
         status: CreditLineStatus.ACTIVE,
         createdAt: new Date(),
@@ -87,6 +128,8 @@ describe('CreditLineService', () => {
         walletAddress: 'wallet123',
         creditLimit: '1000.00',
         availableCredit: '1000.00',
+        accruedInterest: '0',
+        currency: 'USDC',
         interestRateBps: 500,
         status: CreditLineStatus.ACTIVE,
         createdAt: new Date(),
@@ -118,6 +161,8 @@ describe('CreditLineService', () => {
           walletAddress: 'wallet123',
           creditLimit: '1000.00',
           availableCredit: '1000.00',
+          accruedInterest: '0',
+          currency: 'USDC',
           interestRateBps: 500,
           status: CreditLineStatus.ACTIVE,
           createdAt: new Date(),
@@ -146,6 +191,8 @@ describe('CreditLineService', () => {
         walletAddress: 'wallet123',
         creditLimit: '2000.00',
         availableCredit: '2000.00',
+        accruedInterest: '0',
+        currency: 'USDC',
         interestRateBps: 600,
         status: CreditLineStatus.ACTIVE,
         createdAt: new Date(),
@@ -175,6 +222,311 @@ describe('CreditLineService', () => {
 
       await expect(service.updateCreditLine('cl-123', updateRequest)).rejects.toThrow('Interest rate must be between 0 and 10000 basis points');
     });
+
+    it('should refuse status changes outside the lifecycle transitions', async () => {
+      await expect(service.updateCreditLine('cl-123', { status: CreditLineStatus.CLOSED }))
+        .rejects.toThrow('Credit line status can only be changed through a lifecycle transition');
+      expect(mockRepository.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('transition', () => {
+    const context = { actor: 'ops@creditra', reason: 'Missed payment' };
+
+    function lineWithStatus(status: CreditLineStatus): CreditLine {
+      return {
+        id: 'cl-123',
+        walletAddress: 'wallet123',
+        creditLimit: '1000',
+        availableCredit: '1000',
+        accruedInterest: '0',
+        currency: 'USDC',
+        interestRateBps: 500,
+        status,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      };
+    }
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.update).mockImplementation(async (_id, request) => ({
+        ...lineWithStatus(CreditLineStatus.ACTIVE),
+        ...request
+      }));
+    });
+
+    it.each([
+      ['activate', CreditLineStatus.PENDING, CreditLineStatus.ACTIVE],
+      ['suspend', CreditLineStatus.ACTIVE, CreditLineStatus.SUSPENDED],
+      ['reinstate', CreditLineStatus.SUSPENDED, CreditLineStatus.ACTIVE],
+      ['close', CreditLineStatus.PENDING, CreditLineStatus.CLOSED],
+      ['close', CreditLineStatus.ACTIVE, CreditLineStatus.CLOSED],
+      ['close', CreditLineStatus.SUSPENDED, CreditLineStatus.CLOSED],
+      ['close', CreditLineStatus.DEFAULTED, CreditLineStatus.CLOSED],
+      ['reopen', CreditLineStatus.CLOSED, CreditLineStatus.ACTIVE]
+    ] as const)('should %s a %s line', async (action, from, to) => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(lineWithStatus(from));
+
+      const result = await service.transition('cl-123', action, context);
+
+      expect(mockRepository.update).toHaveBeenCalledWith('cl-123', { status: to });
+      expect(result.creditLine.status).toBe(to);
+      expect(result.event).toMatchObject({
+        eventType: 'credit_line.status_changed',
+        aggregateType: 'credit_line',
+        aggregateId: 'cl-123',
+        payload: { action, from, to, actor: 'ops@creditra', reason: 'Missed payment' }
+      });
+    });
+
+    it.each([
+      ['activate', CreditLineStatus.ACTIVE],
+      ['suspend', CreditLineStatus.SUSPENDED],
+      ['suspend', CreditLineStatus.CLOSED],
+      ['reinstate', CreditLineStatus.ACTIVE],
+      ['close', CreditLineStatus.CLOSED],
+      ['reopen', CreditLineStatus.SUSPENDED],
+      ['reinstate', CreditLineStatus.DEFAULTED]
+    ] as const)('should reject %s on a %s line', async (action, from) => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(lineWithStatus(from));
+
+      await expect(service.transition('cl-123', action, context)).rejects.toThrow(InvalidTransitionError);
+      expect(mockRepository.update).not.toHaveBeenCalled();
+      expect(await eventRepository.count()).toBe(0);
+    });
+
+    it('should record no status change when the event cannot be stored', async () => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(lineWithStatus(CreditLineStatus.ACTIVE));
+      vi.spyOn(eventRepository, 'append').mockRejectedValueOnce(new Error('event store unavailable'));
+
+      await expect(service.transition('cl-123', 'suspend', context)).rejects.toThrow('event store unavailable');
+      expect(await eventRepository.count()).toBe(0);
+    });
+
+    it('should throw when the credit line does not exist', async () => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(null);
+
+      await expect(service.transition('missing', 'close', context)).rejects.toThrow(CreditLineNotFoundError);
+    });
+
+    it('should list status changes for a line', async () => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(lineWithStatus(CreditLineStatus.ACTIVE));
+      vi.mocked(mockRepository.exists).mockResolvedValue(true);
+      await service.transition('cl-123', 'suspend', context);
+
+      const history = await service.getStatusHistory('cl-123');
+
+      expect(history).toHaveLength(1);
+      expect(history[0].payload.to).toBe(CreditLineStatus.SUSPENDED);
+    });
+
+    it('should throw when listing history for an unknown line', async () => {
+      vi.mocked(mockRepository.exists).mockResolvedValue(false);
+
+      await expect(service.getStatusHistory('missing')).rejects.toThrow(CreditLineNotFoundError);
+    });
+  });
+
+  describe('getTransactions', () => {
+    it('should query the line\'s transactions and compute page metadata', async () => {
+      vi.mocked(mockRepository.exists).mockResolvedValue(true);
+      vi.mocked(mockTransactionRepository.query).mockResolvedValue({ transactions: [], total: 45 });
+      const from = new Date('2024-01-01T00:00:00Z');
+
+      const page = await service.getTransactions('cl-123', { type: TransactionType.BORROW, from }, 3, 20);
+
+      expect(mockTransactionRepository.query).toHaveBeenCalledWith(
+        { type: TransactionType.BORROW, from, creditLineId: 'cl-123' },
+        40,
+        20
+      );
+      expect(page).toEqual({ transactions: [], total: 45, page: 3, limit: 20, totalPages: 3 });
+    });
+
+    it('should report one page when there are no transactions', async () => {
+      vi.mocked(mockRepository.exists).mockResolvedValue(true);
+      vi.mocked(mockTransactionRepository.query).mockResolvedValue({ transactions: [], total: 0 });
+
+      const page = await service.getTransactions('cl-123');
+
+      expect(mockTransactionRepository.query).toHaveBeenCalledWith({ creditLineId: 'cl-123' }, 0, 20);
+      expect(page.totalPages).toBe(1);
+    });
+
+    it('should throw when the credit line does not exist', async () => {
+      vi.mocked(mockRepository.exists).mockResolvedValue(false);
+
+      await expect(service.getTransactions('missing')).rejects.toThrow(CreditLineNotFoundError);
+      expect(mockTransactionRepository.query).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('draw', () => {
+    const activeLine: CreditLine = {
+      id: 'cl-123',
+      walletAddress: 'wallet123',
+      creditLimit: '1000',
+      availableCredit: '400.3',
+      accruedInterest: '0',
+      currency: 'USDC',
+      interestRateBps: 500,
+      status: CreditLineStatus.ACTIVE,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const borrow: Transaction = {
+      id: 'tx-1',
+      creditLineId: 'cl-123',
+      walletAddress: 'wallet123',
+      amount: '0.1',
+      currency: 'USDC',
+      type: TransactionType.BORROW,
+      status: TransactionStatus.PENDING,
+      createdAt: new Date()
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(activeLine);
+      vi.mocked(mockRepository.adjustBalances).mockImplementation(async (_id, request) => ({
+        ...activeLine,
+        availableCredit: addDecimal(activeLine.availableCredit, request.availableCredit ?? '0')
+      }));
+      vi.mocked(mockTransactionRepository.create).mockResolvedValue(borrow);
+    });
+
+    it('should reduce available credit and record a borrow transaction', async () => {
+      const result = await service.draw('cl-123', 'wallet123', '0.1');
+
+      expect(mockRepository.adjustBalances).toHaveBeenCalledWith('cl-123', { availableCredit: '-0.1' });
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith({
+        creditLineId: 'cl-123',
+        amount: '0.1',
+        type: TransactionType.BORROW
+      });
+      expect(result.creditLine.availableCredit).toBe('400.2');
+      expect(result.transaction).toEqual(borrow);
+    });
+
+    it('should allow drawing the full available credit', async () => {
+      const result = await service.draw('cl-123', 'wallet123', '400.3');
+
+      expect(result.creditLine.availableCredit).toBe('0');
+    });
+
+    it('should reject draws above available credit', async () => {
+      await expect(service.draw('cl-123', 'wallet123', '400.30000001')).rejects.toThrow(CreditLimitExceededError);
+      expect(mockRepository.adjustBalances).not.toHaveBeenCalled();
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject a wallet that does not own the line', async () => {
+      await expect(service.draw('cl-123', 'other-wallet', '10')).rejects.toThrow(UnauthorizedBorrowerError);
+    });
+
+    it('should reject lines that are not active', async () => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue({ ...activeLine, status: CreditLineStatus.SUSPENDED });
+
+      await expect(service.draw('cl-123', 'wallet123', '10')).rejects.toThrow(InvalidCreditLineStatusError);
+    });
+
+    it('should reject zero, negative and malformed amounts', async () => {
+      await expect(service.draw('cl-123', 'wallet123', '0')).rejects.toThrow(InvalidAmountError);
+      await expect(service.draw('cl-123', 'wallet123', '-5')).rejects.toThrow(InvalidAmountError);
+      await expect(service.draw('cl-123', 'wallet123', 'abc')).rejects.toThrow(InvalidAmountError);
+    });
+
+    it('should throw when the credit line does not exist', async () => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(null);
+
+      await expect(service.draw('missing', 'wallet123', '10')).rejects.toThrow(CreditLineNotFoundError);
+    });
+  });
+
+  describe('repay', () => {
+    const drawnLine: CreditLine = {
+      id: 'cl-123',
+      walletAddress: 'wallet123',
+      creditLimit: '1000',
+      availableCredit: '400',
+      accruedInterest: '10.5',
+      currency: 'USDC',
+      interestRateBps: 500,
+      status: CreditLineStatus.ACTIVE,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+
+    const repayment: Transaction = {
+      id: 'tx-1',
+      creditLineId: 'cl-123',
+      walletAddress: 'wallet123',
+      amount: '110.5',
+      currency: 'USDC',
+      type: TransactionType.REPAY,
+      status: TransactionStatus.PENDING,
+      createdAt: new Date()
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(drawnLine);
+      vi.mocked(mockRepository.adjustBalances).mockImplementation(async (_id, request) => ({
+        ...drawnLine,
+        availableCredit: addDecimal(drawnLine.availableCredit, request.availableCredit ?? '0'),
+        accruedInterest: addDecimal(drawnLine.accruedInterest, request.accruedInterest ?? '0')
+      }));
+      vi.mocked(mockTransactionRepository.create).mockResolvedValue(repayment);
+    });
+
+    it('should settle accrued interest first, then restore available credit', async () => {
+      const result = await service.repay('cl-123', '110.5');
+
+      expect(mockRepository.adjustBalances).toHaveBeenCalledWith('cl-123', {
+        availableCredit: '100',
+        accruedInterest: '-10.5'
+      });
+      expect(mockTransactionRepository.create).toHaveBeenCalledWith({
+        creditLineId: 'cl-123',
+        amount: '110.5',
+        type: TransactionType.REPAY
+      });
+      expect(result.creditLine.availableCredit).toBe('500');
+      expect(result.transaction).toEqual(repayment);
+    });
+
+    it('should only reduce accrued interest when paying less than it', async () => {
+      await service.repay('cl-123', '0.1');
+
+      expect(mockRepository.adjustBalances).toHaveBeenCalledWith('cl-123', {
+        availableCredit: '0',
+        accruedInterest: '-0.1'
+      });
+    });
+
+    it('should accept repaying the full outstanding balance', async () => {
+      const result = await service.repay('cl-123', '610.5');
+
+      expect(result.creditLine.availableCredit).toBe('1000');
+      expect(result.creditLine.accruedInterest).toBe('0');
+    });
+
+    it('should reject overpayment beyond principal plus accrued interest', async () => {
+      await expect(service.repay('cl-123', '610.50000001')).rejects.toThrow(OverpaymentError);
+      expect(mockRepository.adjustBalances).not.toHaveBeenCalled();
+      expect(mockTransactionRepository.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject zero, negative and malformed amounts', async () => {
+      await expect(service.repay('cl-123', '0')).rejects.toThrow(InvalidAmountError);
+      await expect(service.repay('cl-123', '-5')).rejects.toThrow(InvalidAmountError);
+      await expect(service.repay('cl-123', '1.123456789')).rejects.toThrow(InvalidAmountError);
+    });
+
+    it('should throw when the credit line does not exist', async () => {
+      vi.mocked(mockRepository.findByIdForUpdate).mockResolvedValue(null);
+
+      await expect(service.repay('missing', '10')).rejects.toThrow(CreditLineNotFoundError);
+    });
   });
 
   describe('deleteCreditLine', () => {
@@ -198,4 +550,74 @@ describe('CreditLineService', () => {
       expect(result).toBe(5);
     });
   });
+
+  describe('balance changes with in-memory repositories', () => {
+    let creditLines: InMemoryCreditLineRepository;
+    let transactions: InMemoryTransactionRepository;
+    let line: CreditLine;
+
+    beforeEach(async () => {
+      creditLines = new InMemoryCreditLineRepository();
+      transactions = new InMemoryTransactionRepository(creditLines);
+      service = new CreditLineService(
+        creditLines,
+        transactions,
+        eventRepository,
+        new InMemoryUnitOfWork({ creditLines, transactions, events: eventRepository })
+      );
+      line = await service.createCreditLine({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 });
+      await creditLines.update(line.id, { availableCredit: '400', accruedInterest: '10' });
+    });
+
+    it('should not overdraw the line under concurrent draws', async () => {
+      const results = await Promise.allSettled([
+        service.draw(line.id, 'wallet123', '300'),
+        service.draw(line.id, 'wallet123', '300')
+      ]);
+
+      expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+      expect((await creditLines.findById(line.id))!.availableCredit).toBe('100');
+      expect(await transactions.findByCreditLineId(line.id)).toHaveLength(1);
+    });
+
+    it('should leave the balance untouched when the draw cannot be recorded', async () => {
+      vi.spyOn(transactions, 'create').mockRejectedValueOnce(new Error('ledger unavailable'));
+
+      await expect(service.draw(line.id, 'wallet123', '100')).rejects.toThrow('ledger unavailable');
+
+      expect((await creditLines.findById(line.id))!.availableCredit).toBe('400');
+    });
+
+    it('should apply only one of two concurrent transitions from the same status', async () => {
+      await creditLines.update(line.id, { status: CreditLineStatus.ACTIVE });
+      const context = { actor: 'ops@creditra', reason: 'Review' };
+
+      const results = await Promise.allSettled([
+        service.transition(line.id, 'close', context),
+        service.transition(line.id, 'suspend', context)
+      ]);
+
+      expect(results.map((result) => result.status)).toEqual(['fulfilled', 'rejected']);
+      expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(InvalidTransitionError);
+      expect((await creditLines.findById(line.id))!.status).toBe(CreditLineStatus.CLOSED);
+      expect(await service.getStatusHistory(line.id)).toHaveLength(1);
+    });
+
+    it('should keep every concurrent repayment', async () => {
+      await Promise.all([service.repay(line.id, '60'), service.repay(line.id, '50')]);
+
+      const repaid = await creditLines.findById(line.id);
+      expect(repaid).toMatchObject({ availableCredit: '500', accruedInterest: '0' });
+      expect(await transactions.findByCreditLineId(line.id)).toHaveLength(2);
+    });
+
+    it('should leave the balance untouched when the repayment cannot be recorded', async () => {
+      vi.spyOn(transactions, 'create').mockRejectedValueOnce(new Error('ledger unavailable'));
+
+      await expect(service.repay(line.id, '110')).rejects.toThrow('ledger unavailable');
+
+      const unchanged = await creditLines.findById(line.id);
+      expect(unchanged).toMatchObject({ availableCredit: '400', accruedInterest: '10' });
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import {
+  EventIngestionService,
+  CONTRACT_AGGREGATE,
+  CREDIT_LINE_CHAIN_LINKED,
+  InvalidContractEventError,
+  UnlinkedCreditLineError,
+  contractEventIdempotencyKey,
+  decodeScVal,
+  eventIndex
+} from '../EventIngestionService.js';
+import { CREDIT_LINE_AGGREGATE, CREDIT_LINE_STATUS_CHANGED } from '../CreditLineService.js';
+import type { HorizonEvent } from '../horizonListener.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+import { TransactionStatus, TransactionType } from '../../models/Transaction.js';
+
+const CONTRACT = 'CCJZ5DGASBWQXR5MPFCJXMBI333XE5U3FSJTNQU7RIKE3P5GN2K2WYD5';
+const BORROWER = 'GBORROWERADDRESS';
+
+/** i128 amounts are in 7-decimal base units, so 10_000_000 is 1. */
+const units = (amount: number) => ({ i128: String(amount * 10_000_000) });
+
+let sequence = 0;
+
+function contractEvent(topic: string, data: unknown, overrides: Partial<HorizonEvent> = {}): HorizonEvent {
+  sequence += 1;
+  const ledger = overrides.ledger ?? 1000 + sequence;
+  const toid = (BigInt(ledger) << 32n) | (1n << 12n);
+  return {
+    id: `${toid.toString().padStart(19, '0')}-0000000000`,
+    ledger,
+    timestamp: '2024-03-10T12:00:00Z',
+    contractId: CONTRACT,
+    topics: [topic, BORROWER],
+    data: JSON.stringify(data),
+    txHash: `tx-${sequence}`,
+    ...overrides
+  };
+}
+
+const created = (limit = 1000, rateBps = 500) =>
+  contractEvent('credit_line_created', {
+    map: [
+      { key: { symbol: 'credit_limit' }, val: units(limit) },
+      { key: { symbol: 'interest_rate_bps' }, val: { u32: rateBps } }
+    ]
+  });
+
+describe('EventIngestionService', () => {
+  let creditLineRepository: InMemoryCreditLineRepository;
+  let transactionRepository: InMemoryTransactionRepository;
+  let eventRepository: InMemoryEventRepository;
+  let service: EventIngestionService;
+
+  beforeEach(() => {
+    creditLineRepository = new InMemoryCreditLineRepository();
+    transactionRepository = new InMemoryTransactionRepository(creditLineRepository);
+    eventRepository = new InMemoryEventRepository();
+    service = new EventIngestionService(
+      eventRepository,
+      new InMemoryUnitOfWork({
+        creditLines: creditLineRepository,
+        transactions: transactionRepository,
+        events: eventRepository
+      })
+    );
+  });
+
+  describe('helpers', () => {
+    it('should key events by ledger, contract and position within the ledger', () => {
+      const event = contractEvent('draw', units(1), { ledger: 2000 });
+
+      expect(eventIndex(event)).toBe('4096-0');
+      expect(contractEventIdempotencyKey(event)).toBe(`horizon:2000:${CONTRACT}:4096-0`);
+      expect(eventIndex({ ...event, id: 'opaque' })).toBe('opaque');
+    });
+
+    it('should decode JSON ScVals into plain values', () => {
+      expect(decodeScVal({ i128: '123' })).toBe('123');
+      expect(decodeScVal({ u32: 7 })).toBe('7');
+      expect(decodeScVal({ vec: [{ symbol: 'a' }, { bool: true }] })).toEqual(['a', true]);
+      expect(decodeScVal({ map: [{ key: { symbol: 'amount' }, val: { i128: '5' } }] })).toEqual({ amount: '5' });
+    });
+  });
+
+  describe('ingest', () => {
+    it('should store every event as an immutable contract event', async () => {
+      const event = contractEvent('unrelated_topic', { symbol: 'x' });
+
+      const result = await service.ingest(event);
+
+      expect(result!.event).toMatchObject({
+        eventType: 'contract.unrelated_topic',
+        aggregateType: CONTRACT_AGGREGATE,
+        aggregateId: CONTRACT,
+        idempotencyKey: contractEventIdempotencyKey(event),
+        payload: {
+          eventId: event.id,
+          ledger: event.ledger,
+          timestamp: event.timestamp,
+          txHash: event.txHash,
+          topics: event.topics,
+          data: event.data
+        }
+      });
+      expect(result!.creditLine).toBeUndefined();
+    });
+
+    it('should silently skip events that were already ingested', async () => {
+      const event = created();
+      await service.ingest(event);
+
+      expect(await service.ingest(event)).toBeNull();
+      expect(await creditLineRepository.count()).toBe(1);
+    });
+
+    it('should create and link a credit line from credit_line_created', async () => {
+      const result = await service.ingest(created(1500, 750));
+
+      expect(result!.creditLine).toMatchObject({
+        walletAddress: BORROWER,
+        creditLimit: '1500',
+        availableCredit: '1500',
+        interestRateBps: 750,
+        status: CreditLineStatus.ACTIVE
+      });
+      const [link] = (await eventRepository.findByAggregate(CREDIT_LINE_AGGREGATE, result!.creditLine!.id));
+      expect(link).toMatchObject({
+        eventType: CREDIT_LINE_CHAIN_LINKED,
+        payload: { contractId: CONTRACT, borrower: BORROWER }
+      });
+    });
+
+    it('should reject a second credit line for the same borrower on the contract', async () => {
+      await service.ingest(created());
+
+      await expect(service.ingest(created())).rejects.toThrow(InvalidContractEventError);
+      expect(await creditLineRepository.count()).toBe(1);
+    });
+
+    it('should apply draws as confirmed borrow transactions', async () => {
+      await service.ingest(created(1000));
+
+      const result = await service.ingest(contractEvent('draw', units(250), { txHash: 'abc123' }));
+
+      expect(result!.creditLine!.availableCredit).toBe('750');
+      expect(result!.transaction).toMatchObject({
+        amount: '250',
+        type: TransactionType.BORROW,
+        status: TransactionStatus.CONFIRMED,
+        blockchainTxHash: 'abc123',
+        processedAt: new Date('2024-03-10T12:00:00Z')
+      });
+    });
+
+    it('should read the amount from a data map', async () => {
+      await service.ingest(created(1000));
+
+      const result = await service.ingest(
+        contractEvent('draw', { map: [{ key: { symbol: 'amount' }, val: { i128: '1005000000' } }] })
+      );
+
+      expect(result!.transaction!.amount).toBe('100.5');
+    });
+
+    it('should settle accrued interest before principal on repay', async () => {
+      const line = (await service.ingest(created(1000)))!.creditLine!;
+      await service.ingest(contractEvent('draw', units(400)));
+      await creditLineRepository.update(line.id, { accruedInterest: '5' });
+
+      const result = await service.ingest(contractEvent('repay', units(105)));
+
+      expect(result!.creditLine).toMatchObject({ availableCredit: '700', accruedInterest: '0' });
+      expect(result!.transaction).toMatchObject({ amount: '105', type: TransactionType.REPAY });
+    });
+
+    it('should mark the line defaulted and record the status change', async () => {
+      const line = (await service.ingest(created()))!.creditLine!;
+
+      const result = await service.ingest(contractEvent('default', { void: null }, { ledger: 4242 }));
+
+      expect(result!.creditLine!.status).toBe(CreditLineStatus.DEFAULTED);
+      const statusEvents = (await eventRepository.findByAggregate(CREDIT_LINE_AGGREGATE, line.id))
+        .filter(event => event.eventType === CREDIT_LINE_STATUS_CHANGED);
+      expect(statusEvents).toHaveLength(1);
+      expect(statusEvents[0]!.payload).toEqual({
+        action: 'default',
+        from: CreditLineStatus.ACTIVE,
+        to: CreditLineStatus.DEFAULTED,
+        actor: `contract:${CONTRACT}`,
+        reason: 'Defaulted on-chain in ledger 4242'
+      });
+    });
+
+    it('should store events for unknown credit lines, so the events after them are projected', async () => {
+      const unlinked = contractEvent('draw', units(10), { topics: ['draw', 'GOTHERBORROWER'] });
+      const later = [created(1000), contractEvent('draw', units(10))];
+
+      await expect(service.ingest(unlinked)).rejects.toThrow(UnlinkedCreditLineError);
+      expect(await eventRepository.findByIdempotencyKey(contractEventIdempotencyKey(unlinked))).not.toBeNull();
+
+      // The listener redelivers the page from the failed event onwards.
+      expect(await service.ingest(unlinked)).toBeNull();
+      await service.ingest(later[0]!);
+      const result = await service.ingest(later[1]!);
+
+      expect(result!.creditLine!.availableCredit).toBe('990');
+      expect(result!.transaction).toMatchObject({ amount: '10', type: TransactionType.BORROW });
+      expect(await transactionRepository.count()).toBe(1);
+    });
+
+    it('should roll back a partly applied projection', async () => {
+      const line = (await service.ingest(created(1000)))!.creditLine!;
+      const draw = contractEvent('draw', units(100));
+      vi.spyOn(transactionRepository, 'create').mockRejectedValueOnce(new Error('connection reset'));
+
+      await expect(service.ingest(draw)).rejects.toThrow('connection reset');
+      expect((await creditLineRepository.findById(line.id))!.availableCredit).toBe('1000');
+
+      await service.ingest(draw);
+      expect((await creditLineRepository.findById(line.id))!.availableCredit).toBe('900');
+      expect(await transactionRepository.count()).toBe(1);
+    });
+
+    it('should store events that can never be projected, so they are not retried', async () => {
+      await service.ingest(created());
+      const event = contractEvent('draw', { symbol: 'lots' });
+
+      await expect(service.ingest(event)).rejects.toThrow(InvalidContractEventError);
+
+      expect(await eventRepository.findByIdempotencyKey(contractEventIdempotencyKey(event))).not.toBeNull();
+      expect(await service.ingest(event)).toBeNull();
+    });
+
+    it('should reject malformed amounts', async () => {
+      await service.ingest(created());
+
+      await expect(service.ingest(contractEvent('draw', { symbol: 'lots' }))).rejects.toThrow('is not a non-negative integer');
+      await expect(service.ingest(contractEvent('draw', { i128: '0' }))).rejects.toThrow('amount must be positive');
+    });
+  });
+});
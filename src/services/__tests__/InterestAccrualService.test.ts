@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  InterestAccrualService,
+  INTEREST_ACCRUED,
+  accrualIdempotencyKey,
+  addDays,
+  periodOf,
+  periodStart
+} from '../InterestAccrualService.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork.js';
+import { type CreditLine, CreditLineStatus } from '../../models/CreditLine.js';
+import { TransactionType } from '../../models/Transaction.js';
+import { loadInterestAccrualConfig } from '../../config/interestAccrual.js';
+
+const PERIOD = '2024-03-10';
+
+describe('InterestAccrualService', () => {
+  let creditLineRepository: InMemoryCreditLineRepository;
+  let transactionRepository: InMemoryTransactionRepository;
+  let eventRepository: InMemoryEventRepository;
+  let unitOfWork: InMemoryUnitOfWork;
+  let service: InterestAccrualService;
+
+  beforeEach(() => {
+    // Lines are created on 2024-01-01, before every period in these tests.
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-01-01T00:00:00Z'));
+    creditLineRepository = new InMemoryCreditLineRepository();
+    transactionRepository = new InMemoryTransactionRepository(creditLineRepository);
+    eventRepository = new InMemoryEventRepository();
+    unitOfWork = new InMemoryUnitOfWork({
+      creditLines: creditLineRepository,
+      transactions: transactionRepository,
+      events: eventRepository
+    });
+    service = new InterestAccrualService(creditLineRepository, eventRepository, unitOfWork);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  /** A line with `drawn` outstanding at `interestRateBps`. */
+  async function createDrawnLine(drawn: string, interestRateBps = 3650, accruedInterest = '0'): Promise<CreditLine> {
+    const created = await creditLineRepository.create({ walletAddress: 'wallet123', creditLimit: '10000', interestRateBps });
+    const updated = await creditLineRepository.update(created.id, {
+      availableCredit: String(10000 - Number(drawn)),
+      accruedInterest
+    });
+    return updated!;
+  }
+
+  describe('periods', () => {
+    it('should use UTC calendar days', () => {
+      expect(periodOf(new Date('2024-03-10T23:59:59.999Z'))).toBe('2024-03-10');
+      expect(periodStart('2024-03-10').toISOString()).toBe('2024-03-10T00:00:00.000Z');
+      expect(addDays('2024-02-28', 1)).toBe('2024-02-29');
+      expect(addDays('2024-03-01', -1)).toBe('2024-02-29');
+    });
+
+    it('should reject malformed periods', () => {
+      expect(() => periodStart('2024-3-10')).toThrow('Invalid accrual period');
+      expect(() => periodStart('2023-02-29')).toThrow('Invalid accrual period');
+    });
+  });
+
+  describe('calculateDailyInterest', () => {
+    it('should charge simple interest on outstanding principal under ACT/365', async () => {
+      const line = await createDrawnLine('1000', 3650, '50');
+
+      // 1000 × 36.5% / 365
+      expect(service.calculateDailyInterest(line, PERIOD).amount).toBe('1');
+    });
+
+    it('should apply the configured day-count convention', async () => {
+      const line = await createDrawnLine('1000', 3600);
+      const act360 = new InterestAccrualService(creditLineRepository, eventRepository, unitOfWork, {
+        dayCount: 'ACT/360'
+      });
+      const actAct = new InterestAccrualService(creditLineRepository, eventRepository, unitOfWork, {
+        dayCount: 'ACT/ACT'
+      });
+
+      expect(act360.calculateDailyInterest(line, PERIOD).amount).toBe('1');
+      // 2024 is a leap year: 1000 × 36% / 366, rounded half-even to 8 places
+      expect(actAct.calculateDailyInterest(line, PERIOD).amount).toBe('0.98360656');
+      expect(actAct.calculateDailyInterest(line, '2023-03-10').amount).toBe('0.98630137');
+    });
+
+    it('should include accrued interest in the base when compounding', async () => {
+      const line = await createDrawnLine('1000', 3650, '50');
+      const compound = new InterestAccrualService(creditLineRepository, eventRepository, unitOfWork, {
+        compounding: 'compound'
+      });
+
+      expect(compound.calculateDailyInterest(line, PERIOD).amount).toBe('1.05');
+    });
+
+    it('should be zero when nothing is drawn', async () => {
+      const line = await createDrawnLine('0');
+
+      expect(service.calculateDailyInterest(line, PERIOD).isZero()).toBe(true);
+    });
+  });
+
+  describe('accrueLine', () => {
+    it('should post an interest accrual transaction and increase accrued interest', async () => {
+      const line = await createDrawnLine('1000', 3650, '2.5');
+
+      const result = await service.accrueLine(line, PERIOD);
+
+      expect(result).not.toBeNull();
+      expect(result!.creditLine.accruedInterest).toBe('3.5');
+      expect(result!.creditLine.availableCredit).toBe('9000');
+      expect(result!.transaction).toMatchObject({
+        creditLineId: line.id,
+        amount: '1',
+        currency: 'USDC',
+        type: TransactionType.INTEREST_ACCRUAL
+      });
+      expect(result!.event).toMatchObject({
+        eventType: INTEREST_ACCRUED,
+        aggregateId: line.id,
+        idempotencyKey: accrualIdempotencyKey(line.id, PERIOD),
+        payload: { period: PERIOD, amount: '1', dayCount: 'ACT/365', compounding: 'simple' }
+      });
+    });
+
+    it('should accrue each line at most once per period', async () => {
+      const line = await createDrawnLine('1000');
+
+      await service.accrueLine(line, PERIOD);
+      const again = await service.accrueLine((await creditLineRepository.findById(line.id))!, PERIOD);
+
+      expect(again).toBeNull();
+      expect((await creditLineRepository.findById(line.id))!.accruedInterest).toBe('1');
+      expect(await transactionRepository.count()).toBe(1);
+    });
+
+    it('should skip closed lines and periods before the line was created', async () => {
+      const line = await createDrawnLine('1000');
+
+      expect(await service.accrueLine({ ...line, status: CreditLineStatus.CLOSED }, PERIOD)).toBeNull();
+      expect(await service.accrueLine(line, '2023-12-31')).toBeNull();
+      expect(await transactionRepository.count()).toBe(0);
+    });
+
+    it('should charge interest on the balance at posting time', async () => {
+      const line = await createDrawnLine('1000', 3650, '2.5');
+      // A repayment lands after the line was read for the run.
+      await creditLineRepository.adjustBalances(line.id, { availableCredit: '500', accruedInterest: '-2.5' });
+
+      const result = await service.accrueLine(line, PERIOD);
+
+      expect(result!.transaction.amount).toBe('0.5');
+      expect(result!.creditLine).toMatchObject({ availableCredit: '9500', accruedInterest: '0.5' });
+    });
+
+    it('should post nothing when the accrual cannot be recorded, so a rerun posts it', async () => {
+      const line = await createDrawnLine('1000');
+      vi.spyOn(transactionRepository, 'create').mockRejectedValueOnce(new Error('ledger unavailable'));
+
+      await expect(service.accrueLine(line, PERIOD)).rejects.toThrow('ledger unavailable');
+      expect((await creditLineRepository.findById(line.id))!.accruedInterest).toBe('0');
+      expect(await eventRepository.findByIdempotencyKey(accrualIdempotencyKey(line.id, PERIOD))).toBeNull();
+
+      const rerun = await service.accrueLine(line, PERIOD);
+      expect(rerun!.creditLine.accruedInterest).toBe('1');
+    });
+
+    it('should accrue suspended lines', async () => {
+      const line = await createDrawnLine('1000');
+
+      const result = await service.accrueLine({ ...line, status: CreditLineStatus.SUSPENDED }, PERIOD);
+
+      expect(result!.transaction.amount).toBe('1');
+    });
+  });
+
+  describe('accruePeriod', () => {
+    it('should accrue every line with an outstanding balance', async () => {
+      const drawn = await createDrawnLine('1000');
+      await createDrawnLine('0');
+
+      const summary = await service.accruePeriod(PERIOD);
+
+      expect(summary.period).toBe(PERIOD);
+      expect(summary.posted.map(result => result.creditLine.id)).toEqual([drawn.id]);
+      expect(summary.skipped).toBe(1);
+    });
+
+    it('should post nothing when rerun for the same period', async () => {
+      await createDrawnLine('1000');
+      await service.accruePeriod(PERIOD);
+
+      const rerun = await service.accruePeriod(PERIOD);
+
+      expect(rerun.posted).toHaveLength(0);
+      expect(await transactionRepository.count()).toBe(1);
+    });
+  });
+
+  describe('catchUp', () => {
+    it('should accrue each missed period once, compounding on the latest balance', async () => {
+      const line = await createDrawnLine('1000', 3650);
+      const compound = new InterestAccrualService(creditLineRepository, eventRepository, unitOfWork, {
+        compounding: 'compound'
+      });
+      await compound.accruePeriod('2024-03-09');
+
+      const summaries = await compound.catchUp('2024-03-08', PERIOD);
+
+      expect(summaries.map(summary => summary.period)).toEqual(['2024-03-08', '2024-03-09', PERIOD]);
+      expect(summaries.map(summary => summary.posted.length)).toEqual([1, 0, 1]);
+      // 1 (03-09) + 1.001 (03-08 on 1001) + 1.002001 (03-10 on 1002.001)
+      expect((await creditLineRepository.findById(line.id))!.accruedInterest).toBe('3.003001');
+      const { total } = await transactionRepository.query({ creditLineId: line.id, type: TransactionType.INTEREST_ACCRUAL });
+      expect(total).toBe(3);
+    });
+
+    it('should reject a range that ends before it starts', async () => {
+      await expect(service.catchUp(PERIOD, '2024-03-09')).rejects.toThrow('is after');
+    });
+  });
+});
+
+describe('loadInterestAccrualConfig', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('defaults to ACT/365 simple interest without catch-up', () => {
+    delete process.env.INTEREST_DAY_COUNT;
+    delete process.env.INTEREST_COMPOUNDING;
+    delete process.env.INTEREST_CATCH_UP_DAYS;
+
+    expect(loadInterestAccrualConfig()).toEqual({ dayCount: 'ACT/365', compounding: 'simple', catchUpDays: 0 });
+  });
+
+  it('reads the settings from the environment', () => {
+    process.env.INTEREST_DAY_COUNT = 'ACT/360';
+    process.env.INTEREST_COMPOUNDING = 'compound';
+    process.env.INTEREST_CATCH_UP_DAYS = '7';
+
+    expect(loadInterestAccrualConfig()).toEqual({ dayCount: 'ACT/360', compounding: 'compound', catchUpDays: 7 });
+  });
+
+  it('throws on unrecognised values', () => {
+    process.env.INTEREST_DAY_COUNT = '30/360';
+    expect(() => loadInterestAccrualConfig()).toThrow(/INTEREST_DAY_COUNT/);
+
+    delete process.env.INTEREST_DAY_COUNT;
+    process.env.INTEREST_COMPOUNDING = 'monthly';
+    expect(() => loadInterestAccrualConfig()).toThrow(/INTEREST_COMPOUNDING/);
+
+    delete process.env.INTEREST_COMPOUNDING;
+    process.env.INTEREST_CATCH_UP_DAYS = '-1';
+    expect(() => loadInterestAccrualConfig()).toThrow(/INTEREST_CATCH_UP_DAYS/);
+  });
+});
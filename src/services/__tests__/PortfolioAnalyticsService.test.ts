@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { PortfolioAnalyticsService } from '../PortfolioAnalyticsService.js';
+import type { PortfolioSegmentTotals } from '../../models/Portfolio.js';
+import type { PortfolioRepository } from '../../repositories/interfaces/PortfolioRepository.js';
+
+const totals = (key: string, totalLimit: string, exposure: string, currency = 'USDC'): PortfolioSegmentTotals => ({
+  key,
+  currency,
+  lineCount: 1,
+  borrowerCount: 1,
+  totalLimit,
+  exposure
+});
+
+const service = (segments: PortfolioSegmentTotals[]) => {
+  const repository: PortfolioRepository = { summarize: async () => segments };
+  return new PortfolioAnalyticsService(repository);
+};
+
+describe('PortfolioAnalyticsService', () => {
+  it('should add utilization rounded to four places', async () => {
+    const segments = await service([totals('total', '3000', '1000'), totals('total', '0', '0', 'XLM')]).getSegments('total');
+
+    expect(segments.map(segment => segment.utilization)).toEqual([0.3333, 0]);
+  });
+
+  it('should order risk levels from low to high, then unrated', async () => {
+    const segments = await service([
+      totals('high', '100', '0'),
+      totals('low', '100', '0'),
+      totals('low', '100', '0', 'XLM'),
+      totals('medium', '100', '0'),
+      totals('unrated', '100', '0')
+    ]).getSegments('riskLevel');
+
+    expect(segments.map(segment => `${segment.key}/${segment.currency}`)).toEqual([
+      'low/USDC',
+      'low/XLM',
+      'medium/USDC',
+      'high/USDC',
+      'unrated/USDC'
+    ]);
+  });
+});
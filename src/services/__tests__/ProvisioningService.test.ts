@@ -0,0 +1,209 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  DEFAULT_PROVISIONING_POLICY,
+  InvalidProvisioningPeriodError,
+  PROVISIONING_REPORT,
+  ProvisioningReportExistsError,
+  ProvisioningService,
+  probabilityOfDefault,
+  validateProvisioningPolicy
+} from '../ProvisioningService.js';
+import { loadProvisioningPolicy } from '../../config/provisioning.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork.js';
+import { InMemoryRiskEvaluationRepository } from '../../repositories/memory/InMemoryRiskEvaluationRepository.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+
+describe('ProvisioningService', () => {
+  let creditLines: InMemoryCreditLineRepository;
+  let evaluations: InMemoryRiskEvaluationRepository;
+  let events: InMemoryEventRepository;
+  let service: ProvisioningService;
+
+  const evaluate = (walletAddress: string, riskScore: number) =>
+    evaluations.save({
+      walletAddress,
+      riskScore,
+      creditLimit: '500',
+      interestRateBps: 750,
+      factors: [],
+      modelVersion: 1,
+      evaluatedAt: new Date(),
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000)
+    });
+
+  beforeEach(async () => {
+    creditLines = new InMemoryCreditLineRepository();
+    evaluations = new InMemoryRiskEvaluationRepository();
+    events = new InMemoryEventRepository();
+    const transactions = new InMemoryTransactionRepository(creditLines);
+    service = new ProvisioningService(
+      creditLines,
+      evaluations,
+      events,
+      new InMemoryUnitOfWork({ creditLines, transactions, events })
+    );
+
+    // Active, partly drawn, with interest due; low risk.
+    const active = await creditLines.create({ walletAddress: 'wallet-a', creditLimit: '1000', interestRateBps: 500 });
+    await creditLines.update(active.id, { availableCredit: '600', accruedInterest: '10' });
+    await evaluate('wallet-a', 20);
+
+    // Suspended, so its undrawn credit cannot be drawn; high risk.
+    const suspended = await creditLines.create({ walletAddress: 'wallet-b', creditLimit: '500', interestRateBps: 500 });
+    await creditLines.update(suspended.id, { availableCredit: '300', status: CreditLineStatus.SUSPENDED });
+    await evaluate('wallet-b', 75);
+
+    // Defaulted and never evaluated.
+    const defaulted = await creditLines.create({ walletAddress: 'wallet-c', creditLimit: '300', interestRateBps: 500 });
+    await creditLines.update(defaulted.id, { availableCredit: '0', accruedInterest: '5', status: CreditLineStatus.DEFAULTED });
+
+    // Closed lines carry no exposure.
+    const closed = await creditLines.create({ walletAddress: 'wallet-d', creditLimit: '800', interestRateBps: 500 });
+    await creditLines.update(closed.id, { status: CreditLineStatus.CLOSED });
+
+    // Undrawn, in another currency, never evaluated.
+    await creditLines.create({ walletAddress: 'wallet-e', creditLimit: '100', interestRateBps: 500, currency: 'XLM' });
+  });
+
+  it('should compute PD, EAD and expected loss per line', async () => {
+    const { lines } = await service.calculate();
+
+    expect(lines.map(({ walletAddress, riskScore, pd, drawn, undrawn, ead, expectedLoss }) => ({
+      walletAddress, riskScore, pd, drawn, undrawn, ead, expectedLoss
+    }))).toEqual([
+      { walletAddress: 'wallet-a', riskScore: 20, pd: 0.01, drawn: '400', undrawn: '300', ead: '710', expectedLoss: '3.195' },
+      { walletAddress: 'wallet-b', riskScore: 75, pd: 0.2, drawn: '200', undrawn: '0', ead: '200', expectedLoss: '18' },
+      { walletAddress: 'wallet-c', riskScore: null, pd: 1, drawn: '300', undrawn: '0', ead: '305', expectedLoss: '137.25' },
+      { walletAddress: 'wallet-e', riskScore: null, pd: 0.2, drawn: '0', undrawn: '50', ead: '50', expectedLoss: '4.5' }
+    ]);
+  });
+
+  it('should total the book per currency', async () => {
+    const { totals, policy } = await service.calculate();
+
+    expect(totals).toEqual([
+      { currency: 'USDC', lineCount: 3, ead: '1215', expectedLoss: '158.445' },
+      { currency: 'XLM', lineCount: 1, ead: '50', expectedLoss: '4.5' }
+    ]);
+    expect(policy).toEqual(DEFAULT_PROVISIONING_POLICY);
+  });
+
+  it('should freeze one report per period', async () => {
+    const report = await service.createReport('2026-09-30', new Date('2026-10-01T09:00:00Z'));
+    await evaluate('wallet-a', 90);
+
+    expect(report).toMatchObject({ periodEnd: '2026-09-30', generatedAt: '2026-10-01T09:00:00.000Z' });
+    expect(await service.getReport('2026-09-30')).toEqual(report);
+    await expect(service.createReport('2026-09-30', new Date('2026-10-02T09:00:00Z')))
+      .rejects.toBeInstanceOf(ProvisioningReportExistsError);
+    expect(await events.count(PROVISIONING_REPORT)).toBe(1);
+    expect(await service.getReport('2026-08-31')).toBeNull();
+  });
+
+  it('should reject periods in the future or before the latest report', async () => {
+    const now = new Date('2026-10-01T09:00:00Z');
+    await expect(service.createReport('2026-10-02', now)).rejects.toBeInstanceOf(InvalidProvisioningPeriodError);
+
+    await service.createReport('2026-09-30', now);
+    await expect(service.createReport('2026-08-31', now)).rejects.toThrow('a report for 2026-09-30 already exists');
+    await service.createReport('2026-10-01', now);
+
+    expect(await events.count(PROVISIONING_REPORT)).toBe(2);
+    expect(await service.getReport('2026-08-31')).toBeNull();
+  });
+
+  it('should not freeze an earlier period concurrently with a later one', async () => {
+    const now = new Date('2026-10-01T09:00:00Z');
+
+    const results = await Promise.allSettled([
+      service.createReport('2026-09-30', now),
+      service.createReport('2026-08-31', now)
+    ]);
+
+    expect(results.map(result => result.status)).toEqual(['fulfilled', 'rejected']);
+    expect((results[1] as PromiseRejectedResult).reason).toBeInstanceOf(InvalidProvisioningPeriodError);
+    expect(await service.getReport('2026-08-31')).toBeNull();
+  });
+
+  it('should look up PD by the highest band a score reaches', () => {
+    const { pdTable } = DEFAULT_PROVISIONING_POLICY;
+    expect(probabilityOfDefault(pdTable, 0)).toBe(0.01);
+    expect(probabilityOfDefault(pdTable, 39)).toBe(0.01);
+    expect(probabilityOfDefault(pdTable, 40)).toBe(0.05);
+    expect(probabilityOfDefault(pdTable, 100)).toBe(0.2);
+  });
+
+  it('should reject unusable policies', () => {
+    const policy = DEFAULT_PROVISIONING_POLICY;
+    expect(() => validateProvisioningPolicy({ ...policy, pdTable: [{ minScore: 10, pd: 0.1 }] })).toThrow('start at score 0');
+    expect(() =>
+      validateProvisioningPolicy({ ...policy, pdTable: [{ minScore: 0, pd: 0.1 }, { minScore: 50, pd: 0.05 }] })
+    ).toThrow('must not fall');
+    expect(() =>
+      validateProvisioningPolicy({ ...policy, pdTable: [{ minScore: 0, pd: 0.1 }, { minScore: 0, pd: 0.2 }] })
+    ).toThrow('ascending');
+    expect(() => validateProvisioningPolicy({ ...policy, lgd: 1.5 })).toThrow('LGD');
+  });
+});
+
+describe('loadProvisioningPolicy', () => {
+  const names = ['PROVISIONING_PD_TABLE', 'PROVISIONING_UNRATED_PD', 'PROVISIONING_LGD', 'PROVISIONING_CCF'];
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(names.map(name => [name, process.env[name]]));
+    for (const name of names) delete process.env[name];
+  });
+
+  afterEach(() => {
+    for (const name of names) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('should default to the built-in policy', () => {
+    expect(loadProvisioningPolicy()).toEqual(DEFAULT_PROVISIONING_POLICY);
+  });
+
+  it('should read the policy from the environment', () => {
+    process.env.PROVISIONING_PD_TABLE = '0:0.02, 50:0.1, 80:0.4';
+    process.env.PROVISIONING_UNRATED_PD = '0.4';
+    process.env.PROVISIONING_LGD = '0.6';
+    process.env.PROVISIONING_CCF = '1';
+
+    expect(loadProvisioningPolicy()).toEqual({
+      pdTable: [
+        { minScore: 0, pd: 0.02 },
+        { minScore: 50, pd: 0.1 },
+        { minScore: 80, pd: 0.4 }
+      ],
+      unratedPd: 0.4,
+      lgd: 0.6,
+      ccf: 1
+    });
+  });
+
+  it('should reject invalid values', () => {
+    process.env.PROVISIONING_LGD = '45%';
+    expect(() => loadProvisioningPolicy()).toThrow('PROVISIONING_LGD');
+
+    delete process.env.PROVISIONING_LGD;
+    process.env.PROVISIONING_PD_TABLE = '0:0.02,50';
+    expect(() => loadProvisioningPolicy()).toThrow('PROVISIONING_PD_TABLE');
+
+    process.env.PROVISIONING_PD_TABLE = '10:0.02';
+    expect(() => loadProvisioningPolicy()).toThrow('PROVISIONING_PD_TABLE');
+
+    delete process.env.PROVISIONING_PD_TABLE;
+    process.env.PROVISIONING_UNRATED_PD = '1.5';
+    expect(() => loadProvisioningPolicy()).toThrow(/^PROVISIONING_UNRATED_PD/);
+
+    delete process.env.PROVISIONING_UNRATED_PD;
+    process.env.PROVISIONING_CCF = '-0.5';
+    expect(() => loadProvisioningPolicy()).toThrow(/^PROVISIONING_CCF/);
+  });
+});
@@ -0,0 +1,233 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  DEFAULT_RISK_DRIFT_POLICY,
+  RISK_DRIFT_ACTOR,
+  RISK_SCORE_DRIFT,
+  RiskDriftService,
+  type RiskDriftPolicy,
+  WALLET_AGGREGATE,
+  validateRiskDriftPolicy
+} from '../RiskDriftService.js';
+import { CreditLineService } from '../CreditLineService.js';
+import { RiskModelService } from '../RiskModelService.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../riskModel.js';
+import { loadRiskDriftPolicy } from '../../config/riskDrift.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { InMemoryUnitOfWork } from '../../repositories/memory/InMemoryUnitOfWork.js';
+import { InMemoryEventRepository } from '../../repositories/memory/InMemoryEventRepository.js';
+import { InMemoryRiskEvaluationRepository } from '../../repositories/memory/InMemoryRiskEvaluationRepository.js';
+import { InMemoryRiskModelRepository } from '../../repositories/memory/InMemoryRiskModelRepository.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+import type { RiskEvaluation } from '../../models/RiskEvaluation.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const START = Date.now() - 24 * HOUR_MS;
+
+describe('RiskDriftService', () => {
+  let evaluations: InMemoryRiskEvaluationRepository;
+  let events: InMemoryEventRepository;
+  let models: RiskModelService;
+  let creditLines: InMemoryCreditLineRepository;
+  let unitOfWork: InMemoryUnitOfWork;
+  let creditLineService: CreditLineService;
+  let evaluationCount: number;
+
+  const service = (policy: RiskDriftPolicy = DEFAULT_RISK_DRIFT_POLICY) =>
+    new RiskDriftService(evaluations, models, creditLineService, events, unitOfWork, policy);
+
+  const evaluate = async (riskScore: number, overrides: Partial<RiskEvaluation> = {}): Promise<RiskEvaluation> =>
+    await evaluations.save({
+      walletAddress: 'wallet123',
+      riskScore,
+      creditLimit: '500',
+      interestRateBps: 750,
+      factors: [],
+      modelVersion: 1,
+      evaluatedAt: new Date(START + ++evaluationCount * HOUR_MS),
+      expiresAt: new Date(START + 48 * HOUR_MS),
+      ...overrides
+    });
+
+  beforeEach(() => {
+    evaluations = new InMemoryRiskEvaluationRepository();
+    events = new InMemoryEventRepository();
+    models = new RiskModelService(new InMemoryRiskModelRepository());
+    creditLines = new InMemoryCreditLineRepository();
+    const transactions = new InMemoryTransactionRepository(creditLines);
+    unitOfWork = new InMemoryUnitOfWork({ creditLines, transactions, events });
+    creditLineService = new CreditLineService(creditLines, transactions, events, unitOfWork);
+    evaluationCount = 0;
+  });
+
+  it('should raise an alert when the score rises by the threshold for its new level', async () => {
+    const previous = await evaluate(30);
+    const current = await evaluate(45);
+
+    const alert = await service().checkEvaluation(current);
+
+    expect(alert).toMatchObject({
+      eventType: RISK_SCORE_DRIFT,
+      aggregateType: WALLET_AGGREGATE,
+      aggregateId: 'wallet123',
+      payload: {
+        evaluationId: current.id,
+        previousEvaluationId: previous.id,
+        modelVersion: 1,
+        previousScore: 30,
+        riskScore: 45,
+        change: 15,
+        riskLevel: 'medium',
+        threshold: 15,
+        suspendedCreditLineIds: []
+      }
+    });
+  });
+
+  it('should compare with the evaluation just before, not the latest', async () => {
+    await evaluate(10);
+    const current = await evaluate(25);
+    await evaluate(80);
+
+    expect(await service().checkEvaluation(current)).toBeNull();
+  });
+
+  it('should ignore improvements, small rises and first evaluations', async () => {
+    const first = await evaluate(60);
+    const improved = await evaluate(40);
+    const smallRise = await evaluate(54);
+
+    for (const evaluation of [first, improved, smallRise]) {
+      expect(await service().checkEvaluation(evaluation)).toBeNull();
+    }
+    expect(await events.count()).toBe(0);
+  });
+
+  it('should not compare evaluations under different model versions', async () => {
+    await models.publish({ ...DEFAULT_RISK_MODEL_CONFIG, baseRateBps: 300 });
+    await evaluate(10);
+    const recalibrated = await evaluate(60, { modelVersion: 2 });
+
+    expect(await service().checkEvaluation(recalibrated)).toBeNull();
+  });
+
+  it('should record each evaluation once', async () => {
+    await evaluate(20);
+    const current = await evaluate(75);
+
+    expect(await service().checkEvaluation(current)).not.toBeNull();
+    expect(await service().checkEvaluation(current)).toBeNull();
+    expect(await events.count(RISK_SCORE_DRIFT)).toBe(1);
+  });
+
+  it('should suspend active credit lines when auto-suspend is on', async () => {
+    const active = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 });
+    const closed = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '500', interestRateBps: 500 });
+    await creditLineService.transition(closed.id, 'close', { actor: 'ops', reason: 'Duplicate' });
+    await evaluate(20);
+    const current = await evaluate(75);
+
+    const alert = await service({ ...DEFAULT_RISK_DRIFT_POLICY, autoSuspend: true }).checkEvaluation(current);
+
+    expect(alert!.payload.suspendedCreditLineIds).toEqual([active.id]);
+    const history = await creditLineService.getStatusHistory(active.id);
+    expect(history.at(-1)!.payload).toMatchObject({
+      to: CreditLineStatus.SUSPENDED,
+      actor: RISK_DRIFT_ACTOR,
+      reason: 'Risk score rose from 20 to 75'
+    });
+    expect((await creditLineService.getCreditLine(closed.id))!.status).toBe(CreditLineStatus.CLOSED);
+  });
+
+  it('should skip lines that are no longer active once locked', async () => {
+    const active = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 });
+    const closing = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '500', interestRateBps: 500 });
+    const listed = await creditLines.findByWalletAddress('wallet123');
+    await creditLineService.transition(closing.id, 'close', { actor: 'ops', reason: 'Borrower request' });
+    // The wallet's lines were listed before the close committed.
+    vi.spyOn(creditLines, 'findByWalletAddress').mockResolvedValueOnce(listed);
+    await evaluate(20);
+    const current = await evaluate(75);
+
+    const alert = await service({ ...DEFAULT_RISK_DRIFT_POLICY, autoSuspend: true }).checkEvaluation(current);
+
+    expect(alert!.payload.suspendedCreditLineIds).toEqual([active.id]);
+    expect((await creditLineService.getCreditLine(closing.id))!.status).toBe(CreditLineStatus.CLOSED);
+  });
+
+  it('should record neither suspensions nor the alert when the check fails partway', async () => {
+    const first = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '1000', interestRateBps: 500 });
+    const second = await creditLineService.createCreditLine({ walletAddress: 'wallet123', creditLimit: '500', interestRateBps: 500 });
+    await evaluate(20);
+    const current = await evaluate(75);
+    const drift = service({ ...DEFAULT_RISK_DRIFT_POLICY, autoSuspend: true });
+    vi.spyOn(creditLines, 'update')
+      .mockImplementationOnce(creditLines.update.bind(creditLines))
+      .mockRejectedValueOnce(new Error('connection reset'));
+
+    await expect(drift.checkEvaluation(current)).rejects.toThrow('connection reset');
+    expect((await creditLineService.getCreditLine(first.id))!.status).toBe(CreditLineStatus.ACTIVE);
+    expect(await events.count()).toBe(0);
+
+    const alert = await drift.checkEvaluation(current);
+    expect(alert!.payload.suspendedCreditLineIds).toEqual([first.id, second.id]);
+  });
+
+  it('should list alerts newest first with their total', async () => {
+    await evaluate(10);
+    const first = await service().checkEvaluation(await evaluate(40));
+    const second = await service().checkEvaluation(await evaluate(90));
+
+    expect(await service().getAlerts()).toEqual({ items: [second, first], total: 2 });
+    expect(await service().getAlerts(1, 1)).toEqual({ items: [first], total: 2 });
+  });
+
+  it('should reject thresholds outside 1 to 100', () => {
+    const thresholds = DEFAULT_RISK_DRIFT_POLICY.thresholds;
+    expect(() => validateRiskDriftPolicy({ ...DEFAULT_RISK_DRIFT_POLICY, thresholds: { ...thresholds, high: 0 } })).toThrow(
+      'high risk'
+    );
+    expect(() => validateRiskDriftPolicy({ ...DEFAULT_RISK_DRIFT_POLICY, thresholds: { ...thresholds, low: 2.5 } })).toThrow(
+      'low risk'
+    );
+  });
+});
+
+describe('loadRiskDriftPolicy', () => {
+  const names = ['RISK_DRIFT_THRESHOLD_LOW', 'RISK_DRIFT_THRESHOLD_MEDIUM', 'RISK_DRIFT_THRESHOLD_HIGH', 'RISK_DRIFT_AUTO_SUSPEND'];
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(names.map(name => [name, process.env[name]]));
+    for (const name of names) delete process.env[name];
+  });
+
+  afterEach(() => {
+    for (const name of names) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('should default to alerting without suspending', () => {
+    expect(loadRiskDriftPolicy()).toEqual(DEFAULT_RISK_DRIFT_POLICY);
+  });
+
+  it('should read the policy from the environment', () => {
+    process.env.RISK_DRIFT_THRESHOLD_LOW = '30';
+    process.env.RISK_DRIFT_THRESHOLD_MEDIUM = '20';
+    process.env.RISK_DRIFT_THRESHOLD_HIGH = '5';
+    process.env.RISK_DRIFT_AUTO_SUSPEND = 'true';
+
+    expect(loadRiskDriftPolicy()).toEqual({ thresholds: { low: 30, medium: 20, high: 5 }, autoSuspend: true });
+  });
+
+  it('should reject invalid values', () => {
+    process.env.RISK_DRIFT_THRESHOLD_HIGH = '0';
+    expect(() => loadRiskDriftPolicy()).toThrow('RISK_DRIFT_THRESHOLD_HIGH');
+
+    delete process.env.RISK_DRIFT_THRESHOLD_HIGH;
+    process.env.RISK_DRIFT_AUTO_SUSPEND = 'yes';
+    expect(() => loadRiskDriftPolicy()).toThrow('RISK_DRIFT_AUTO_SUSPEND');
+  });
+});
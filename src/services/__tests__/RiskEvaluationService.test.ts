@@ -2,10 +2,16 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { RiskEvaluationService } from '../RiskEvaluationService.js';
 import { RiskEvaluationRepository } from '../../repositories/interfaces/RiskEvaluationRepository.js';
 import { RiskEvaluation } from '../../models/RiskEvaluation.js';
+import { DEFAULT_RISK_FEATURES, DEFAULT_RISK_WEIGHTS, type RiskScoringPipeline } from '../riskScoring.js';
+import { RiskModelService } from '../RiskModelService.js';
+import { DEFAULT_RISK_MODEL_CONFIG, RiskModelNotFoundError } from '../riskModel.js';
+import { InMemoryRiskModelRepository } from '../../repositories/memory/InMemoryRiskModelRepository.js';
 
 describe('RiskEvaluationService', () => {
   let service: RiskEvaluationService;
   let mockRepository: RiskEvaluationRepository;
+  let scoring: Pick<RiskScoringPipeline, 'features'> & { score: ReturnType<typeof vi.fn<RiskScoringPipeline['score']>> };
+  let models: RiskModelService;
 
   beforeEach(() => {
     mockRepository = {
@@ -19,7 +25,16 @@ describe('RiskEvaluationService', () => {
       count: vi.fn()
     };
     
-    service = new RiskEvaluationService(mockRepository);
+    scoring = {
+      score: vi.fn<RiskScoringPipeline['score']>().mockResolvedValue({
+        riskScore: 30,
+        factors: [{ name: 'wallet_age', value: 0.7, weight: 1, input: 511 }]
+      }),
+      features: DEFAULT_RISK_FEATURES
+    };
+
+    models = new RiskModelService(new InMemoryRiskModelRepository());
+    service = new RiskEvaluationService(mockRepository, scoring, models);
   });
 
   describe('evaluateRisk', () => {
@@ -40,6 +55,7 @@ describe('RiskEvaluationService', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       };
@@ -68,6 +84,7 @@ describe('RiskEvaluationService', () => {
         creditLimit: '700.00',
         interestRateBps: 650,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       });
@@ -82,6 +99,62 @@ describe('RiskEvaluationService', () => {
       expect(mockRepository.save).toHaveBeenCalled();
     });
 
+    it('should price the evaluation from the pipeline score and record its factors', async () => {
+      vi.mocked(mockRepository.isValid).mockResolvedValue(false);
+
+      const result = await service.evaluateRisk({ walletAddress: 'wallet123' });
+
+      expect(scoring.score).toHaveBeenCalledWith('wallet123', expect.any(Date), DEFAULT_RISK_WEIGHTS);
+      expect(result).toMatchObject({ riskScore: 30, creditLimit: '700', interestRateBps: 650, modelVersion: 1 });
+      expect(mockRepository.save).toHaveBeenCalledWith(expect.objectContaining({
+        riskScore: 30,
+        factors: [{ name: 'wallet_age', value: 0.7, weight: 1, input: 511 }],
+        modelVersion: 1
+      }));
+    });
+
+    it('should price with the current model version', async () => {
+      const weights = { ...DEFAULT_RISK_WEIGHTS, wallet_age: 0.1, repayment_history: 0.45 };
+      await models.publish({
+        ...DEFAULT_RISK_MODEL_CONFIG,
+        weights,
+        limitCurve: [
+          { score: 0, creditLimit: '5000' },
+          { score: 20, creditLimit: '2000' },
+          { score: 100, creditLimit: '0' }
+        ],
+        baseRateBps: 400,
+        riskPremiumBps: 1000
+      });
+      vi.mocked(mockRepository.isValid).mockResolvedValue(false);
+
+      const result = await service.evaluateRisk({ walletAddress: 'wallet123' });
+
+      expect(scoring.score).toHaveBeenCalledWith('wallet123', expect.any(Date), weights);
+      // 2000 less 10/80 of the way down to 0
+      expect(result).toMatchObject({ creditLimit: '1750', interestRateBps: 700, modelVersion: 2 });
+    });
+
+    it('should not use a cached evaluation from an earlier model version', async () => {
+      await models.publish(DEFAULT_RISK_MODEL_CONFIG, 'Same terms, new version');
+      vi.mocked(mockRepository.isValid).mockResolvedValue(true);
+      vi.mocked(mockRepository.findLatestByWalletAddress).mockResolvedValue({
+        id: 'eval-123',
+        walletAddress: 'wallet123',
+        riskScore: 75,
+        creditLimit: '250',
+        interestRateBps: 875,
+        factors: [],
+        modelVersion: 1,
+        evaluatedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      });
+
+      const result = await service.evaluateRisk({ walletAddress: 'wallet123' });
+
+      expect(result).toMatchObject({ message: 'New risk evaluation completed', modelVersion: 2 });
+    });
+
     it('should force new evaluation when forceRefresh is true', async () => {
       const walletAddress = 'wallet123';
       const request = { walletAddress, forceRefresh: true };
@@ -93,6 +166,7 @@ describe('RiskEvaluationService', () => {
         creditLimit: '800.00',
         interestRateBps: 550,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       });
@@ -106,6 +180,134 @@ describe('RiskEvaluationService', () => {
     });
   });
 
+  describe('evaluateRiskBatch', () => {
+    const FIRST = 'GCKFBEIYV2U22IO2BJ4KVJOIP7XPWQGZBW3JXDC55CYIXB5NAXMCEKJA';
+    const SECOND = 'GAAZI4TCR3TY5OJHCTJC2A4QSY6CJWJH5IAJTGKIN2ER7LBNVKOCCWNB';
+
+    beforeEach(() => {
+      vi.mocked(mockRepository.isValid).mockResolvedValue(false);
+      vi.mocked(mockRepository.save).mockImplementation(async (evaluation) => ({ id: 'eval-789', ...evaluation }));
+    });
+
+    it('should report a result or an error per wallet, in order', async () => {
+      const failure = new Error('connect ECONNREFUSED 10.0.3.7:5432');
+      scoring.score.mockResolvedValueOnce({ riskScore: 30, factors: [] }).mockRejectedValueOnce(failure);
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      const results = await service.evaluateRiskBatch([FIRST, 'not-a-wallet', SECOND]);
+
+      expect(results).toEqual([
+        { walletAddress: FIRST, result: expect.objectContaining({ walletAddress: FIRST, riskScore: 30 }) },
+        { walletAddress: 'not-a-wallet', error: 'Invalid wallet address format.' },
+        { walletAddress: SECOND, error: 'Risk evaluation failed' }
+      ]);
+      expect(scoring.score).toHaveBeenCalledTimes(2);
+      expect(consoleError).toHaveBeenCalledWith(expect.stringContaining(SECOND), failure);
+      consoleError.mockRestore();
+    });
+
+    it('should evaluate a repeated wallet once', async () => {
+      const results = await service.evaluateRiskBatch([FIRST, FIRST]);
+
+      expect(results).toHaveLength(2);
+      expect(results[1]).toEqual(results[0]);
+      expect(mockRepository.save).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reuse cached evaluations unless forceRefresh is set', async () => {
+      vi.mocked(mockRepository.isValid).mockResolvedValue(true);
+      vi.mocked(mockRepository.findLatestByWalletAddress).mockResolvedValue({
+        id: 'eval-123',
+        walletAddress: FIRST,
+        riskScore: 40,
+        creditLimit: '600',
+        interestRateBps: 700,
+        factors: [],
+        modelVersion: 1,
+        evaluatedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      });
+
+      const [cached] = await service.evaluateRiskBatch([FIRST]);
+      expect(cached).toMatchObject({ result: { message: 'Using cached risk evaluation' } });
+
+      const [fresh] = await service.evaluateRiskBatch([FIRST], true);
+      expect(fresh).toMatchObject({ result: { message: 'New risk evaluation completed' } });
+      expect(mockRepository.isValid).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('reevaluate', () => {
+    it('should store a new evaluation under the given version', async () => {
+      await models.publish({ ...DEFAULT_RISK_MODEL_CONFIG, baseRateBps: 300 });
+      vi.mocked(mockRepository.save).mockImplementation(async (evaluation) => ({ id: 'eval-456', ...evaluation }));
+
+      const evaluation = await service.reevaluate('wallet123', 1);
+
+      expect(evaluation).toMatchObject({ id: 'eval-456', modelVersion: 1, interestRateBps: 650 });
+      expect(mockRepository.isValid).not.toHaveBeenCalled();
+    });
+
+    it('should reject unknown versions', async () => {
+      await expect(service.reevaluate('wallet123', 7)).rejects.toThrow(RiskModelNotFoundError);
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onEvaluationSaved', () => {
+    it('should pass on stored evaluations but not cached ones', async () => {
+      const listener = vi.fn();
+      service.onEvaluationSaved(listener);
+      vi.mocked(mockRepository.save).mockImplementation(async (evaluation) => ({ id: 'eval-456', ...evaluation }));
+      vi.mocked(mockRepository.isValid).mockResolvedValue(false);
+
+      await service.evaluateRisk({ walletAddress: 'wallet123' });
+      await service.reevaluate('wallet123', 1);
+
+      expect(listener).toHaveBeenCalledTimes(2);
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ id: 'eval-456', walletAddress: 'wallet123' }));
+
+      vi.mocked(mockRepository.isValid).mockResolvedValue(true);
+      vi.mocked(mockRepository.findLatestByWalletAddress).mockResolvedValue({
+        id: 'eval-456',
+        walletAddress: 'wallet123',
+        riskScore: 30,
+        creditLimit: '700',
+        interestRateBps: 650,
+        factors: [],
+        modelVersion: 1,
+        evaluatedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
+      });
+      await service.evaluateRisk({ walletAddress: 'wallet123' });
+
+      expect(listener).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fail the evaluation when a listener throws', async () => {
+      const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+      service.onEvaluationSaved(() => {
+        throw new Error('queue unavailable');
+      });
+      vi.mocked(mockRepository.save).mockImplementation(async (evaluation) => ({ id: 'eval-456', ...evaluation }));
+
+      await expect(service.reevaluate('wallet123', 1)).resolves.toMatchObject({ id: 'eval-456' });
+      expect(consoleError).toHaveBeenCalled();
+      consoleError.mockRestore();
+    });
+  });
+
+  describe('scoreWallet', () => {
+    it('should band the score with the current model without storing it', async () => {
+      await models.publish({ ...DEFAULT_RISK_MODEL_CONFIG, bands: { medium: 25, high: 60 } });
+
+      const result = await service.scoreWallet('wallet123');
+
+      expect(result).toMatchObject({ riskScore: 30, riskLevel: 'medium', modelVersion: 2 });
+      expect(mockRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getRiskEvaluation', () => {
     it('should return evaluation when found', async () => {
       const evaluation: RiskEvaluation = {
@@ -115,6 +317,7 @@ describe('RiskEvaluationService', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       };
@@ -136,6 +339,36 @@ describe('RiskEvaluationService', () => {
     });
   });
 
+  describe('explainRiskEvaluation', () => {
+    it('should explain an evaluation under the model version that produced it', async () => {
+      await models.publish({ ...DEFAULT_RISK_MODEL_CONFIG, bands: { medium: 20, high: 50 } });
+      vi.mocked(mockRepository.findById).mockResolvedValue({
+        id: 'eval-123',
+        walletAddress: 'wallet123',
+        riskScore: 30,
+        creditLimit: '700',
+        interestRateBps: 650,
+        factors: [{ name: 'wallet_age', value: 0.7, weight: 1 }],
+        modelVersion: 1,
+        evaluatedAt: new Date(),
+        expiresAt: new Date()
+      });
+
+      const result = await service.explainRiskEvaluation('eval-123');
+
+      expect(result).toMatchObject({ evaluationId: 'eval-123', riskLevel: 'low', modelVersion: 1, thresholdsCrossed: [] });
+      expect(result?.reasons).toEqual([
+        expect.objectContaining({ code: 'SHORT_ACCOUNT_HISTORY', factor: 'wallet_age', contribution: 30 })
+      ]);
+    });
+
+    it('should return null when the evaluation is not found', async () => {
+      vi.mocked(mockRepository.findById).mockResolvedValue(null);
+
+      expect(await service.explainRiskEvaluation('nonexistent')).toBeNull();
+    });
+  });
+
   describe('getLatestRiskEvaluation', () => {
     it('should return latest evaluation for wallet', async () => {
       const evaluation: RiskEvaluation = {
@@ -145,6 +378,7 @@ describe('RiskEvaluationService', () => {
         creditLimit: '1000.00',
         interestRateBps: 500,
         factors: [],
+        modelVersion: 1,
         evaluatedAt: new Date(),
         expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
       };
@@ -168,6 +402,7 @@ describe('RiskEvaluationService', () => {
           creditLimit: '1000.00',
           interestRateBps: 500,
           factors: [],
+          modelVersion: 1,
           evaluatedAt: new Date(),
           expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000)
         }
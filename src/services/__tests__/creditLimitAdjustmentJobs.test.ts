@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobQueue } from '../jobQueue.js';
+import type { RiskEvaluationListener, RiskEvaluationService } from '../RiskEvaluationService.js';
+import type { CreditLimitAdjustmentService, CreditLimitPolicy } from '../CreditLimitAdjustmentService.js';
+import { DEFAULT_CREDIT_LIMIT_POLICY } from '../CreditLimitAdjustmentService.js';
+import { CREDIT_LIMIT_ADJUSTMENT_JOB, registerCreditLimitAdjustment } from '../creditLimitAdjustmentJobs.js';
+import type { RiskEvaluation } from '../../models/RiskEvaluation.js';
+
+const evaluation = (id: string): RiskEvaluation => ({
+  id,
+  walletAddress: 'wallet123',
+  riskScore: 20,
+  creditLimit: '800',
+  interestRateBps: 600,
+  factors: [],
+  modelVersion: 1,
+  evaluatedAt: new Date(),
+  expiresAt: new Date()
+});
+
+describe('registerCreditLimitAdjustment', () => {
+  let queue: InMemoryJobQueue;
+  let listeners: RiskEvaluationListener[];
+  let evaluations: { onEvaluationSaved: ReturnType<typeof vi.fn>; getRiskEvaluation: ReturnType<typeof vi.fn> };
+  let adjustments: { policy: CreditLimitPolicy; adjustForEvaluation: ReturnType<typeof vi.fn> };
+
+  const register = (policy: CreditLimitPolicy = DEFAULT_CREDIT_LIMIT_POLICY) => {
+    adjustments.policy = policy;
+    registerCreditLimitAdjustment(
+      queue,
+      evaluations as unknown as RiskEvaluationService,
+      adjustments as unknown as CreditLimitAdjustmentService
+    );
+  };
+
+  beforeEach(() => {
+    queue = new InMemoryJobQueue(5, 0);
+    listeners = [];
+    evaluations = {
+      onEvaluationSaved: vi.fn((listener: RiskEvaluationListener) => listeners.push(listener)),
+      getRiskEvaluation: vi.fn(async (id: string) => (id === 'expired' ? null : evaluation(id)))
+    };
+    adjustments = { policy: DEFAULT_CREDIT_LIMIT_POLICY, adjustForEvaluation: vi.fn().mockResolvedValue([]) };
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it('adjusts credit lines for each stored evaluation', async () => {
+    register();
+    await listeners[0]!(evaluation('eval-1'));
+    queue.start();
+    await queue.drain();
+
+    expect(adjustments.adjustForEvaluation).toHaveBeenCalledWith(expect.objectContaining({ id: 'eval-1' }));
+  });
+
+  it('replaces a pending adjustment with one for a newer evaluation of the wallet', async () => {
+    register();
+    await listeners[0]!(evaluation('eval-1'));
+    await listeners[0]!(evaluation('eval-2'));
+    queue.start();
+    await queue.drain();
+
+    expect(adjustments.adjustForEvaluation).toHaveBeenCalledTimes(1);
+    expect(adjustments.adjustForEvaluation.mock.calls[0]![0].id).toBe('eval-2');
+  });
+
+  it('skips evaluations that have since been deleted', async () => {
+    register();
+    await queue.enqueue(CREDIT_LIMIT_ADJUSTMENT_JOB, { evaluationId: 'expired' });
+    queue.start();
+    await queue.drain();
+
+    expect(adjustments.adjustForEvaluation).not.toHaveBeenCalled();
+  });
+
+  it('does not listen for evaluations when the policy is off', () => {
+    register({ ...DEFAULT_CREDIT_LIMIT_POLICY, mode: 'off' });
+
+    expect(evaluations.onEvaluationSaved).not.toHaveBeenCalled();
+  });
+});
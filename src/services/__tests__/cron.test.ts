@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { nextCronOccurrence, parseCron } from '../cron.js';
+
+const at = (iso: string) => new Date(iso).getTime();
+const next = (expression: string, after: string) =>
+  new Date(nextCronOccurrence(parseCron(expression), at(after))).toISOString();
+
+describe('cron', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    expect(next('* * * * *', '2024-03-10T15:00:00Z')).toBe('2024-03-10T15:01:00.000Z');
+    expect(next('* * * * *', '2024-03-10T15:00:30Z')).toBe('2024-03-10T15:01:00.000Z');
+    expect(next('0 0 * * *', '2024-03-10T15:00:00Z')).toBe('2024-03-11T00:00:00.000Z');
+    expect(next('0 0 * * *', '2024-03-11T00:00:00Z')).toBe('2024-03-12T00:00:00.000Z');
+  });
+
+  it('supports lists, ranges and steps', () => {
+    expect(next('*/15 * * * *', '2024-03-10T15:16:00Z')).toBe('2024-03-10T15:30:00.000Z');
+    expect(next('0 9-17/4 * * *', '2024-03-10T13:00:00Z')).toBe('2024-03-10T17:00:00.000Z');
+    expect(next('30 6,18 * * *', '2024-03-10T07:00:00Z')).toBe('2024-03-10T18:30:00.000Z');
+    expect(next('5/20 * * * *', '2024-03-10T15:26:00Z')).toBe('2024-03-10T15:45:00.000Z');
+  });
+
+  it('rolls over months and years', () => {
+    expect(next('0 0 1 * *', '2024-01-31T12:00:00Z')).toBe('2024-02-01T00:00:00.000Z');
+    expect(next('0 0 29 2 *', '2024-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+    expect(next('0 12 25 12 *', '2024-12-26T00:00:00Z')).toBe('2025-12-25T12:00:00.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // 2024-03-10 is a Sunday.
+    expect(next('0 0 * * 1', '2024-03-10T12:00:00Z')).toBe('2024-03-11T00:00:00.000Z');
+    expect(next('0 0 * * 7', '2024-03-11T12:00:00Z')).toBe('2024-03-17T00:00:00.000Z');
+    expect(next('0 0 15 * 5', '2024-03-10T12:00:00Z')).toBe('2024-03-15T00:00:00.000Z');
+    expect(next('0 0 13 * 5', '2024-03-10T12:00:00Z')).toBe('2024-03-13T00:00:00.000Z');
+  });
+
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow('must have 5 fields');
+    expect(() => parseCron('60 * * * *')).toThrow('outside 0-59');
+    expect(() => parseCron('* * * * mon')).toThrow('Invalid cron day-of-week');
+    expect(() => parseCron('5-1 * * * *')).toThrow('range');
+    expect(() => parseCron('*/0 * * * *')).toThrow('step');
+  });
+
+  it('gives up on expressions that never match', () => {
+    expect(() => next('0 0 30 2 *', '2024-01-01T00:00:00Z')).toThrow('no occurrence');
+  });
+});
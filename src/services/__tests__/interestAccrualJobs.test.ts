@@ -0,0 +1,108 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobQueue } from '../jobQueue.js';
+import type { InterestAccrualService } from '../InterestAccrualService.js';
+import { scheduleInterestAccrual } from '../interestAccrualJobs.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+describe('scheduleInterestAccrual', () => {
+  let queue: InMemoryJobQueue;
+  let service: { accruePeriod: ReturnType<typeof vi.fn>; catchUp: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-10T15:00:00Z'));
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // A one-minute tick keeps day-long fake timer advances cheap.
+    queue = new InMemoryJobQueue(MINUTE_MS, 20);
+    service = {
+      accruePeriod: vi.fn().mockResolvedValue(undefined),
+      catchUp: vi.fn().mockResolvedValue([])
+    };
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.mocked(console.error).mockRestore();
+    vi.useRealTimers();
+  });
+
+  it('accrues each day once it has ended', async () => {
+    await scheduleInterestAccrual(queue, service as unknown as InterestAccrualService);
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(8 * HOUR_MS);
+    expect(service.accruePeriod).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(HOUR_MS + MINUTE_MS);
+    expect(service.accruePeriod).toHaveBeenCalledTimes(1);
+    expect(service.accruePeriod).toHaveBeenCalledWith('2024-03-10');
+
+    await vi.advanceTimersByTimeAsync(DAY_MS);
+    expect(service.accruePeriod).toHaveBeenCalledTimes(2);
+    expect(service.accruePeriod).toHaveBeenLastCalledWith('2024-03-11');
+    expect(service.catchUp).not.toHaveBeenCalled();
+  });
+
+  it('catches up on missed days immediately when requested', async () => {
+    await scheduleInterestAccrual(queue, service as unknown as InterestAccrualService, { catchUpDays: 3 });
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+
+    expect(service.catchUp).toHaveBeenCalledWith('2024-03-07', '2024-03-09');
+    expect(service.accruePeriod).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(9 * HOUR_MS);
+    expect(service.accruePeriod).toHaveBeenCalledWith('2024-03-10');
+  });
+
+  it('keeps the schedule going when a period fails, retrying only that period', async () => {
+    service.accruePeriod.mockRejectedValueOnce(new Error('db down'));
+    await scheduleInterestAccrual(queue, service as unknown as InterestAccrualService);
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(9 * HOUR_MS + MINUTE_MS);
+    expect(service.accruePeriod).toHaveBeenCalledTimes(2);
+    expect(service.accruePeriod.mock.calls.map(call => call[0])).toEqual(['2024-03-10', '2024-03-10']);
+    expect(await queue.size()).toBe(0);
+
+    await vi.advanceTimersByTimeAsync(DAY_MS);
+    expect(service.accruePeriod).toHaveBeenCalledTimes(3);
+    expect(service.accruePeriod).toHaveBeenLastCalledWith('2024-03-11');
+  });
+
+  it('accrues every day missed while the queue was stopped', async () => {
+    await scheduleInterestAccrual(queue, service as unknown as InterestAccrualService);
+
+    await vi.advanceTimersByTimeAsync(2 * DAY_MS + 9 * HOUR_MS);
+    expect(service.accruePeriod).not.toHaveBeenCalled();
+
+    queue.start();
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+
+    expect(service.accruePeriod.mock.calls.map(call => call[0])).toEqual(['2024-03-10', '2024-03-11', '2024-03-12']);
+  });
+
+  it('registers a single daily schedule however often it is set up', async () => {
+    await scheduleInterestAccrual(queue, service as unknown as InterestAccrualService);
+    await scheduleInterestAccrual(queue, service as unknown as InterestAccrualService);
+
+    expect(await queue.getSchedules()).toEqual([
+      expect.objectContaining({
+        id: 'interest_accrual',
+        cron: '0 0 * * *',
+        misfire: 'catch_up',
+        nextRunAt: new Date('2024-03-11T00:00:00Z').getTime()
+      })
+    ]);
+  });
+
+  it('rejects an invalid catch-up window', async () => {
+    await expect(
+      scheduleInterestAccrual(queue, service as unknown as InterestAccrualService, { catchUpDays: -1 })
+    ).rejects.toThrow('catchUpDays');
+  });
+});
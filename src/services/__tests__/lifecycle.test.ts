@@ -0,0 +1,245 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, request, type Server } from 'http';
+import type { AddressInfo } from 'net';
+import { Lifecycle, httpServerSubsystem, jobQueueSubsystem, type Subsystem } from '../lifecycle.js';
+import { InMemoryJobQueue } from '../jobQueue.js';
+import { loadShutdownConfig } from '../../config/shutdown.js';
+
+/** Subsystem that records its start and stop calls in `calls`. */
+function recording(name: string, calls: string[], overrides: Partial<Subsystem> = {}): Subsystem {
+  return {
+    name,
+    start: () => {
+      calls.push(`start ${name}`);
+    },
+    stop: () => {
+      calls.push(`stop ${name}`);
+    },
+    ...overrides,
+  };
+}
+
+const portOf = (server: Server) => (server.address() as AddressInfo).port;
+
+/** GET `path` from localhost:`port`, resolving to the response body. */
+function get(port: number, path: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    request({ port, path, agent: false }, (res) => {
+      let body = '';
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () => resolve(body));
+    })
+      .on('error', reject)
+      .end();
+  });
+}
+
+describe('Lifecycle', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('starts subsystems in order and stops them in reverse', async () => {
+    const calls: string[] = [];
+    const lifecycle = new Lifecycle()
+      .add(recording('database', calls))
+      .add(recording('jobs', calls))
+      .add(recording('http', calls));
+
+    await lifecycle.start();
+    expect(await lifecycle.stop()).toBe(true);
+    expect(await lifecycle.stop()).toBe(true);
+
+    expect(calls).toEqual(['start database', 'start jobs', 'start http', 'stop http', 'stop jobs', 'stop database']);
+  });
+
+  it('stops what already started when a subsystem fails to start', async () => {
+    const calls: string[] = [];
+    const lifecycle = new Lifecycle()
+      .add(recording('database', calls))
+      .add(recording('jobs', calls))
+      .add(recording('http', calls, {
+        start: () => {
+          throw new Error('EADDRINUSE');
+        },
+      }));
+
+    await expect(lifecycle.start()).rejects.toThrow('EADDRINUSE');
+
+    expect(calls).toEqual(['start database', 'start jobs', 'stop jobs', 'stop database']);
+  });
+
+  it('keeps stopping the rest when one subsystem fails to stop', async () => {
+    const calls: string[] = [];
+    const lifecycle = new Lifecycle()
+      .add(recording('database', calls))
+      .add(recording('jobs', calls, {
+        stop: async () => {
+          throw new Error('drain failed');
+        },
+      }))
+      .add(recording('http', calls));
+    await lifecycle.start();
+
+    expect(await lifecycle.stop()).toBe(false);
+
+    expect(calls).toEqual(['start database', 'start jobs', 'start http', 'stop http', 'stop database']);
+  });
+
+  it('shuts down on SIGTERM and exits at once on a second signal', async () => {
+    let finishStop!: () => void;
+    const lifecycle = new Lifecycle().add({
+      name: 'slow',
+      start: () => {},
+      stop: () => new Promise<void>((resolve) => (finishStop = resolve)),
+    });
+    await lifecycle.start();
+    const exit = vi.fn();
+    const removeHandlers = lifecycle.handleSignals(exit);
+
+    try {
+      process.emit('SIGTERM');
+      await vi.waitFor(() => expect(finishStop).toBeDefined());
+      expect(exit).not.toHaveBeenCalled();
+
+      process.emit('SIGINT');
+      expect(exit).toHaveBeenCalledWith(1);
+
+      finishStop();
+      await vi.waitFor(() => expect(exit).toHaveBeenLastCalledWith(0));
+    } finally {
+      removeHandlers();
+    }
+  });
+});
+
+describe('httpServerSubsystem', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('lets in-flight requests finish and refuses new connections', async () => {
+    let respond!: () => void;
+    const server = createServer((_req, res) => {
+      respond = () => res.end('done');
+    });
+    const http = httpServerSubsystem(server, 0, 5_000);
+    await http.start();
+    const port = portOf(server);
+
+    const inFlight = get(port, '/slow');
+    await vi.waitFor(() => expect(respond).toBeDefined());
+    let stopped = false;
+    const stopping = Promise.resolve(http.stop()).then(() => (stopped = true));
+
+    await expect(get(port, '/new')).rejects.toThrow();
+    expect(stopped).toBe(false);
+
+    respond();
+    expect(await inFlight).toBe('done');
+    await stopping;
+    expect(server.listening).toBe(false);
+  });
+
+  it('closes connections still open at the deadline', async () => {
+    const server = createServer(() => {
+      // Never responds.
+    });
+    const http = httpServerSubsystem(server, 0, 50);
+    await http.start();
+
+    const hanging = get(portOf(server), '/hang');
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    await http.stop();
+
+    await expect(hanging).rejects.toThrow();
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('closing their connections'));
+  });
+});
+
+describe('jobQueueSubsystem', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('prepares and starts the queue, and waits for running jobs when stopped', async () => {
+    const queue = new InMemoryJobQueue(5, 0);
+    let finishJob!: () => void;
+    const started = vi.fn();
+    queue.registerHandler('slow', () => {
+      started();
+      return new Promise<void>((resolve) => (finishJob = resolve));
+    });
+    const jobs = jobQueueSubsystem(queue, 5_000, async () => {
+      await queue.enqueue('slow', null);
+    });
+
+    await jobs.start();
+    await vi.waitFor(() => expect(started).toHaveBeenCalled());
+    await queue.enqueue('slow', null);
+    let stopped = false;
+    const stopping = Promise.resolve(jobs.stop()).then(() => (stopped = true));
+
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(stopped).toBe(false);
+    finishJob();
+    await stopping;
+
+    expect(queue.isRunning()).toBe(false);
+    // The second job never started.
+    expect(started).toHaveBeenCalledTimes(1);
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('gives up on running jobs after the deadline', async () => {
+    const queue = new InMemoryJobQueue(5, 0);
+    queue.registerHandler('stuck', () => new Promise<void>(() => {}));
+    const jobs = jobQueueSubsystem(queue, 50);
+    await jobs.start();
+    await queue.enqueue('stuck', null);
+    await vi.waitFor(async () => expect((await queue.listJobs({ status: 'running' })).total).toBe(1));
+
+    await jobs.stop();
+
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Jobs still running after 50ms'));
+  });
+});
+
+describe('loadShutdownConfig', () => {
+  const saved = { ...process.env };
+
+  afterEach(() => {
+    process.env = { ...saved };
+  });
+
+  it('defaults to 10s for requests and 30s for jobs', () => {
+    delete process.env.SHUTDOWN_HTTP_TIMEOUT_MS;
+    delete process.env.SHUTDOWN_JOB_TIMEOUT_MS;
+
+    expect(loadShutdownConfig()).toEqual({ httpTimeoutMs: 10_000, jobTimeoutMs: 30_000 });
+  });
+
+  it('reads the deadlines from the environment and rejects invalid ones', () => {
+    process.env.SHUTDOWN_HTTP_TIMEOUT_MS = '2500';
+    process.env.SHUTDOWN_JOB_TIMEOUT_MS = '0';
+    expect(loadShutdownConfig()).toEqual({ httpTimeoutMs: 2500, jobTimeoutMs: 0 });
+
+    process.env.SHUTDOWN_JOB_TIMEOUT_MS = '30s';
+    expect(() => loadShutdownConfig()).toThrow(/SHUTDOWN_JOB_TIMEOUT_MS/);
+  });
+});
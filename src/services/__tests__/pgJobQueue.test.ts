@@ -0,0 +1,619 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, afterEach, vi } from 'vitest';
+import pg from 'pg';
+import type { DbClient } from '../../db/client.js';
+import { DuplicateJobError, type Job } from '../jobQueue.js';
+import { PgJobQueue, type PgJobQueueOptions } from '../pgJobQueue.js';
+import {
+  TEST_DATABASE_URL,
+  connectTestDb,
+  truncateTables,
+  disconnectTestDb
+} from '../../repositories/postgres/__tests__/testDb.js';
+
+const SCHEMA = 'test_pg_job_queue';
+
+describe.skipIf(!TEST_DATABASE_URL)('PgJobQueue', () => {
+  let db: DbClient;
+  const queues: PgJobQueue[] = [];
+
+  /** Started queue whose timer never fires during a test; jobs run via drain(). */
+  function createQueue(client: DbClient = db, workerId = 'worker-a', options: PgJobQueueOptions = {}): PgJobQueue {
+    const queue = new PgJobQueue(client, { tickIntervalMs: 60_000, retryBackoffMs: 0, workerId, ...options });
+    queue.start();
+    queues.push(queue);
+    return queue;
+  }
+
+  async function jobRow(id: string): Promise<Record<string, unknown>> {
+    const result = await db.query('SELECT * FROM jobs WHERE id = $1', [id]);
+    return result.rows[0] as Record<string, unknown>;
+  }
+
+  beforeAll(async () => {
+    db = await connectTestDb(SCHEMA);
+  });
+
+  afterAll(async () => {
+    await disconnectTestDb(db, SCHEMA);
+  });
+
+  beforeEach(async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    await truncateTables(db);
+  });
+
+  afterEach(() => {
+    for (const queue of queues.splice(0)) queue.stop();
+    vi.mocked(console.error).mockRestore();
+  });
+
+  it('persists enqueued jobs and runs them once', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('test', handler);
+
+    const id = await queue.enqueue('test', { value: 42 });
+    expect(await new PgJobQueue(db).size()).toBe(1);
+
+    await queue.drain();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]![0]).toMatchObject({ id, type: 'test', payload: { value: 42 }, attempts: 0, maxAttempts: 3 });
+    expect(await queue.size()).toBe(0);
+    expect(await jobRow(id)).toMatchObject({ status: 'completed', locked_by: null });
+  });
+
+  it('ignores a job id that is already queued', async () => {
+    const queue = createQueue();
+
+    await queue.enqueue('test', { first: true }, { id: 'interest_accrual:2024-01-15' });
+    await queue.enqueue('test', { first: false }, { id: 'interest_accrual:2024-01-15' });
+
+    expect(await queue.size()).toBe(1);
+    expect((await jobRow('interest_accrual:2024-01-15'))['payload']).toEqual({ first: true });
+  });
+
+  it('does not run delayed jobs before they are due', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('delayed', handler);
+
+    await queue.enqueue('delayed', null, { delayMs: 60_000 });
+    await queue.drain();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await queue.size()).toBe(1);
+  });
+
+  it('retries failed attempts and records the failure reason', async () => {
+    const queue = createQueue();
+    const handler = vi.fn<(job: Job) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('rpc timeout'))
+      .mockRejectedValueOnce(new Error('db down'))
+      .mockRejectedValueOnce(new Error('still down'));
+    queue.registerHandler('unstable', handler);
+
+    const id = await queue.enqueue('unstable', null, { maxAttempts: 3 });
+    await queue.drain();
+
+    expect(handler.mock.calls.map(([job]) => [job.attempts, job.lastError])).toEqual([
+      [0, undefined],
+      [1, 'rpc timeout'],
+      [2, 'db down']
+    ]);
+    const failed = await queue.getFailedJobs();
+    expect(failed).toHaveLength(1);
+    expect(failed[0]).toMatchObject({ id, attempts: 3, lastError: 'still down' });
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('schedules retries from the retry policy stored with the job', async () => {
+    const queue = createQueue();
+    queue.registerHandler('flaky', () => {
+      throw new Error('flaky');
+    });
+
+    const id = await queue.enqueue('flaky', null, {
+      maxAttempts: 5,
+      retry: { initialDelayMs: 60_000, multiplier: 3, maxDelayMs: 600_000 }
+    });
+    await queue.drain();
+
+    const row = await jobRow(id);
+    expect(row).toMatchObject({
+      status: 'pending',
+      attempts: 1,
+      retry_policy: { initialDelayMs: 60_000, multiplier: 3, maxDelayMs: 600_000, jitter: 0 }
+    });
+    const delayMs = (row['run_at'] as Date).getTime() - (row['updated_at'] as Date).getTime();
+    expect(delayMs).toBeGreaterThanOrEqual(59_000);
+    expect(delayMs).toBeLessThanOrEqual(61_000);
+  });
+
+  it('inspects, requeues and purges failed jobs', async () => {
+    const queue = createQueue();
+    const handler = vi.fn<(job: Job) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('outage'))
+      .mockRejectedValueOnce(new Error('outage'))
+      .mockResolvedValueOnce(undefined);
+    queue.registerHandler('recoverable', handler);
+
+    const recovered = await queue.enqueue('recoverable', null, { maxAttempts: 1 });
+    const purged = await queue.enqueue('recoverable', null, { maxAttempts: 1 });
+    await queue.drain();
+
+    expect(await queue.getFailedJob(recovered)).toMatchObject({ attempts: 1, lastError: 'outage' });
+    expect(await queue.getFailedJob('missing')).toBeNull();
+
+    expect(await queue.requeueFailedJob(recovered)).toBe(true);
+    expect(await queue.requeueFailedJob(recovered)).toBe(false);
+    await queue.drain();
+    expect(handler).toHaveBeenLastCalledWith(expect.objectContaining({ id: recovered, attempts: 0, lastError: 'outage' }));
+    expect(await jobRow(recovered)).toMatchObject({ status: 'completed' });
+
+    expect(await queue.purgeFailedJob(purged)).toBe(true);
+    expect(await queue.purgeFailedJob(purged)).toBe(false);
+    expect(await jobRow(purged)).toBeUndefined();
+  });
+
+  it('purges every failed job', async () => {
+    const queue = createQueue();
+    queue.registerHandler('broken', () => {
+      throw new Error('broken');
+    });
+    await queue.enqueue('broken', null, { maxAttempts: 1 });
+    await queue.enqueue('broken', null, { maxAttempts: 1 });
+    await queue.drain();
+
+    expect(await queue.purgeFailedJobs()).toBe(2);
+    expect(await queue.getFailedJobs()).toEqual([]);
+  });
+
+  it('deletes completed jobs once they are past their retention', async () => {
+    const queue = createQueue(db, 'worker-a', { completedJobTtlMs: 60 * 60 * 1000 });
+    queue.registerHandler('done', vi.fn());
+    queue.registerHandler('broken', () => {
+      throw new Error('broken');
+    });
+    const expired = await queue.enqueue('done', null);
+    const recent = await queue.enqueue('done', null);
+    const failed = await queue.enqueue('broken', null, { maxAttempts: 1 });
+    await queue.drain();
+    await db.query(
+      "UPDATE jobs SET updated_at = now() - interval '2 hours' WHERE id = ANY($1::text[])",
+      [[expired, failed]],
+    );
+
+    // A fresh worker sweeps on its first tick.
+    const sweeper = createQueue(db, 'worker-b', { completedJobTtlMs: 60 * 60 * 1000 });
+    sweeper.registerHandler('done', vi.fn());
+    await sweeper.drain();
+
+    expect(await jobRow(expired)).toBeUndefined();
+    expect(await jobRow(recent)).toMatchObject({ status: 'completed' });
+    expect(await jobRow(failed)).toMatchObject({ status: 'failed' });
+  });
+
+  it('rejects a completed job retention that is not a positive integer', () => {
+    expect(() => new PgJobQueue(db, { completedJobTtlMs: 0 })).toThrow('completedJobTtlMs');
+  });
+
+  it('only claims job types this worker handles', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('mine', handler);
+
+    await queue.enqueue('mine', null);
+    const otherId = await queue.enqueue('someone-elses', null);
+    await queue.drain();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await jobRow(otherId)).toMatchObject({ status: 'pending' });
+  });
+
+  it('reclaims jobs whose worker stopped before finishing', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('test', handler);
+    const id = await queue.enqueue('test', null);
+    await db.query(
+      `UPDATE jobs SET status = 'running', locked_by = 'crashed-worker', locked_until = now() - interval '1 second'
+       WHERE id = $1`,
+      [id]
+    );
+
+    await queue.drain();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0]![0]).toMatchObject({
+      attempts: 1,
+      lastError: 'Visibility timeout expired on worker crashed-worker'
+    });
+    expect(await jobRow(id)).toMatchObject({ status: 'completed' });
+  });
+
+  it('fails an abandoned job that has no attempts left', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('test', handler);
+    const id = await queue.enqueue('test', null, { maxAttempts: 1 });
+    await db.query(
+      `UPDATE jobs SET status = 'running', locked_by = 'crashed-worker', locked_until = now() - interval '1 second'
+       WHERE id = $1`,
+      [id]
+    );
+
+    await queue.drain();
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(await queue.getFailedJobs()).toEqual([expect.objectContaining({ id, attempts: 1 })]);
+  });
+
+  it('does not run a job while another worker holds its lock', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('test', handler);
+    const id = await queue.enqueue('test', null);
+    await db.query(
+      `UPDATE jobs SET status = 'running', locked_by = 'busy-worker', locked_until = now() + interval '1 minute'
+       WHERE id = $1`,
+      [id]
+    );
+
+    await queue.drain();
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  it('lets workers on separate connections share the queue without running a job twice', async () => {
+    const other = new pg.Client({ connectionString: TEST_DATABASE_URL });
+    await other.connect();
+    await other.query(`SET search_path TO ${SCHEMA}, public`);
+
+    try {
+      const runs: Record<string, string[]> = {};
+      const handlerFor = (worker: string) => async (job: Job) => {
+        (runs[job.id] ??= []).push(worker);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      };
+      const first = createQueue(db, 'worker-a');
+      const second = createQueue(other, 'worker-b');
+      first.registerHandler('shared', handlerFor('worker-a'));
+      second.registerHandler('shared', handlerFor('worker-b'));
+
+      const ids: string[] = [];
+      for (let i = 0; i < 20; i++) ids.push(await first.enqueue('shared', { i }));
+
+      await Promise.all([first.drain(), second.drain()]);
+
+      expect(Object.keys(runs).sort()).toEqual([...ids].sort());
+      expect(Object.values(runs).every(workers => workers.length === 1)).toBe(true);
+      expect(await first.size()).toBe(0);
+    } finally {
+      await other.end();
+    }
+  });
+
+  /** Handler that takes `ms` and records how many of its jobs overlapped. */
+  function tracked(ms: number) {
+    const stats = { running: 0, peak: 0, order: [] as unknown[] };
+    const handler = async (job: Job) => {
+      stats.running += 1;
+      stats.peak = Math.max(stats.peak, stats.running);
+      stats.order.push(job.payload);
+      await new Promise(resolve => setTimeout(resolve, ms));
+      stats.running -= 1;
+    };
+    return { handler, stats };
+  }
+
+  it('runs up to the worker concurrency in parallel', async () => {
+    const queue = createQueue(db, 'worker-a', { concurrency: 3 });
+    const { handler, stats } = tracked(20);
+    queue.registerHandler('work', handler);
+
+    for (let i = 0; i < 6; i++) await queue.enqueue('work', { i });
+    await queue.drain();
+
+    expect(stats.order).toHaveLength(6);
+    expect(stats.peak).toBe(3);
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('caps a job type at its handler concurrency', async () => {
+    const queue = createQueue(db, 'worker-a', { concurrency: 4 });
+    const webhooks = tracked(20);
+    queue.registerHandler('webhook', webhooks.handler, { concurrency: 1 });
+
+    for (let i = 0; i < 3; i++) await queue.enqueue('webhook', { i });
+    await queue.drain();
+
+    expect(webhooks.stats.order).toHaveLength(3);
+    expect(webhooks.stats.peak).toBe(1);
+  });
+
+  it('runs jobs sharing a serialization key one at a time, in order, across workers', async () => {
+    const other = new pg.Client({ connectionString: TEST_DATABASE_URL });
+    await other.connect();
+    await other.query(`SET search_path TO ${SCHEMA}, public`);
+
+    try {
+      const { handler, stats } = tracked(5);
+      const first = createQueue(db, 'worker-a', { concurrency: 3 });
+      const second = createQueue(other, 'worker-b', { concurrency: 3 });
+      first.registerHandler('line', handler);
+      second.registerHandler('line', handler);
+
+      for (let i = 0; i < 8; i++) {
+        await first.enqueue('line', i, { serializationKey: 'credit_line:a' });
+      }
+      await Promise.all([first.drain(), second.drain()]);
+
+      expect(stats.order).toEqual([0, 1, 2, 3, 4, 5, 6, 7]);
+      expect(stats.peak).toBe(1);
+    } finally {
+      await other.end();
+    }
+  });
+
+  it('holds later jobs with the same key while an earlier one waits to retry', async () => {
+    const queue = createQueue(db, 'worker-a', { concurrency: 2 });
+    const handler = vi.fn<(job: Job) => Promise<void>>().mockRejectedValueOnce(new Error('transient'));
+    queue.registerHandler('step', handler);
+
+    const firstId = await queue.enqueue('step', 'first', {
+      serializationKey: 'line-1',
+      retry: { initialDelayMs: 60_000 }
+    });
+    const secondId = await queue.enqueue('step', 'second', { serializationKey: 'line-1' });
+    const unrelated = await queue.enqueue('step', 'unrelated', { serializationKey: 'line-2' });
+    await queue.drain();
+
+    expect(handler.mock.calls.map(([job]) => job.payload)).toEqual(['first', 'unrelated']);
+    expect(await jobRow(firstId)).toMatchObject({ status: 'pending', attempts: 1 });
+    expect(await jobRow(secondId)).toMatchObject({ status: 'pending', attempts: 0 });
+    expect(await jobRow(unrelated)).toMatchObject({ status: 'completed' });
+  });
+
+  it('records every attempt, including abandoned ones, in the job history', async () => {
+    const queue = createQueue();
+    const handler = vi.fn<(job: Job) => Promise<void>>()
+      .mockRejectedValueOnce(new Error('rpc timeout'))
+      .mockResolvedValueOnce(undefined);
+    queue.registerHandler('test', handler);
+    const id = await queue.enqueue('test', { value: 1 }, { maxAttempts: 3 });
+    await db.query(
+      `UPDATE jobs SET status = 'running', locked_by = 'crashed-worker', started_at = now() - interval '10 minutes',
+              locked_until = now() - interval '1 second'
+       WHERE id = $1`,
+      [id]
+    );
+
+    await queue.drain();
+
+    const job = await queue.getJob(id);
+    expect(job).toMatchObject({ status: 'completed', payload: { value: 1 }, attempts: 2 });
+    expect(job!.history).toEqual([
+      expect.objectContaining({ attempt: 1, workerId: 'crashed-worker', error: 'Visibility timeout expired on worker crashed-worker' }),
+      expect.objectContaining({ attempt: 2, workerId: 'worker-a', error: 'rpc timeout' }),
+      { attempt: 3, workerId: 'worker-a', startedAt: expect.any(Number), finishedAt: expect.any(Number) }
+    ]);
+    expect(job!.history[0]!.finishedAt - job!.history[0]!.startedAt).toBeGreaterThanOrEqual(600_000);
+    expect(await queue.getJob('missing')).toBeNull();
+  });
+
+  it('lists jobs by status and type, oldest first', async () => {
+    const queue = createQueue();
+    const a = await queue.enqueue('a', 1);
+    const b = await queue.enqueue('b', 2);
+    const c = await queue.enqueue('a', 3);
+    await queue.cancelJob(b);
+
+    expect((await queue.listJobs()).items.map(job => job.id)).toEqual([a, b, c]);
+    expect(await queue.listJobs({ type: 'a', limit: 1, offset: 1 })).toEqual({
+      items: [expect.objectContaining({ id: c, status: 'pending', payload: 3, history: [] })],
+      total: 2
+    });
+    expect(await queue.listJobs({ status: 'cancelled' })).toMatchObject({ items: [{ id: b }], total: 1 });
+  });
+
+  it('cancels pending jobs and retries them with fresh attempts', async () => {
+    const queue = createQueue();
+    const handler = vi.fn();
+    queue.registerHandler('work', handler);
+    const delayed = await queue.enqueue('work', null, { delayMs: 60_000 });
+    const cancelled = await queue.enqueue('work', null);
+
+    expect(await queue.cancelJob(cancelled)).toBe(true);
+    expect(await queue.cancelJob(cancelled)).toBe(false);
+    await queue.drain();
+    expect(handler).not.toHaveBeenCalled();
+
+    expect(await queue.retryJob(cancelled)).toBe(true);
+    expect(await queue.retryJob(delayed)).toBe(true);
+    await queue.drain();
+
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(await queue.retryJob(cancelled)).toBe(false);
+    expect(await queue.retryJob('missing')).toBe(false);
+  });
+
+  it('shares paused job types between workers', async () => {
+    const pausing = createQueue(db, 'worker-a');
+    const worker = createQueue(db, 'worker-b');
+    const handler = vi.fn();
+    worker.registerHandler('webhook', handler);
+    await worker.enqueue('webhook', null);
+
+    await pausing.pauseType('webhook');
+    await pausing.pauseType('webhook');
+    expect(await worker.getPausedTypes()).toEqual(['webhook']);
+    await worker.drain();
+    expect(handler).not.toHaveBeenCalled();
+
+    await pausing.resumeType('webhook');
+    await worker.drain();
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(await worker.getPausedTypes()).toEqual([]);
+  });
+
+  describe('unique keys', () => {
+    it('coalesces, replaces or rejects a job waiting with the same key', async () => {
+      const queue = createQueue();
+      const id = await queue.enqueue('sync', { version: 1 }, { uniqueKey: 'wallet:G1' });
+
+      expect(await queue.enqueue('sync', { version: 2 }, { uniqueKey: 'wallet:G1' })).toBe(id);
+      expect(await queue.getJob(id)).toMatchObject({ payload: { version: 1 }, uniqueKey: 'wallet:G1' });
+
+      expect(
+        await queue.enqueue('sync', { version: 3 }, { uniqueKey: 'wallet:G1', onDuplicate: 'replace', maxAttempts: 5 })
+      ).toBe(id);
+      expect(await jobRow(id)).toMatchObject({ payload: { version: 3 }, max_attempts: 5 });
+
+      await expect(
+        queue.enqueue('sync', { version: 4 }, { uniqueKey: 'wallet:G1', onDuplicate: 'reject' })
+      ).rejects.toMatchObject({ name: 'DuplicateJobError', uniqueKey: 'wallet:G1', existingJobId: id });
+      expect(await queue.size()).toBe(1);
+    });
+
+    it('resolves concurrent enqueues of one key to a single job', async () => {
+      const other = new pg.Client({ connectionString: TEST_DATABASE_URL });
+      await other.connect();
+      await other.query(`SET search_path TO ${SCHEMA}, public`);
+
+      try {
+        const first = createQueue(db, 'worker-a');
+        const second = createQueue(other, 'worker-b');
+        for (let i = 0; i < 5; i++) {
+          const [a, b] = await Promise.all([
+            first.enqueue('sync', 'a', { uniqueKey: `wallet:G${i}` }),
+            second.enqueue('sync', 'b', { uniqueKey: `wallet:G${i}` })
+          ]);
+          expect(a).toBe(b);
+        }
+        expect(await first.size()).toBe(5);
+      } finally {
+        await other.end();
+      }
+    });
+
+    it('enqueues a new job once the waiting one has started', async () => {
+      const queue = createQueue(db, 'worker-a', { retryBackoffMs: 60_000 });
+      queue.registerHandler('sync', vi.fn().mockRejectedValue(new Error('down')));
+      const first = await queue.enqueue('sync', 1, { uniqueKey: 'wallet:G1' });
+      await queue.drain();
+
+      const second = await queue.enqueue('sync', 2, { uniqueKey: 'wallet:G1' });
+
+      expect(second).not.toBe(first);
+      expect(await queue.size()).toBe(2);
+    });
+
+    it('skips a job whose key completed within the TTL window', async () => {
+      const queue = createQueue();
+      queue.registerHandler('sync', vi.fn());
+      const id = await queue.enqueue('sync', 1, { uniqueKey: 'wallet:G1' });
+      await queue.drain();
+
+      expect(await queue.enqueue('sync', 2, { uniqueKey: 'wallet:G1', uniqueTtlMs: 60_000 })).toBe(id);
+      await expect(
+        queue.enqueue('sync', 2, { uniqueKey: 'wallet:G1', uniqueTtlMs: 60_000, onDuplicate: 'reject' })
+      ).rejects.toThrow(DuplicateJobError);
+      expect(await queue.size()).toBe(0);
+
+      await db.query("UPDATE jobs SET updated_at = now() - interval '2 minutes' WHERE id = $1", [id]);
+      expect(await queue.enqueue('sync', 3, { uniqueKey: 'wallet:G1', uniqueTtlMs: 60_000 })).not.toBe(id);
+      expect(await queue.size()).toBe(1);
+    });
+
+    it('refuses to retry a cancelled job whose key has been taken', async () => {
+      const queue = createQueue();
+      const cancelled = await queue.enqueue('sync', 1, { uniqueKey: 'wallet:G1' });
+      await queue.cancelJob(cancelled);
+      const waiting = await queue.enqueue('sync', 2, { uniqueKey: 'wallet:G1' });
+
+      await expect(queue.retryJob(cancelled)).rejects.toMatchObject({ existingJobId: waiting });
+      expect(await jobRow(cancelled)).toMatchObject({ status: 'cancelled' });
+    });
+  });
+
+  describe('schedules', () => {
+    async function scheduleRow(id: string): Promise<Record<string, unknown>> {
+      const result = await db.query('SELECT * FROM job_schedules WHERE id = $1', [id]);
+      return result.rows[0] as Record<string, unknown>;
+    }
+
+    async function backdate(id: string, nextRunAt: string): Promise<void> {
+      await db.query('UPDATE job_schedules SET next_run_at = $2 WHERE id = $1', [id, nextRunAt]);
+    }
+
+    it('stores schedules and keeps the next occurrence when re-registered with the same timing', async () => {
+      const queue = createQueue();
+      await queue.schedule({ id: 'sweep', type: 'sweep', payload: { v: 1 }, intervalMs: 3_600_000, job: { maxAttempts: 5 } });
+      await backdate('sweep', '2030-01-01T00:00:00Z');
+
+      await queue.schedule({ id: 'sweep', type: 'sweep', payload: { v: 2 }, intervalMs: 3_600_000 });
+      expect(await queue.getSchedules()).toEqual([
+        expect.objectContaining({
+          id: 'sweep',
+          payload: { v: 2 },
+          intervalMs: 3_600_000,
+          misfire: 'fire_once',
+          misfireGraceMs: 60_000,
+          nextRunAt: Date.parse('2030-01-01T00:00:00Z')
+        })
+      ]);
+
+      await queue.schedule({ id: 'sweep', type: 'sweep', payload: null, cron: '0 0 * * *' });
+      expect((await scheduleRow('sweep'))['next_run_at']).not.toEqual(new Date('2030-01-01T00:00:00Z'));
+
+      expect(await queue.unschedule('sweep')).toBe(true);
+      expect(await queue.unschedule('sweep')).toBe(false);
+    });
+
+    it('fires missed occurrences according to the misfire policy', async () => {
+      const queue = createQueue();
+      const handler = vi.fn();
+      queue.registerHandler('accrual', handler);
+      await queue.schedule({ id: 'daily', type: 'accrual', payload: { kind: 'daily' }, cron: '0 0 * * *', misfire: 'catch_up' });
+      const threeDaysAgo = new Date(Date.now() - 3 * 86_400_000);
+      threeDaysAgo.setUTCHours(0, 0, 0, 0);
+      await backdate('daily', threeDaysAgo.toISOString());
+
+      await queue.drain();
+
+      // Three missed midnights plus today's.
+      expect(handler).toHaveBeenCalledTimes(4);
+      expect(handler.mock.calls.map(([job]) => (job as Job).scheduledFor)).toEqual([0, 1, 2, 3].map(day => threeDaysAgo.getTime() + day * 86_400_000));
+      expect(handler.mock.calls[0]![0]).toMatchObject({
+        id: `daily:${threeDaysAgo.toISOString()}`,
+        payload: { kind: 'daily' }
+      });
+      const row = await scheduleRow('daily');
+      expect((row['next_run_at'] as Date).getTime()).toBe(threeDaysAgo.getTime() + 4 * 86_400_000);
+      expect((row['last_run_at'] as Date).getTime()).toBe(threeDaysAgo.getTime() + 3 * 86_400_000);
+    });
+
+    it('fires each occurrence once across workers', async () => {
+      const other = new pg.Client({ connectionString: TEST_DATABASE_URL });
+      await other.connect();
+      await other.query(`SET search_path TO ${SCHEMA}, public`);
+
+      try {
+        const first = createQueue(db, 'worker-a');
+        const second = createQueue(other, 'worker-b');
+        await first.schedule({ id: 'tick', type: 'tick', payload: null, intervalMs: 60_000, misfire: 'catch_up', misfireGraceMs: 0 });
+        await backdate('tick', new Date(Date.now() - 10 * 60_000 + 1000).toISOString());
+
+        for (let round = 0; round < 3; round++) {
+          await Promise.all([first.drain(), second.drain()]);
+        }
+
+        const jobs = await db.query("SELECT id FROM jobs WHERE type = 'tick'");
+        expect(jobs.rows).toHaveLength(10);
+      } finally {
+        await other.end();
+      }
+    });
+  });
+});
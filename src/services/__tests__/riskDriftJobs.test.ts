@@ -0,0 +1,61 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobQueue } from '../jobQueue.js';
+import type { RiskEvaluationListener, RiskEvaluationService } from '../RiskEvaluationService.js';
+import type { RiskDriftService } from '../RiskDriftService.js';
+import { RISK_DRIFT_CHECK_JOB, registerRiskDriftMonitoring } from '../riskDriftJobs.js';
+import type { RiskEvaluation } from '../../models/RiskEvaluation.js';
+
+const evaluation = (id: string): RiskEvaluation => ({
+  id,
+  walletAddress: 'wallet123',
+  riskScore: 60,
+  creditLimit: '400',
+  interestRateBps: 800,
+  factors: [],
+  modelVersion: 1,
+  evaluatedAt: new Date(),
+  expiresAt: new Date()
+});
+
+describe('registerRiskDriftMonitoring', () => {
+  let queue: InMemoryJobQueue;
+  let listeners: RiskEvaluationListener[];
+  let evaluations: { onEvaluationSaved: ReturnType<typeof vi.fn>; getRiskEvaluation: ReturnType<typeof vi.fn> };
+  let drift: { checkEvaluation: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    queue = new InMemoryJobQueue(5, 0);
+    listeners = [];
+    evaluations = {
+      onEvaluationSaved: vi.fn((listener: RiskEvaluationListener) => listeners.push(listener)),
+      getRiskEvaluation: vi.fn(async (id: string) => (id === 'expired' ? null : evaluation(id)))
+    };
+    drift = { checkEvaluation: vi.fn().mockResolvedValue(null) };
+    registerRiskDriftMonitoring(
+      queue,
+      evaluations as unknown as RiskEvaluationService,
+      drift as unknown as RiskDriftService
+    );
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it('checks every stored evaluation, including several for one wallet', async () => {
+    await listeners[0]!(evaluation('eval-1'));
+    await listeners[0]!(evaluation('eval-2'));
+    queue.start();
+    await queue.drain();
+
+    expect(drift.checkEvaluation.mock.calls.map(([checked]) => checked.id)).toEqual(['eval-1', 'eval-2']);
+  });
+
+  it('skips evaluations that have since been deleted', async () => {
+    await queue.enqueue(RISK_DRIFT_CHECK_JOB, { evaluationId: 'expired' });
+    queue.start();
+    await queue.drain();
+
+    expect(drift.checkEvaluation).not.toHaveBeenCalled();
+  });
+});
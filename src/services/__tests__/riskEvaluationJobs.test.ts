@@ -0,0 +1,105 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { InMemoryJobQueue } from '../jobQueue.js';
+import type { RiskEvaluationService } from '../RiskEvaluationService.js';
+import {
+  RISK_REEVALUATION_JOB,
+  enqueueRiskRecalibration,
+  registerRiskRecalibration,
+  scheduleRiskEvaluationCleanup,
+} from '../riskEvaluationJobs.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+describe('scheduleRiskEvaluationCleanup', () => {
+  let queue: InMemoryJobQueue;
+  let service: { cleanupExpiredEvaluations: ReturnType<typeof vi.fn> };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-03-10T15:00:00Z'));
+    queue = new InMemoryJobQueue(MINUTE_MS, 20);
+    service = { cleanupExpiredEvaluations: vi.fn().mockResolvedValue(0) };
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.useRealTimers();
+  });
+
+  it('deletes expired evaluations every interval', async () => {
+    await scheduleRiskEvaluationCleanup(queue, service as unknown as RiskEvaluationService);
+    queue.start();
+
+    await vi.advanceTimersByTimeAsync(HOUR_MS - MINUTE_MS);
+    expect(service.cleanupExpiredEvaluations).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(3 * HOUR_MS);
+    expect(service.cleanupExpiredEvaluations).toHaveBeenCalledTimes(3);
+  });
+
+  it('runs once for all occurrences missed while stopped', async () => {
+    await scheduleRiskEvaluationCleanup(queue, service as unknown as RiskEvaluationService, { intervalMs: HOUR_MS });
+
+    await vi.advanceTimersByTimeAsync(5 * HOUR_MS);
+    queue.start();
+    await vi.advanceTimersByTimeAsync(MINUTE_MS);
+
+    expect(service.cleanupExpiredEvaluations).toHaveBeenCalledTimes(1);
+    expect((await queue.getSchedules())[0]!.nextRunAt).toBe(new Date('2024-03-10T21:00:00Z').getTime());
+  });
+});
+
+describe('registerRiskRecalibration', () => {
+  let queue: InMemoryJobQueue;
+  let creditLines: InMemoryCreditLineRepository;
+  let service: { reevaluate: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    queue = new InMemoryJobQueue(5, 0);
+    creditLines = new InMemoryCreditLineRepository();
+    service = { reevaluate: vi.fn().mockResolvedValue(undefined) };
+    registerRiskRecalibration(queue, service as unknown as RiskEvaluationService, creditLines);
+
+    await creditLines.create({ walletAddress: 'GACTIVE', creditLimit: '1000', interestRateBps: 500 });
+    await creditLines.create({ walletAddress: 'GACTIVE', creditLimit: '500', interestRateBps: 500 });
+    const closed = await creditLines.create({ walletAddress: 'GCLOSED', creditLimit: '1000', interestRateBps: 500 });
+    await creditLines.update(closed.id, { status: CreditLineStatus.CLOSED });
+  });
+
+  afterEach(() => {
+    queue.stop();
+  });
+
+  it('re-evaluates each wallet with an active credit line once, under the given version', async () => {
+    await enqueueRiskRecalibration(queue, 2);
+    queue.start();
+    await queue.drain();
+
+    expect(service.reevaluate).toHaveBeenCalledTimes(1);
+    expect(service.reevaluate).toHaveBeenCalledWith('GACTIVE', 2);
+  });
+
+  it('lets a later recalibration replace re-evaluations that have not started', async () => {
+    await queue.pauseType(RISK_REEVALUATION_JOB);
+    queue.start();
+    await enqueueRiskRecalibration(queue, 2);
+    await queue.drain();
+    await enqueueRiskRecalibration(queue, 3);
+    await queue.drain();
+
+    await queue.resumeType(RISK_REEVALUATION_JOB);
+    await queue.drain();
+
+    expect(service.reevaluate.mock.calls).toEqual([['GACTIVE', 3]]);
+  });
+
+  it('reuses a recalibration for the same version that has not started', async () => {
+    const first = await enqueueRiskRecalibration(queue, 2);
+
+    expect(await enqueueRiskRecalibration(queue, 2)).toBe(first);
+    expect(await enqueueRiskRecalibration(queue, 3)).not.toBe(first);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_RISK_REASONS, explainRiskEvaluation } from '../riskExplanation.js';
+import { DEFAULT_RISK_MODEL_CONFIG } from '../riskModel.js';
+import { DEFAULT_RISK_FEATURES } from '../riskScoring.js';
+import type { RiskEvaluation } from '../../models/RiskEvaluation.js';
+import type { RiskModelVersion } from '../../models/RiskModel.js';
+
+const model: RiskModelVersion = { version: 1, config: DEFAULT_RISK_MODEL_CONFIG, publishedAt: new Date() };
+
+const evaluation = (overrides: Partial<RiskEvaluation> = {}): RiskEvaluation => ({
+  id: 'eval-1',
+  walletAddress: 'wallet123',
+  riskScore: 51,
+  creditLimit: '490',
+  interestRateBps: 755,
+  factors: [
+    { name: 'wallet_age', value: 0.5, weight: 0.2 },
+    { name: 'payment_volume', value: 0.2, weight: 0.25 },
+    { name: 'balance_stability', value: 1, weight: 0.2 },
+    { name: 'repayment_history', value: 0.4, weight: 0.35 }
+  ],
+  modelVersion: 1,
+  evaluatedAt: new Date('2026-01-01T00:00:00Z'),
+  expiresAt: new Date('2026-01-02T00:00:00Z'),
+  ...overrides
+});
+
+describe('explainRiskEvaluation', () => {
+  it('should attribute the score to factors in proportion to their weight and shortfall', () => {
+    const explanation = explainRiskEvaluation(evaluation(), model, DEFAULT_RISK_FEATURES);
+
+    expect(explanation.factors.map((factor) => [factor.name, factor.contribution, factor.maxContribution])).toEqual([
+      ['wallet_age', 10, 20],
+      ['payment_volume', 20, 25],
+      ['balance_stability', 0, 20],
+      ['repayment_history', 21, 35]
+    ]);
+    const total = explanation.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+    expect(total).toBeCloseTo(explanation.riskScore, 0);
+  });
+
+  it('should give the largest contributions as reasons, skipping factors that added nothing', () => {
+    const { reasons } = explainRiskEvaluation(evaluation(), model, DEFAULT_RISK_FEATURES);
+
+    expect(reasons.map((reason) => reason.code)).toEqual([
+      'LIMITED_REPAYMENT_HISTORY',
+      'LOW_PAYMENT_ACTIVITY',
+      'SHORT_ACCOUNT_HISTORY'
+    ]);
+    expect(reasons[0]).toMatchObject({ factor: 'repayment_history', contribution: 21 });
+    expect(reasons[0]!.message).toEqual(expect.any(String));
+  });
+
+  it(`should list at most ${MAX_RISK_REASONS} reasons`, () => {
+    const factors = DEFAULT_RISK_FEATURES.map((feature) => ({ name: feature.name, value: 0, weight: 0.25 }));
+
+    const { reasons } = explainRiskEvaluation(evaluation({ factors, riskScore: 100 }), model, DEFAULT_RISK_FEATURES);
+
+    expect(reasons).toHaveLength(MAX_RISK_REASONS);
+  });
+
+  it('should fall back to a generic reason for factors the pipeline no longer computes', () => {
+    const factors = [{ name: 'retired_factor', value: 0, weight: 1, description: 'A factor from an older pipeline' }];
+
+    const { reasons } = explainRiskEvaluation(evaluation({ factors, riskScore: 100 }), model, DEFAULT_RISK_FEATURES);
+
+    expect(reasons).toEqual([
+      { code: 'RETIRED_FACTOR', message: 'A factor from an older pipeline', factor: 'retired_factor', contribution: 100 }
+    ]);
+  });
+
+  it('should list the band thresholds the score reached under the model', () => {
+    expect(explainRiskEvaluation(evaluation({ riskScore: 39 }), model, DEFAULT_RISK_FEATURES)).toMatchObject({
+      riskLevel: 'low',
+      thresholdsCrossed: []
+    });
+    expect(explainRiskEvaluation(evaluation({ riskScore: 40 }), model, DEFAULT_RISK_FEATURES)).toMatchObject({
+      riskLevel: 'medium',
+      thresholdsCrossed: [{ riskLevel: 'medium', minScore: 40 }]
+    });
+    expect(explainRiskEvaluation(evaluation({ riskScore: 85 }), model, DEFAULT_RISK_FEATURES)).toMatchObject({
+      riskLevel: 'high',
+      thresholdsCrossed: [
+        { riskLevel: 'medium', minScore: 40 },
+        { riskLevel: 'high', minScore: 70 }
+      ]
+    });
+  });
+
+  it('should report the limit against the most the model would offer', () => {
+    const explanation = explainRiskEvaluation(evaluation(), model, DEFAULT_RISK_FEATURES);
+
+    expect(explanation).toMatchObject({ creditLimit: '490', maxCreditLimit: '1000', modelVersion: 1 });
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RISK_MODEL_CONFIG,
+  InvalidRiskModelError,
+  RiskModelNotFoundError,
+  creditLimitForScore,
+  interestRateForScore,
+  riskLevelForScore,
+  validateRiskModelConfig
+} from '../riskModel.js';
+import { RiskModelService } from '../RiskModelService.js';
+import { DEFAULT_RISK_FEATURES } from '../riskScoring.js';
+import { InMemoryRiskModelRepository } from '../../repositories/memory/InMemoryRiskModelRepository.js';
+import type { RiskModelConfig } from '../../models/RiskModel.js';
+
+const config = (overrides: Partial<RiskModelConfig> = {}): RiskModelConfig => ({
+  ...DEFAULT_RISK_MODEL_CONFIG,
+  ...overrides
+});
+
+describe('validateRiskModelConfig', () => {
+  const validate = (overrides: Partial<RiskModelConfig>) => () =>
+    validateRiskModelConfig(config(overrides), DEFAULT_RISK_FEATURES);
+
+  it('accepts the default model', () => {
+    expect(validate({})).not.toThrow();
+  });
+
+  it('rejects weights the scoring pipeline cannot use', () => {
+    expect(validate({ weights: { ...DEFAULT_RISK_MODEL_CONFIG.weights, wallet_age: 0.5 } }))
+      .toThrow(InvalidRiskModelError);
+    expect(validate({ weights: { wallet_age: 1 } })).toThrow(/payment_volume/);
+  });
+
+  it('rejects curves that do not cover every score in order', () => {
+    expect(validate({ limitCurve: [{ score: 10, creditLimit: '500' }, { score: 100, creditLimit: '0' }] }))
+      .toThrow(/start at score 0/);
+    expect(validate({
+      limitCurve: [
+        { score: 0, creditLimit: '500' },
+        { score: 60, creditLimit: '200' },
+        { score: 40, creditLimit: '300' },
+        { score: 100, creditLimit: '0' }
+      ]
+    })).toThrow(/increasing/);
+    expect(validate({ limitCurve: [{ score: 0, creditLimit: '-1' }, { score: 100, creditLimit: '0' }] }))
+      .toThrow(/non-negative decimal/);
+  });
+
+  it('rejects negative rates and crossed bands', () => {
+    expect(validate({ baseRateBps: -1 })).toThrow(/baseRateBps/);
+    expect(validate({ riskPremiumBps: 2.5 })).toThrow(/riskPremiumBps/);
+    expect(validate({ bands: { medium: 70, high: 40 } })).toThrow(/bands/);
+  });
+});
+
+describe('pricing a score', () => {
+  const curved = config({
+    limitCurve: [
+      { score: 0, creditLimit: '2500' },
+      { score: 30, creditLimit: '1000.5' },
+      { score: 100, creditLimit: '0' }
+    ],
+    baseRateBps: 300,
+    riskPremiumBps: 901
+  });
+
+  it('interpolates the credit limit between curve points', () => {
+    expect(creditLimitForScore(curved, 0)).toBe('2500');
+    expect(creditLimitForScore(curved, 10)).toBe('2000.16666667');
+    expect(creditLimitForScore(curved, 30)).toBe('1000.5');
+    expect(creditLimitForScore(curved, 65)).toBe('500.25');
+    expect(creditLimitForScore(curved, 100)).toBe('0');
+  });
+
+  it('matches the original fixed pricing with the default model', () => {
+    for (const score of [0, 23, 50, 99, 100]) {
+      expect(creditLimitForScore(DEFAULT_RISK_MODEL_CONFIG, score)).toBe(String(1000 - 10 * score));
+      expect(interestRateForScore(DEFAULT_RISK_MODEL_CONFIG, score)).toBe(Math.round(500 + 5 * score));
+    }
+  });
+
+  it('adds the score\'s share of the risk premium to the base rate', () => {
+    expect(interestRateForScore(curved, 0)).toBe(300);
+    expect(interestRateForScore(curved, 50)).toBe(751);
+    expect(interestRateForScore(curved, 100)).toBe(1201);
+  });
+
+  it('bands scores into risk levels', () => {
+    const bands = { medium: 25, high: 25 };
+    expect(riskLevelForScore(bands, 24)).toBe('low');
+    expect(riskLevelForScore(bands, 25)).toBe('high');
+  });
+});
+
+describe('RiskModelService', () => {
+  it('publishes valid configurations as the current version', async () => {
+    const service = new RiskModelService(new InMemoryRiskModelRepository());
+
+    const published = await service.publish(config({ baseRateBps: 450 }), 'Cheaper credit');
+
+    expect(published).toMatchObject({ version: 2, description: 'Cheaper credit' });
+    expect(await service.current()).toEqual(published);
+    expect((await service.list()).map(model => model.version)).toEqual([2, 1]);
+  });
+
+  it('does not publish invalid configurations', async () => {
+    const service = new RiskModelService(new InMemoryRiskModelRepository());
+
+    await expect(service.publish(config({ bands: { medium: 80, high: 20 } }))).rejects.toThrow(InvalidRiskModelError);
+    expect((await service.current()).version).toBe(1);
+  });
+
+  it('throws RiskModelNotFoundError for unknown versions', async () => {
+    const service = new RiskModelService(new InMemoryRiskModelRepository());
+
+    await expect(service.get(4)).rejects.toThrow(RiskModelNotFoundError);
+    await expect(service.get(4)).rejects.toThrow('Risk model version 4 not found');
+  });
+});
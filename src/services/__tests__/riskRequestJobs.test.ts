@@ -0,0 +1,239 @@
+import { createHmac } from 'crypto';
+import { describe, it, expect, beforeEach, afterEach, vi, type Mock } from 'vitest';
+import { InMemoryJobQueue } from '../jobQueue.js';
+import type { RiskEvaluationService } from '../RiskEvaluationService.js';
+import {
+  CallbackUrlNotAllowedError,
+  RISK_CALLBACK_SIGNATURE_HEADER,
+  RISK_REQUEST_CALLBACK_JOB,
+  RISK_REQUEST_JOB,
+  checkCallbackUrl,
+  registerRiskRequests,
+  submitRiskRequest,
+} from '../riskRequestJobs.js';
+import { InMemoryRiskRequestRepository } from '../../repositories/memory/InMemoryRiskRequestRepository.js';
+import { RiskRequestStatus } from '../../models/RiskRequest.js';
+import { loadRiskRequestConfig } from '../../config/riskRequests.js';
+import type { RiskEvaluationResult } from '../../models/RiskEvaluation.js';
+
+const result: RiskEvaluationResult = {
+  walletAddress: 'GWALLET',
+  riskScore: 30,
+  creditLimit: '700',
+  interestRateBps: 650,
+  modelVersion: 1,
+  message: 'New risk evaluation completed',
+};
+
+/** Resolves the hosts used in these tests without DNS. */
+const addresses: Record<string, string[]> = {
+  'example.com': ['93.184.216.34'],
+  'hooks.example.com': ['93.184.216.34', '2606:2800:220:1::1'],
+  'internal.example.com': ['10.0.0.5'],
+  'rebound.example.com': ['93.184.216.34', '127.0.0.1'],
+};
+const lookup = async (hostname: string) => addresses[hostname] ?? [];
+const callbacks = { callbackAllowedHosts: ['example.com', '*.example.com'], lookup };
+
+describe('risk request jobs', () => {
+  let queue: InMemoryJobQueue;
+  let requests: InMemoryRiskRequestRepository;
+  let service: { evaluateRisk: Mock<RiskEvaluationService['evaluateRisk']> };
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    queue = new InMemoryJobQueue(5, 0);
+    requests = new InMemoryRiskRequestRepository();
+    service = { evaluateRisk: vi.fn<RiskEvaluationService['evaluateRisk']>().mockResolvedValue(result) };
+    fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 204 }));
+    registerRiskRequests(queue, service, requests, {
+      ...callbacks,
+      callbackSecret: 'shh',
+      fetch: fetchMock as unknown as typeof fetch,
+    });
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    queue.stop();
+    vi.restoreAllMocks();
+  });
+
+  it('evaluates a queued request and records the result', async () => {
+    const request = await submitRiskRequest(queue, requests, { walletAddress: 'GWALLET', forceRefresh: true });
+    expect(request.status).toBe(RiskRequestStatus.QUEUED);
+    expect(await queue.getJob(`${RISK_REQUEST_JOB}:${request.id}`)).toMatchObject({ status: 'pending' });
+
+    queue.start();
+    await queue.drain();
+
+    expect(service.evaluateRisk).toHaveBeenCalledWith({ walletAddress: 'GWALLET', forceRefresh: true });
+    const completed = await requests.findById(request.id);
+    expect(completed).toMatchObject({ status: RiskRequestStatus.COMPLETED, result });
+    expect(completed!.completedAt).toBeInstanceOf(Date);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('marks the request failed once the job runs out of attempts', async () => {
+    service.evaluateRisk
+      .mockRejectedValueOnce(new Error('Horizon unavailable'))
+      .mockRejectedValueOnce(new Error('Horizon unavailable'))
+      .mockRejectedValueOnce(new Error('Wallet data unavailable'));
+
+    const request = await submitRiskRequest(queue, requests, { walletAddress: 'GWALLET' });
+    queue.start();
+    await queue.drain();
+
+    expect(service.evaluateRisk).toHaveBeenCalledTimes(3);
+    expect(await requests.findById(request.id)).toMatchObject({
+      status: RiskRequestStatus.FAILED,
+      error: 'Wallet data unavailable',
+    });
+  });
+
+  it('goes back to queued while retries remain', async () => {
+    const slowRetries = new InMemoryJobQueue(5, 60_000);
+    registerRiskRequests(slowRetries, service, requests);
+    service.evaluateRisk.mockRejectedValueOnce(new Error('Horizon unavailable'));
+
+    const request = await submitRiskRequest(slowRetries, requests, { walletAddress: 'GWALLET' });
+    slowRetries.start();
+    await slowRetries.drain();
+    slowRetries.stop();
+
+    const queued = await requests.findById(request.id);
+    expect(queued!.status).toBe(RiskRequestStatus.QUEUED);
+    expect(queued!.error).toBeUndefined();
+  });
+
+  it('posts the finished request to its callback URL, signed', async () => {
+    const request = await submitRiskRequest(
+      queue,
+      requests,
+      { walletAddress: 'GWALLET', callbackUrl: 'https://example.com/hook' },
+      callbacks,
+    );
+    queue.start();
+    await queue.drain();
+
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    const [url, init] = fetchMock.mock.calls[0]!;
+    expect(url).toBe('https://example.com/hook');
+    expect(JSON.parse(init.body)).toMatchObject({ id: request.id, status: RiskRequestStatus.COMPLETED, result });
+    const signature = createHmac('sha256', 'shh').update(init.body).digest('hex');
+    expect(init.headers[RISK_CALLBACK_SIGNATURE_HEADER]).toBe(`sha256=${signature}`);
+  });
+
+  it('calls back after a failure too, and retries deliveries that are refused', async () => {
+    service.evaluateRisk.mockRejectedValue(new Error('Wallet data unavailable'));
+    fetchMock.mockResolvedValueOnce(new Response(null, { status: 503 }));
+
+    const request = await submitRiskRequest(
+      queue,
+      requests,
+      { walletAddress: 'GWALLET', callbackUrl: 'https://example.com/hook' },
+      callbacks,
+    );
+    queue.start();
+    await queue.drain();
+
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+    expect(JSON.parse(fetchMock.mock.calls[1]![1].body)).toMatchObject({ status: RiskRequestStatus.FAILED });
+    expect((await queue.getFailedJobs()).map((job) => job.id)).toEqual([`${RISK_REQUEST_JOB}:${request.id}`]);
+  });
+
+  it('refuses callback URLs outside the allowlist or resolving to non-public addresses', async () => {
+    for (const callbackUrl of [
+      'https://attacker.test/hook',
+      'https://example.com.attacker.test/hook',
+      'http://127.0.0.1:8080/admin',
+      'https://internal.example.com/hook',
+      'https://rebound.example.com/hook',
+    ]) {
+      await expect(
+        submitRiskRequest(queue, requests, { walletAddress: 'GWALLET', callbackUrl }, callbacks),
+      ).rejects.toThrow(CallbackUrlNotAllowedError);
+    }
+    await expect(
+      submitRiskRequest(queue, requests, { walletAddress: 'GWALLET', callbackUrl: 'https://example.com/hook' }),
+    ).rejects.toThrow('host "example.com" is not allowed');
+    expect(await queue.size()).toBe(0);
+  });
+
+  it('rejects loopback, private, link-local and mapped addresses after resolution', async () => {
+    for (const address of ['127.0.0.1', '10.1.2.3', '172.16.0.1', '192.168.1.1', '169.254.169.254', '::1', 'fd00::1', '::ffff:127.0.0.1']) {
+      await expect(
+        checkCallbackUrl('https://hooks.example.com/hook', { ...callbacks, lookup: async () => [address] }),
+      ).rejects.toThrow('does not resolve to a public address');
+    }
+    await expect(checkCallbackUrl('https://hooks.example.com/hook', callbacks)).resolves.toBeUndefined();
+    await expect(
+      checkCallbackUrl('https://hooks.example.com/hook', {
+        ...callbacks,
+        lookup: async () => { throw new Error('ENOTFOUND'); },
+      }),
+    ).rejects.toThrow('could not be resolved');
+  });
+
+  it('checks the callback URL again before delivering', async () => {
+    const request = await requests.create({ walletAddress: 'GWALLET', callbackUrl: 'https://internal.example.com/hook' });
+    await requests.update(request.id, { status: RiskRequestStatus.COMPLETED, result });
+
+    await queue.enqueue(RISK_REQUEST_CALLBACK_JOB, { requestId: request.id }, { maxAttempts: 1 });
+    queue.start();
+    await queue.drain();
+
+    expect(fetchMock).not.toHaveBeenCalled();
+    const [failed] = await queue.getFailedJobs();
+    expect(failed!.lastError).toContain('does not resolve to a public address');
+  });
+
+  it('leaves finished requests alone', async () => {
+    const request = await requests.create({ walletAddress: 'GWALLET' });
+    await requests.update(request.id, { status: RiskRequestStatus.COMPLETED, result });
+
+    await queue.enqueue(RISK_REQUEST_JOB, { requestId: request.id });
+    queue.start();
+    await queue.drain();
+
+    expect(service.evaluateRisk).not.toHaveBeenCalled();
+  });
+});
+
+describe('loadRiskRequestConfig', () => {
+  const names = ['RISK_CALLBACK_SECRET', 'RISK_CALLBACK_TIMEOUT_MS', 'RISK_CALLBACK_ALLOWED_HOSTS'];
+  let saved: Record<string, string | undefined>;
+
+  beforeEach(() => {
+    saved = Object.fromEntries(names.map((name) => [name, process.env[name]]));
+    for (const name of names) delete process.env[name];
+  });
+
+  afterEach(() => {
+    for (const name of names) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+  });
+
+  it('defaults to unsigned callbacks with a 10 second timeout', () => {
+    expect(loadRiskRequestConfig()).toEqual({ callbackTimeoutMs: 10_000, callbackAllowedHosts: [] });
+  });
+
+  it('reads the secret and timeout, rejecting invalid timeouts', () => {
+    process.env.RISK_CALLBACK_SECRET = 'shh';
+    process.env.RISK_CALLBACK_TIMEOUT_MS = '2500';
+    expect(loadRiskRequestConfig()).toEqual({ callbackSecret: 'shh', callbackTimeoutMs: 2500, callbackAllowedHosts: [] });
+
+    process.env.RISK_CALLBACK_TIMEOUT_MS = '0';
+    expect(() => loadRiskRequestConfig()).toThrow('RISK_CALLBACK_TIMEOUT_MS');
+  });
+
+  it('reads the callback host allowlist, rejecting malformed hosts', () => {
+    process.env.RISK_CALLBACK_ALLOWED_HOSTS = 'Hooks.Example.com, *.partner.io';
+    expect(loadRiskRequestConfig().callbackAllowedHosts).toEqual(['hooks.example.com', '*.partner.io']);
+
+    process.env.RISK_CALLBACK_ALLOWED_HOSTS = 'https://hooks.example.com';
+    expect(() => loadRiskRequestConfig()).toThrow('RISK_CALLBACK_ALLOWED_HOSTS');
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  RiskScoringPipeline,
+  DEFAULT_RISK_FEATURES,
+  accountAgeFeature,
+  balanceStabilityFeature,
+  paymentVolumeFeature,
+  repaymentHistoryFeature,
+  validateRiskWeights,
+  type RiskFeatureInput
+} from '../riskScoring.js';
+import { FixtureWalletDataProvider, type WalletHistory } from '../walletData.js';
+import type { WalletHistoryFixture } from '../../fixtures/walletHistories.js';
+import { InMemoryCreditLineRepository } from '../../repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../../repositories/memory/InMemoryTransactionRepository.js';
+import { CreditLineStatus } from '../../models/CreditLine.js';
+import { TransactionStatus, TransactionType } from '../../models/Transaction.js';
+
+const NOW = new Date('2026-03-01T00:00:00Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const daysAgo = (days: number) => new Date(NOW.getTime() - days * DAY_MS);
+
+const WALLET = 'GCKFBEIYV2U22IO2BJ4KVJOIP7XPWQGZBW3JXDC55CYIXB5NAXMCEKJA';
+
+function history(overrides: Partial<WalletHistory> = {}): WalletHistory {
+  return { walletAddress: WALLET, createdAt: daysAgo(365), payments: [], balances: [], ...overrides };
+}
+
+function input(overrides: Partial<RiskFeatureInput> = {}): RiskFeatureInput {
+  return { walletAddress: WALLET, history: history(), creditLines: [], transactions: [], now: NOW, ...overrides };
+}
+
+describe('risk features', () => {
+  it('scores account age up to two years', () => {
+    expect(accountAgeFeature.extract(input())).toEqual({ value: 0.5, input: 365 });
+    expect(accountAgeFeature.extract(input({ history: history({ createdAt: daysAgo(2000) }) })).value).toBe(1);
+    expect(accountAgeFeature.extract(input({ history: null }))).toEqual({ value: 0 });
+  });
+
+  it('scores payment volume within the lookback on a log scale', () => {
+    const payments = [
+      { amount: '999', direction: 'in' as const, at: daysAgo(10) },
+      { amount: '1', direction: 'out' as const, at: daysAgo(20) },
+      { amount: '50000', direction: 'in' as const, at: daysAgo(200) }
+    ];
+
+    const { value, input: volume } = paymentVolumeFeature.extract(input({ history: history({ payments }) }));
+
+    expect(volume).toBe(1000);
+    expect(value).toBeCloseTo(Math.log10(1001) / Math.log10(100_001));
+    expect(paymentVolumeFeature.extract(input()).value).toBe(0);
+  });
+
+  it('scores balance stability from the coefficient of variation', () => {
+    const steady = [100, 100, 100].map((balance, i) => ({ balance: String(balance), at: daysAgo(i * 7) }));
+    const swinging = [0, 200].map((balance, i) => ({ balance: String(balance), at: daysAgo(i * 7) }));
+
+    expect(balanceStabilityFeature.extract(input({ history: history({ balances: steady }) }))).toEqual({ value: 1, input: 0 });
+    expect(balanceStabilityFeature.extract(input({ history: history({ balances: swinging }) }))).toEqual({ value: 0, input: 1 });
+    expect(balanceStabilityFeature.extract(input({ history: history({ balances: steady.slice(0, 1) }) }))).toEqual({ value: 0 });
+  });
+
+  it('scores repayment history from confirmed Creditra transactions', () => {
+    const tx = (type: TransactionType, amount: string, status = TransactionStatus.CONFIRMED) =>
+      ({ type, amount, status }) as RiskFeatureInput['transactions'][number];
+    const transactions = [
+      tx(TransactionType.BORROW, '400'),
+      tx(TransactionType.REPAY, '300'),
+      tx(TransactionType.REPAY, '100', TransactionStatus.FAILED)
+    ];
+    const line = (status: CreditLineStatus) => ({ status }) as RiskFeatureInput['creditLines'][number];
+
+    expect(repaymentHistoryFeature.extract(input())).toEqual({ value: 0.5 });
+    expect(repaymentHistoryFeature.extract(input({ transactions, creditLines: [line(CreditLineStatus.ACTIVE)] })))
+      .toEqual({ value: 0.75, input: 0.75 });
+    expect(repaymentHistoryFeature.extract(input({ transactions, creditLines: [line(CreditLineStatus.DEFAULTED)] })))
+      .toEqual({ value: 0, input: 0.75 });
+  });
+});
+
+describe('validateRiskWeights', () => {
+  it('accepts non-negative weights for every feature that sum to 1', () => {
+    expect(() => validateRiskWeights(DEFAULT_RISK_FEATURES, {
+      wallet_age: 0.25, payment_volume: 0.25, balance_stability: 0.25, repayment_history: 0.25
+    })).not.toThrow();
+  });
+
+  it('rejects missing, unknown, negative or unbalanced weights', () => {
+    const features = [accountAgeFeature, paymentVolumeFeature];
+    expect(() => validateRiskWeights(features, { wallet_age: 1 })).toThrow(/payment_volume/);
+    expect(() => validateRiskWeights(features, { wallet_age: 0.5, payment_volume: 0.5, shoe_size: 0 })).toThrow(/shoe_size/);
+    expect(() => validateRiskWeights(features, { wallet_age: 1.5, payment_volume: -0.5 })).toThrow(/non-negative/);
+    expect(() => validateRiskWeights(features, { wallet_age: 0.5, payment_volume: 0.4 })).toThrow(/sum to 1/);
+  });
+});
+
+describe('RiskScoringPipeline', () => {
+  let creditLineRepository: InMemoryCreditLineRepository;
+  let transactionRepository: InMemoryTransactionRepository;
+
+  const fixtures: Record<string, WalletHistoryFixture> = {
+    [WALLET]: {
+      accountAgeDays: 730,
+      payments: [{ daysAgo: 5, amount: '100000', direction: 'in' }],
+      balances: [{ daysAgo: 14, balance: '500' }, { daysAgo: 7, balance: '500' }]
+    }
+  };
+
+  beforeEach(() => {
+    creditLineRepository = new InMemoryCreditLineRepository();
+    transactionRepository = new InMemoryTransactionRepository(creditLineRepository);
+  });
+
+  function pipeline(): RiskScoringPipeline {
+    return new RiskScoringPipeline(
+      new FixtureWalletDataProvider(fixtures, () => NOW),
+      creditLineRepository,
+      transactionRepository
+    );
+  }
+
+  it('records every factor with its value, weight and measurement', async () => {
+    const { riskScore, factors } = await pipeline().score(WALLET, NOW);
+
+    expect(factors.map(({ name, value, weight, input }) => ({ name, value, weight, input }))).toEqual([
+      { name: 'wallet_age', value: 1, weight: 0.2, input: 730 },
+      { name: 'payment_volume', value: 1, weight: 0.25, input: 100000 },
+      { name: 'balance_stability', value: 1, weight: 0.2, input: 0 },
+      { name: 'repayment_history', value: 0.5, weight: 0.35, input: undefined }
+    ]);
+    // Only the neutral repayment history holds the score above zero.
+    expect(riskScore).toBe(18);
+  });
+
+  it('scores an unknown account as the highest on-chain risk', async () => {
+    const { riskScore } = await pipeline().score('GUNKNOWN', NOW);
+
+    expect(riskScore).toBe(83);
+  });
+
+  it('lowers the risk of a wallet that repays what it borrows', async () => {
+    const line = await creditLineRepository.create({ walletAddress: WALLET, creditLimit: '1000', interestRateBps: 500 });
+    for (const type of [TransactionType.BORROW, TransactionType.REPAY]) {
+      const transaction = await transactionRepository.create({ creditLineId: line.id, amount: '250', type });
+      await transactionRepository.updateStatus(transaction.id, TransactionStatus.CONFIRMED);
+    }
+
+    expect((await pipeline().score(WALLET, NOW)).riskScore).toBe(0);
+
+    await creditLineRepository.update(line.id, { status: CreditLineStatus.DEFAULTED });
+    expect((await pipeline().score(WALLET, NOW)).riskScore).toBe(35);
+  });
+});
+
+describe('FixtureWalletDataProvider', () => {
+  it('resolves fixture offsets against the current time, oldest first', async () => {
+    const provider = new FixtureWalletDataProvider({
+      [WALLET]: {
+        accountAgeDays: 30,
+        payments: [{ daysAgo: 1, amount: '5', direction: 'out' }, { daysAgo: 3, amount: '10', direction: 'in' }],
+        balances: [{ daysAgo: 2, balance: '10' }]
+      }
+    }, () => NOW);
+
+    expect(await provider.getWalletHistory(WALLET)).toEqual({
+      walletAddress: WALLET,
+      createdAt: daysAgo(30),
+      payments: [
+        { amount: '10', direction: 'in', at: daysAgo(3) },
+        { amount: '5', direction: 'out', at: daysAgo(1) }
+      ],
+      balances: [{ balance: '10', at: daysAgo(2) }]
+    });
+    expect(await provider.getWalletHistory('GUNKNOWN')).toBeNull();
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Credit limit adjustment jobs.
+ *
+ * Every evaluation the risk service stores queues a `credit_limit_adjustment`
+ * job for its wallet, so evaluation requests do not wait on credit line
+ * updates and failed adjustments are retried. A newer evaluation replaces an
+ * adjustment for the same wallet that has not started yet.
+ */
+import type { Job, JobQueue } from './jobQueue.js';
+import type { RiskEvaluationService } from './RiskEvaluationService.js';
+import type { CreditLimitAdjustmentService } from './CreditLimitAdjustmentService.js';
+
+export const CREDIT_LIMIT_ADJUSTMENT_JOB = 'credit_limit_adjustment';
+
+export interface CreditLimitAdjustmentJobPayload {
+  evaluationId: string;
+}
+
+/**
+ * Register the adjustment handler on `queue` and, unless the policy is `off`,
+ * queue an adjustment for each evaluation `riskEvaluationService` stores.
+ */
+export function registerCreditLimitAdjustment(
+  queue: JobQueue,
+  riskEvaluationService: RiskEvaluationService,
+  adjustmentService: CreditLimitAdjustmentService,
+): void {
+  queue.registerHandler<CreditLimitAdjustmentJobPayload>(
+    CREDIT_LIMIT_ADJUSTMENT_JOB,
+    async (job: Job<CreditLimitAdjustmentJobPayload>) => {
+      const evaluation = await riskEvaluationService.getRiskEvaluation(job.payload.evaluationId);
+      // Deleted once expired; there is nothing left to act on.
+      if (!evaluation) return;
+      await adjustmentService.adjustForEvaluation(evaluation);
+    },
+  );
+
+  if (adjustmentService.policy.mode === 'off') return;
+
+  riskEvaluationService.onEvaluationSaved(async (evaluation) => {
+    await queue.enqueue<CreditLimitAdjustmentJobPayload>(
+      CREDIT_LIMIT_ADJUSTMENT_JOB,
+      { evaluationId: evaluation.id },
+      { uniqueKey: `${CREDIT_LIMIT_ADJUSTMENT_JOB}:${evaluation.walletAddress}`, onDuplicate: 'replace' },
+    );
+  });
+}
@@ -0,0 +1,118 @@
+/**
+ * Five-field cron expressions (`minute hour day-of-month month day-of-week`),
+ * evaluated in UTC.
+ *
+ * Each field accepts `*`, numbers, ranges (`1-5`), lists (`1,15`) and steps
+ * (`*\/15`, `0-30/10`). Day-of-week runs 0-6 from Sunday, and 7 is also
+ * Sunday. As in standard cron, when both day fields are restricted a day
+ * matches if either of them does.
+ */
+
+export interface CronExpression {
+  readonly source: string;
+  readonly minutes: ReadonlySet<number>;
+  readonly hours: ReadonlySet<number>;
+  readonly daysOfMonth: ReadonlySet<number>;
+  readonly months: ReadonlySet<number>;
+  readonly daysOfWeek: ReadonlySet<number>;
+  /** Whether the day-of-month field is anything other than `*`. */
+  readonly daysOfMonthRestricted: boolean;
+  /** Whether the day-of-week field is anything other than `*`. */
+  readonly daysOfWeekRestricted: boolean;
+}
+
+const MINUTE_MS = 60 * 1000;
+
+/** Give up looking for an occurrence after this many years (e.g. `0 0 30 2 *`). */
+const SEARCH_YEARS = 5;
+
+function parseNumber(text: string, name: string, min: number, max: number): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`Invalid cron ${name} "${text}"`);
+  }
+  const value = Number(text);
+  if (value < min || value > max) {
+    throw new Error(`Cron ${name} ${value} is outside ${min}-${max}`);
+  }
+  return value;
+}
+
+function parseField(field: string, name: string, min: number, max: number): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/') as [string, string | undefined];
+    const step = stepText === undefined ? 1 : parseNumber(stepText, `${name} step`, 1, max);
+
+    let from: number;
+    let to: number;
+    if (range === '*') {
+      [from, to] = [min, max];
+    } else if (range.includes('-')) {
+      const [start, end] = range.split('-') as [string, string];
+      from = parseNumber(start, name, min, max);
+      to = parseNumber(end, name, min, max);
+      if (from > to) throw new Error(`Invalid cron ${name} range "${range}"`);
+    } else {
+      from = parseNumber(range, name, min, max);
+      to = stepText === undefined ? from : max;
+    }
+
+    for (let value = from; value <= to; value += step) values.add(value);
+  }
+  return values;
+}
+
+/** Parse a cron expression, throwing on anything malformed. */
+export function parseCron(expression: string): CronExpression {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields, got ${fields.length}`);
+  }
+  const [minute, hour, dayOfMonth, month, dayOfWeek] = fields as [string, string, string, string, string];
+
+  const daysOfWeek = parseField(dayOfWeek, 'day-of-week', 0, 7);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    source: expression,
+    minutes: parseField(minute, 'minute', 0, 59),
+    hours: parseField(hour, 'hour', 0, 23),
+    daysOfMonth: parseField(dayOfMonth, 'day-of-month', 1, 31),
+    months: parseField(month, 'month', 1, 12),
+    daysOfWeek,
+    daysOfMonthRestricted: !dayOfMonth.startsWith('*'),
+    daysOfWeekRestricted: !dayOfWeek.startsWith('*'),
+  };
+}
+
+function dayMatches(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  if (cron.daysOfMonthRestricted && cron.daysOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  if (cron.daysOfMonthRestricted) return dayOfMonth;
+  if (cron.daysOfWeekRestricted) return dayOfWeek;
+  return true;
+}
+
+/** First time (ms since epoch) strictly after `after` that matches `cron`. */
+export function nextCronOccurrence(cron: CronExpression, after: number): number {
+  const date = new Date(Math.floor(after / MINUTE_MS) * MINUTE_MS + MINUTE_MS);
+  const lastYear = date.getUTCFullYear() + SEARCH_YEARS;
+
+  while (date.getUTCFullYear() <= lastYear) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  throw new Error(`Cron expression "${cron.source}" has no occurrence within ${SEARCH_YEARS} years`);
+}
@@ -1,40 +1,104 @@
+import type { CursorRepository } from "../repositories/interfaces/CursorRepository.js";
+import { InMemoryCursorRepository } from "../repositories/memory/InMemoryCursorRepository.js";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
 export interface HorizonEvent {
+    /** RPC event id; unique per event and usable as a paging cursor. */
+    id: string;
     /** Ledger sequence number in which the event was recorded. */
     ledger: number;
     /** ISO-8601 timestamp of the ledger close. */
     timestamp: string;
     /** The Soroban contract ID that emitted this event. */
     contractId: string;
-    /** Decoded event topic array (stringified for the skeleton). */
+    /** Decoded event topics; symbols, strings and addresses as plain strings, other values as JSON. */
     topics: string[];
-    /** Decoded event data payload (stringified for the skeleton). */
+    /** Decoded event data payload as JSON. */
     data: string;
+    /** Hash of the transaction that emitted the event. */
+    txHash?: string;
 }
 
 
 export type EventHandler = (event: HorizonEvent) => void | Promise<void>;
 
 export interface HorizonListenerConfig {
+    /** Soroban RPC endpoint serving `getEvents` (JSON-RPC over HTTP POST). */
     horizonUrl: string;
     contractIds: string[];
     pollIntervalMs: number;
+    /** Ledger to start from when no cursor has been saved: a sequence number or "latest". */
     startLedger: string;
+    /** Events requested per `getEvents` page. */
+    pageSize: number;
+    /** Upper bound on the delay between polls while the endpoint keeps failing. */
+    maxBackoffMs: number;
+}
+
+/** JSON-RPC error returned by the endpoint. */
+export class HorizonRpcError extends Error {
+    constructor(
+        public readonly method: string,
+        public readonly code: number,
+        message: string,
+    ) {
+        super(`${method} failed (${code}): ${message}`);
+        this.name = "HorizonRpcError";
+    }
+}
+
+/** Shape of an event in a Soroban RPC `getEvents` response. */
+interface RpcEvent {
+    id: string;
+    ledger: number;
+    ledgerClosedAt: string;
+    contractId: string;
+    txHash?: string;
+    /** Present when requested with `xdrFormat: "json"`. */
+    topicJson?: unknown[];
+    valueJson?: unknown;
+    /** Base64 XDR, returned by endpoints without JSON support. */
+    topic?: string[];
+    value?: string;
+}
+
+interface GetEventsResult {
+    events: RpcEvent[];
+    latestLedger: number;
+    cursor?: string;
+}
+
+interface GetLatestLedgerResult {
+    sequence: number;
 }
 
 // ---------------------------------------------------------------------------
 // Internal state
 // ---------------------------------------------------------------------------
 
+/** Abort a single RPC request after this long. */
+const REQUEST_TIMEOUT_MS = 10_000;
+
+/** Pages fetched per poll before yielding to the next tick. */
+const MAX_PAGES_PER_POLL = 50;
+
 /** Whether the listener loop is currently running. */
 let running = false;
 
-/** NodeJS timer handle for the polling interval. */
-let intervalHandle: ReturnType<typeof setInterval> | null = null;
+/** NodeJS timer handle for the next scheduled poll. */
+let timeoutHandle: ReturnType<typeof setTimeout> | null = null;
+
+/** Incremented on every start/stop so polls from a previous run stop rescheduling. */
+let generation = 0;
+
+/** The poll in progress, if any. */
+let activePoll: Promise<number> | null = null;
+
+/** Polls that have failed in a row; drives the backoff delay. */
+let consecutiveFailures = 0;
 
 /** Registered event handlers. */
 const eventHandlers: EventHandler[] = [];
@@ -42,13 +106,16 @@ const eventHandlers: EventHandler[] = [];
 /** Active configuration (set on start). */
 let activeConfig: HorizonListenerConfig | null = null;
 
+/** Where the listener saves its position. In-memory unless one is passed to start(). */
+let cursorRepository: CursorRepository = new InMemoryCursorRepository();
+
 // ---------------------------------------------------------------------------
 // Configuration helpers
 // ---------------------------------------------------------------------------
 
 export function resolveConfig(): HorizonListenerConfig {
     const horizonUrl =
-        process.env["HORIZON_URL"] ?? "https://horizon-testnet.stellar.org";
+        process.env["HORIZON_URL"] ?? "https://soroban-testnet.stellar.org";
 
     const contractIdsRaw = process.env["CONTRACT_IDS"] ?? "";
     const contractIds = contractIdsRaw
@@ -62,7 +129,28 @@ export function resolveConfig(): HorizonListenerConfig {
 
     const startLedger = process.env["HORIZON_START_LEDGER"] ?? "latest";
 
-    return { horizonUrl, contractIds, pollIntervalMs, startLedger };
+    const pageSize = parseInt(process.env["HORIZON_PAGE_SIZE"] ?? "100", 10);
+
+    const maxBackoffMs = parseInt(
+        process.env["HORIZON_MAX_BACKOFF_MS"] ?? "60000",
+        10,
+    );
+
+    return { horizonUrl, contractIds, pollIntervalMs, startLedger, pageSize, maxBackoffMs };
+}
+
+/**
+ * Name under which the cursor is saved. Keyed by the contract set so that
+ * watching a different set of contracts starts from `startLedger` again.
+ */
+export function cursorName(config: HorizonListenerConfig): string {
+    return `horizon_listener:${[...config.contractIds].sort().join(",")}`;
+}
+
+/** Delay before the next poll: the poll interval, doubled per consecutive failure up to `maxBackoffMs`. */
+export function backoffDelay(config: HorizonListenerConfig, failures: number): number {
+    if (failures <= 0) return config.pollIntervalMs;
+    return Math.min(config.pollIntervalMs * 2 ** failures, config.maxBackoffMs);
 }
 
 // ---------------------------------------------------------------------------
@@ -78,47 +166,186 @@ export function clearEventHandlers(): void {
 }
 
 
+/**
+ * Run every handler on `event`, in registration order. A handler failure is
+ * rethrown so the poll fails before saving the cursor and the event is
+ * redelivered by the next poll.
+ */
 async function dispatchEvent(event: HorizonEvent): Promise<void> {
     for (const handler of eventHandlers) {
         try {
-        await handler(event);
+            await handler(event);
         } catch (err) {
-        console.error(
-            "[HorizonListener] Event handler threw an error:",
-            err,
-        );
+            console.error(`[HorizonListener] Event handler failed on event ${event.id}.`);
+            throw err;
         }
     }
 }
 
 // ---------------------------------------------------------------------------
-// Simulated polling (skeleton — replace with real HTTP call in production)
+// RPC
 // ---------------------------------------------------------------------------
 
+let nextRequestId = 1;
+
+async function rpc<Result>(
+    config: HorizonListenerConfig,
+    method: string,
+    params?: Record<string, unknown>,
+): Promise<Result> {
+    const response = await fetch(config.horizonUrl, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ jsonrpc: "2.0", id: nextRequestId++, method, params }),
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+        throw new Error(`${method} failed: ${config.horizonUrl} responded with HTTP ${response.status}`);
+    }
+
+    const body = (await response.json()) as {
+        result?: Result;
+        error?: { code: number; message: string };
+    };
+    if (body.error) {
+        throw new HorizonRpcError(method, body.error.code, body.error.message);
+    }
+    if (body.result === undefined) {
+        throw new Error(`${method} failed: response has no result`);
+    }
+    return body.result;
+}
+
+async function resolveStartLedger(config: HorizonListenerConfig): Promise<number> {
+    if (config.startLedger === "latest") {
+        const latest = await rpc<GetLatestLedgerResult>(config, "getLatestLedger");
+        return latest.sequence;
+    }
+    if (!/^\d+$/.test(config.startLedger)) {
+        throw new Error(
+            `Invalid start ledger "${config.startLedger}"; expected a ledger sequence or "latest".`,
+        );
+    }
+    return Number(config.startLedger);
+}
+
+/** Render a JSON-encoded ScVal topic as a string. */
+function topicToString(topic: unknown): string {
+    if (topic !== null && typeof topic === "object") {
+        const entries = Object.entries(topic);
+        if (entries.length === 1) {
+            const [type, value] = entries[0]!;
+            if (["symbol", "string", "address"].includes(type) && typeof value === "string") {
+                return value;
+            }
+        }
+    }
+    return JSON.stringify(topic);
+}
+
+function toHorizonEvent(raw: RpcEvent): HorizonEvent {
+    return {
+        id: raw.id,
+        ledger: raw.ledger,
+        timestamp: raw.ledgerClosedAt,
+        contractId: raw.contractId,
+        topics: raw.topicJson ? raw.topicJson.map(topicToString) : raw.topic ?? [],
+        data: raw.valueJson !== undefined ? JSON.stringify(raw.valueJson) : raw.value ?? "",
+        txHash: raw.txHash,
+    };
+}
 
-export async function pollOnce(config: HorizonListenerConfig): Promise<void> {
+// ---------------------------------------------------------------------------
+// Polling
+// ---------------------------------------------------------------------------
+
+/**
+ * Fetch and dispatch all new contract events, page by page. Resumes from the
+ * saved cursor, or from `startLedger` on first run. The cursor is saved after
+ * each page is dispatched, so delivery is at-least-once: a crash or handler
+ * failure mid-page redelivers that page on the next poll. Returns the number
+ * of events dispatched.
+ */
+export async function pollOnce(
+    config: HorizonListenerConfig,
+    cursors: CursorRepository = cursorRepository,
+): Promise<number> {
     console.log(
         `[HorizonListener] Polling ${config.horizonUrl} ` +
         `(contracts: ${config.contractIds.length > 0 ? config.contractIds.join(", ") : "none"}, ` +
         `startLedger: ${config.startLedger})`,
     );
 
-    if (config.contractIds.length > 0) {
-        const simulatedEvent: HorizonEvent = {
-        ledger: 1000,
-        timestamp: new Date().toISOString(),
-        contractId: config.contractIds[0]!,
-        topics: ["credit_line_created"],
-        data: JSON.stringify({ walletAddress: "GXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXXX" }),
-        };
-
-        console.log(
-        "[HorizonListener] Simulated event received:",
-        JSON.stringify(simulatedEvent),
-        );
+    if (config.contractIds.length === 0) {
+        return 0;
+    }
+
+    const name = cursorName(config);
+    const saved = await cursors.get(name);
+    let cursor = saved?.cursor;
+    const startLedger = cursor === undefined ? await resolveStartLedger(config) : undefined;
+    let dispatched = 0;
+
+    for (let page = 0; page < MAX_PAGES_PER_POLL; page++) {
+        const result = await rpc<GetEventsResult>(config, "getEvents", {
+            ...(cursor === undefined ? { startLedger } : {}),
+            filters: [{ type: "contract", contractIds: config.contractIds }],
+            pagination: { limit: config.pageSize, ...(cursor === undefined ? {} : { cursor }) },
+            xdrFormat: "json",
+        });
+
+        for (const raw of result.events) {
+            await dispatchEvent(toHorizonEvent(raw));
+            dispatched += 1;
+        }
+
+        const last = result.events[result.events.length - 1];
+        const nextCursor = result.cursor ?? last?.id;
+        if (nextCursor === undefined || nextCursor === cursor) {
+            break;
+        }
+
+        await cursors.save(name, {
+            cursor: nextCursor,
+            lastLedger: last?.ledger ?? result.latestLedger,
+        });
+        cursor = nextCursor;
+
+        if (result.events.length < config.pageSize) {
+            break;
+        }
+    }
 
-        await dispatchEvent(simulatedEvent);
+    if (dispatched > 0) {
+        console.log(`[HorizonListener] Dispatched ${dispatched} event(s).`);
+    }
+    return dispatched;
+}
+
+/** Poll once, then schedule the next poll with backoff unless stopped meanwhile. */
+async function runPoll(config: HorizonListenerConfig, runGeneration: number): Promise<void> {
+    const poll = pollOnce(config);
+    activePoll = poll;
+    try {
+        await poll;
+        consecutiveFailures = 0;
+    } catch (err) {
+        consecutiveFailures += 1;
+        console.error(
+            `[HorizonListener] Poll failed (${consecutiveFailures} in a row):`,
+            err,
+        );
+    } finally {
+        if (activePoll === poll) activePoll = null;
     }
+
+    if (!running || runGeneration !== generation) return;
+
+    const delay = backoffDelay(config, consecutiveFailures);
+    timeoutHandle = setTimeout(() => {
+        void runPoll(config, runGeneration);
+    }, delay);
 }
 
 // ---------------------------------------------------------------------------
@@ -133,7 +360,11 @@ export function getConfig(): HorizonListenerConfig | null {
     return activeConfig;
 }
 
-export async function start(): Promise<void> {
+/**
+ * Start polling. Pass a persistent `cursors` repository so restarts resume
+ * from the last processed event; otherwise the position is kept in memory.
+ */
+export async function start(cursors?: CursorRepository): Promise<void> {
     if (running) {
         console.warn("[HorizonListener] Already running — ignoring start() call.");
         return;
@@ -142,6 +373,11 @@ export async function start(): Promise<void> {
     const config = resolveConfig();
     activeConfig = config;
     running = true;
+    consecutiveFailures = 0;
+    generation += 1;
+    if (cursors) {
+        cursorRepository = cursors;
+    }
 
     console.log("[HorizonListener] Starting with config:", {
         horizonUrl: config.horizonUrl,
@@ -150,30 +386,36 @@ export async function start(): Promise<void> {
         startLedger: config.startLedger,
     });
 
-    await pollOnce(config);
-
-    intervalHandle = setInterval(() => {
-        void pollOnce(config);
-    }, config.pollIntervalMs);
+    await runPoll(config, generation);
 
     console.log(
         `[HorizonListener] Started. Polling every ${config.pollIntervalMs}ms.`,
     );
 }
 
+/**
+ * Stop scheduling polls. A poll already in progress runs to completion;
+ * await {@link idle} to wait for it.
+ */
 export function stop(): void {
     if (!running) {
         console.warn("[HorizonListener] Not running — ignoring stop() call.");
         return;
     }
 
-    if (intervalHandle !== null) {
-        clearInterval(intervalHandle);
-        intervalHandle = null;
+    if (timeoutHandle !== null) {
+        clearTimeout(timeoutHandle);
+        timeoutHandle = null;
     }
 
     running = false;
     activeConfig = null;
+    generation += 1;
 
     console.log("[HorizonListener] Stopped.");
-}
\ No newline at end of file
+}
+
+/** Resolves once the poll in progress, if any, has finished (successfully or not). */
+export async function idle(): Promise<void> {
+    await activePoll?.catch(() => undefined);
+}
@@ -0,0 +1,85 @@
+/**
+ * Recurring interest accrual on the job queue.
+ *
+ * The `interest_accrual` schedule fires at midnight UTC and each occurrence
+ * accrues the UTC day that has just ended. Missed occurrences are caught up
+ * with one job per day, so a queue that keeps its schedules across restarts
+ * (`PgJobQueue`) accrues the days it was down once it is back. Occurrence
+ * jobs are fired once however many instances share the queue.
+ */
+import type { Job, JobQueue } from './jobQueue.js';
+import { type InterestAccrualService, addDays, periodOf } from './InterestAccrualService.js';
+
+export const INTEREST_ACCRUAL_JOB = 'interest_accrual';
+
+/** Midnight UTC every day. */
+export const INTEREST_ACCRUAL_CRON = '0 0 * * *';
+
+export interface InterestAccrualJobPayload {
+  /** Period to accrue (`YYYY-MM-DD`); scheduled jobs accrue the day before their occurrence. */
+  period?: string;
+  /** When set, accrue every period from here through `period` (catch-up). */
+  catchUpFrom?: string;
+}
+
+export interface InterestAccrualScheduleOptions {
+  /**
+   * Number of completed periods before today to catch up on immediately,
+   * e.g. days the process was not running. Defaults to 0 (no catch-up).
+   */
+  catchUpDays?: number;
+}
+
+/** The period a job accrues: its own, or the day before its occurrence. */
+function periodFor(job: Job<InterestAccrualJobPayload>): string {
+  if (job.payload.period) return job.payload.period;
+  if (job.scheduledFor === undefined) {
+    throw new Error(`Interest accrual job ${job.id} has neither a period nor an occurrence`);
+  }
+  return addDays(periodOf(new Date(job.scheduledFor)), -1);
+}
+
+/**
+ * Register the accrual handler and the daily schedule on `queue`, and
+ * enqueue a catch-up over the last `catchUpDays` completed periods when
+ * requested.
+ */
+export async function scheduleInterestAccrual(
+  queue: JobQueue,
+  service: InterestAccrualService,
+  options: InterestAccrualScheduleOptions = {},
+): Promise<void> {
+  const catchUpDays = options.catchUpDays ?? 0;
+  if (!Number.isInteger(catchUpDays) || catchUpDays < 0) {
+    throw new Error(`catchUpDays must be a non-negative integer, got ${catchUpDays}`);
+  }
+
+  queue.registerHandler<InterestAccrualJobPayload>(
+    INTEREST_ACCRUAL_JOB,
+    async (job: Job<InterestAccrualJobPayload>) => {
+      const period = periodFor(job);
+      if (job.payload.catchUpFrom) {
+        await service.catchUp(job.payload.catchUpFrom, period);
+      } else {
+        await service.accruePeriod(period);
+      }
+    },
+  );
+
+  await queue.schedule<InterestAccrualJobPayload>({
+    id: INTEREST_ACCRUAL_JOB,
+    type: INTEREST_ACCRUAL_JOB,
+    payload: {},
+    cron: INTEREST_ACCRUAL_CRON,
+    misfire: 'catch_up',
+  });
+
+  if (catchUpDays > 0) {
+    const yesterday = addDays(periodOf(new Date()), -1);
+    await queue.enqueue<InterestAccrualJobPayload>(
+      INTEREST_ACCRUAL_JOB,
+      { period: yesterday, catchUpFrom: addDays(yesterday, 1 - catchUpDays) },
+      { id: `${INTEREST_ACCRUAL_JOB}:${yesterday}` },
+    );
+  }
+}
@@ -1,11 +1,15 @@
 /**
  * Minimal async job queue abstraction.
  *
- * This module intentionally keeps the public surface small so it can later be
- * backed by a real queue backend (Redis, SQS, etc.) without changing call
- * sites. The current implementation is purely in-memory and single-process.
+ * This module intentionally keeps the public surface small so it can be
+ * backed by different queue backends without changing call sites. The
+ * implementation here is purely in-memory and single-process; `PgJobQueue`
+ * (pgJobQueue.ts) persists jobs in PostgreSQL and can be shared by several
+ * processes.
  */
 
+import { nextCronOccurrence, parseCron } from "./cron.js";
+
 export interface Job<Data = unknown> {
   /** Stable job identifier (unique within a queue instance). */
   readonly id: string;
@@ -21,10 +25,111 @@ export interface Job<Data = unknown> {
   readonly createdAt: number;
   /** Milliseconds since epoch when the job was last updated. */
   readonly updatedAt: number;
+  /** Error message of the most recent failed attempt, if any. */
+  readonly lastError?: string;
+  /** For jobs fired by a schedule, the occurrence (ms since epoch) they run for. */
+  readonly scheduledFor?: number;
+}
+
+export const JOB_STATUSES = ["pending", "running", "completed", "failed", "cancelled"] as const;
+export type JobStatus = (typeof JOB_STATUSES)[number];
+
+/** One run of a job's handler. */
+export interface JobAttempt {
+  /** 1-based, counted over the job's whole life (requeues do not restart it). */
+  readonly attempt: number;
+  /** Milliseconds since epoch when the attempt started. */
+  readonly startedAt: number;
+  /** Milliseconds since epoch when the attempt finished or was abandoned. */
+  readonly finishedAt: number;
+  /** Failure message; absent when the attempt succeeded. */
+  readonly error?: string;
+  /** Worker that ran the attempt, for queues shared by several processes. */
+  readonly workerId?: string;
+}
+
+/** A job as shown to operators, with its state and attempt history. */
+export interface JobDetails<Data = unknown> extends Job<Data> {
+  readonly status: JobStatus;
+  /** Milliseconds since epoch when a pending job is next due. */
+  readonly runAt: number;
+  readonly serializationKey?: string;
+  readonly uniqueKey?: string;
+  readonly history: readonly JobAttempt[];
+}
+
+export interface JobListFilter {
+  status?: JobStatus;
+  type?: string;
+  /** Defaults to 50. */
+  limit?: number;
+  /** Defaults to 0. */
+  offset?: number;
+}
+
+/** A page of jobs, oldest first, and how many jobs match the filter. */
+export interface JobList {
+  items: JobDetails[];
+  total: number;
 }
 
 export type JobHandler<Data = unknown> = (job: Job<Data>) => void | Promise<void>;
 
+/**
+ * How long to wait before retrying a failed attempt. The delay grows by
+ * `multiplier` per failed attempt up to `maxDelayMs`; `jitter` then removes a
+ * random fraction of it so jobs that failed together do not retry together.
+ */
+export interface RetryPolicy {
+  /** Delay before the first retry. */
+  initialDelayMs: number;
+  /** Factor applied to the delay for each further attempt (1 = fixed delay). */
+  multiplier: number;
+  /** Upper bound on the delay before jitter. */
+  maxDelayMs: number;
+  /** Fraction (0-1) of the delay that is randomised away. */
+  jitter: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  initialDelayMs: 500,
+  multiplier: 2,
+  maxDelayMs: 5 * 60 * 1000,
+  jitter: 0,
+};
+
+/** Fill in `overrides` from `defaults`, rejecting out-of-range values. */
+export function resolveRetryPolicy(
+  defaults: RetryPolicy,
+  overrides: Partial<RetryPolicy> = {},
+): RetryPolicy {
+  const policy = { ...defaults, ...overrides };
+  if (!(policy.initialDelayMs >= 0)) {
+    throw new Error(`initialDelayMs must be non-negative, got ${policy.initialDelayMs}`);
+  }
+  if (!(policy.multiplier >= 1)) {
+    throw new Error(`multiplier must be at least 1, got ${policy.multiplier}`);
+  }
+  if (!(policy.maxDelayMs >= policy.initialDelayMs)) {
+    throw new Error(`maxDelayMs must be at least initialDelayMs, got ${policy.maxDelayMs}`);
+  }
+  if (!(policy.jitter >= 0 && policy.jitter <= 1)) {
+    throw new Error(`jitter must be between 0 and 1, got ${policy.jitter}`);
+  }
+  return policy;
+}
+
+/** Delay before the next attempt of a job that has failed `attempts` times. */
+export function retryDelay(
+  policy: RetryPolicy,
+  attempts: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = policy.initialDelayMs * policy.multiplier ** Math.max(0, attempts - 1);
+  const capped = Math.min(exponential, policy.maxDelayMs);
+  return Math.round(capped * (1 - policy.jitter * random()));
+}
+
 export interface EnqueueOptions {
   /**
    * Maximum attempts before the job is moved to the failed set.
@@ -38,8 +143,105 @@ export interface EnqueueOptions {
   delayMs?: number;
   /**
    * Optional caller-provided job id. If omitted, an internal id is generated.
+   * Enqueuing an id the queue already holds is a no-op that returns the id.
    */
   id?: string;
+  /**
+   * Retry delays for this job; unset fields fall back to the queue's policy.
+   */
+  retry?: Partial<RetryPolicy>;
+  /**
+   * Jobs with the same key never run at the same time and start in the order
+   * they were enqueued, e.g. `credit_line:<id>` for jobs touching one line.
+   */
+  serializationKey?: string;
+  /**
+   * Identifies the work the job does, e.g. `risk_evaluation:<wallet>`. While
+   * a job with this key is waiting for its first attempt, enqueuing another
+   * is handled by `onDuplicate`. A job that has started may not see newer
+   * data, so it does not count and a new job is enqueued.
+   */
+  uniqueKey?: string;
+  /** Defaults to `coalesce`. */
+  onDuplicate?: DuplicatePolicy;
+  /**
+   * Also count a job with `uniqueKey` that completed within this window as a
+   * duplicate: nothing is enqueued (or, for `reject`, the enqueue throws).
+   * The in-memory queue only remembers completions of jobs that were
+   * themselves enqueued with `uniqueTtlMs`, and only for that long.
+   */
+  uniqueTtlMs?: number;
+}
+
+/**
+ * What `enqueue` does when a job with the same `uniqueKey` is waiting:
+ * keep it and return its id (`coalesce`), update its payload, delay and
+ * attempts in place (`replace`), or throw {@link DuplicateJobError} (`reject`).
+ */
+export type DuplicatePolicy = "coalesce" | "replace" | "reject";
+
+/** Thrown by `enqueue` with `onDuplicate: "reject"` when the unique key is taken. */
+export class DuplicateJobError extends Error {
+  constructor(
+    public readonly uniqueKey: string,
+    public readonly existingJobId: string,
+  ) {
+    super(`Job "${existingJobId}" already has unique key "${uniqueKey}".`);
+    this.name = "DuplicateJobError";
+  }
+}
+
+export const MISFIRE_POLICIES = ["fire_once", "catch_up", "skip"] as const;
+
+/**
+ * What to do with occurrences of a schedule that were missed, e.g. while no
+ * worker was running: run one job for all of them (`fire_once`), one job per
+ * occurrence (`catch_up`), or none (`skip`).
+ */
+export type MisfirePolicy = (typeof MISFIRE_POLICIES)[number];
+
+/**
+ * A recurring job. Each occurrence enqueues a job with the id
+ * `<schedule id>:<occurrence as ISO 8601>` and `scheduledFor` set to the
+ * occurrence, so an occurrence is fired once however many workers see it.
+ */
+export interface ScheduleDefinition<Data = unknown> {
+  /** Stable id; scheduling an existing id updates that schedule. */
+  id: string;
+  /** Job type of the jobs it enqueues. */
+  type: string;
+  payload: Data;
+  /** Five-field UTC cron expression. Exactly one of `cron` and `intervalMs` is required. */
+  cron?: string;
+  /** Fixed interval between occurrences, starting one interval after the schedule is created. */
+  intervalMs?: number;
+  /** Defaults to `fire_once`. */
+  misfire?: MisfirePolicy;
+  /**
+   * How late an occurrence may be found before it counts as missed.
+   * Defaults to one minute.
+   */
+  misfireGraceMs?: number;
+  /** Options for the jobs each occurrence enqueues. */
+  job?: Pick<EnqueueOptions, "maxAttempts" | "retry" | "serializationKey">;
+}
+
+/** A registered schedule and when it next fires. */
+export interface Schedule<Data = unknown> extends ScheduleDefinition<Data> {
+  readonly misfire: MisfirePolicy;
+  readonly misfireGraceMs: number;
+  /** Milliseconds since epoch of the next occurrence. */
+  readonly nextRunAt: number;
+  /** Milliseconds since epoch of the last occurrence that was fired. */
+  readonly lastRunAt?: number;
+}
+
+export interface HandlerOptions {
+  /**
+   * Maximum jobs of this type running at once, within the queue's overall
+   * limit. Defaults to no per-type limit.
+   */
+  concurrency?: number;
 }
 
 export interface JobQueue {
@@ -52,7 +254,7 @@ export interface JobQueue {
     type: string,
     payload: Data,
     options?: EnqueueOptions,
-  ): string;
+  ): Promise<string>;
 
   /**
    * Register a handler for the given job type.
@@ -62,6 +264,7 @@ export interface JobQueue {
   registerHandler<Data = unknown>(
     type: string,
     handler: JobHandler<Data>,
+    options?: HandlerOptions,
   ): void;
 
   /** Start background processing of queued jobs. Idempotent. */
@@ -74,61 +277,342 @@ export interface JobQueue {
   isRunning(): boolean;
 
   /** Number of jobs that are scheduled but not yet completed. */
-  size(): number;
+  size(): Promise<number>;
 
   /** Read-only snapshot of failed jobs for inspection/metrics. */
-  getFailedJobs(): readonly Job[];
+  getFailedJobs(): Promise<readonly Job[]>;
+
+  /** A failed (dead-lettered) job, or null if no failed job has this id. */
+  getFailedJob(id: string): Promise<Job | null>;
+
+  /**
+   * Move a failed job back to the queue, due immediately and with its full
+   * `maxAttempts` available again. `lastError` is kept until the next
+   * failure. Returns false if no failed job has this id.
+   */
+  requeueFailedJob(id: string): Promise<boolean>;
+
+  /** Delete a failed job. Returns false if no failed job has this id. */
+  purgeFailedJob(id: string): Promise<boolean>;
+
+  /** Delete every failed job. Returns how many were deleted. */
+  purgeFailedJobs(): Promise<number>;
+
+  /** Jobs matching `filter`, oldest first. */
+  listJobs(filter?: JobListFilter): Promise<JobList>;
+
+  /** Any job with its state and attempt history, or null if unknown. */
+  getJob(id: string): Promise<JobDetails | null>;
+
+  /**
+   * Make a pending, failed or cancelled job due immediately. Failed and
+   * cancelled jobs get their full `maxAttempts` again. Returns false if the
+   * job is unknown, running or completed. Throws {@link DuplicateJobError}
+   * if a cancelled job's unique key has been taken by a newer waiting job.
+   */
+  retryJob(id: string): Promise<boolean>;
+
+  /**
+   * Cancel a pending job so it never runs; it is kept for inspection and can
+   * be retried. Returns false if the job is unknown or not pending.
+   */
+  cancelJob(id: string): Promise<boolean>;
+
+  /**
+   * Stop starting jobs of `type` until it is resumed. Running jobs finish,
+   * and new jobs of the type are still accepted.
+   */
+  pauseType(type: string): Promise<void>;
+
+  /** Resume a paused job type. */
+  resumeType(type: string): Promise<void>;
+
+  /** Job types that are currently paused, sorted. */
+  getPausedTypes(): Promise<string[]>;
+
+  /**
+   * Create or update a recurring schedule. Updating keeps the next
+   * occurrence unless the cron expression or interval changed. Schedules
+   * fire while the queue is running.
+   */
+  schedule<Data = unknown>(definition: ScheduleDefinition<Data>): Promise<void>;
+
+  /** Remove a schedule. Returns false if no schedule has this id. */
+  unschedule(id: string): Promise<boolean>;
+
+  /** All schedules, sorted by id. */
+  getSchedules(): Promise<Schedule[]>;
 
   /**
    * Best-effort attempt to process all due jobs immediately.
    *
-   * This is primarily intended for tests and shutdown hooks.
+   * This is primarily intended for tests and shutdown hooks. After `stop()`
+   * no new jobs start, so it only waits for the running ones.
    */
   drain(): Promise<void>;
 }
 
-interface InternalJob<Data = unknown> extends Omit<Job<Data>, "attempts" | "updatedAt"> {
+interface InternalJob<Data = unknown>
+  extends Omit<Job<Data>, "payload" | "attempts" | "maxAttempts" | "updatedAt" | "lastError"> {
+  payload: Data;
   nextRunAt: number;
   attempts: number;
+  maxAttempts: number;
   updatedAt: number;
+  lastError?: string;
+  retry: RetryPolicy;
+  serializationKey?: string;
+  uniqueKey?: string;
+  uniqueTtlMs?: number;
+  /** Enqueue order, used to start jobs oldest first. */
+  sequence: number;
+  history: JobAttempt[];
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<unknown>;
+  concurrency: number;
 }
 
 let nextId = 1;
+let nextSequence = 1;
+
+/** Message recorded as a job's `lastError`. */
+export function errorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
+/** Most occurrences one schedule fires at once when catching up. */
+export const MAX_CATCH_UP_OCCURRENCES = 1000;
+
+/** Fill in schedule defaults, rejecting invalid definitions. */
+export function resolveSchedule<Data>(
+  definition: ScheduleDefinition<Data>,
+): ScheduleDefinition<Data> & Pick<Schedule, "misfire" | "misfireGraceMs"> {
+  const { cron, intervalMs } = definition;
+  if ((cron === undefined) === (intervalMs === undefined)) {
+    throw new Error(`Schedule "${definition.id}" needs exactly one of cron and intervalMs`);
+  }
+  if (cron !== undefined) parseCron(cron);
+  if (intervalMs !== undefined && !(Number.isInteger(intervalMs) && intervalMs > 0)) {
+    throw new Error(`intervalMs must be a positive integer, got ${intervalMs}`);
+  }
+  const misfire = definition.misfire ?? "fire_once";
+  if (!MISFIRE_POLICIES.includes(misfire)) {
+    throw new Error(`misfire must be one of ${MISFIRE_POLICIES.join(", ")}, got "${misfire}"`);
+  }
+  const misfireGraceMs = definition.misfireGraceMs ?? 60 * 1000;
+  if (!(misfireGraceMs >= 0)) {
+    throw new Error(`misfireGraceMs must be non-negative, got ${misfireGraceMs}`);
+  }
+  return { ...definition, misfire, misfireGraceMs };
+}
+
+/** Maps a time to the schedule's first occurrence strictly after it. */
+function occurrenceAfter(
+  definition: Pick<ScheduleDefinition, "cron" | "intervalMs">,
+): (after: number) => number {
+  if (definition.cron === undefined) return (after) => after + definition.intervalMs!;
+  const cron = parseCron(definition.cron);
+  return (after) => nextCronOccurrence(cron, after);
+}
+
+/** The first occurrence of a schedule strictly after `after`. */
+export function nextOccurrence(
+  definition: Pick<ScheduleDefinition, "cron" | "intervalMs">,
+  after: number,
+): number {
+  return occurrenceAfter(definition)(after);
+}
+
+/**
+ * The occurrences of `schedule` to fire at `now`, oldest first, after its
+ * misfire policy, and the occurrence it should fire next.
+ */
+export function dueOccurrences(
+  schedule: Pick<Schedule, "cron" | "intervalMs" | "misfire" | "misfireGraceMs" | "nextRunAt">,
+  now: number,
+): { fire: number[]; nextRunAt: number } {
+  const after = occurrenceAfter(schedule);
+  const due: number[] = [];
+  let next = schedule.nextRunAt;
+  while (next <= now) {
+    due.push(next);
+    next = after(next);
+    if (due.length > MAX_CATCH_UP_OCCURRENCES) {
+      // Long downtime on a frequent schedule: keep the latest occurrences only.
+      due.shift();
+    }
+  }
+
+  const missed = due.filter((occurrence) => now - occurrence > schedule.misfireGraceMs);
+  let fire = due;
+  if (schedule.misfire === "skip") {
+    fire = due.filter((occurrence) => !missed.includes(occurrence));
+  } else if (schedule.misfire === "fire_once" && missed.length > 0) {
+    fire = due.slice(-1);
+  }
+  return { fire, nextRunAt: next };
+}
+
+/** Job id for one occurrence of a schedule. */
+export function occurrenceJobId(scheduleId: string, occurrence: number): string {
+  return `${scheduleId}:${new Date(occurrence).toISOString()}`;
+}
+
+/** Page bounds for {@link JobQueue.listJobs}. */
+export function resolveJobListPage(filter: JobListFilter): { limit: number; offset: number } {
+  return { limit: filter.limit ?? 50, offset: filter.offset ?? 0 };
+}
+
+/** Concurrency limits must be positive integers. */
+export function validateConcurrency(concurrency: number): number {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`concurrency must be a positive integer, got ${concurrency}`);
+  }
+  return concurrency;
+}
 
 function generateId(): string {
   return `job-${nextId++}`;
 }
 
+/** Public view of a job; snapshots are detached from the queue's own state. */
+function toJob(job: InternalJob): Job {
+  return {
+    id: job.id,
+    type: job.type,
+    payload: job.payload,
+    attempts: job.attempts,
+    maxAttempts: job.maxAttempts,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    lastError: job.lastError,
+    scheduledFor: job.scheduledFor,
+  };
+}
+
+function toJobDetails(job: InternalJob, status: JobStatus): JobDetails {
+  return {
+    ...toJob(job),
+    status,
+    runAt: job.nextRunAt,
+    serializationKey: job.serializationKey,
+    uniqueKey: job.uniqueKey,
+    history: [...job.history],
+  };
+}
+
+/** Options for {@link InMemoryJobQueue}. */
+export interface InMemoryJobQueueOptions {
+  /** Overrides the rest of the default retry policy for jobs enqueued here. */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** Maximum jobs running at once across all types. Defaults to 1. */
+  concurrency?: number;
+}
+
 /**
  * In-memory, single-process job queue implementation.
  *
  * Concurrency model:
- * - A lightweight timer tick wakes up every `tickIntervalMs` and processes
- *   ready jobs (those with nextRunAt <= now).
- * - Jobs are handled sequentially to keep behaviour deterministic in tests.
+ * - A lightweight timer tick wakes up every `tickIntervalMs` and starts ready
+ *   jobs (those with nextRunAt <= now), oldest first. Finishing a job starts
+ *   the next ready one without waiting for the tick.
+ * - At most `concurrency` jobs run at once, and at most the handler's
+ *   `concurrency` of each type. Jobs sharing a `serializationKey` run one at
+ *   a time in enqueue order. With the default concurrency of 1, jobs are
+ *   handled sequentially, which keeps behaviour deterministic in tests.
+ * - Each tick also enqueues the due occurrences of registered schedules.
+ *
+ * Completed jobs are not kept, so `getJob` and `listJobs` only see pending,
+ * running, failed and cancelled jobs.
  */
 export class InMemoryJobQueue implements JobQueue {
-  private readonly handlers = new Map<string, JobHandler<any>>();
-  private readonly pending: InternalJob<any>[] = [];
-  private readonly failed: InternalJob<any>[] = [];
+  private readonly handlers = new Map<string, RegisteredHandler>();
+  private readonly pending: InternalJob[] = [];
+  private readonly failed: InternalJob[] = [];
+  private readonly cancelled: InternalJob[] = [];
+  private readonly pausedTypes = new Set<string>();
+  private readonly schedules = new Map<string, Schedule>();
+  /** Latest completion of each unique key enqueued with `uniqueTtlMs`, until that TTL passes. */
+  private readonly completedKeys = new Map<string, { id: string; at: number; expiresAt: number }>();
+  /** Running jobs, resolved when each finishes. */
+  private readonly active = new Map<InternalJob, Promise<void>>();
 
   private running = false;
-  private processing = false;
   private intervalHandle: ReturnType<typeof setInterval> | null = null;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly concurrency: number;
 
+  /**
+   * `retryBackoffMs` is the delay before the first retry; `options.retryPolicy`
+   * overrides the rest of the default policy for jobs enqueued on this queue.
+   */
   constructor(
     private readonly tickIntervalMs = 50,
-    private readonly retryBackoffMs = 500,
-  ) {}
+    retryBackoffMs = DEFAULT_RETRY_POLICY.initialDelayMs,
+    options: InMemoryJobQueueOptions = {},
+  ) {
+    this.retryPolicy = resolveRetryPolicy(
+      { ...DEFAULT_RETRY_POLICY, initialDelayMs: retryBackoffMs },
+      options.retryPolicy,
+    );
+    this.concurrency = validateConcurrency(options.concurrency ?? 1);
+  }
 
-  enqueue<Data = unknown>(
+  async enqueue<Data = unknown>(
     type: string,
     payload: Data,
     options?: EnqueueOptions,
+  ): Promise<string> {
+    if (options?.id !== undefined && this.allJobs().some(({ job }) => job.id === options.id)) {
+      return options.id;
+    }
+
+    const key = options?.uniqueKey;
+    if (key !== undefined) {
+      const policy = options?.onDuplicate ?? "coalesce";
+      const now = Date.now();
+      const completed = this.completedKeys.get(key);
+      if (completed && now > completed.expiresAt) {
+        this.completedKeys.delete(key);
+      } else if (
+        completed &&
+        options?.uniqueTtlMs !== undefined &&
+        now - completed.at <= options.uniqueTtlMs
+      ) {
+        if (policy === "reject") throw new DuplicateJobError(key, completed.id);
+        return completed.id;
+      }
+
+      const waiting = this.waitingWithKey(key);
+      if (waiting) {
+        if (policy === "reject") throw new DuplicateJobError(key, waiting.id);
+        if (policy === "replace") {
+          waiting.payload = payload;
+          waiting.maxAttempts = options?.maxAttempts ?? 3;
+          waiting.retry = resolveRetryPolicy(this.retryPolicy, options?.retry);
+          waiting.uniqueTtlMs = options?.uniqueTtlMs;
+          waiting.updatedAt = Date.now();
+          waiting.nextRunAt = waiting.updatedAt + (options?.delayMs ?? 0);
+        }
+        return waiting.id;
+      }
+    }
+
+    return this.push(type, payload, options);
+  }
+
+  private push<Data>(
+    type: string,
+    payload: Data,
+    options?: EnqueueOptions,
+    scheduledFor?: number,
   ): string {
     const id = options?.id ?? generateId();
     const maxAttempts = options?.maxAttempts ?? 3;
     const delayMs = options?.delayMs ?? 0;
+    const retry = resolveRetryPolicy(this.retryPolicy, options?.retry);
     const now = Date.now();
 
     const job: InternalJob<Data> = {
@@ -140,6 +624,13 @@ export class InMemoryJobQueue implements JobQueue {
       createdAt: now,
       updatedAt: now,
       nextRunAt: now + delayMs,
+      retry,
+      serializationKey: options?.serializationKey,
+      sequence: nextSequence++,
+      history: [],
+      scheduledFor,
+      uniqueKey: options?.uniqueKey,
+      uniqueTtlMs: options?.uniqueTtlMs,
     };
 
     this.pending.push(job);
@@ -149,8 +640,15 @@ export class InMemoryJobQueue implements JobQueue {
   registerHandler<Data = unknown>(
     type: string,
     handler: JobHandler<Data>,
+    options: HandlerOptions = {},
   ): void {
-    this.handlers.set(type, handler as JobHandler<any>);
+    this.handlers.set(type, {
+      handler: handler as JobHandler<unknown>,
+      concurrency:
+        options.concurrency === undefined
+          ? Infinity
+          : validateConcurrency(options.concurrency),
+    });
   }
 
   start(): void {
@@ -159,7 +657,8 @@ export class InMemoryJobQueue implements JobQueue {
     if (!this.intervalHandle) {
       this.intervalHandle = setInterval(
         () => {
-          void this.processTick();
+          this.fireSchedules();
+          this.dispatch();
         },
         this.tickIntervalMs,
       );
@@ -179,83 +678,270 @@ export class InMemoryJobQueue implements JobQueue {
     return this.running;
   }
 
-  size(): number {
-    return this.pending.length;
+  async size(): Promise<number> {
+    return this.pending.length + this.active.size;
+  }
+
+  async getFailedJobs(): Promise<readonly Job[]> {
+    return this.failed.map(toJob);
+  }
+
+  async getFailedJob(id: string): Promise<Job | null> {
+    const job = this.failed.find((candidate) => candidate.id === id);
+    return job ? toJob(job) : null;
+  }
+
+  async requeueFailedJob(id: string): Promise<boolean> {
+    return this.requeueFrom(this.failed, id);
+  }
+
+  async purgeFailedJob(id: string): Promise<boolean> {
+    const index = this.failed.findIndex((job) => job.id === id);
+    if (index === -1) return false;
+    this.failed.splice(index, 1);
+    return true;
+  }
+
+  async purgeFailedJobs(): Promise<number> {
+    return this.failed.splice(0).length;
+  }
+
+  async listJobs(filter: JobListFilter = {}): Promise<JobList> {
+    const { limit, offset } = resolveJobListPage(filter);
+    const matching = this.allJobs()
+      .filter(({ job, status }) =>
+        (filter.status === undefined || status === filter.status) &&
+        (filter.type === undefined || job.type === filter.type))
+      .sort((a, b) => a.job.sequence - b.job.sequence);
+    return {
+      items: matching
+        .slice(offset, offset + limit)
+        .map(({ job, status }) => toJobDetails(job, status)),
+      total: matching.length,
+    };
+  }
+
+  async getJob(id: string): Promise<JobDetails | null> {
+    const found = this.allJobs().find(({ job }) => job.id === id);
+    return found ? toJobDetails(found.job, found.status) : null;
+  }
+
+  async retryJob(id: string): Promise<boolean> {
+    const pending = this.pending.find((job) => job.id === id);
+    if (pending) {
+      pending.nextRunAt = Date.now();
+      pending.updatedAt = pending.nextRunAt;
+      return true;
+    }
+    return this.requeueFrom(this.failed, id) || this.requeueFrom(this.cancelled, id);
+  }
+
+  async cancelJob(id: string): Promise<boolean> {
+    const index = this.pending.findIndex((job) => job.id === id);
+    if (index === -1) return false;
+
+    const [job] = this.pending.splice(index, 1);
+    job!.updatedAt = Date.now();
+    this.cancelled.push(job!);
+    return true;
+  }
+
+  async pauseType(type: string): Promise<void> {
+    this.pausedTypes.add(type);
   }
 
-  getFailedJobs(): readonly Job[] {
-    return this.failed.slice();
+  async resumeType(type: string): Promise<void> {
+    this.pausedTypes.delete(type);
+  }
+
+  async getPausedTypes(): Promise<string[]> {
+    return [...this.pausedTypes].sort();
+  }
+
+  async schedule<Data = unknown>(definition: ScheduleDefinition<Data>): Promise<void> {
+    const resolved = resolveSchedule(definition);
+    const existing = this.schedules.get(definition.id);
+    const keepTiming =
+      existing !== undefined &&
+      existing.cron === resolved.cron &&
+      existing.intervalMs === resolved.intervalMs;
+    this.schedules.set(definition.id, {
+      ...resolved,
+      nextRunAt: keepTiming ? existing.nextRunAt : nextOccurrence(resolved, Date.now()),
+      lastRunAt: existing?.lastRunAt,
+    });
+  }
+
+  async unschedule(id: string): Promise<boolean> {
+    return this.schedules.delete(id);
+  }
+
+  async getSchedules(): Promise<Schedule[]> {
+    return [...this.schedules.values()]
+      .sort((a, b) => a.id.localeCompare(b.id))
+      .map((schedule) => ({ ...schedule }));
   }
 
   async drain(): Promise<void> {
-    // Temporarily run a tight loop until no ready jobs remain.
+    // Keep starting ready jobs until none are ready and none are running.
     // This intentionally ignores delayMs/backoff that are still in the future.
     // Callers that rely on timers should combine this with fake timers.
     // eslint-disable-next-line no-constant-condition
     while (true) {
-      const hadReady = await this.processTick();
-      if (!hadReady) break;
+      this.fireSchedules();
+      const started = this.dispatch();
+      if (started === 0 && this.active.size === 0) break;
+      if (this.active.size > 0) {
+        await Promise.race(this.active.values());
+      }
     }
   }
 
-  private async processTick(): Promise<boolean> {
-    if (!this.running || this.processing) return false;
+  /** Start every ready job the concurrency limits allow. Returns how many started. */
+  private dispatch(): number {
+    if (!this.running) return 0;
     const now = Date.now();
-    const ready: InternalJob<any>[] = [];
-    const waiting: InternalJob<any>[] = [];
+    const runningByType = new Map<string, number>();
+    const blockedKeys = new Set<string>();
+    for (const job of this.active.keys()) {
+      runningByType.set(job.type, (runningByType.get(job.type) ?? 0) + 1);
+      if (job.serializationKey !== undefined) blockedKeys.add(job.serializationKey);
+    }
 
-    for (const job of this.pending) {
-      if (job.nextRunAt <= now) {
-        ready.push(job);
-      } else {
-        waiting.push(job);
+    let started = 0;
+    const candidates = [...this.pending].sort((a, b) => a.sequence - b.sequence);
+    for (const job of candidates) {
+      if (this.active.size >= this.concurrency) break;
+
+      // A job that cannot start yet still holds back later jobs with its key.
+      const key = job.serializationKey;
+      const keyBlocked = key !== undefined && blockedKeys.has(key);
+      if (key !== undefined) blockedKeys.add(key);
+      if (keyBlocked || job.nextRunAt > now || this.pausedTypes.has(job.type)) continue;
+
+      const registered = this.handlers.get(job.type);
+      const typeCount = runningByType.get(job.type) ?? 0;
+      if (registered && typeCount >= registered.concurrency) continue;
+
+      this.pending.splice(this.pending.indexOf(job), 1);
+      if (!registered) {
+        // No handler registered – drop the job but log loudly.
+        console.error(
+          `[JobQueue] No handler registered for job type "${job.type}". Dropping job ${job.id}.`,
+        );
+        job.updatedAt = Date.now();
+        job.lastError = `No handler registered for job type "${job.type}"`;
+        this.failed.push(job);
+        continue;
       }
+
+      runningByType.set(job.type, typeCount + 1);
+      started += 1;
+      const run = this.run(job, registered.handler).finally(() => {
+        this.active.delete(job);
+        this.dispatch();
+      });
+      this.active.set(job, run);
     }
+    return started;
+  }
 
-    if (ready.length === 0) {
-      return false;
+  /** Enqueue the due occurrences of every schedule. */
+  private fireSchedules(): void {
+    if (!this.running) return;
+    const now = Date.now();
+    for (const schedule of this.schedules.values()) {
+      if (schedule.nextRunAt > now) continue;
+      const { fire, nextRunAt } = dueOccurrences(schedule, now);
+      for (const occurrence of fire) {
+        this.push(
+          schedule.type,
+          schedule.payload,
+          { ...schedule.job, id: occurrenceJobId(schedule.id, occurrence) },
+          occurrence,
+        );
+      }
+      this.schedules.set(schedule.id, {
+        ...schedule,
+        nextRunAt,
+        lastRunAt: fire.length > 0 ? fire[fire.length - 1] : schedule.lastRunAt,
+      });
     }
+  }
 
-    this.processing = true;
-    this.pending.length = 0;
-    this.pending.push(...waiting);
+  /** Record a unique key's completion for `ttlMs`, dropping completions whose TTL has passed. */
+  private rememberCompletion(key: string, id: string, ttlMs: number): void {
+    const now = Date.now();
+    for (const [completedKey, completed] of this.completedKeys) {
+      if (now > completed.expiresAt) this.completedKeys.delete(completedKey);
+    }
+    this.completedKeys.set(key, { id, at: now, expiresAt: now + ttlMs });
+  }
 
-    try {
-      for (const job of ready) {
-        const handler = this.handlers.get(job.type);
-        if (!handler) {
-          // No handler registered – drop the job but log loudly.
-          console.error(
-            `[JobQueue] No handler registered for job type "${job.type}". Dropping job ${job.id}.`,
-          );
-          this.failed.push(job);
-          // eslint-disable-next-line no-continue
-          continue;
-        }
+  /** The pending job with `key` that has not been attempted yet, if any. */
+  private waitingWithKey(key: string): InternalJob | undefined {
+    return this.pending.find((job) => job.uniqueKey === key && job.history.length === 0);
+  }
 
-        try {
-          await handler(job);
-        } catch (err) {
-          job.attempts += 1;
-          job.updatedAt = Date.now();
-
-          if (job.attempts < job.maxAttempts) {
-            job.nextRunAt = job.updatedAt + this.retryBackoffMs;
-            this.pending.push(job);
-          } else {
-            this.failed.push(job);
-            console.error(
-              `[JobQueue] Job ${job.id} of type "${job.type}" failed after ${job.attempts} attempts.`,
-              err,
-            );
-          }
-        }
-      }
-    } finally {
-      this.processing = false;
+  /** Every job the queue still holds, with its status. */
+  private allJobs(): { job: InternalJob; status: JobStatus }[] {
+    return [
+      ...this.pending.map((job) => ({ job, status: "pending" as const })),
+      ...[...this.active.keys()].map((job) => ({ job, status: "running" as const })),
+      ...this.failed.map((job) => ({ job, status: "failed" as const })),
+      ...this.cancelled.map((job) => ({ job, status: "cancelled" as const })),
+    ];
+  }
+
+  /** Move a job from `list` back to pending, due now with its full attempts. */
+  private requeueFrom(list: InternalJob[], id: string): boolean {
+    const index = list.findIndex((job) => job.id === id);
+    if (index === -1) return false;
+
+    const key = list[index]!.uniqueKey;
+    const waiting = key === undefined ? undefined : this.waitingWithKey(key);
+    if (waiting && list[index]!.history.length === 0) {
+      throw new DuplicateJobError(key!, waiting.id);
     }
 
-    return ready.length > 0;
+    const [job] = list.splice(index, 1);
+    job!.attempts = 0;
+    job!.updatedAt = Date.now();
+    job!.nextRunAt = job!.updatedAt;
+    this.pending.push(job!);
+    return true;
+  }
+
+  private async run(job: InternalJob, handler: JobHandler<unknown>): Promise<void> {
+    const startedAt = Date.now();
+    try {
+      await handler(job);
+      job.history.push({ attempt: job.history.length + 1, startedAt, finishedAt: Date.now() });
+      if (job.uniqueKey !== undefined && job.uniqueTtlMs !== undefined) {
+        this.rememberCompletion(job.uniqueKey, job.id, job.uniqueTtlMs);
+      }
+    } catch (err) {
+      job.attempts += 1;
+      job.updatedAt = Date.now();
+      job.lastError = errorMessage(err);
+      job.history.push({
+        attempt: job.history.length + 1,
+        startedAt,
+        finishedAt: job.updatedAt,
+        error: job.lastError,
+      });
+
+      if (job.attempts < job.maxAttempts) {
+        job.nextRunAt = job.updatedAt + retryDelay(job.retry, job.attempts);
+        this.pending.push(job);
+      } else {
+        this.failed.push(job);
+        console.error(
+          `[JobQueue] Job ${job.id} of type "${job.type}" failed after ${job.attempts} attempts.`,
+          err,
+        );
+      }
+    }
   }
 }
 
@@ -0,0 +1,187 @@
+/**
+ * Process lifecycle: start subsystems in order, stop them in reverse.
+ *
+ * The API registers the database, job queue, Horizon listener and HTTP
+ * server in that order, so on SIGTERM or SIGINT it first stops accepting
+ * requests and lets in-flight ones finish, then stops the listener after its
+ * current poll, drains running jobs, and closes the database last, once
+ * nothing else can use it.
+ */
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type { JobQueue } from './jobQueue.js';
+import type { CursorRepository } from '../repositories/interfaces/CursorRepository.js';
+import * as horizonListener from './horizonListener.js';
+
+export interface Subsystem {
+  /** Used in log lines. */
+  readonly name: string;
+  start(): void | Promise<void>;
+  /** Release the subsystem's resources, letting work in progress finish first. */
+  stop(): void | Promise<void>;
+}
+
+export const SHUTDOWN_SIGNALS = ['SIGTERM', 'SIGINT'] as const;
+
+export class Lifecycle {
+  private readonly subsystems: Subsystem[] = [];
+  private started: Subsystem[] = [];
+  private stopping: Promise<boolean> | null = null;
+
+  /** Register a subsystem; subsystems start in the order they are added. */
+  add(subsystem: Subsystem): this {
+    this.subsystems.push(subsystem);
+    return this;
+  }
+
+  /**
+   * Start every subsystem in order. If one fails, those already started are
+   * stopped again and the error is rethrown.
+   */
+  async start(): Promise<void> {
+    for (const subsystem of this.subsystems) {
+      try {
+        await subsystem.start();
+      } catch (err) {
+        console.error(`[Lifecycle] Failed to start ${subsystem.name}:`, err);
+        await this.stop();
+        throw err;
+      }
+      this.started.push(subsystem);
+      console.log(`[Lifecycle] Started ${subsystem.name}.`);
+    }
+  }
+
+  /**
+   * Stop the started subsystems in reverse order. A subsystem that fails to
+   * stop is logged and the rest are still stopped. Resolves to whether every
+   * subsystem stopped cleanly; calling it again returns the same result.
+   */
+  stop(): Promise<boolean> {
+    this.stopping ??= this.stopAll();
+    return this.stopping;
+  }
+
+  /**
+   * Stop on SIGTERM or SIGINT, then `exit` with 0, or 1 if a subsystem
+   * failed to stop. A second signal exits with 1 straight away. Returns a
+   * function that removes the handlers.
+   */
+  handleSignals(exit: (code: number) => void = (code) => process.exit(code)): () => void {
+    const onSignal = (signal: NodeJS.Signals) => {
+      if (this.stopping) {
+        console.warn(`[Lifecycle] ${signal} received during shutdown; exiting now.`);
+        exit(1);
+        return;
+      }
+      console.log(`[Lifecycle] ${signal} received; shutting down.`);
+      void this.stop().then((clean) => exit(clean ? 0 : 1));
+    };
+
+    for (const signal of SHUTDOWN_SIGNALS) process.on(signal, onSignal);
+    return () => {
+      for (const signal of SHUTDOWN_SIGNALS) process.off(signal, onSignal);
+    };
+  }
+
+  private async stopAll(): Promise<boolean> {
+    let clean = true;
+    for (const subsystem of this.started.reverse()) {
+      try {
+        await subsystem.stop();
+        console.log(`[Lifecycle] Stopped ${subsystem.name}.`);
+      } catch (err) {
+        clean = false;
+        console.error(`[Lifecycle] Failed to stop ${subsystem.name}:`, err);
+      }
+    }
+    this.started = [];
+    return clean;
+  }
+}
+
+/**
+ * Listen on `port` (0 picks a free one). Stopping closes the listener at
+ * once, lets in-flight requests finish, and after `timeoutMs` closes the
+ * connections still open.
+ */
+export function httpServerSubsystem(server: Server, port: number | string, timeoutMs: number): Subsystem {
+  return {
+    name: 'HTTP server',
+    start: () =>
+      new Promise<void>((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, () => {
+          server.off('error', reject);
+          console.log(`Creditra API listening on http://localhost:${(server.address() as AddressInfo).port}`);
+          resolve();
+        });
+      }),
+    stop: () =>
+      new Promise<void>((resolve, reject) => {
+        const deadline = setTimeout(() => {
+          console.warn(`[Lifecycle] Requests still running after ${timeoutMs}ms; closing their connections.`);
+          server.closeAllConnections();
+        }, timeoutMs);
+        server.close((err) => {
+          clearTimeout(deadline);
+          if (err) reject(err);
+          else resolve();
+        });
+        // Keep-alive connections would otherwise hold the server open.
+        server.closeIdleConnections();
+      }),
+  };
+}
+
+/**
+ * Start the job queue after `prepare` (e.g. registering handlers and
+ * schedules). Stopping stops claiming jobs and waits up to `timeoutMs` for
+ * running ones; on `PgJobQueue` a job still running when the process exits
+ * is retried once its lock expires.
+ */
+export function jobQueueSubsystem(
+  queue: JobQueue,
+  timeoutMs: number,
+  prepare?: () => Promise<void>,
+): Subsystem {
+  return {
+    name: 'job queue',
+    start: async () => {
+      await prepare?.();
+      queue.start();
+    },
+    stop: async () => {
+      queue.stop();
+      let deadline: ReturnType<typeof setTimeout> | undefined;
+      const drained = await Promise.race([
+        queue.drain().then(() => true),
+        new Promise<false>((resolve) => {
+          deadline = setTimeout(() => resolve(false), timeoutMs);
+        }),
+      ]).finally(() => clearTimeout(deadline));
+      if (!drained) {
+        console.warn(`[Lifecycle] Jobs still running after ${timeoutMs}ms; exiting without them.`);
+      }
+    },
+  };
+}
+
+/** Poll Horizon, dispatching to `handler`. Stopping waits for the current poll to finish. */
+export function horizonListenerSubsystem(
+  cursors: CursorRepository,
+  handler: horizonListener.EventHandler,
+): Subsystem {
+  return {
+    name: 'Horizon listener',
+    start: () => {
+      horizonListener.onEvent(handler);
+      // The first poll can take a while; it must not hold up the HTTP server.
+      void horizonListener.start(cursors);
+    },
+    stop: async () => {
+      horizonListener.stop();
+      await horizonListener.idle();
+    },
+  };
+}
@@ -0,0 +1,795 @@
+/**
+ * PostgreSQL-backed job queue.
+ *
+ * Jobs live in the `jobs` table (migrations/006_jobs.sql), so they survive
+ * restarts and can be shared by several processes. Each tick a worker claims
+ * due jobs one at a time with `SELECT ... FOR UPDATE SKIP LOCKED`, which lets
+ * concurrent workers take different jobs without blocking each other.
+ *
+ * Each worker runs up to `concurrency` jobs at once, and at most a handler's
+ * `concurrency` of its type; these limits are per process. Jobs sharing a
+ * `serializationKey` run one at a time, in enqueue order, across all workers.
+ *
+ * A claimed job is locked for `visibilityTimeoutMs`. If the worker crashes
+ * (or the handler outlives the timeout) the lock expires and the job counts
+ * as a failed attempt and becomes claimable again. Handlers should therefore
+ * be idempotent, and the timeout longer than the slowest handler.
+ *
+ * Every attempt is appended to the job's `attempt_history`. Paused job types
+ * (`job_type_pauses`) are skipped by every worker.
+ *
+ * Schedules live in `job_schedules`. Each tick a worker fires the due ones:
+ * one statement advances a schedule's `next_run_at` (only if no other worker
+ * already has) and inserts the occurrence jobs, so an occurrence is enqueued
+ * exactly once.
+ *
+ * At most one job per `unique_key` can wait for its first attempt; a partial
+ * unique index enforces it, so concurrent enqueues of the same key resolve to
+ * one job whichever instance makes them.
+ *
+ * Completed jobs are kept for `completedJobTtlMs` and then deleted by
+ * whichever worker sweeps next, so the table does not grow with every job
+ * ever run. Failed and cancelled jobs stay until an operator acts on them.
+ */
+import { randomUUID } from "crypto";
+import { hostname } from "os";
+import type { DbClient } from "../db/client.js";
+import {
+  DEFAULT_RETRY_POLICY,
+  DuplicateJobError,
+  dueOccurrences,
+  errorMessage,
+  nextOccurrence,
+  occurrenceJobId,
+  resolveSchedule,
+  resolveRetryPolicy,
+  retryDelay,
+  resolveJobListPage,
+  validateConcurrency,
+  type EnqueueOptions,
+  type HandlerOptions,
+  type Job,
+  type JobAttempt,
+  type JobDetails,
+  type JobHandler,
+  type JobList,
+  type JobListFilter,
+  type JobQueue,
+  type RetryPolicy,
+  type Schedule,
+  type ScheduleDefinition,
+} from "./jobQueue.js";
+
+export interface PgJobQueueOptions {
+  /** How often to poll for due jobs. Defaults to 1000ms. */
+  tickIntervalMs?: number;
+  /** Delay before the first retry of a failed attempt. Defaults to 500ms. */
+  retryBackoffMs?: number;
+  /** Overrides the rest of the default retry policy for jobs enqueued here. */
+  retryPolicy?: Partial<RetryPolicy>;
+  /** How long a claimed job stays locked to its worker. Defaults to 5 minutes. */
+  visibilityTimeoutMs?: number;
+  /** Identifies this worker in `locked_by`. Defaults to host, pid and a random suffix. */
+  workerId?: string;
+  /** Maximum jobs this worker runs at once across all types. Defaults to 1. */
+  concurrency?: number;
+  /**
+   * How long a completed job is kept before it is deleted. Defaults to 7
+   * days. Keep it longer than any `uniqueTtlMs`, which looks completed jobs up.
+   */
+  completedJobTtlMs?: number;
+}
+
+interface JobRow {
+  id: string;
+  type: string;
+  payload: unknown;
+  status: JobDetails["status"];
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  last_error: string | null;
+  retry_policy: RetryPolicy | null;
+  serialization_key: string | null;
+  unique_key: string | null;
+  attempt_history: JobAttempt[];
+  scheduled_for: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+const SELECT_COLUMNS =
+  "id, type, payload, status, attempts, max_attempts, run_at, last_error, retry_policy, " +
+  "serialization_key, unique_key, attempt_history, scheduled_for, created_at, updated_at";
+
+interface ScheduleRow {
+  id: string;
+  type: string;
+  payload: unknown;
+  cron: string | null;
+  interval_ms: string | null;
+  misfire: Schedule["misfire"];
+  misfire_grace_ms: string;
+  job_options: NonNullable<ScheduleDefinition["job"]>;
+  next_run_at: Date;
+  last_run_at: Date | null;
+}
+
+const SCHEDULE_COLUMNS =
+  "id, type, payload, cron, interval_ms, misfire, misfire_grace_ms, job_options, next_run_at, last_run_at";
+
+function toSchedule(row: ScheduleRow): Schedule {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload,
+    cron: row.cron ?? undefined,
+    intervalMs: row.interval_ms === null ? undefined : Number(row.interval_ms),
+    misfire: row.misfire,
+    misfireGraceMs: Number(row.misfire_grace_ms),
+    job: row.job_options,
+    nextRunAt: row.next_run_at.getTime(),
+    lastRunAt: row.last_run_at?.getTime(),
+  };
+}
+
+const toIso = (ms: number) => new Date(ms).toISOString();
+
+/** PostgreSQL `unique_violation` SQLSTATE. */
+const UNIQUE_VIOLATION = "23505";
+
+/** Matches the partial unique index on `jobs (unique_key)`. */
+const WAITING = "status = 'pending' AND started_at IS NULL";
+
+/** How often a worker deletes completed jobs past their retention. */
+const RETENTION_SWEEP_INTERVAL_MS = 60 * 1000;
+
+/** Completed jobs deleted per sweep, so a large backlog is cleared in small transactions. */
+const RETENTION_BATCH_SIZE = 1000;
+
+/** Attempts at enqueuing a unique job before giving up on a churning key. */
+const MAX_UNIQUE_ENQUEUE_ATTEMPTS = 3;
+
+/**
+ * SET clause appending the attempt that just ended to `attempt_history`.
+ * `error` and `workerId` are SQL expressions; a NULL error is left out.
+ */
+function appendAttempt(error: string, workerId: string): string {
+  return `attempt_history = attempt_history || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+    'attempt', jsonb_array_length(attempt_history) + 1,
+    'startedAt', floor(extract(epoch FROM coalesce(started_at, now())) * 1000)::bigint,
+    'finishedAt', floor(extract(epoch FROM now()) * 1000)::bigint,
+    'error', ${error}::text,
+    'workerId', ${workerId}::text
+  )))`;
+}
+
+/** A job this worker has claimed, with the retry policy it was enqueued with. */
+interface ClaimedJob extends Job {
+  retry: RetryPolicy | null;
+}
+
+function toJob(row: JobRow): Job {
+  return {
+    id: row.id,
+    type: row.type,
+    payload: row.payload,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    createdAt: row.created_at.getTime(),
+    updatedAt: row.updated_at.getTime(),
+    lastError: row.last_error ?? undefined,
+    scheduledFor: row.scheduled_for?.getTime(),
+  };
+}
+
+function toJobDetails(row: JobRow): JobDetails {
+  return {
+    ...toJob(row),
+    status: row.status,
+    runAt: row.run_at.getTime(),
+    serializationKey: row.serialization_key ?? undefined,
+    uniqueKey: row.unique_key ?? undefined,
+    history: row.attempt_history,
+  };
+}
+
+interface RegisteredHandler {
+  handler: JobHandler<unknown>;
+  concurrency: number;
+}
+
+/** A job this worker is running, resolved when it finishes. */
+interface ActiveJob {
+  type: string;
+  done: Promise<void>;
+}
+
+export class PgJobQueue implements JobQueue {
+  private readonly handlers = new Map<string, RegisteredHandler>();
+  private readonly active = new Map<string, ActiveJob>();
+
+  private readonly tickIntervalMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly visibilityTimeoutMs: number;
+  private readonly concurrency: number;
+  private readonly completedJobTtlMs: number;
+  readonly workerId: string;
+
+  private running = false;
+  /** The claim loop in progress, shared by every caller that asks for a tick meanwhile. */
+  private ticking: Promise<boolean> | null = null;
+  private intervalHandle: ReturnType<typeof setInterval> | null = null;
+  private lastRetentionSweepAt = 0;
+
+  constructor(
+    private readonly db: DbClient,
+    options: PgJobQueueOptions = {},
+  ) {
+    this.tickIntervalMs = options.tickIntervalMs ?? 1000;
+    this.retryPolicy = resolveRetryPolicy(
+      {
+        ...DEFAULT_RETRY_POLICY,
+        initialDelayMs: options.retryBackoffMs ?? DEFAULT_RETRY_POLICY.initialDelayMs,
+      },
+      options.retryPolicy,
+    );
+    this.visibilityTimeoutMs = options.visibilityTimeoutMs ?? 5 * 60 * 1000;
+    this.concurrency = validateConcurrency(options.concurrency ?? 1);
+    this.completedJobTtlMs = options.completedJobTtlMs ?? 7 * 24 * 60 * 60 * 1000;
+    if (!Number.isInteger(this.completedJobTtlMs) || this.completedJobTtlMs < 1) {
+      throw new Error(`completedJobTtlMs must be a positive integer, got ${this.completedJobTtlMs}`);
+    }
+    this.workerId =
+      options.workerId ?? `${hostname()}:${process.pid}:${randomUUID().slice(0, 8)}`;
+  }
+
+  /**
+   * Insert a pending job. If a job with the given `id` already exists the
+   * insert is ignored, so instances that enqueue the same well-known job
+   * (e.g. `interest_accrual:2024-01-15`) schedule it only once. Jobs with a
+   * `uniqueKey` are deduplicated as described on {@link EnqueueOptions}.
+   */
+  async enqueue<Data = unknown>(
+    type: string,
+    payload: Data,
+    options?: EnqueueOptions,
+  ): Promise<string> {
+    const id = options?.id ?? `job-${randomUUID()}`;
+    const retry = resolveRetryPolicy(this.retryPolicy, options?.retry);
+    const key = options?.uniqueKey;
+    const insert = (onConflict: string) =>
+      this.db.query(
+        `INSERT INTO jobs
+           (id, type, payload, max_attempts, run_at, retry_policy, serialization_key, unique_key)
+         VALUES ($1, $2, $3::jsonb, $4, now() + $5 * interval '1 millisecond', $6::jsonb, $7, $8)
+         ${onConflict}
+         RETURNING id`,
+        [
+          id,
+          type,
+          JSON.stringify(payload ?? null),
+          options?.maxAttempts ?? 3,
+          options?.delayMs ?? 0,
+          JSON.stringify(retry),
+          options?.serializationKey ?? null,
+          key ?? null,
+        ],
+      );
+
+    if (key === undefined) {
+      await insert("ON CONFLICT (id) DO NOTHING");
+      return id;
+    }
+
+    const policy = options?.onDuplicate ?? "coalesce";
+    if (options?.uniqueTtlMs !== undefined) {
+      const completed = await this.db.query(
+        `SELECT id FROM jobs
+         WHERE unique_key = $1 AND status = 'completed'
+           AND updated_at >= now() - $2 * interval '1 millisecond'
+         ORDER BY updated_at DESC
+         LIMIT 1`,
+        [key, options.uniqueTtlMs],
+      );
+      const recent = (completed.rows as { id: string }[])[0];
+      if (recent) {
+        if (policy === "reject") throw new DuplicateJobError(key, recent.id);
+        return recent.id;
+      }
+    }
+
+    if (policy === "replace") {
+      // A conflicting id (rather than key) has no DO UPDATE and still raises.
+      const result = await insert(
+        `ON CONFLICT (unique_key) WHERE ${WAITING} DO UPDATE SET
+           payload = EXCLUDED.payload,
+           max_attempts = EXCLUDED.max_attempts,
+           run_at = EXCLUDED.run_at,
+           retry_policy = EXCLUDED.retry_policy,
+           updated_at = now()`,
+      );
+      return (result.rows as { id: string }[])[0]!.id;
+    }
+
+    // The waiting job can start between the insert and the lookup, freeing
+    // the key; the next insert then succeeds.
+    for (let attempt = 0; attempt < MAX_UNIQUE_ENQUEUE_ATTEMPTS; attempt++) {
+      const inserted = await insert("ON CONFLICT DO NOTHING");
+      if (inserted.rows.length > 0) return id;
+
+      const existing = await this.db.query(
+        `SELECT id FROM jobs WHERE unique_key = $1 AND ${WAITING}`,
+        [key],
+      );
+      const waiting = (existing.rows as { id: string }[])[0];
+      if (waiting) {
+        if (policy === "reject") throw new DuplicateJobError(key, waiting.id);
+        return waiting.id;
+      }
+      if (options?.id !== undefined) {
+        const sameId = await this.db.query("SELECT 1 FROM jobs WHERE id = $1", [id]);
+        if (sameId.rows.length > 0) return id;
+      }
+    }
+    throw new Error(`Could not enqueue job with unique key "${key}": the key kept changing hands`);
+  }
+
+  /**
+   * Only jobs whose type has a registered handler are claimed, so processes
+   * that handle different job types can share the table.
+   */
+  registerHandler<Data = unknown>(
+    type: string,
+    handler: JobHandler<Data>,
+    options: HandlerOptions = {},
+  ): void {
+    this.handlers.set(type, {
+      // Payloads are stored untyped; the caller vouches for the type it registers.
+      handler: handler as JobHandler<unknown>,
+      concurrency:
+        options.concurrency === undefined
+          ? Infinity
+          : validateConcurrency(options.concurrency),
+    });
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    if (!this.intervalHandle) {
+      this.intervalHandle = setInterval(() => {
+        void this.processTick().catch((err) => {
+          console.error("[PgJobQueue] Tick failed:", err);
+        });
+      }, this.tickIntervalMs);
+    }
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  async size(): Promise<number> {
+    const result = await this.db.query(
+      "SELECT count(*) AS count FROM jobs WHERE status IN ('pending', 'running')",
+    );
+    return Number((result.rows[0] as { count: string }).count);
+  }
+
+  async getFailedJobs(): Promise<readonly Job[]> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM jobs WHERE status = 'failed' ORDER BY updated_at, id`,
+    );
+    return (result.rows as JobRow[]).map(toJob);
+  }
+
+  async getFailedJob(id: string): Promise<Job | null> {
+    const result = await this.db.query(
+      `SELECT ${SELECT_COLUMNS} FROM jobs WHERE id = $1 AND status = 'failed'`,
+      [id],
+    );
+    const row = result.rows[0] as JobRow | undefined;
+    return row ? toJob(row) : null;
+  }
+
+  async requeueFailedJob(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      `UPDATE jobs
+       SET status = 'pending', attempts = 0, run_at = now(), updated_at = now()
+       WHERE id = $1 AND status = 'failed'
+       RETURNING id`,
+      [id],
+    );
+    return result.rows.length > 0;
+  }
+
+  async purgeFailedJob(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      "DELETE FROM jobs WHERE id = $1 AND status = 'failed' RETURNING id",
+      [id],
+    );
+    return result.rows.length > 0;
+  }
+
+  async purgeFailedJobs(): Promise<number> {
+    const result = await this.db.query(
+      "DELETE FROM jobs WHERE status = 'failed' RETURNING id",
+    );
+    return result.rows.length;
+  }
+
+  async listJobs(filter: JobListFilter = {}): Promise<JobList> {
+    const { limit, offset } = resolveJobListPage(filter);
+    const where = "($1::text IS NULL OR status = $1) AND ($2::text IS NULL OR type = $2)";
+    const params = [filter.status ?? null, filter.type ?? null];
+
+    const [rows, count] = await Promise.all([
+      this.db.query(
+        `SELECT ${SELECT_COLUMNS} FROM jobs WHERE ${where}
+         ORDER BY created_at, seq LIMIT $3 OFFSET $4`,
+        [...params, limit, offset],
+      ),
+      this.db.query(`SELECT count(*) AS count FROM jobs WHERE ${where}`, params),
+    ]);
+    return {
+      items: (rows.rows as JobRow[]).map(toJobDetails),
+      total: Number((count.rows[0] as { count: string }).count),
+    };
+  }
+
+  async getJob(id: string): Promise<JobDetails | null> {
+    const result = await this.db.query(`SELECT ${SELECT_COLUMNS} FROM jobs WHERE id = $1`, [id]);
+    const row = result.rows[0] as JobRow | undefined;
+    return row ? toJobDetails(row) : null;
+  }
+
+  async retryJob(id: string): Promise<boolean> {
+    try {
+      const result = await this.db.query(
+        `UPDATE jobs
+         SET attempts = CASE WHEN status = 'pending' THEN attempts ELSE 0 END,
+             status = 'pending',
+             run_at = now(),
+             updated_at = now()
+         WHERE id = $1 AND status IN ('pending', 'failed', 'cancelled')
+         RETURNING id`,
+        [id],
+      );
+      return result.rows.length > 0;
+    } catch (err) {
+      // A cancelled job that never started would wait alongside a newer job
+      // with its unique key.
+      if ((err as { code?: string }).code !== UNIQUE_VIOLATION) throw err;
+      const result = await this.db.query(
+        `SELECT waiting.unique_key, waiting.id
+         FROM jobs job JOIN jobs waiting ON waiting.unique_key = job.unique_key
+         WHERE job.id = $1 AND waiting.status = 'pending' AND waiting.started_at IS NULL`,
+        [id],
+      );
+      const waiting = (result.rows as { unique_key: string; id: string }[])[0];
+      if (!waiting) throw err;
+      throw new DuplicateJobError(waiting.unique_key, waiting.id);
+    }
+  }
+
+  async cancelJob(id: string): Promise<boolean> {
+    // A job being claimed concurrently is locked; this waits for the claim
+    // and then no longer matches because the job is running.
+    const result = await this.db.query(
+      `UPDATE jobs SET status = 'cancelled', updated_at = now()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING id`,
+      [id],
+    );
+    return result.rows.length > 0;
+  }
+
+  async pauseType(type: string): Promise<void> {
+    await this.db.query(
+      "INSERT INTO job_type_pauses (type) VALUES ($1) ON CONFLICT (type) DO NOTHING",
+      [type],
+    );
+  }
+
+  async resumeType(type: string): Promise<void> {
+    await this.db.query("DELETE FROM job_type_pauses WHERE type = $1", [type]);
+  }
+
+  async getPausedTypes(): Promise<string[]> {
+    const result = await this.db.query("SELECT type FROM job_type_pauses ORDER BY type");
+    return (result.rows as { type: string }[]).map((row) => row.type);
+  }
+
+  async schedule<Data = unknown>(definition: ScheduleDefinition<Data>): Promise<void> {
+    const resolved = resolveSchedule(definition);
+    await this.db.query(
+      `INSERT INTO job_schedules
+         (id, type, payload, cron, interval_ms, misfire, misfire_grace_ms, job_options, next_run_at)
+       VALUES ($1, $2, $3::jsonb, $4, $5, $6, $7, $8::jsonb, $9)
+       ON CONFLICT (id) DO UPDATE SET
+         type = EXCLUDED.type,
+         payload = EXCLUDED.payload,
+         misfire = EXCLUDED.misfire,
+         misfire_grace_ms = EXCLUDED.misfire_grace_ms,
+         job_options = EXCLUDED.job_options,
+         next_run_at = CASE
+           WHEN job_schedules.cron IS NOT DISTINCT FROM EXCLUDED.cron
+            AND job_schedules.interval_ms IS NOT DISTINCT FROM EXCLUDED.interval_ms
+           THEN job_schedules.next_run_at
+           ELSE EXCLUDED.next_run_at
+         END,
+         cron = EXCLUDED.cron,
+         interval_ms = EXCLUDED.interval_ms,
+         updated_at = now()`,
+      [
+        resolved.id,
+        resolved.type,
+        JSON.stringify(resolved.payload ?? null),
+        resolved.cron ?? null,
+        resolved.intervalMs ?? null,
+        resolved.misfire,
+        resolved.misfireGraceMs,
+        JSON.stringify(resolved.job ?? {}),
+        toIso(nextOccurrence(resolved, Date.now())),
+      ],
+    );
+  }
+
+  async unschedule(id: string): Promise<boolean> {
+    const result = await this.db.query(
+      "DELETE FROM job_schedules WHERE id = $1 RETURNING id",
+      [id],
+    );
+    return result.rows.length > 0;
+  }
+
+  async getSchedules(): Promise<Schedule[]> {
+    const result = await this.db.query(
+      `SELECT ${SCHEDULE_COLUMNS} FROM job_schedules ORDER BY id`,
+    );
+    return (result.rows as ScheduleRow[]).map(toSchedule);
+  }
+
+  async drain(): Promise<void> {
+    // eslint-disable-next-line no-constant-condition
+    while (true) {
+      const started = await this.processTick();
+      if (!started && this.active.size === 0) break;
+      if (this.active.size > 0) {
+        await Promise.race([...this.active.values()].map((job) => job.done));
+      }
+    }
+  }
+
+  /**
+   * Claim and start due jobs up to the concurrency limits. Resolves to whether
+   * any started. Once stopped, only waits for a claim already in progress, so
+   * `drain()` after `stop()` also waits for a job claimed during the stop.
+   */
+  private processTick(): Promise<boolean> {
+    if (!this.running) return this.ticking ?? Promise.resolve(false);
+    if (!this.ticking) {
+      this.ticking = this.claimAvailable().finally(() => {
+        this.ticking = null;
+      });
+    }
+    return this.ticking;
+  }
+
+  private async claimAvailable(): Promise<boolean> {
+    await this.fireDueSchedules();
+    await this.releaseExpiredLocks();
+    await this.deleteExpiredCompletedJobs();
+
+    let started = false;
+    while (this.running && this.active.size < this.concurrency) {
+      const types = this.typesWithCapacity();
+      if (types.length === 0) break;
+      const job = await this.claimNext(types);
+      if (!job) break;
+
+      started = true;
+      const done = this.run(job).finally(() => {
+        this.active.delete(job.id);
+        // Start whatever the finished job was holding back.
+        void this.processTick().catch((err) => {
+          console.error("[PgJobQueue] Tick failed:", err);
+        });
+      });
+      this.active.set(job.id, { type: job.type, done });
+    }
+    return started;
+  }
+
+  /** Handled job types below their per-type concurrency limit. */
+  private typesWithCapacity(): string[] {
+    const runningByType = new Map<string, number>();
+    for (const { type } of this.active.values()) {
+      runningByType.set(type, (runningByType.get(type) ?? 0) + 1);
+    }
+    return [...this.handlers.entries()]
+      .filter(([type, { concurrency }]) => (runningByType.get(type) ?? 0) < concurrency)
+      .map(([type]) => type);
+  }
+
+  /**
+   * Enqueue the due occurrences of every schedule. The update only applies
+   * while `next_run_at` is still the value this worker read, and the insert
+   * only runs when it applied, so a worker that lost the race enqueues
+   * nothing.
+   */
+  private async fireDueSchedules(): Promise<void> {
+    const now = Date.now();
+    const due = await this.db.query(
+      `SELECT ${SCHEDULE_COLUMNS} FROM job_schedules WHERE next_run_at <= $1 ORDER BY next_run_at`,
+      [toIso(now)],
+    );
+
+    for (const schedule of (due.rows as ScheduleRow[]).map(toSchedule)) {
+      const { fire, nextRunAt } = dueOccurrences(schedule, now);
+      const options = schedule.job ?? {};
+      await this.db.query(
+        `WITH advanced AS (
+           UPDATE job_schedules
+           SET next_run_at = $3::timestamptz,
+               last_run_at = coalesce($4::timestamptz, last_run_at),
+               updated_at = now()
+           WHERE id = $1 AND next_run_at = $2::timestamptz
+           RETURNING id
+         )
+         INSERT INTO jobs (id, type, payload, max_attempts, run_at, retry_policy, serialization_key, scheduled_for)
+         SELECT occurrence.job_id, $5, $6::jsonb, $7, occurrence.at, $8::jsonb, $9, occurrence.at
+         FROM advanced, unnest($10::text[], $11::timestamptz[]) AS occurrence(job_id, at)
+         ON CONFLICT (id) DO NOTHING`,
+        [
+          schedule.id,
+          toIso(schedule.nextRunAt),
+          toIso(nextRunAt),
+          fire.length > 0 ? toIso(fire[fire.length - 1]!) : null,
+          schedule.type,
+          JSON.stringify(schedule.payload ?? null),
+          options.maxAttempts ?? 3,
+          JSON.stringify(resolveRetryPolicy(this.retryPolicy, options.retry)),
+          options.serializationKey ?? null,
+          fire.map((occurrence) => occurrenceJobId(schedule.id, occurrence)),
+          fire.map(toIso),
+        ],
+      );
+    }
+  }
+
+  /**
+   * Jobs whose lock has expired were abandoned by a crashed or stalled
+   * worker: count the attempt and make them claimable again, or fail them
+   * once they are out of attempts.
+   */
+  private async releaseExpiredLocks(): Promise<void> {
+    await this.db.query(
+      `UPDATE jobs
+       SET attempts = attempts + 1,
+           status = CASE WHEN attempts + 1 >= max_attempts THEN 'failed' ELSE 'pending' END,
+           last_error = 'Visibility timeout expired on worker ' || coalesce(locked_by, 'unknown'),
+           ${appendAttempt("'Visibility timeout expired on worker ' || coalesce(locked_by, 'unknown')", "locked_by")},
+           run_at = now(),
+           locked_by = NULL,
+           locked_until = NULL,
+           updated_at = now()
+       WHERE status = 'running' AND locked_until <= now()`,
+    );
+  }
+
+  /**
+   * Delete up to one batch of completed jobs older than `completedJobTtlMs`,
+   * at most once per sweep interval. Rows another worker is deleting are
+   * skipped rather than waited on.
+   */
+  private async deleteExpiredCompletedJobs(): Promise<void> {
+    const now = Date.now();
+    if (now - this.lastRetentionSweepAt < RETENTION_SWEEP_INTERVAL_MS) return;
+    this.lastRetentionSweepAt = now;
+
+    await this.db.query(
+      `DELETE FROM jobs WHERE id IN (
+         SELECT id FROM jobs
+         WHERE status = 'completed' AND updated_at < now() - $1 * interval '1 millisecond'
+         LIMIT $2
+         FOR UPDATE SKIP LOCKED
+       )`,
+      [this.completedJobTtlMs, RETENTION_BATCH_SIZE],
+    );
+  }
+
+  /**
+   * A job with a serialization key is only claimable while no other job with
+   * that key is running or was enqueued before it and is still pending. Rows
+   * being claimed by other workers are skipped rather than waited on, and
+   * paused types are never claimed.
+   */
+  private async claimNext(types: string[]): Promise<ClaimedJob | null> {
+    const result = await this.db.query(
+      `UPDATE jobs
+       SET status = 'running',
+           locked_by = $1,
+           locked_until = now() + $2 * interval '1 millisecond',
+           started_at = now(),
+           updated_at = now()
+       WHERE id = (
+         SELECT j.id FROM jobs j
+         WHERE j.status = 'pending' AND j.run_at <= now() AND j.type = ANY($3::text[])
+           AND NOT EXISTS (SELECT 1 FROM job_type_pauses p WHERE p.type = j.type)
+           AND (j.serialization_key IS NULL OR NOT EXISTS (
+             SELECT 1 FROM jobs other
+             WHERE other.serialization_key = j.serialization_key
+               AND other.id <> j.id
+               AND (other.status = 'running' OR (other.status = 'pending' AND other.seq < j.seq))
+           ))
+         ORDER BY j.run_at, j.seq
+         LIMIT 1
+         FOR UPDATE OF j SKIP LOCKED
+       )
+       RETURNING ${SELECT_COLUMNS}`,
+      [this.workerId, this.visibilityTimeoutMs, types],
+    );
+    const row = result.rows[0] as JobRow | undefined;
+    return row ? { ...toJob(row), retry: row.retry_policy } : null;
+  }
+
+  private async run(job: ClaimedJob): Promise<void> {
+    const { handler } = this.handlers.get(job.type)!;
+    try {
+      await handler(job);
+      await this.db.query(
+        `UPDATE jobs
+         SET status = 'completed',
+             ${appendAttempt("NULL", "$2")},
+             locked_by = NULL,
+             locked_until = NULL,
+             updated_at = now()
+         WHERE id = $1 AND locked_by = $2`,
+        [job.id, this.workerId],
+      );
+    } catch (err) {
+      const attempts = job.attempts + 1;
+      const exhausted = attempts >= job.maxAttempts;
+      // The locked_by guard leaves the job alone if its lock expired and
+      // another worker has claimed it in the meantime.
+      await this.db.query(
+        `UPDATE jobs
+         SET attempts = $3,
+             status = $4,
+             last_error = $5,
+             ${appendAttempt("$5", "$2")},
+             run_at = now() + $6 * interval '1 millisecond',
+             locked_by = NULL,
+             locked_until = NULL,
+             updated_at = now()
+         WHERE id = $1 AND locked_by = $2`,
+        [
+          job.id,
+          this.workerId,
+          attempts,
+          exhausted ? "failed" : "pending",
+          errorMessage(err),
+          retryDelay(job.retry ?? this.retryPolicy, attempts),
+        ],
+      );
+
+      if (exhausted) {
+        console.error(
+          `[PgJobQueue] Job ${job.id} of type "${job.type}" failed after ${attempts} attempts.`,
+          err,
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * Risk drift monitoring jobs.
+ *
+ * Every evaluation the risk service stores queues a `risk_drift_check` job
+ * that compares it with the wallet's previous evaluation, so evaluation
+ * requests do not wait on the check, and any suspensions it makes, and
+ * failed checks are retried.
+ */
+import type { Job, JobQueue } from './jobQueue.js';
+import type { RiskEvaluationService } from './RiskEvaluationService.js';
+import type { RiskDriftService } from './RiskDriftService.js';
+
+export const RISK_DRIFT_CHECK_JOB = 'risk_drift_check';
+
+export interface RiskDriftCheckJobPayload {
+  evaluationId: string;
+}
+
+/** Register the check handler on `queue` and queue a check for each evaluation `riskEvaluationService` stores. */
+export function registerRiskDriftMonitoring(
+  queue: JobQueue,
+  riskEvaluationService: RiskEvaluationService,
+  driftService: RiskDriftService,
+): void {
+  queue.registerHandler<RiskDriftCheckJobPayload>(RISK_DRIFT_CHECK_JOB, async (job: Job<RiskDriftCheckJobPayload>) => {
+    const evaluation = await riskEvaluationService.getRiskEvaluation(job.payload.evaluationId);
+    // Deleted once expired; there is nothing left to compare.
+    if (!evaluation) return;
+    await driftService.checkEvaluation(evaluation);
+  });
+
+  riskEvaluationService.onEvaluationSaved(async (evaluation) => {
+    await queue.enqueue<RiskDriftCheckJobPayload>(
+      RISK_DRIFT_CHECK_JOB,
+      { evaluationId: evaluation.id },
+      { id: `${RISK_DRIFT_CHECK_JOB}:${evaluation.id}` },
+    );
+  });
+}
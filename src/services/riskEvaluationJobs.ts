@@ -0,0 +1,108 @@
+/**
+ * Risk evaluation jobs.
+ *
+ * The `risk_evaluation_cleanup` schedule deletes evaluations past their
+ * `expiresAt` at a fixed interval. Deleting is idempotent, so occurrences
+ * missed during downtime collapse into one run.
+ *
+ * A `risk_recalibration` job re-evaluates every borrower with an active
+ * credit line under one risk model version. It enqueues a
+ * `risk_reevaluation` job per wallet, so each wallet is retried on its own
+ * and the queue's concurrency limits apply.
+ */
+import type { Job, JobQueue } from './jobQueue.js';
+import type { RiskEvaluationService } from './RiskEvaluationService.js';
+import type { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import { CreditLineStatus } from '../models/CreditLine.js';
+
+export const RISK_EVALUATION_CLEANUP_JOB = 'risk_evaluation_cleanup';
+export const RISK_RECALIBRATION_JOB = 'risk_recalibration';
+export const RISK_REEVALUATION_JOB = 'risk_reevaluation';
+
+export interface RiskRecalibrationJobPayload {
+  version: number;
+}
+
+export interface RiskReevaluationJobPayload {
+  walletAddress: string;
+  version: number;
+}
+
+const CREDIT_LINE_PAGE_SIZE = 500;
+
+export interface RiskEvaluationCleanupOptions {
+  /** Time between cleanups. Defaults to one hour. */
+  intervalMs?: number;
+}
+
+/** Register the cleanup handler and its schedule on `queue`. */
+export async function scheduleRiskEvaluationCleanup(
+  queue: JobQueue,
+  service: RiskEvaluationService,
+  options: RiskEvaluationCleanupOptions = {},
+): Promise<void> {
+  queue.registerHandler(RISK_EVALUATION_CLEANUP_JOB, async () => {
+    await service.cleanupExpiredEvaluations();
+  });
+
+  await queue.schedule({
+    id: RISK_EVALUATION_CLEANUP_JOB,
+    type: RISK_EVALUATION_CLEANUP_JOB,
+    payload: null,
+    intervalMs: options.intervalMs ?? 60 * 60 * 1000,
+    misfire: 'fire_once',
+  });
+}
+
+/** Register the recalibration and per-wallet re-evaluation handlers on `queue`. */
+export function registerRiskRecalibration(
+  queue: JobQueue,
+  service: RiskEvaluationService,
+  creditLineRepository: CreditLineRepository,
+): void {
+  queue.registerHandler<RiskRecalibrationJobPayload>(
+    RISK_RECALIBRATION_JOB,
+    async (job: Job<RiskRecalibrationJobPayload>) => {
+      const { version } = job.payload;
+      for (const walletAddress of await activeBorrowers(creditLineRepository)) {
+        // A later recalibration replaces a re-evaluation that has not started yet.
+        await queue.enqueue<RiskReevaluationJobPayload>(
+          RISK_REEVALUATION_JOB,
+          { walletAddress, version },
+          { uniqueKey: `${RISK_REEVALUATION_JOB}:${walletAddress}`, onDuplicate: 'replace' },
+        );
+      }
+    },
+  );
+
+  queue.registerHandler<RiskReevaluationJobPayload>(
+    RISK_REEVALUATION_JOB,
+    async (job: Job<RiskReevaluationJobPayload>) => {
+      await service.reevaluate(job.payload.walletAddress, job.payload.version);
+    },
+  );
+}
+
+/**
+ * Enqueue a recalibration under model `version` and return its job id. A
+ * recalibration for the same version that has not started yet is reused.
+ */
+export async function enqueueRiskRecalibration(queue: JobQueue, version: number): Promise<string> {
+  return await queue.enqueue<RiskRecalibrationJobPayload>(
+    RISK_RECALIBRATION_JOB,
+    { version },
+    { uniqueKey: `${RISK_RECALIBRATION_JOB}:${version}` },
+  );
+}
+
+/** Wallets with at least one active credit line, in first-seen order. */
+async function activeBorrowers(creditLineRepository: CreditLineRepository): Promise<string[]> {
+  const wallets = new Set<string>();
+  for (let offset = 0; ; offset += CREDIT_LINE_PAGE_SIZE) {
+    const page = await creditLineRepository.findAll(offset, CREDIT_LINE_PAGE_SIZE);
+    for (const line of page) {
+      if (line.status === CreditLineStatus.ACTIVE) wallets.add(line.walletAddress);
+    }
+    if (page.length < CREDIT_LINE_PAGE_SIZE) return [...wallets];
+  }
+}
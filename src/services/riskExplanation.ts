@@ -0,0 +1,99 @@
+/**
+ * Explanations of stored risk evaluations.
+ *
+ * A factor's contribution is the number of score points it added: its weight
+ * times how far its value fell short of 1, scaled to 100. Contributions sum
+ * to the risk score before rounding, so the largest ones are the main reasons
+ * a wallet's score is high and its suggested credit limit low.
+ */
+import type { RiskEvaluation, RiskFactor } from '../models/RiskEvaluation.js';
+import type { RiskModelVersion } from '../models/RiskModel.js';
+import { type RiskLevel, creditLimitForScore, riskLevelForScore } from './riskModel.js';
+import type { RiskFeature, RiskReason } from './riskScoring.js';
+
+/** How many reasons an explanation lists, as in an adverse-action notice. */
+export const MAX_RISK_REASONS = 3;
+
+export interface RiskFactorContribution extends RiskFactor {
+  contribution: number; // Score points the factor added
+  maxContribution: number; // Points it would add with a value of 0
+}
+
+export interface RiskThreshold {
+  riskLevel: Exclude<RiskLevel, 'low'>;
+  minScore: number;
+}
+
+export interface RiskReasonCode extends RiskReason {
+  factor: string;
+  contribution: number;
+}
+
+export interface RiskExplanation {
+  evaluationId: string;
+  walletAddress: string;
+  riskScore: number;
+  riskLevel: RiskLevel;
+  creditLimit: string;
+  maxCreditLimit: string; // The limit the model gives a score of 0
+  interestRateBps: number;
+  modelVersion: number;
+  evaluatedAt: Date;
+  thresholdsCrossed: RiskThreshold[]; // Band thresholds at or below the score, lowest first
+  factors: RiskFactorContribution[];
+  reasons: RiskReasonCode[]; // Largest contributions first, at most MAX_RISK_REASONS
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Used for factors the scoring pipeline no longer computes. */
+function fallbackReason(factor: RiskFactor): RiskReason {
+  return { code: factor.name.toUpperCase(), message: factor.description ?? factor.name };
+}
+
+/**
+ * Explain `evaluation` under the model version that produced it. `features`
+ * supply the reason codes; factors without a matching feature get a generic one.
+ */
+export function explainRiskEvaluation(
+  evaluation: RiskEvaluation,
+  model: RiskModelVersion,
+  features: readonly RiskFeature[],
+): RiskExplanation {
+  const factors = evaluation.factors.map((factor): RiskFactorContribution => ({
+    ...factor,
+    contribution: round2(100 * factor.weight * (1 - factor.value)),
+    maxContribution: round2(100 * factor.weight),
+  }));
+
+  const reasons = factors
+    .filter((factor) => factor.contribution > 0)
+    .sort((a, b) => b.contribution - a.contribution)
+    .slice(0, MAX_RISK_REASONS)
+    .map((factor): RiskReasonCode => {
+      const feature = features.find((candidate) => candidate.name === factor.name);
+      const reason = feature?.reason ?? fallbackReason(factor);
+      return { code: reason.code, message: reason.message, factor: factor.name, contribution: factor.contribution };
+    });
+
+  const { bands } = model.config;
+  const thresholds: RiskThreshold[] = [
+    { riskLevel: 'medium', minScore: bands.medium },
+    { riskLevel: 'high', minScore: bands.high },
+  ];
+
+  return {
+    evaluationId: evaluation.id,
+    walletAddress: evaluation.walletAddress,
+    riskScore: evaluation.riskScore,
+    riskLevel: riskLevelForScore(bands, evaluation.riskScore),
+    creditLimit: evaluation.creditLimit,
+    maxCreditLimit: creditLimitForScore(model.config, 0),
+    interestRateBps: evaluation.interestRateBps,
+    modelVersion: model.version,
+    evaluatedAt: evaluation.evaluatedAt,
+    thresholdsCrossed: thresholds.filter((threshold) => evaluation.riskScore >= threshold.minScore),
+    factors,
+    reasons,
+  };
+}
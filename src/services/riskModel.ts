@@ -0,0 +1,104 @@
+/**
+ * Risk model configurations.
+ *
+ * A model turns a risk score into terms: the weights the scoring pipeline
+ * combines features with, the suggested credit limit for each score, the
+ * interest rate, and the score bands behind the low / medium / high risk
+ * levels. Models are versioned; publishing a new version never changes
+ * evaluations already made.
+ */
+import type { RiskBands, RiskModelConfig } from '../models/RiskModel.js';
+import { addDecimal, compareDecimal, isDecimal, scaleDecimal, subtractDecimal } from '../utils/decimal.js';
+import { DEFAULT_RISK_WEIGHTS, type RiskFeature, validateRiskWeights } from './riskScoring.js';
+
+export type RiskLevel = 'low' | 'medium' | 'high';
+
+/** Version 1, which the database migration seeds with the same values. */
+export const DEFAULT_RISK_MODEL_CONFIG: RiskModelConfig = {
+  weights: { ...DEFAULT_RISK_WEIGHTS },
+  limitCurve: [
+    { score: 0, creditLimit: '1000' },
+    { score: 100, creditLimit: '0' },
+  ],
+  baseRateBps: 500,
+  riskPremiumBps: 500,
+  bands: { medium: 40, high: 70 },
+};
+
+/** Thrown when a model configuration is inconsistent, e.g. weights that do not sum to 1. */
+export class InvalidRiskModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRiskModelError';
+  }
+}
+
+export class RiskModelNotFoundError extends Error {
+  constructor(public readonly version: number) {
+    super(`Risk model version ${version} not found`);
+    this.name = 'RiskModelNotFoundError';
+  }
+}
+
+const isScore = (value: number) => Number.isInteger(value) && value >= 0 && value <= 100;
+
+/** Throws {@link InvalidRiskModelError} unless `config` can price every score from 0 to 100. */
+export function validateRiskModelConfig(config: RiskModelConfig, features: readonly RiskFeature[]): void {
+  try {
+    validateRiskWeights(features, config.weights);
+  } catch (err) {
+    throw new InvalidRiskModelError((err as Error).message);
+  }
+
+  const curve = config.limitCurve;
+  if (curve.length < 2 || curve[0]!.score !== 0 || curve[curve.length - 1]!.score !== 100) {
+    throw new InvalidRiskModelError('limitCurve must start at score 0 and end at score 100');
+  }
+  curve.forEach((point, i) => {
+    if (!isScore(point.score) || (i > 0 && point.score <= curve[i - 1]!.score)) {
+      throw new InvalidRiskModelError('limitCurve scores must be integers increasing from 0 to 100');
+    }
+    if (!isDecimal(point.creditLimit) || compareDecimal(point.creditLimit, '0') < 0) {
+      throw new InvalidRiskModelError(`limitCurve credit limit "${point.creditLimit}" must be a non-negative decimal`);
+    }
+  });
+
+  for (const [name, bps] of [['baseRateBps', config.baseRateBps], ['riskPremiumBps', config.riskPremiumBps]] as const) {
+    if (!Number.isInteger(bps) || bps < 0) {
+      throw new InvalidRiskModelError(`${name} must be a non-negative integer, got ${bps}`);
+    }
+  }
+
+  const { medium, high } = config.bands;
+  if (!isScore(medium) || !isScore(high) || medium > high) {
+    throw new InvalidRiskModelError('bands must be scores from 0 to 100 with medium no higher than high');
+  }
+}
+
+/** The suggested credit limit for `score`, interpolated linearly along the model's curve. */
+export function creditLimitForScore(config: RiskModelConfig, score: number): string {
+  const curve = config.limitCurve;
+  const upper = curve.findIndex((point) => point.score >= score);
+  if (upper === -1) return curve[curve.length - 1]!.creditLimit;
+  if (upper === 0) return curve[0]!.creditLimit;
+
+  const from = curve[upper - 1]!;
+  const to = curve[upper]!;
+  const change = scaleDecimal(
+    subtractDecimal(to.creditLimit, from.creditLimit),
+    String(score - from.score),
+    String(to.score - from.score),
+  );
+  return addDecimal(from.creditLimit, change);
+}
+
+/** The interest rate for `score`: the base rate plus the score's share of the risk premium. */
+export function interestRateForScore(config: RiskModelConfig, score: number): number {
+  return Math.round(config.baseRateBps + (config.riskPremiumBps * score) / 100);
+}
+
+export function riskLevelForScore(bands: RiskBands, score: number): RiskLevel {
+  if (score < bands.medium) return 'low';
+  if (score < bands.high) return 'medium';
+  return 'high';
+}
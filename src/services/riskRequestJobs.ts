@@ -0,0 +1,210 @@
+/**
+ * Asynchronous risk evaluation.
+ *
+ * `submitRiskRequest` stores a queued request and enqueues a `risk_request`
+ * job that evaluates the wallet and records the result on the request. The
+ * request is marked failed once the job runs out of attempts. When the
+ * request has a callback URL, a `risk_request_callback` job then POSTs the
+ * finished request to it; delivery is retried like any other job. Callback
+ * URLs must point at an allowlisted host that resolves to public addresses
+ * only; this is checked when the request is submitted and again before each
+ * delivery.
+ */
+import { createHmac } from 'crypto';
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+import type { Job, JobQueue } from './jobQueue.js';
+import type { RiskEvaluationService } from './RiskEvaluationService.js';
+import type { RiskRequestRepository } from '../repositories/interfaces/RiskRequestRepository.js';
+import { type CreateRiskRequest, type RiskRequest, RiskRequestStatus } from '../models/RiskRequest.js';
+
+export const RISK_REQUEST_JOB = 'risk_request';
+export const RISK_REQUEST_CALLBACK_JOB = 'risk_request_callback';
+
+/** Header carrying `sha256=<hex HMAC of the body>` when callbacks are signed. */
+export const RISK_CALLBACK_SIGNATURE_HEADER = 'X-Creditra-Signature';
+
+const CALLBACK_MAX_ATTEMPTS = 5;
+
+/** Loopback, private, link-local, shared, reserved and multicast ranges; IPv4 ranges also match IPv4-mapped IPv6. */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+export class CallbackUrlNotAllowedError extends Error {
+  constructor(
+    public readonly callbackUrl: string,
+    reason: string,
+  ) {
+    super(`callbackUrl ${reason}`);
+    this.name = 'CallbackUrlNotAllowedError';
+  }
+}
+
+/** Resolves a host name to every address it points at. */
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+const lookupAll: HostLookup = async (hostname) =>
+  (await lookup(hostname, { all: true })).map(({ address }) => address);
+
+export interface RiskRequestJobPayload {
+  requestId: string;
+}
+
+export interface RiskRequestOptions {
+  /** Secret callbacks are signed with; unsigned when unset. */
+  callbackSecret?: string;
+  /** How long a callback may take before it counts as failed. Defaults to 10 seconds. */
+  callbackTimeoutMs?: number;
+  /** Hosts callbacks may be sent to; `*.example.com` allows any subdomain. Callbacks are refused when empty. */
+  callbackAllowedHosts?: string[];
+  /** Defaults to a DNS lookup. */
+  lookup?: HostLookup;
+  /** Defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+function isAllowedHost(hostname: string, allowedHosts: readonly string[]): boolean {
+  return allowedHosts.some((allowed) =>
+    allowed.startsWith('*.') ? hostname.endsWith(allowed.slice(1)) : hostname === allowed,
+  );
+}
+
+/**
+ * Throws {@link CallbackUrlNotAllowedError} unless `callbackUrl`'s host is
+ * allowlisted and every address it resolves to is public.
+ */
+export async function checkCallbackUrl(
+  callbackUrl: string,
+  options: Pick<RiskRequestOptions, 'callbackAllowedHosts' | 'lookup'> = {},
+): Promise<void> {
+  const hostname = new URL(callbackUrl).hostname.toLowerCase();
+  if (!isAllowedHost(hostname, options.callbackAllowedHosts ?? [])) {
+    throw new CallbackUrlNotAllowedError(callbackUrl, `host "${hostname}" is not allowed`);
+  }
+
+  let addresses: string[];
+  try {
+    addresses = await (options.lookup ?? lookupAll)(hostname.replace(/^\[(.*)\]$/, '$1'));
+  } catch {
+    throw new CallbackUrlNotAllowedError(callbackUrl, `host "${hostname}" could not be resolved`);
+  }
+  const blocked = addresses.length === 0
+    ? hostname
+    : addresses.find((address) => NON_PUBLIC_ADDRESSES.check(address, isIP(address) === 6 ? 'ipv6' : 'ipv4'));
+  if (blocked !== undefined) {
+    throw new CallbackUrlNotAllowedError(callbackUrl, `host "${hostname}" does not resolve to a public address`);
+  }
+}
+
+/**
+ * Store a queued request and enqueue the job that evaluates it. Throws
+ * {@link CallbackUrlNotAllowedError} if the callback URL may not be called.
+ */
+export async function submitRiskRequest(
+  queue: JobQueue,
+  requests: RiskRequestRepository,
+  input: CreateRiskRequest,
+  options: Pick<RiskRequestOptions, 'callbackAllowedHosts' | 'lookup'> = {},
+): Promise<RiskRequest> {
+  if (input.callbackUrl !== undefined) {
+    await checkCallbackUrl(input.callbackUrl, options);
+  }
+  const request = await requests.create(input);
+  await queue.enqueue<RiskRequestJobPayload>(
+    RISK_REQUEST_JOB,
+    { requestId: request.id },
+    { id: `${RISK_REQUEST_JOB}:${request.id}` },
+  );
+  return request;
+}
+
+/** Register the evaluation and callback handlers on `queue`. */
+export function registerRiskRequests(
+  queue: JobQueue,
+  service: Pick<RiskEvaluationService, 'evaluateRisk'>,
+  requests: RiskRequestRepository,
+  options: RiskRequestOptions = {},
+): void {
+  const finish = async (request: RiskRequest) => {
+    if (request.callbackUrl === undefined) return;
+    await queue.enqueue<RiskRequestJobPayload>(
+      RISK_REQUEST_CALLBACK_JOB,
+      { requestId: request.id },
+      { id: `${RISK_REQUEST_CALLBACK_JOB}:${request.id}`, maxAttempts: CALLBACK_MAX_ATTEMPTS },
+    );
+  };
+
+  queue.registerHandler<RiskRequestJobPayload>(RISK_REQUEST_JOB, async (job: Job<RiskRequestJobPayload>) => {
+    const { requestId } = job.payload;
+    const request = await requests.findById(requestId);
+    if (!request || request.status === RiskRequestStatus.COMPLETED || request.status === RiskRequestStatus.FAILED) {
+      return;
+    }
+
+    await requests.update(requestId, { status: RiskRequestStatus.RUNNING });
+    try {
+      const result = await service.evaluateRisk({
+        walletAddress: request.walletAddress,
+        forceRefresh: request.forceRefresh,
+      });
+      const completed = await requests.update(requestId, {
+        status: RiskRequestStatus.COMPLETED,
+        result,
+        completedAt: new Date(),
+      });
+      if (completed) await finish(completed);
+    } catch (err) {
+      if (job.attempts + 1 < job.maxAttempts) {
+        await requests.update(requestId, { status: RiskRequestStatus.QUEUED });
+      } else {
+        const failed = await requests.update(requestId, {
+          status: RiskRequestStatus.FAILED,
+          error: err instanceof Error ? err.message : String(err),
+          completedAt: new Date(),
+        });
+        if (failed) await finish(failed);
+      }
+      throw err;
+    }
+  });
+
+  queue.registerHandler<RiskRequestJobPayload>(
+    RISK_REQUEST_CALLBACK_JOB,
+    async (job: Job<RiskRequestJobPayload>) => {
+      const request = await requests.findById(job.payload.requestId);
+      if (!request?.callbackUrl) return;
+      // The host may have been re-pointed since the request was submitted.
+      await checkCallbackUrl(request.callbackUrl, options);
+
+      const body = JSON.stringify(request);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (options.callbackSecret) {
+        const signature = createHmac('sha256', options.callbackSecret).update(body).digest('hex');
+        headers[RISK_CALLBACK_SIGNATURE_HEADER] = `sha256=${signature}`;
+      }
+
+      const response = await (options.fetch ?? fetch)(request.callbackUrl, {
+        method: 'POST',
+        headers,
+        body,
+        // A redirect could lead to a host that was never checked.
+        redirect: 'error',
+        signal: AbortSignal.timeout(options.callbackTimeoutMs ?? 10_000),
+      });
+      if (!response.ok) {
+        throw new Error(`Callback to ${request.callbackUrl} responded with HTTP ${response.status}`);
+      }
+    },
+  );
+}
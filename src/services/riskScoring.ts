@@ -0,0 +1,223 @@
+/**
+ * Risk scoring pipeline.
+ *
+ * Each feature turns what we know about a wallet — its on-chain history and
+ * its Creditra credit lines — into a value between 0 and 1, where 1 is the
+ * strongest sign of creditworthiness. The risk score is 100 × (1 − the
+ * weighted sum of the values): 0 is the lowest risk, 100 the highest.
+ */
+import type { RiskFactor } from '../models/RiskEvaluation.js';
+import { CreditLineStatus, type CreditLine } from '../models/CreditLine.js';
+import { TransactionStatus, TransactionType, type Transaction } from '../models/Transaction.js';
+import type { CreditLineRepository } from '../repositories/interfaces/CreditLineRepository.js';
+import type { TransactionRepository } from '../repositories/interfaces/TransactionRepository.js';
+import type { WalletDataProvider, WalletHistory } from './walletData.js';
+
+export interface RiskFeatureInput {
+  walletAddress: string;
+  /** On-chain history, or null if the account does not exist. */
+  history: WalletHistory | null;
+  /** The wallet's Creditra credit lines. */
+  creditLines: CreditLine[];
+  /** Transactions on those credit lines. */
+  transactions: Transaction[];
+  now: Date;
+}
+
+export interface RiskFeatureValue {
+  /** Between 0 and 1; 1 is the lowest risk. */
+  value: number;
+  /** The measurement behind `value` (e.g. account age in days), if there was one. */
+  input?: number;
+}
+
+/** Why a feature raised a wallet's risk score, in adverse-action style. */
+export interface RiskReason {
+  /** Stable code, e.g. `SHORT_ACCOUNT_HISTORY`. */
+  readonly code: string;
+  readonly message: string;
+}
+
+export interface RiskFeature {
+  readonly name: string;
+  readonly description: string;
+  /** Given to the borrower when this feature is among the main reasons for their score. */
+  readonly reason: RiskReason;
+  extract(input: RiskFeatureInput): RiskFeatureValue;
+}
+
+/** Weight of each feature, by name. Weights are non-negative and sum to 1. */
+export type RiskWeights = Readonly<Record<string, number>>;
+
+export interface RiskScore {
+  /** 0 (lowest risk) to 100 (highest). */
+  riskScore: number;
+  /** One entry per feature, in pipeline order. */
+  factors: RiskFactor[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Payments and balances older than this are ignored. */
+export const RISK_LOOKBACK_DAYS = 90;
+
+/** An account this old scores full marks for age. */
+const MATURE_ACCOUNT_DAYS = 730;
+
+/** Payment volume (in and out, over the lookback) that scores full marks; the scale is logarithmic. */
+const FULL_PAYMENT_VOLUME = 100_000;
+
+/** Neutral value for a wallet that has never borrowed from Creditra. */
+const NO_REPAYMENT_HISTORY = 0.5;
+
+const TRANSACTION_PAGE_SIZE = 500;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+const withinLookback = (at: Date, now: Date) => now.getTime() - at.getTime() <= RISK_LOOKBACK_DAYS * DAY_MS;
+
+export const accountAgeFeature: RiskFeature = {
+  name: 'wallet_age',
+  description: `Days since the account was created, full marks at ${MATURE_ACCOUNT_DAYS}`,
+  reason: { code: 'SHORT_ACCOUNT_HISTORY', message: 'The wallet has a short on-chain history' },
+  extract: ({ history, now }) => {
+    if (!history) return { value: 0 };
+    const days = Math.max(0, Math.floor((now.getTime() - history.createdAt.getTime()) / DAY_MS));
+    return { value: clamp(days / MATURE_ACCOUNT_DAYS), input: days };
+  },
+};
+
+export const paymentVolumeFeature: RiskFeature = {
+  name: 'payment_volume',
+  description: `Payments in and out over the last ${RISK_LOOKBACK_DAYS} days, on a log scale`,
+  reason: { code: 'LOW_PAYMENT_ACTIVITY', message: `The wallet made few payments in the last ${RISK_LOOKBACK_DAYS} days` },
+  extract: ({ history, now }) => {
+    if (!history) return { value: 0 };
+    const volume = history.payments
+      .filter((payment) => withinLookback(payment.at, now))
+      .reduce((sum, payment) => sum + Number(payment.amount), 0);
+    return { value: clamp(Math.log10(1 + volume) / Math.log10(1 + FULL_PAYMENT_VOLUME)), input: volume };
+  },
+};
+
+export const balanceStabilityFeature: RiskFeature = {
+  name: 'balance_stability',
+  description: `One minus the coefficient of variation of the balance over the last ${RISK_LOOKBACK_DAYS} days`,
+  reason: { code: 'UNSTABLE_BALANCE', message: `The wallet's balance varied widely over the last ${RISK_LOOKBACK_DAYS} days` },
+  extract: ({ history, now }) => {
+    const balances = (history?.balances ?? [])
+      .filter((snapshot) => withinLookback(snapshot.at, now))
+      .map((snapshot) => Number(snapshot.balance));
+    const mean = balances.reduce((sum, balance) => sum + balance, 0) / balances.length;
+    if (balances.length < 2 || !(mean > 0)) return { value: 0 };
+
+    const variance = balances.reduce((sum, balance) => sum + (balance - mean) ** 2, 0) / balances.length;
+    const variation = Math.sqrt(variance) / mean;
+    return { value: clamp(1 - variation), input: variation };
+  },
+};
+
+export const repaymentHistoryFeature: RiskFeature = {
+  name: 'repayment_history',
+  description: 'Share of amounts borrowed from Creditra that has been repaid; 0 after a default',
+  reason: {
+    code: 'LIMITED_REPAYMENT_HISTORY',
+    message: 'Little or no Creditra borrowing has been repaid yet, or a credit line defaulted',
+  },
+  extract: ({ creditLines, transactions }) => {
+    let borrowed = 0;
+    let repaid = 0;
+    for (const transaction of transactions) {
+      if (transaction.status !== TransactionStatus.CONFIRMED) continue;
+      if (transaction.type === TransactionType.BORROW) borrowed += Number(transaction.amount);
+      if (transaction.type === TransactionType.REPAY) repaid += Number(transaction.amount);
+    }
+    if (borrowed === 0) return { value: NO_REPAYMENT_HISTORY };
+
+    const ratio = repaid / borrowed;
+    const defaulted = creditLines.some((line) => line.status === CreditLineStatus.DEFAULTED);
+    return { value: defaulted ? 0 : clamp(ratio), input: ratio };
+  },
+};
+
+export const DEFAULT_RISK_FEATURES: readonly RiskFeature[] = [
+  accountAgeFeature,
+  paymentVolumeFeature,
+  balanceStabilityFeature,
+  repaymentHistoryFeature,
+];
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  wallet_age: 0.2,
+  payment_volume: 0.25,
+  balance_stability: 0.2,
+  repayment_history: 0.35,
+};
+
+/** Throws unless `weights` has a non-negative weight for every feature and nothing else, summing to 1. */
+export function validateRiskWeights(features: readonly RiskFeature[], weights: RiskWeights): void {
+  const names = features.map((feature) => feature.name);
+  const unknown = Object.keys(weights).filter((name) => !names.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Weights given for unknown risk features: ${unknown.join(', ')}`);
+  }
+  for (const name of names) {
+    const weight = weights[name];
+    if (weight === undefined || !Number.isFinite(weight) || weight < 0) {
+      throw new Error(`Risk feature "${name}" needs a non-negative weight, got ${weight}`);
+    }
+  }
+  const total = names.reduce((sum, name) => sum + weights[name]!, 0);
+  if (Math.abs(total - 1) > 1e-9) {
+    throw new Error(`Risk feature weights must sum to 1, got ${total}`);
+  }
+}
+
+const round4 = (value: number) => Math.round(value * 10_000) / 10_000;
+
+export class RiskScoringPipeline {
+  constructor(
+    private readonly walletData: WalletDataProvider,
+    private readonly creditLineRepository: CreditLineRepository,
+    private readonly transactionRepository: TransactionRepository,
+    readonly features: readonly RiskFeature[] = DEFAULT_RISK_FEATURES,
+    private readonly weights: RiskWeights = DEFAULT_RISK_WEIGHTS,
+  ) {
+    validateRiskWeights(features, weights);
+  }
+
+  /**
+   * Score `walletAddress` from its current data, combining the features with
+   * `weights` (e.g. a risk model's) instead of the pipeline's own when given.
+   */
+  async score(walletAddress: string, now: Date = new Date(), weights: RiskWeights = this.weights): Promise<RiskScore> {
+    const [history, creditLines, transactions] = await Promise.all([
+      this.walletData.getWalletHistory(walletAddress),
+      this.creditLineRepository.findByWalletAddress(walletAddress),
+      this.findAllTransactions(walletAddress),
+    ]);
+    const input: RiskFeatureInput = { walletAddress, history, creditLines, transactions, now };
+
+    const factors = this.features.map((feature): RiskFactor => {
+      const { value, input: measured } = feature.extract(input);
+      return {
+        name: feature.name,
+        value: round4(clamp(value)),
+        weight: weights[feature.name]!,
+        description: feature.description,
+        ...(measured === undefined ? {} : { input: round4(measured) }),
+      };
+    });
+    const weighted = factors.reduce((sum, factor) => sum + factor.value * factor.weight, 0);
+    return { riskScore: Math.round(100 * (1 - weighted)), factors };
+  }
+
+  private async findAllTransactions(walletAddress: string): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    for (let offset = 0; ; offset += TRANSACTION_PAGE_SIZE) {
+      const page = await this.transactionRepository.findByWalletAddress(walletAddress, offset, TRANSACTION_PAGE_SIZE);
+      transactions.push(...page);
+      if (page.length < TRANSACTION_PAGE_SIZE) return transactions;
+    }
+  }
+}
@@ -1,16 +1,20 @@
 
 import { isValidStellarPublicKey } from "../utils/stellarAddress.js";
+import { Container } from "../container/Container.js";
+import type { RiskEvaluationService } from "./RiskEvaluationService.js";
+import type { RiskBands } from "../models/RiskModel.js";
+import { DEFAULT_RISK_MODEL_CONFIG, riskLevelForScore, type RiskLevel } from "./riskModel.js";
 
 // ---------------------------------------------------------------------------
 // Types
 // ---------------------------------------------------------------------------
 
-export type RiskLevel = "low" | "medium" | "high";
+export type { RiskLevel };
 
 export interface RiskEvaluationResult {
     walletAddress: string;
-    score: number | null;
-    riskLevel: RiskLevel | null;
+    score: number;
+    riskLevel: RiskLevel;
     message: string;
     evaluatedAt: string;
 }
@@ -30,28 +34,35 @@ export class InvalidWalletAddressError extends Error {
     }
 }
 
-export function scoreToRiskLevel(score: number): RiskLevel {
-    if (score < 40) return "low";
-    if (score < 70) return "medium";
-    return "high";
+/** Bands default to the built-in model's; pass a published model's to use its bands. */
+export function scoreToRiskLevel(score: number, bands: RiskBands = DEFAULT_RISK_MODEL_CONFIG.bands): RiskLevel {
+    return riskLevelForScore(bands, score);
 }
 
 // ---------------------------------------------------------------------------
 // Public API
 // ---------------------------------------------------------------------------
 
+/**
+ * Score a wallet under the current risk model without storing an
+ * evaluation. Uses the application's risk evaluation service unless another
+ * scorer is passed.
+ */
 export async function evaluateWallet(
     walletAddress: string,
+    scorer: Pick<RiskEvaluationService, "scoreWallet"> = Container.getInstance().riskEvaluationService,
     ): Promise<RiskEvaluationResult> {
     if (!isValidWalletAddress(walletAddress)) {
         throw new InvalidWalletAddressError();
     }
 
+    const evaluatedAt = new Date();
+    const { riskScore, riskLevel } = await scorer.scoreWallet(walletAddress, evaluatedAt);
     return {
         walletAddress,
-        score: null,
-        riskLevel: null,
-        message: "Risk evaluation placeholder — engine not yet integrated.",
-        evaluatedAt: new Date().toISOString(),
+        score: riskScore,
+        riskLevel,
+        message: "Risk evaluation completed.",
+        evaluatedAt: evaluatedAt.toISOString(),
     };
 }
@@ -0,0 +1,67 @@
+/**
+ * On-chain wallet history used for risk scoring.
+ *
+ * `WalletDataProvider` is the seam between the scoring pipeline and wherever
+ * account data comes from (Horizon, an indexer, a warehouse). The fixture
+ * provider serves canned histories for local development and tests.
+ */
+import { WALLET_HISTORY_FIXTURES, type WalletHistoryFixture } from '../fixtures/walletHistories.js';
+
+export interface WalletPayment {
+  /** Decimal amount in the account's main asset. */
+  amount: string;
+  direction: 'in' | 'out';
+  at: Date;
+}
+
+export interface WalletBalanceSnapshot {
+  /** Decimal balance in the account's main asset. */
+  balance: string;
+  at: Date;
+}
+
+export interface WalletHistory {
+  walletAddress: string;
+  /** When the account was created on-chain. */
+  createdAt: Date;
+  /** Payments to and from the account, oldest first. */
+  payments: WalletPayment[];
+  /** Periodic balance snapshots (e.g. daily closing balance), oldest first. */
+  balances: WalletBalanceSnapshot[];
+}
+
+export interface WalletDataProvider {
+  /** The account's history, or null if the account does not exist on-chain. */
+  getWalletHistory(walletAddress: string): Promise<WalletHistory | null>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Serves histories from fixtures whose dates are offsets in days before
+ * each request, so the canned wallets do not age.
+ */
+export class FixtureWalletDataProvider implements WalletDataProvider {
+  constructor(
+    private readonly fixtures: Readonly<Record<string, WalletHistoryFixture>> = WALLET_HISTORY_FIXTURES,
+    private readonly now: () => Date = () => new Date(),
+  ) {}
+
+  async getWalletHistory(walletAddress: string): Promise<WalletHistory | null> {
+    const fixture = this.fixtures[walletAddress];
+    if (!fixture) return null;
+
+    const now = this.now().getTime();
+    const daysAgo = (days: number) => new Date(now - days * DAY_MS);
+    return {
+      walletAddress,
+      createdAt: daysAgo(fixture.accountAgeDays),
+      payments: fixture.payments
+        .map(({ daysAgo: days, ...payment }) => ({ ...payment, at: daysAgo(days) }))
+        .sort((a, b) => a.at.getTime() - b.at.getTime()),
+      balances: fixture.balances
+        .map(({ daysAgo: days, balance }) => ({ balance, at: daysAgo(days) }))
+        .sort((a, b) => a.at.getTime() - b.at.getTime()),
+    };
+  }
+}
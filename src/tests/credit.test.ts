@@ -21,6 +21,8 @@ beforeAll(async () => {
             walletAddress: raw.borrower,
             creditLimit: raw.creditLimit,
             availableCredit: raw.creditLimit,
+            accruedInterest: '0',
+            currency: 'USDC',
             interestRateBps: raw.interestRateBps,
             status: raw.status as CreditLineStatus,
             createdAt: new Date(raw.createdAt),
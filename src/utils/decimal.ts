@@ -0,0 +1,135 @@
+/**
+ * Fixed-point arithmetic on decimal strings.
+ *
+ * Amounts are stored as `NUMERIC(28,8)`, so every value is converted to an
+ * integer number of 1e-8 units (`bigint`) before doing math. This avoids the
+ * rounding drift of `parseFloat` while keeping the string representation used
+ * by the models. Results are always returned in canonical form: no trailing
+ * fractional zeros, no leading zeros and no negative zero.
+ */
+
+/** Fractional digits kept by the `NUMERIC(28,8)` columns. */
+export const DECIMAL_SCALE = 8;
+
+const DECIMAL_REGEX = /^-?\d+(\.\d+)?$/;
+
+export function isDecimal(value: string): boolean {
+  if (!DECIMAL_REGEX.test(value)) return false;
+  const fraction = value.split('.')[1] ?? '';
+  return fraction.length <= DECIMAL_SCALE;
+}
+
+/** Parse a decimal string of any precision into an integer and its scale. */
+function parse(value: string): { digits: bigint; scale: number } {
+  if (!DECIMAL_REGEX.test(value)) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+  const negative = value.startsWith('-');
+  const [whole, fraction = ''] = (negative ? value.slice(1) : value).split('.');
+  const digits = BigInt(whole + fraction);
+  return { digits: negative ? -digits : digits, scale: fraction.length };
+}
+
+function toUnits(value: string): bigint {
+  if (!isDecimal(value)) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+  const { digits, scale } = parse(value);
+  return digits * 10n ** BigInt(DECIMAL_SCALE - scale);
+}
+
+function format(digits: bigint, scale: number): string {
+  const negative = digits < 0n;
+  const abs = negative ? -digits : digits;
+  const divisor = 10n ** BigInt(scale);
+  const whole = (abs / divisor).toString();
+  const fraction = scale > 0
+    ? (abs % divisor).toString().padStart(scale, '0').replace(/0+$/, '')
+    : '';
+  const formatted = fraction ? `${whole}.${fraction}` : whole;
+  return negative ? `-${formatted}` : formatted;
+}
+
+function fromUnits(units: bigint): string {
+  return format(units, DECIMAL_SCALE);
+}
+
+/** Integer division rounding half to even ("banker's rounding"). */
+function divideHalfEven(numerator: bigint, denominator: bigint): bigint {
+  if (denominator === 0n) {
+    throw new Error('Division by zero');
+  }
+  if (denominator < 0n) {
+    numerator = -numerator;
+    denominator = -denominator;
+  }
+  const quotient = numerator / denominator;
+  const remainder = numerator - quotient * denominator;
+  const twiceRemainder = 2n * (remainder < 0n ? -remainder : remainder);
+  if (twiceRemainder > denominator || (twiceRemainder === denominator && quotient % 2n !== 0n)) {
+    return quotient + (numerator < 0n ? -1n : 1n);
+  }
+  return quotient;
+}
+
+/** Canonical form of a decimal string, e.g. `"0100.50"` → `"100.5"`. */
+export function normalizeDecimal(value: string): string {
+  return fromUnits(toUnits(value));
+}
+
+/**
+ * Convert a JavaScript number (e.g. a computed score) into a decimal string,
+ * rounded half-even to {@link DECIMAL_SCALE} places. Use only at the boundary
+ * where a float enters the money domain.
+ */
+export function decimalFromNumber(value: number): string {
+  if (!Number.isFinite(value)) {
+    throw new Error(`Invalid decimal amount: "${value}"`);
+  }
+  // toFixed(20) exposes enough digits of the binary value to round once.
+  return roundDecimal(value.toFixed(20));
+}
+
+export function addDecimal(a: string, b: string): string {
+  return fromUnits(toUnits(a) + toUnits(b));
+}
+
+export function subtractDecimal(a: string, b: string): string {
+  return fromUnits(toUnits(a) - toUnits(b));
+}
+
+/** Returns -1, 0 or 1 as `a` is less than, equal to or greater than `b`. */
+export function compareDecimal(a: string, b: string): -1 | 0 | 1 {
+  const diff = toUnits(a) - toUnits(b);
+  if (diff === 0n) return 0;
+  return diff < 0n ? -1 : 1;
+}
+
+export function minDecimal(a: string, b: string): string {
+  return compareDecimal(a, b) <= 0 ? a : b;
+}
+
+/**
+ * Multiply `value` by `numerator / denominator`, rounding the result half-even
+ * to {@link DECIMAL_SCALE} places. Only one rounding step is applied, so
+ * proportional adjustments (e.g. `limit * available / oldLimit`) stay exact
+ * wherever the true result is representable.
+ */
+export function scaleDecimal(value: string, numerator: string, denominator = '1'): string {
+  return fromUnits(divideHalfEven(toUnits(value) * toUnits(numerator), toUnits(denominator)));
+}
+
+/**
+ * Round a decimal string of any precision half-even to `places` fractional
+ * digits (at most {@link DECIMAL_SCALE}).
+ */
+export function roundDecimal(value: string, places = DECIMAL_SCALE): string {
+  if (!Number.isInteger(places) || places < 0 || places > DECIMAL_SCALE) {
+    throw new Error(`Decimal places must be an integer between 0 and ${DECIMAL_SCALE}, got ${places}`);
+  }
+  const { digits, scale } = parse(value);
+  if (scale <= places) {
+    return format(digits, scale);
+  }
+  return format(divideHalfEven(digits, 10n ** BigInt(scale - places)), places);
+}
@@ -0,0 +1,116 @@
+/**
+ * Currency-tagged decimal amounts.
+ *
+ * `Money` wraps the string arithmetic in `decimal.ts` so amounts in different
+ * currencies can never be mixed by accident. Instances are immutable and
+ * serialize to `{ amount, currency }` with `amount` in canonical decimal form,
+ * matching how amounts are stored in the `NUMERIC(28,8)` columns.
+ */
+import {
+  addDecimal,
+  compareDecimal,
+  normalizeDecimal,
+  roundDecimal,
+  scaleDecimal,
+  subtractDecimal,
+} from './decimal.js';
+
+/** Currency assigned to credit lines when none is specified. */
+export const DEFAULT_CURRENCY = 'USDC';
+
+export interface MoneyJSON {
+  amount: string;
+  currency: string;
+}
+
+export class CurrencyMismatchError extends Error {
+  constructor(
+    public readonly expected: string,
+    public readonly actual: string,
+  ) {
+    super(`Currency mismatch: expected ${expected}, got ${actual}.`);
+    this.name = 'CurrencyMismatchError';
+  }
+}
+
+export class Money {
+  private constructor(
+    public readonly amount: string,
+    public readonly currency: string,
+  ) {}
+
+  /** Throws on malformed amounts or more than 8 decimal places. */
+  static of(amount: string, currency: string = DEFAULT_CURRENCY): Money {
+    if (!currency) {
+      throw new Error('Currency is required');
+    }
+    return new Money(normalizeDecimal(amount), currency);
+  }
+
+  static zero(currency: string = DEFAULT_CURRENCY): Money {
+    return new Money('0', currency);
+  }
+
+  static fromJSON(json: MoneyJSON): Money {
+    return Money.of(json.amount, json.currency);
+  }
+
+  add(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(addDecimal(this.amount, other.amount), this.currency);
+  }
+
+  subtract(other: Money): Money {
+    this.assertSameCurrency(other);
+    return new Money(subtractDecimal(this.amount, other.amount), this.currency);
+  }
+
+  /** Multiply by `numerator / denominator`, rounding half-even to 8 places. */
+  scale(numerator: string, denominator = '1'): Money {
+    return new Money(scaleDecimal(this.amount, numerator, denominator), this.currency);
+  }
+
+  /** Round half-even to `places` fractional digits. */
+  round(places: number): Money {
+    return new Money(roundDecimal(this.amount, places), this.currency);
+  }
+
+  compare(other: Money): -1 | 0 | 1 {
+    this.assertSameCurrency(other);
+    return compareDecimal(this.amount, other.amount);
+  }
+
+  min(other: Money): Money {
+    return this.compare(other) <= 0 ? this : other;
+  }
+
+  equals(other: Money): boolean {
+    return this.currency === other.currency && this.amount === other.amount;
+  }
+
+  isZero(): boolean {
+    return this.amount === '0';
+  }
+
+  isNegative(): boolean {
+    return this.amount.startsWith('-');
+  }
+
+  isPositive(): boolean {
+    return !this.isZero() && !this.isNegative();
+  }
+
+  toJSON(): MoneyJSON {
+    return { amount: this.amount, currency: this.currency };
+  }
+
+  toString(): string {
+    return `${this.amount} ${this.currency}`;
+  }
+
+  private assertSameCurrency(other: Money): void {
+    if (other.currency !== this.currency) {
+      throw new CurrencyMismatchError(this.currency, other.currency);
+    }
+  }
+}
@@ -1,82 +1,121 @@
 import request from 'supertest';
 import express from 'express';
 import { creditRouter } from '../src/routes/credit.js';
-import { creditLines } from '../src/models/creditLineStore.js';
+import { Container } from '../src/container/Container.js';
+import { InMemoryCreditLineRepository } from '../src/repositories/memory/InMemoryCreditLineRepository.js';
+import { InMemoryTransactionRepository } from '../src/repositories/memory/InMemoryTransactionRepository.js';
+import { CreditLineStatus } from '../src/models/CreditLine.js';
 
 const app = express();
 app.use(express.json());
 app.use('/api/credit', creditRouter);
 
+const container = Container.getInstance();
+
 describe('POST /api/credit/lines/:id/draw', () => {
-     beforeEach(() => {
-          creditLines[0].utilized = 0;
-          creditLines[0].status = 'Active';
+     let lineId: string;
+
+     beforeEach(async () => {
+          const creditLineRepository = new InMemoryCreditLineRepository();
+          container.setRepositories({
+               creditLineRepository,
+               transactionRepository: new InMemoryTransactionRepository(creditLineRepository),
+          });
+          const line = await container.creditLineService.createCreditLine({
+               walletAddress: 'wallet-1',
+               creditLimit: '1000',
+               interestRateBps: 500,
+          });
+          lineId = line.id;
+     });
+
+     it('should draw successfully and record a borrow transaction', async () => {
+          const res = await request(app)
+               .post(`/api/credit/lines/${lineId}/draw`)
+               .send({ walletAddress: 'wallet-1', amount: '200.1' });
+
+          expect(res.status).toBe(200);
+          expect(res.body.data.creditLine.availableCredit).toBe('799.9');
+          expect(res.body.data.transaction).toMatchObject({
+               creditLineId: lineId,
+               walletAddress: 'wallet-1',
+               amount: '200.1',
+               type: 'borrow',
+          });
+
+          const transactions = await container.transactionRepository.findByCreditLineId(lineId);
+          expect(transactions).toHaveLength(1);
      });
 
-     it('should draw successfully', async () => {
+     it('should draw lines created through POST /lines', async () => {
+          const created = await request(app)
+               .post('/api/credit/lines')
+               .send({ walletAddress: 'wallet-2', requestedLimit: '500' });
+
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
-               .send({ borrowerId: 'user-1', amount: 200 });
+               .post(`/api/credit/lines/${created.body.id}/draw`)
+               .send({ walletAddress: 'wallet-2', amount: '500' });
 
           expect(res.status).toBe(200);
-          expect(res.body.creditLine.utilized).toBe(200);
+          expect(res.body.data.creditLine.availableCredit).toBe('0');
      });
 
      it('should reject over-limit draw', async () => {
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
-               .send({ borrowerId: 'user-1', amount: 2000 });
+               .post(`/api/credit/lines/${lineId}/draw`)
+               .send({ walletAddress: 'wallet-1', amount: '1000.00000001' });
 
           expect(res.status).toBe(400);
+          expect(res.body.error).toBe('Draw of 1000.00000001 exceeds available credit of 1000.');
      });
 
      it('should reject wrong borrower', async () => {
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
-               .send({ borrowerId: 'hacker', amount: 100 });
+               .post(`/api/credit/lines/${lineId}/draw`)
+               .send({ walletAddress: 'hacker', amount: '100' });
 
           expect(res.status).toBe(403);
      });
 
      it('should reject inactive credit line', async () => {
-          creditLines[0].status = 'Closed';
+          await container.creditLineRepository.update(lineId, { status: CreditLineStatus.CLOSED });
 
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
-               .send({ borrowerId: 'user-1', amount: 100 });
+               .post(`/api/credit/lines/${lineId}/draw`)
+               .send({ walletAddress: 'wallet-1', amount: '100' });
 
-          expect(res.status).toBe(400);
+          expect(res.status).toBe(409);
      });
 
      it('should return 404 if credit line not found', async () => {
           const res = await request(app)
                .post('/api/credit/lines/unknown/draw')
-               .send({ borrowerId: 'user-1', amount: 100 });
+               .send({ walletAddress: 'wallet-1', amount: '100' });
 
           expect(res.status).toBe(404);
      });
 
      it('should reject invalid amount', async () => {
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
-               .send({ borrowerId: 'user-1', amount: -50 });
+               .post(`/api/credit/lines/${lineId}/draw`)
+               .send({ walletAddress: 'wallet-1', amount: '-50' });
 
           expect(res.status).toBe(400);
      });
 
      it('should reject zero amount', async () => {
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
-               .send({ borrowerId: 'user-1', amount: 0 });
+               .post(`/api/credit/lines/${lineId}/draw`)
+               .send({ walletAddress: 'wallet-1', amount: '0' });
 
           expect(res.status).toBe(400);
      });
 
      it('should fail if body missing', async () => {
           const res = await request(app)
-               .post('/api/credit/lines/line-1/draw')
+               .post(`/api/credit/lines/${lineId}/draw`)
                .send({});
 
-          expect(res.status).toBe(403);
+          expect(res.status).toBe(400);
      });
-});
\ No newline at end of file
+});
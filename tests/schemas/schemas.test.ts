@@ -1,6 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import {
   riskEvaluateSchema,
+  riskEvaluateBatchSchema,
+  RISK_EVALUATE_BATCH_MAX_WALLETS,
 } from '../../src/schemas/risk.schema.js';
 import {
   createCreditLineSchema,
@@ -36,6 +38,56 @@ describe('riskEvaluateSchema', () => {
     const result = riskEvaluateSchema.safeParse({ walletAddress: 123 });
     expect(result.success).toBe(false);
   });
+
+  it('accepts an async request with an https callbackUrl', () => {
+    const result = riskEvaluateSchema.safeParse({
+      walletAddress: 'GABCDEF',
+      async: true,
+      callbackUrl: 'https://example.com/hook',
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects callbackUrl without async', () => {
+    const result = riskEvaluateSchema.safeParse({ walletAddress: 'GABCDEF', callbackUrl: 'https://example.com/hook' });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects a callbackUrl that is not http or https', () => {
+    const result = riskEvaluateSchema.safeParse({
+      walletAddress: 'GABCDEF',
+      async: true,
+      callbackUrl: 'file:///etc/passwd',
+    });
+    expect(result.success).toBe(false);
+  });
+});
+
+/* ------------------------------------------------------------------ */
+/*  riskEvaluateBatchSchema                                            */
+/* ------------------------------------------------------------------ */
+describe('riskEvaluateBatchSchema', () => {
+  it('accepts a list of addresses, leaving their format to the evaluation', () => {
+    const result = riskEvaluateBatchSchema.safeParse({ walletAddresses: ['GABCDEF', 'not-a-wallet'], forceRefresh: true });
+    expect(result.success).toBe(true);
+  });
+
+  it('rejects an empty list', () => {
+    const result = riskEvaluateBatchSchema.safeParse({ walletAddresses: [] });
+    expect(result.success).toBe(false);
+  });
+
+  it(`rejects more than ${RISK_EVALUATE_BATCH_MAX_WALLETS} addresses`, () => {
+    const result = riskEvaluateBatchSchema.safeParse({
+      walletAddresses: Array(RISK_EVALUATE_BATCH_MAX_WALLETS + 1).fill('GABCDEF'),
+    });
+    expect(result.success).toBe(false);
+  });
+
+  it('rejects non-string addresses', () => {
+    const result = riskEvaluateBatchSchema.safeParse({ walletAddresses: [123] });
+    expect(result.success).toBe(false);
+  });
 });
 
 /* ------------------------------------------------------------------ */
@@ -90,27 +142,32 @@ describe('createCreditLineSchema', () => {
 /* ------------------------------------------------------------------ */
 describe('drawSchema', () => {
   it('accepts a valid amount', () => {
-    const result = drawSchema.safeParse({ amount: '500' });
+    const result = drawSchema.safeParse({ walletAddress: 'GABCDEF', amount: '500' });
     expect(result.success).toBe(true);
   });
 
   it('accepts a decimal amount', () => {
-    const result = drawSchema.safeParse({ amount: '500.25' });
+    const result = drawSchema.safeParse({ walletAddress: 'GABCDEF', amount: '500.25' });
     expect(result.success).toBe(true);
   });
 
+  it('rejects missing walletAddress', () => {
+    const result = drawSchema.safeParse({ amount: '500' });
+    expect(result.success).toBe(false);
+  });
+
   it('rejects missing amount', () => {
-    const result = drawSchema.safeParse({});
+    const result = drawSchema.safeParse({ walletAddress: 'GABCDEF' });
     expect(result.success).toBe(false);
   });
 
   it('rejects non-numeric amount', () => {
-    const result = drawSchema.safeParse({ amount: 'abc' });
+    const result = drawSchema.safeParse({ walletAddress: 'GABCDEF', amount: 'abc' });
     expect(result.success).toBe(false);
   });
 
   it('rejects numeric (non-string) amount', () => {
-    const result = drawSchema.safeParse({ amount: 500 });
+    const result = drawSchema.safeParse({ walletAddress: 'GABCDEF', amount: 500 });
     expect(result.success).toBe(false);
   });
 });